@@ -0,0 +1,98 @@
+import { supabase } from '../../src/lib/supabase';
+import { oauthService } from '../../src/services/oauth';
+import { OAUTH_CONFIG } from '../../src/config/constants';
+
+interface OAuthBeginBody {
+  platform?: string;
+  workspaceId?: string;
+  redirectUrl?: string;
+}
+
+function jsonResponse(status: number, body: Record<string, unknown>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * POST /api/auth/oauth-begin
+ *
+ * Starts connecting a platform account to a workspace. Expects the user's
+ * Supabase access token as a bearer token and `{ platform, workspaceId,
+ * redirectUrl? }`; answers `{ authUrl, state }`, where `authUrl` is the
+ * provider page to send the user to. The provider then calls
+ * /api/auth/oauth-callback/<platform>.
+ *
+ * The response also sets an HttpOnly cookie binding the state to this
+ * browser; the callback rejects the state without it, so call this with
+ * `credentials: 'same-origin'` from the page that will follow `authUrl`.
+ */
+export async function handleOAuthBegin(request: Request): Promise<Response> {
+  if (request.method !== 'POST') {
+    return jsonResponse(405, { error: 'method_not_allowed' });
+  }
+
+  if (!supabase) {
+    return jsonResponse(500, { error: 'internal_error', description: 'Supabase not configured' });
+  }
+
+  try {
+    const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    const { data: auth } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+    if (!auth.user) {
+      return jsonResponse(401, { error: 'unauthorized', description: 'A valid access token is required' });
+    }
+
+    const body = await request.json().catch(() => ({})) as OAuthBeginBody;
+    if (!body.platform || !body.workspaceId) {
+      return jsonResponse(400, { error: 'invalid_request', description: 'platform and workspaceId are required' });
+    }
+
+    const origin = new URL(request.url).origin;
+    const redirectUrl = new URL(body.redirectUrl ?? '/', origin);
+    if (redirectUrl.origin !== origin) {
+      return jsonResponse(400, { error: 'invalid_request', description: 'redirectUrl must be on this site' });
+    }
+
+    const { data: membership } = await supabase
+      .from('workspace_members')
+      .select('role')
+      .eq('workspace_id', body.workspaceId)
+      .eq('user_id', auth.user.id)
+      .maybeSingle();
+
+    if (!membership || !OAUTH_CONFIG.CONNECT_ROLES.includes(membership.role)) {
+      return jsonResponse(403, { error: 'forbidden', description: 'Not allowed to connect accounts to this workspace' });
+    }
+
+    const { authUrl, state, binding, error } = await oauthService.beginAuthorization({
+      userId: auth.user.id,
+      workspaceId: body.workspaceId,
+      platform: body.platform,
+      redirectUrl: redirectUrl.toString(),
+      callbackUrl: new URL(`/api/auth/oauth-callback/${body.platform}`, origin).toString()
+    });
+
+    if (error) {
+      return jsonResponse(400, { error: 'authorization_failed', description: error.message });
+    }
+
+    const cookie = [
+      `${OAUTH_CONFIG.BINDING_COOKIE_PREFIX}${body.platform}=${binding}`,
+      `Path=/api/auth/oauth-callback/${body.platform}`,
+      `Max-Age=${Math.floor(OAUTH_CONFIG.STATE_TTL_MS / 1000)}`,
+      'HttpOnly',
+      // Lax still sends it on the provider's top-level redirect back to us.
+      'SameSite=Lax',
+      ...(origin.startsWith('https:') ? ['Secure'] : [])
+    ].join('; ');
+
+    const response = jsonResponse(200, { authUrl, state });
+    response.headers.append('Set-Cookie', cookie);
+    return response;
+  } catch (error) {
+    console.error('OAuth begin error:', error);
+    return jsonResponse(500, { error: 'internal_error', description: (error as Error).message });
+  }
+}
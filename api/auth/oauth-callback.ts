@@ -1,18 +1,31 @@
+import { oauthService } from '../../src/services/oauth';
+import { OAUTH_CONFIG } from '../../src/config/constants';
+
 interface OAuthCallbackRequest {
   code: string;
   state: string;
   error?: string;
   error_description?: string;
+  /** The request's Cookie header, which carries the binding set by oauth-begin. */
+  cookie?: string | null;
 }
 
-interface OAuthState {
-  userId: string;
-  connectorId: string;
-  redirectUrl: string;
-  timestamp: number;
-  nonce: string;
+function readCookie(header: string | null | undefined, name: string): string | undefined {
+  for (const part of (header ?? '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return value.join('=');
+  }
+  return undefined;
 }
 
+/**
+ * GET /api/auth/oauth-callback/<provider>
+ *
+ * The provider's redirect after the user approved (or denied) access; see
+ * oauth-begin. On success the user is sent back to the `redirectUrl` given
+ * when the flow started, with `connected=<provider>` appended. The state is
+ * only accepted from the browser that called oauth-begin.
+ */
 export async function handleOAuthCallback(
   request: OAuthCallbackRequest,
   provider: string
@@ -44,51 +57,50 @@ export async function handleOAuthCallback(
       );
     }
 
-    const state = validateAndDecodeState(request.state);
+    const bindingCookie = `${OAUTH_CONFIG.BINDING_COOKIE_PREFIX}${provider}`;
+    const { result, error } = await oauthService.completeAuthorization({
+      platform: provider,
+      code: request.code,
+      state: request.state,
+      binding: readCookie(request.cookie, bindingCookie)
+    });
 
-    if (!state) {
+    if (error) {
       return new Response(
         JSON.stringify({
-          error: 'invalid_state',
-          description: 'Invalid or expired state parameter'
+          error: 'token_exchange_failed',
+          description: error.message
         }),
         {
-          status: 400,
+          status: 502,
           headers: { 'Content-Type': 'application/json' }
         }
       );
     }
 
-    const tokens = await exchangeCodeForTokens(provider, request.code, state);
-
-    if (!tokens) {
+    if (!result) {
       return new Response(
         JSON.stringify({
-          error: 'token_exchange_failed',
-          description: 'Failed to exchange authorization code for tokens'
+          error: 'invalid_state',
+          description: 'Invalid, expired or already used state parameter'
         }),
         {
-          status: 500,
+          status: 400,
           headers: { 'Content-Type': 'application/json' }
         }
       );
     }
 
-    await storeConnectorCredentials(state.userId, state.connectorId, tokens);
+    const location = new URL(result.redirectUrl);
+    location.searchParams.set('connected', provider);
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        message: 'Successfully connected to ' + provider
-      }),
-      {
-        status: 200,
-        headers: {
-          'Content-Type': 'application/json',
-          'Location': state.redirectUrl
-        }
+    return new Response(null, {
+      status: 302,
+      headers: {
+        'Location': location.toString(),
+        'Set-Cookie': `${bindingCookie}=; Path=/api/auth/oauth-callback/${provider}; Max-Age=0; HttpOnly; SameSite=Lax`
       }
-    );
+    });
   } catch (error) {
     console.error('OAuth callback error:', error);
 
@@ -104,63 +116,3 @@ export async function handleOAuthCallback(
     );
   }
 }
-
-function validateAndDecodeState(encodedState: string): OAuthState | null {
-  try {
-    const decoded = Buffer.from(encodedState, 'base64').toString('utf-8');
-    const state: OAuthState = JSON.parse(decoded);
-
-    const now = Date.now();
-    const stateAge = now - state.timestamp;
-    const maxAge = 10 * 60 * 1000;
-
-    if (stateAge > maxAge) {
-      console.error('State parameter expired');
-      return null;
-    }
-
-    return state;
-  } catch (error) {
-    console.error('Failed to decode state:', error);
-    return null;
-  }
-}
-
-interface TokenResponse {
-  access_token: string;
-  refresh_token?: string;
-  expires_in?: number;
-  token_type: string;
-}
-
-async function exchangeCodeForTokens(
-  _provider: string,
-  _code: string,
-  _state: OAuthState
-): Promise<TokenResponse> {
-  throw new Error('exchangeCodeForTokens must be implemented per provider');
-}
-
-async function storeConnectorCredentials(
-  _userId: string,
-  _connectorId: string,
-  _tokens: TokenResponse
-): Promise<void> {
-  throw new Error('storeConnectorCredentials must be implemented');
-}
-
-export function generateOAuthState(
-  userId: string,
-  connectorId: string,
-  redirectUrl: string
-): string {
-  const state: OAuthState = {
-    userId,
-    connectorId,
-    redirectUrl,
-    timestamp: Date.now(),
-    nonce: Math.random().toString(36).substring(2, 15)
-  };
-
-  return Buffer.from(JSON.stringify(state)).toString('base64');
-}
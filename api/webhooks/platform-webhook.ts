@@ -1,46 +1,59 @@
-interface WebhookData {
-  type?: string;
-  event?: string;
-  [key: string]: unknown;
-}
-
-interface PlatformWebhookEvent {
-  platform: string;
-  eventType: string;
-  data: WebhookData;
-  timestamp: number;
-}
-
+import { AppError } from '../../src/utils/errors';
+import {
+  webhookService,
+  normalizeWebhook,
+  platformEventIngestionService,
+  VerifiedWebhook
+} from '../../src/services/webhooks';
+
+/**
+ * /api/webhooks/<platform>
+ *
+ * GET answers the provider's subscription handshake; POST receives events.
+ * The signature is checked over the raw body before it is parsed, stale
+ * deliveries are rejected and redelivered events are acknowledged without
+ * being processed again.
+ */
 export async function handlePlatformWebhook(
   request: Request,
   platform: string
 ): Promise<Response> {
   try {
-    const body = await request.json() as WebhookData;
+    if (!webhookService.supports(platform)) {
+      return new Response(
+        JSON.stringify({ error: `Unsupported platform: ${platform}` }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    if (request.method === 'GET') {
+      const challenge = webhookService.handshake(platform, new URL(request.url).searchParams);
+
+      return challenge
+        ? new Response(challenge, { status: 200, headers: { 'Content-Type': 'text/plain' } })
+        : new Response(null, { status: 403 });
+    }
 
-    const isValid = await verifyWebhookSignature(request, body, platform);
+    const rawBody = await request.text();
+    const { event, error } = await webhookService.verify(platform, request.headers, rawBody);
 
-    if (!isValid) {
+    if (error || !event) {
       return new Response(
-        JSON.stringify({ error: 'Invalid webhook signature' }),
+        JSON.stringify({ error: error?.message ?? 'Invalid webhook signature' }),
         {
-          status: 401,
+          status: error instanceof AppError ? error.statusCode : 401,
           headers: { 'Content-Type': 'application/json' }
         }
       );
     }
 
-    const event: PlatformWebhookEvent = {
-      platform,
-      eventType: body.type || body.event,
-      data: body,
-      timestamp: Date.now()
-    };
-
-    await processPlatformEvent(event);
+    const { duplicate } = await webhookService.process(event, processPlatformEvent);
 
     return new Response(
-      JSON.stringify({ received: true }),
+      JSON.stringify({ received: true, duplicate }),
       {
         status: 200,
         headers: { 'Content-Type': 'application/json' }
@@ -59,43 +72,15 @@ export async function handlePlatformWebhook(
   }
 }
 
-async function verifyWebhookSignature(
-  _request: Request,
-  _body: WebhookData,
-  platform: string
-): Promise<boolean> {
-  throw new Error(`Webhook verification for ${platform} must be implemented`);
-}
-
-async function processPlatformEvent(event: PlatformWebhookEvent): Promise<void> {
-  console.log(`Processing ${event.platform} event: ${event.eventType}`);
-
-  switch (event.platform) {
-    case 'youtube':
-      await handleYouTubeEvent(event);
-      break;
-
-    case 'instagram':
-      await handleInstagramEvent(event);
-      break;
-
-    case 'tiktok':
-      await handleTikTokEvent(event);
-      break;
+async function processPlatformEvent(webhook: VerifiedWebhook): Promise<void> {
+  const events = normalizeWebhook(webhook);
 
-    default:
-      console.log(`Unhandled platform: ${event.platform}`);
+  if (events.length === 0) {
+    console.log(`Ignoring ${webhook.platform} event: ${webhook.eventType}`);
+    return;
   }
-}
-
-async function handleYouTubeEvent(event: PlatformWebhookEvent): Promise<void> {
-  console.log('YouTube event:', event.eventType);
-}
 
-async function handleInstagramEvent(event: PlatformWebhookEvent): Promise<void> {
-  console.log('Instagram event:', event.eventType);
-}
-
-async function handleTikTokEvent(event: PlatformWebhookEvent): Promise<void> {
-  console.log('TikTok event:', event.eventType);
+  for (const event of events) {
+    await platformEventIngestionService.apply(event);
+  }
 }
@@ -0,0 +1,142 @@
+import { supabase } from '../../src/lib/supabase';
+import { AppError } from '../../src/utils/errors';
+import { OUTBOUND_WEBHOOK_CONFIG } from '../../src/config/constants';
+import { outboundWebhookService, WebhookDeliveryStatus } from '../../src/services/webhooks';
+
+interface SubscriptionBody {
+  url?: string;
+  description?: string | null;
+  events?: string[];
+  isActive?: boolean;
+}
+
+function jsonResponse(status: number, body: Record<string, unknown>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+function errorResponse(error: Error): Response {
+  const status = error instanceof AppError ? error.statusCode : 500;
+  const code = status === 404 ? 'not_found' : status >= 500 ? 'internal_error' : 'invalid_request';
+  return jsonResponse(status, { error: code, description: error.message });
+}
+
+/**
+ * /api/webhooks/subscriptions
+ *
+ * Manages a workspace's outbound webhooks. Expects the user's Supabase
+ * access token as a bearer token and `?workspaceId=`; only workspace owners
+ * and admins may call it.
+ *
+ *   GET    /                             list endpoints
+ *   POST   /                             { url, events?, description? } -> { endpoint, secret }
+ *   PATCH  /<id>                         { url?, events?, description?, isActive? }
+ *   DELETE /<id>
+ *   POST   /<id>/rotate-secret           -> { secret }
+ *   GET    /deliveries                   ?endpointId=&status=&limit= -> delivery log
+ *   POST   /deliveries/<id>/redeliver    -> { delivery }
+ *
+ * Secrets are only returned when created or rotated.
+ */
+export async function handleWebhookSubscriptions(request: Request): Promise<Response> {
+  if (!supabase) {
+    return jsonResponse(500, { error: 'internal_error', description: 'Supabase not configured' });
+  }
+
+  try {
+    const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    const { data: auth } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+    if (!auth.user) {
+      return jsonResponse(401, { error: 'unauthorized', description: 'A valid access token is required' });
+    }
+
+    const url = new URL(request.url);
+    const workspaceId = url.searchParams.get('workspaceId');
+    if (!workspaceId) {
+      return jsonResponse(400, { error: 'invalid_request', description: 'workspaceId is required' });
+    }
+
+    const { data: membership } = await supabase
+      .from('workspace_members')
+      .select('role')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', auth.user.id)
+      .maybeSingle();
+
+    if (!membership || !OUTBOUND_WEBHOOK_CONFIG.MANAGE_ROLES.includes(membership.role)) {
+      return jsonResponse(403, { error: 'forbidden', description: 'Not allowed to manage webhooks of this workspace' });
+    }
+
+    const path = url.pathname.replace(/^.*\/api\/webhooks\/subscriptions\/?/, '').split('/').filter(Boolean);
+    const method = request.method;
+
+    if (path[0] === 'deliveries') {
+      if (method === 'GET' && path.length === 1) {
+        const limit = Number(url.searchParams.get('limit'));
+        const { deliveries, error } = await outboundWebhookService.listDeliveries(workspaceId, {
+          endpointId: url.searchParams.get('endpointId') ?? undefined,
+          status: (url.searchParams.get('status') as WebhookDeliveryStatus | null) ?? undefined,
+          limit: limit > 0 ? Math.min(limit, 200) : undefined
+        });
+        return error ? errorResponse(error) : jsonResponse(200, { deliveries });
+      }
+
+      if (method === 'POST' && path.length === 3 && path[2] === 'redeliver') {
+        const { delivery, error } = await outboundWebhookService.redeliver(workspaceId, path[1]);
+        return error ? errorResponse(error) : jsonResponse(202, { delivery });
+      }
+
+      return jsonResponse(404, { error: 'not_found' });
+    }
+
+    if (path.length === 0) {
+      if (method === 'GET') {
+        const { endpoints, error } = await outboundWebhookService.listEndpoints(workspaceId);
+        return error ? errorResponse(error) : jsonResponse(200, { endpoints });
+      }
+
+      if (method === 'POST') {
+        const body = await request.json().catch(() => ({})) as SubscriptionBody;
+        if (!body.url) {
+          return jsonResponse(400, { error: 'invalid_request', description: 'url is required' });
+        }
+
+        const { endpoint, secret, error } = await outboundWebhookService.createEndpoint({
+          workspaceId,
+          url: body.url,
+          description: body.description ?? undefined,
+          events: body.events,
+          createdBy: auth.user.id
+        });
+        return error ? errorResponse(error) : jsonResponse(201, { endpoint, secret });
+      }
+
+      return jsonResponse(405, { error: 'method_not_allowed' });
+    }
+
+    const endpointId = path[0];
+
+    if (path.length === 2 && path[1] === 'rotate-secret' && method === 'POST') {
+      const { secret, error } = await outboundWebhookService.rotateSecret(workspaceId, endpointId);
+      return error ? errorResponse(error) : jsonResponse(200, { secret });
+    }
+
+    if (path.length === 1 && method === 'PATCH') {
+      const body = await request.json().catch(() => ({})) as SubscriptionBody;
+      const { endpoint, error } = await outboundWebhookService.updateEndpoint(workspaceId, endpointId, body);
+      return error ? errorResponse(error) : jsonResponse(200, { endpoint });
+    }
+
+    if (path.length === 1 && method === 'DELETE') {
+      const { error } = await outboundWebhookService.deleteEndpoint(workspaceId, endpointId);
+      return error ? errorResponse(error) : new Response(null, { status: 204 });
+    }
+
+    return jsonResponse(404, { error: 'not_found' });
+  } catch (error) {
+    console.error('Webhook subscriptions error:', error);
+    return jsonResponse(500, { error: 'internal_error', description: (error as Error).message });
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Local stand-in for every OAuth provider, for exercising the connect flow
+ * without real developer apps:
+ *
+ *   npm run oauth:fake-provider
+ *   OAUTH_PROVIDER_OVERRIDE_URL=http://localhost:4010 <server functions>
+ *
+ * /<platform>/authorize approves immediately and redirects back with a code,
+ * /<platform>/token implements the authorization_code, refresh_token and
+ * fb_exchange_token grants (checking redirect_uri and the PKCE verifier), and
+ * /<platform>/account answers in the shape of that platform's profile API
+ * and /linkedin/linked-accounts lists the member's organizations.
+ * Any client id and secret are accepted.
+ */
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, randomBytes } from 'node:crypto';
+
+const PORT = Number(process.env.FAKE_OAUTH_PORT || 4010);
+const TOKEN_TTL_SECONDS = Number(process.env.FAKE_OAUTH_TOKEN_TTL || 3600);
+
+interface PendingCode {
+  platform: string;
+  redirectUri: string;
+  codeChallenge?: string;
+}
+
+const codes = new Map<string, PendingCode>();
+const refreshTokens = new Set<string>();
+
+function token(prefix: string): string {
+  return `${prefix}_${randomBytes(12).toString('hex')}`;
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+  return new URLSearchParams(raw);
+}
+
+function issueTokens(platform: string): Record<string, unknown> {
+  const refreshToken = token('refresh');
+  refreshTokens.add(refreshToken);
+  return {
+    access_token: token('access'),
+    refresh_token: refreshToken,
+    expires_in: TOKEN_TTL_SECONDS,
+    token_type: 'Bearer',
+    scope: 'fake',
+    ...(platform === 'tiktok' ? { open_id: 'fake-tiktok-user' } : {})
+  };
+}
+
+function account(platform: string): unknown {
+  switch (platform) {
+    case 'youtube':
+      return { items: [{ id: 'UC-fake-channel', snippet: { title: 'Fake Channel' } }] };
+    case 'tiktok':
+      return { data: { user: { open_id: 'fake-tiktok-user', display_name: 'Fake TikTok' } } };
+    case 'instagram':
+      return { data: [{ id: 'page-1', instagram_business_account: { id: 'fake-ig-account', username: 'fake_ig' } }] };
+    case 'linkedin':
+      return { id: 'fake-linkedin-member', localizedFirstName: 'Fake', localizedLastName: 'Member' };
+    case 'pinterest':
+      return { id: 'fake-pinterest-user', username: 'fake_pins' };
+    case 'twitter':
+      return { data: { id: 'fake-x-user', name: 'Fake X', username: 'fake_x' } };
+    case 'facebook':
+      return {
+        data: [
+          { id: 'fake-page-1', name: 'Fake Page', tasks: ['ANALYZE', 'ADVERTISE', 'CREATE_CONTENT', 'MANAGE'] },
+          { id: 'fake-page-2', name: 'Fake Analytics-only Page', tasks: ['ANALYZE'] }
+        ]
+      };
+    default:
+      return { id: `fake-${platform}-user`, name: `Fake ${platform}` };
+  }
+}
+
+async function handleToken(req: IncomingMessage, res: ServerResponse, platform: string, url: URL): Promise<void> {
+  // Facebook's long-lived token exchange is a GET.
+  if (url.searchParams.get('grant_type') === 'fb_exchange_token') {
+    return send(res, 200, { access_token: token('long_lived'), token_type: 'bearer', expires_in: 60 * 24 * 3600 });
+  }
+
+  const form = await readForm(req);
+  const grantType = form.get('grant_type');
+
+  if (grantType === 'authorization_code') {
+    const pending = codes.get(form.get('code') ?? '');
+    codes.delete(form.get('code') ?? '');
+
+    if (!pending || pending.platform !== platform) {
+      return send(res, 400, { error: 'invalid_grant', error_description: 'Unknown or used code' });
+    }
+    if (pending.redirectUri !== form.get('redirect_uri')) {
+      return send(res, 400, { error: 'invalid_grant', error_description: 'redirect_uri mismatch' });
+    }
+    if (pending.codeChallenge) {
+      const verifier = form.get('code_verifier') ?? '';
+      const challenge = createHash('sha256').update(verifier).digest('base64url');
+      if (challenge !== pending.codeChallenge) {
+        return send(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+      }
+    }
+    return send(res, 200, issueTokens(platform));
+  }
+
+  if (grantType === 'refresh_token') {
+    const refreshToken = form.get('refresh_token') ?? '';
+    if (!refreshTokens.delete(refreshToken)) {
+      return send(res, 400, { error: 'invalid_grant', error_description: 'Refresh token revoked' });
+    }
+    return send(res, 200, issueTokens(platform));
+  }
+
+  send(res, 400, { error: 'unsupported_grant_type' });
+}
+
+const server = createServer(async (req, res) => {
+  try {
+    const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+    const [, platform, endpoint] = url.pathname.split('/');
+
+    if (endpoint === 'authorize') {
+      const redirectUri = url.searchParams.get('redirect_uri');
+      if (!redirectUri || url.searchParams.get('response_type') !== 'code') {
+        return send(res, 400, { error: 'invalid_request' });
+      }
+
+      const code = token('code');
+      codes.set(code, {
+        platform,
+        redirectUri,
+        codeChallenge: url.searchParams.get('code_challenge') ?? undefined
+      });
+
+      const location = new URL(redirectUri);
+      location.searchParams.set('code', code);
+      location.searchParams.set('state', url.searchParams.get('state') ?? '');
+      res.writeHead(302, { Location: location.toString() });
+      return res.end();
+    }
+
+    if (endpoint === 'token') {
+      return await handleToken(req, res, platform, url);
+    }
+
+    if (endpoint === 'account') {
+      return send(res, 200, account(platform));
+    }
+
+    if (endpoint === 'linked-accounts' && platform === 'linkedin') {
+      return send(res, 200, {
+        elements: [
+          { organization: 'urn:li:organization:1001', 'organization~': { localizedName: 'Fake Company' } }
+        ]
+      });
+    }
+
+    send(res, 404, { error: 'not_found' });
+  } catch (error) {
+    send(res, 500, { error: 'server_error', error_description: (error as Error).message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Fake OAuth provider listening on http://localhost:${PORT}`);
+});
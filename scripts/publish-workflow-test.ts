@@ -0,0 +1,178 @@
+/**
+ * Runs publish workflows through the in-memory job queue in plain Node, the
+ * way the worker does: there is no createImageBitmap, OffscreenCanvas or
+ * document. Media processing uses the real PROCESS_MEDIA handler; platform
+ * calls (post and upload) are stubbed.
+ *
+ * The app's modules read `import.meta.env`, so this is bundled by Vite like
+ * the worker, with the VITE_SUPABASE_* variables set (nothing connects to
+ * Supabase; jobs and runs stay in memory):
+ *
+ *   npm run test:workflows
+ */
+import {
+  buildPublishWorkflow,
+  Job,
+  JobResult,
+  JobType,
+  jobQueue,
+  ProcessMediaJobHandler,
+  WorkflowRun,
+  WorkflowStepStatus,
+  workflowEngine
+} from '../src/workflows';
+import { mediaProcessingService } from '../src/services/media/MediaProcessingService';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  message?: string;
+  duration: number;
+}
+
+const WAIT_TIMEOUT_MS = 20 * 1000;
+
+/** A 1x1 PNG, so the media download needs no network. */
+const IMAGE_URL =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+const postedJobs: Job[] = [];
+const uploadedJobs: Job[] = [];
+
+function registerHandlers(): void {
+  jobQueue.registerHandler(JobType.PROCESS_MEDIA, new ProcessMediaJobHandler());
+  jobQueue.registerHandler(JobType.UPLOAD_MEDIA, {
+    async handle(job: Job): Promise<JobResult> {
+      uploadedJobs.push(job);
+      return { success: true, data: { platformMediaId: `media_${uploadedJobs.length}` } };
+    }
+  });
+  jobQueue.registerHandler(JobType.POST_CONTENT, {
+    async handle(job: Job): Promise<JobResult> {
+      postedJobs.push(job);
+      return { success: true, data: { postId: `post_${postedJobs.length}` } };
+    }
+  });
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+async function waitForStep(runId: string, stepId: string): Promise<WorkflowRun> {
+  const deadline = Date.now() + WAIT_TIMEOUT_MS;
+  for (;;) {
+    const run = await workflowEngine.getRun(runId);
+    const status = run?.steps[stepId]?.status;
+    if (run && (status === WorkflowStepStatus.COMPLETED || status === WorkflowStepStatus.FAILED)) {
+      return run;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Step ${stepId} did not settle within ${WAIT_TIMEOUT_MS / 1000}s (status: ${status})`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+}
+
+async function runTest(test: string, body: () => Promise<string | undefined>): Promise<TestResult> {
+  const start = Date.now();
+  try {
+    const message = await body();
+    return { test, passed: true, message, duration: Date.now() - start };
+  } catch (error) {
+    return { test, passed: false, message: (error as Error).message, duration: Date.now() - start };
+  }
+}
+
+async function testSingleImagePublish(): Promise<string> {
+  const definition = buildPublishWorkflow({
+    platform: 'instagram',
+    workspaceId: 'workspace_test',
+    postData: { content: 'One image', mediaUrls: [IMAGE_URL] }
+  });
+  assert(!definition.steps.some(step => step.id === 'process'), 'Image publish should not have a process step');
+
+  const run = await workflowEngine.start(definition, { userId: 'user_test', metadata: { workspaceId: 'workspace_test' } });
+  const settled = await waitForStep(run.id, 'post');
+  assert(settled.steps.post.status === WorkflowStepStatus.COMPLETED, `Post step ${settled.steps.post.status}: ${settled.steps.post.error}`);
+
+  const posted = postedJobs.find(job => job.id === settled.steps.post.jobId);
+  const postData = (posted?.data as { postData?: { mediaUrls?: string[] } } | undefined)?.postData;
+  assert(postData?.mediaUrls?.[0] === IMAGE_URL, 'Post should carry the original image');
+  return 'Posted with the original image';
+}
+
+async function testSingleImageUpload(): Promise<string> {
+  const run = await workflowEngine.start(
+    buildPublishWorkflow({
+      platform: 'twitter',
+      workspaceId: 'workspace_test',
+      postData: { content: 'One image', mediaUrls: [IMAGE_URL] }
+    }),
+    { userId: 'user_test', metadata: { workspaceId: 'workspace_test' } }
+  );
+  const settled = await waitForStep(run.id, 'post');
+  assert(settled.steps.post.status === WorkflowStepStatus.COMPLETED, `Post step ${settled.steps.post.status}: ${settled.steps.post.error}`);
+
+  const upload = uploadedJobs.find(job => job.id === settled.steps.upload?.jobId);
+  assert((upload?.data as { mediaUrl?: string } | undefined)?.mediaUrl === IMAGE_URL, 'Upload should send the original image');
+
+  const posted = postedJobs.find(job => job.id === settled.steps.post.jobId);
+  assert((posted?.data as { platformMediaId?: string } | undefined)?.platformMediaId, 'Post should reference the uploaded media');
+  return 'Uploaded the original image, then posted it';
+}
+
+async function testVideoIsProcessed(): Promise<string> {
+  const definition = buildPublishWorkflow({
+    platform: 'instagram',
+    workspaceId: 'workspace_test',
+    postData: { content: 'One video', mediaUrls: ['https://cdn.example.com/clip.mp4'] }
+  });
+  const post = definition.steps.find(step => step.id === 'post');
+  assert(post?.dependsOn?.includes('process'), 'Video publish should post after the process step');
+  return 'Process step runs before the post';
+}
+
+async function testImageProcessingWithoutCanvas(): Promise<string> {
+  assert(!mediaProcessingService.canProcessImages(), 'Expected no canvas in Node');
+
+  const file = new File([new Uint8Array(64)], 'image.png', { type: 'image/png' });
+  const result = await mediaProcessingService.processMediaForPlatform(
+    { file, type: 'image', url: IMAGE_URL, size: file.size },
+    'instagram'
+  );
+  assert(result.processed.url === IMAGE_URL && !result.processed.blob, 'Image should be passed through unchanged');
+  return 'Original image passed through';
+}
+
+async function runWorkflowTests(): Promise<void> {
+  console.log('🧪 Running publish workflow tests...\n');
+  registerHandlers();
+
+  const results = [
+    await runTest('Single-image publish', testSingleImagePublish),
+    await runTest('Single-image publish with media upload', testSingleImageUpload),
+    await runTest('Single-video publish', testVideoIsProcessed),
+    await runTest('Image processing without canvas', testImageProcessingWithoutCanvas)
+  ];
+
+  results.forEach(result => {
+    const icon = result.passed ? '✅' : '❌';
+    console.log(`${icon} ${result.test} (${result.duration}ms)`);
+    if (result.message) {
+      console.log(`   └─ ${result.message}`);
+    }
+  });
+
+  const failed = results.filter(r => !r.passed).length;
+  console.log('\n' + '─'.repeat(50));
+  console.log(`Tests: ${results.length - failed}/${results.length} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runWorkflowTests().catch(error => {
+  console.error('Workflow tests failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,52 @@
+/**
+ * Re-wraps every workspace data key under CREDENTIALS_MASTER_KEY and
+ * encrypts connector tokens still stored in plaintext.
+ *
+ * To rotate the master key, set the new key as CREDENTIALS_MASTER_KEY, move
+ * the old one to CREDENTIALS_RETIRED_MASTER_KEYS (also on every running
+ * worker), run this command, then drop the retired key once it reports no
+ * failures:
+ *
+ *   SUPABASE_SERVICE_ROLE_KEY=... CREDENTIALS_MASTER_KEY=... \
+ *   CREDENTIALS_RETIRED_MASTER_KEYS=... npm run rotate-credential-keys
+ */
+import { supabase } from '../src/lib/supabase';
+import { credentialVault } from '../src/services/security/CredentialVault';
+import { connectorService } from '../src/services/ConnectorService';
+import { auditLogService } from '../src/services/audit/AuditLogService';
+
+async function rotateCredentialKeys(): Promise<void> {
+  if (!supabase || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY and the Supabase URL are required');
+  }
+  if (!await credentialVault.isAvailable()) {
+    throw new Error('CREDENTIALS_MASTER_KEY is required');
+  }
+
+  console.log('🔑 Re-wrapping workspace data keys...');
+  const rewrap = await credentialVault.rewrapDataKeys();
+  console.log(`   ${rewrap.rewrapped} re-wrapped, ${rewrap.unchanged} already current, ${rewrap.failed.length} failed`);
+  rewrap.failed.forEach(failure => console.log(`   └─ ${failure.dataKeyId}: ${failure.error}`));
+
+  console.log('🔒 Encrypting plaintext connector credentials...');
+  const { encrypted, error } = await connectorService.encryptStoredCredentials();
+  if (error) throw error;
+  console.log(`   ${encrypted} connectors encrypted`);
+
+  await auditLogService.log('key_rotation', {
+    resourceType: 'workspace_data_keys',
+    newValues: { rewrapped: rewrap.rewrapped, failed: rewrap.failed.length, encrypted }
+  });
+
+  if (rewrap.failed.length > 0) {
+    console.log('❌ Some data keys could not be re-wrapped; keep the retired master keys configured');
+    process.exit(1);
+  }
+  console.log('✅ Credential keys rotated');
+  process.exit(0);
+}
+
+rotateCredentialKeys().catch(error => {
+  console.error('Key rotation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+/**
+ * Headless worker: runs queued jobs, advances workflow runs, publishes due
+ * schedules and sends outbound webhooks.
+ *
+ * The app's modules read `import.meta.env`, so the worker is bundled by Vite
+ * rather than run through tsx. VITE_* variables are inlined at build time and
+ * SUPABASE_SERVICE_ROLE_KEY is read at runtime:
+ *
+ *   SUPABASE_SERVICE_ROLE_KEY=... npm run worker
+ *
+ * Any number of workers can run side by side; jobs and schedules are claimed
+ * with row locks. Connector instances are hydrated from the stored credentials
+ * on first use and dropped once idle. Set WORKER_ID to a stable value per instance so a restarted
+ * worker resumes the jobs it was running.
+ */
+import { hostname } from 'node:os';
+import { supabase } from '../src/lib/supabase';
+import {
+  jobQueue,
+  registerDefaultJobHandlers,
+  SupabaseJobStore,
+  SupabaseWorkflowStore,
+  workflowEngine
+} from '../src/workflows';
+import { mediaProcessingService } from '../src/services/media/MediaProcessingService';
+import { FfmpegVideoTranscoder } from '../src/services/media/FfmpegVideoTranscoder';
+import { scheduleExecutor } from '../src/services/publishing/ScheduleExecutor';
+import { outboundWebhookDispatcher } from '../src/services/webhooks/OutboundWebhookDispatcher';
+import { setWebhookHostResolver } from '../src/services/webhooks/webhookUrlPolicy';
+import { resolveHostWithDns } from '../src/services/webhooks/dnsHostResolver';
+import { connectorRegistry } from '../src/connectors/base';
+
+async function startWorker(): Promise<void> {
+  if (!supabase) {
+    throw new Error('Supabase not configured: set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY');
+  }
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is required to run the worker');
+  }
+
+  registerDefaultJobHandlers();
+  mediaProcessingService.useVideoTranscoder(new FfmpegVideoTranscoder());
+  setWebhookHostResolver(resolveHostWithDns);
+
+  // Set before jobs resume, so steps settled by resumed jobs advance runs
+  // stored in the database rather than in this process.
+  workflowEngine.useStore(new SupabaseWorkflowStore(supabase));
+
+  const workerId = process.env.WORKER_ID || hostname();
+  const resumed = await jobQueue.useStore(new SupabaseJobStore(supabase), { workerId });
+  console.log(`Worker ${workerId} started (${resumed} interrupted jobs resumed)`);
+
+  scheduleExecutor.start();
+  outboundWebhookDispatcher.start();
+  connectorRegistry.startEviction();
+
+  const shutdown = (signal: string) => {
+    console.log(`Received ${signal}, stopping schedule executor and webhook dispatcher`);
+    scheduleExecutor.stop();
+    outboundWebhookDispatcher.stop();
+    connectorRegistry.stopEviction();
+    process.exit(0);
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+}
+
+startWorker().catch(error => {
+  console.error('Worker failed to start:', error);
+  process.exit(1);
+});
@@ -1,5 +1,13 @@
 import { apiClient } from './client';
 import { Content, PublishingSchedule } from '../types';
+import { storageService } from '../services/media/StorageService';
+import { AppError, ErrorCode } from '../utils/errors';
+
+/** Library files attached to content, kept in `metadata.mediaUrls`. */
+function mediaUrlsOf(metadata: Record<string, unknown> | undefined): string[] | undefined {
+  const urls = metadata?.mediaUrls;
+  return Array.isArray(urls) ? urls.filter((url): url is string => typeof url === 'string') : undefined;
+}
 
 /**
  * Content API client for managing content and publishing schedules.
@@ -118,6 +126,7 @@ class ContentApi {
    */
   async createContent(content: Partial<Content>): Promise<Content> {
     const [result] = await apiClient.insert<Content>('content', content);
+    await this.syncMediaReferences(result);
     return result;
   }
 
@@ -141,7 +150,11 @@ class ContentApi {
    * ```
    */
   async updateContent(id: string, data: Partial<Content>): Promise<Content> {
-    return apiClient.update<Content>('content', id, data);
+    const result = await apiClient.update<Content>('content', id, data);
+    if (mediaUrlsOf(data.metadata)) {
+      await this.syncMediaReferences(result);
+    }
+    return result;
   }
 
   /**
@@ -160,6 +173,12 @@ class ContentApi {
    * ```
    */
   async deleteContent(id: string): Promise<void> {
+    // Released first: deleting the row cascades to `content_media`, which
+    // would leave files deleted from the library in storage.
+    const released = await storageService.releaseContentMedia(id);
+    if (!released.success) {
+      throw new AppError(`Failed to release content media: ${released.error}`, ErrorCode.DATABASE_ERROR);
+    }
     await apiClient.delete('content', { id });
   }
 
@@ -246,6 +265,15 @@ class ContentApi {
   async cancelSchedule(id: string): Promise<void> {
     await apiClient.update<PublishingSchedule>('publishing_schedule', id, { status: 'cancelled' });
   }
+
+  /** Records which library files the content uses, so they are not deleted from under it. */
+  private async syncMediaReferences(content: Content): Promise<void> {
+    const mediaUrls = mediaUrlsOf(content.metadata) ?? [];
+    const synced = await storageService.syncContentMedia(content.id, content.workspace_id, mediaUrls);
+    if (!synced.success) {
+      throw new AppError(`Failed to record content media: ${synced.error}`, ErrorCode.DATABASE_ERROR);
+    }
+  }
 }
 
 export const contentApi = ContentApi.getInstance();
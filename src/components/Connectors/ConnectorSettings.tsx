@@ -1,10 +1,10 @@
 import React, { useState } from 'react';
 import { DashboardLayout } from '../Dashboard/DashboardLayout';
 import { ConnectorCard } from './ConnectorCard';
-import { Youtube, Instagram, Linkedin } from 'lucide-react';
+import { Youtube, Instagram, Linkedin, Twitter, Facebook } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useCurrentWorkspace } from '../../contexts/WorkspaceContext';
 import { logger } from '../../utils/logger';
-import { config } from '../../config';
 
 interface Connector {
   id: string;
@@ -16,7 +16,8 @@ interface Connector {
 }
 
 export const ConnectorSettings: React.FC = () => {
-  const { user } = useAuth();
+  const { session } = useAuth();
+  const { currentWorkspace } = useCurrentWorkspace();
   const [connectors, setConnectors] = useState<Connector[]>([
     {
       id: 'youtube',
@@ -47,31 +48,50 @@ export const ConnectorSettings: React.FC = () => {
       name: 'Pinterest',
       icon: <div className="w-6 h-6 bg-red-600 rounded-full" />,
       status: 'disconnected'
+    },
+    {
+      id: 'twitter',
+      name: 'X (Twitter)',
+      icon: <Twitter className="w-6 h-6 text-gray-900" />,
+      status: 'disconnected'
+    },
+    {
+      id: 'facebook',
+      name: 'Facebook Pages',
+      icon: <Facebook className="w-6 h-6 text-blue-500" />,
+      status: 'disconnected'
     }
   ]);
 
   const handleConnect = async (connectorId: string) => {
-    try {
-      const state = btoa(JSON.stringify({
-        userId: user?.id,
-        connectorId,
-        redirectUrl: window.location.href,
-        timestamp: Date.now(),
-        nonce: Math.random().toString(36).substring(2)
-      }));
+    if (!currentWorkspace) {
+      logger.warn('Cannot connect a platform without an active workspace', { connectorId });
+      return;
+    }
 
-      const authUrls: Record<string, string> = {
-        youtube: `https://accounts.google.com/o/oauth2/v2/auth?client_id=${config.get('VITE_YOUTUBE_CLIENT_ID')}&redirect_uri=${encodeURIComponent(window.location.origin + '/api/auth/oauth-callback')}&response_type=code&scope=${encodeURIComponent('https://www.googleapis.com/auth/youtube https://www.googleapis.com/auth/youtube.upload')}&state=${state}`,
-        instagram: `https://api.instagram.com/oauth/authorize?client_id=${config.get('VITE_INSTAGRAM_CLIENT_ID')}&redirect_uri=${encodeURIComponent(window.location.origin + '/api/auth/oauth-callback')}&scope=instagram_basic,instagram_content_publish&response_type=code&state=${state}`,
-        tiktok: `https://www.tiktok.com/auth/authorize?client_key=${config.get('VITE_TIKTOK_CLIENT_KEY')}&response_type=code&scope=user.info.basic,video.upload&redirect_uri=${encodeURIComponent(window.location.origin + '/api/auth/oauth-callback')}&state=${state}`,
-        linkedin: `https://www.linkedin.com/oauth/v2/authorization?response_type=code&client_id=${config.get('VITE_LINKEDIN_CLIENT_ID')}&redirect_uri=${encodeURIComponent(window.location.origin + '/api/auth/oauth-callback')}&scope=w_member_social%20r_liteprofile&state=${state}`,
-        pinterest: `https://www.pinterest.com/oauth/?client_id=${config.get('VITE_PINTEREST_CLIENT_ID')}&redirect_uri=${encodeURIComponent(window.location.origin + '/api/auth/oauth-callback')}&response_type=code&scope=pins:read,pins:write,boards:read&state=${state}`
-      };
+    try {
+      // State, PKCE and the provider's authorize URL are built server-side.
+      // The response sets the cookie that binds the flow to this browser.
+      const response = await fetch('/api/auth/oauth-begin', {
+        method: 'POST',
+        credentials: 'same-origin',
+        headers: {
+          'Authorization': `Bearer ${session?.access_token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          platform: connectorId,
+          workspaceId: currentWorkspace.id,
+          redirectUrl: window.location.href
+        })
+      });
 
-      const authUrl = authUrls[connectorId];
-      if (authUrl) {
-        window.location.href = authUrl;
+      const { authUrl, description } = await response.json();
+      if (!response.ok || !authUrl) {
+        throw new Error(description || `Failed to start ${connectorId} authorization`);
       }
+
+      window.location.href = authUrl;
     } catch (error) {
       logger.error('Failed to initiate OAuth', error as Error);
     }
@@ -6,6 +6,7 @@ import { Select } from '../design-system/components/Select';
 import { Button } from '../design-system/components/Button';
 import { Card } from '../design-system/components/Card';
 import { MediaUpload, MediaFile } from './MediaUpload';
+import { useCurrentWorkspace } from '../contexts/WorkspaceContext';
 import { 
   Save, 
   Send, 
@@ -119,6 +120,7 @@ export const ContentEditor: React.FC<ContentEditorProps> = ({
   onPreview,
   className,
 }) => {
+  const { currentWorkspace } = useCurrentWorkspace();
   const [content, setContent] = useState<ContentData>({
     title: '',
     description: '',
@@ -344,6 +346,7 @@ export const ContentEditor: React.FC<ContentEditorProps> = ({
                 media: prev.media.map(m => m.id === id ? { ...m, ...updates } : m)
               }))}
               platforms={content.platforms}
+              workspaceId={currentWorkspace?.id}
               autoOptimize
             />
           </Card>
@@ -12,6 +12,7 @@ interface MediaItem {
   id: string;
   filename: string;
   url: string;
+  storagePath: string;
   mimeType: string;
   sizeBytes: number;
   width?: number;
@@ -29,6 +30,7 @@ export const MediaLibrary: React.FC = () => {
   const [filterType, setFilterType] = useState<'all' | 'image' | 'video'>('all');
   const [selectedMedia, setSelectedMedia] = useState<Set<string>>(new Set());
   const [isUploading, setIsUploading] = useState(false);
+  const [uploads, setUploads] = useState<Array<{ name: string; percentage: number; error?: string }>>([]);
 
   useEffect(() => {
     loadMedia();
@@ -51,6 +53,7 @@ export const MediaLibrary: React.FC = () => {
         id: m.id,
         filename: m.filename,
         url: m.url,
+        storagePath: m.storage_path,
         mimeType: m.mime_type,
         sizeBytes: m.size_bytes,
         width: m.width,
@@ -67,18 +70,28 @@ export const MediaLibrary: React.FC = () => {
     if (!files || !user) return;
 
     setIsUploading(true);
+    const fileList = Array.from(files);
+    setUploads(fileList.map(file => ({ name: file.name, percentage: 0 })));
 
     const workspaceId = 'default-workspace';
     const results = await storageService.uploadMultiple(
-      Array.from(files),
+      fileList,
       {
         workspaceId,
         userId: user.id,
-        folder: 'uploads'
+        folder: 'uploads',
+        onFileProgress: (index, progress) => {
+          setUploads(prev => prev.map((upload, i) =>
+            i === index ? { ...upload, percentage: progress.percentage } : upload
+          ));
+        }
       }
     );
 
     setIsUploading(false);
+    setUploads(prev => prev
+      .map((upload, i) => ({ ...upload, error: results[i].success ? undefined : results[i].error }))
+      .filter(upload => upload.error));
     loadMedia();
   };
 
@@ -89,6 +102,12 @@ export const MediaLibrary: React.FC = () => {
     const confirmed = window.confirm('Are you sure you want to delete this file?');
     if (!confirmed) return;
 
+    const result = await storageService.deleteFile(mediaItem.storagePath);
+    if (!result.success) {
+      window.alert(`Failed to delete ${mediaItem.filename}: ${result.error}`);
+      return;
+    }
+
     setMedia(prev => prev.filter(m => m.id !== mediaId));
   };
 
@@ -155,6 +174,29 @@ export const MediaLibrary: React.FC = () => {
           </div>
         </div>
 
+        {uploads.length > 0 && (
+          <Card className="p-4 space-y-3">
+            {uploads.map((upload, index) => (
+              <div key={index} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-neutral-700 truncate">{upload.name}</span>
+                  <span className={cn('text-xs', upload.error ? 'text-error-600' : 'text-neutral-500')}>
+                    {upload.error ?? `${upload.percentage}%`}
+                  </span>
+                </div>
+                {!upload.error && (
+                  <div className="h-1 bg-neutral-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-1 bg-primary-500 transition-all duration-300"
+                      style={{ width: `${upload.percentage}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+          </Card>
+        )}
+
         <div className="flex flex-col lg:flex-row gap-4">
           <div className="flex-1">
             <Input
@@ -1,8 +1,10 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { cn } from '../design-system/utils/cn';
-import { Upload, Camera, Video, Image, X, RotateCcw, Crop, Palette, Wand2, Download, Share2, Eye, Clock, AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
+import { Upload, Camera, Video, Image, X, RotateCcw, Crop, Palette, Wand2, Download, Share2, Eye, Clock, AlertCircle, CheckCircle, Loader2, Pause, Play } from 'lucide-react';
 import { Button } from '../design-system/components/Button';
 import { Card } from '../design-system/components/Card';
+import { storageService, ResumableFileUpload } from '../services/media/StorageService';
+import { useAuth } from '../contexts/AuthContext';
 
 export interface MediaFile {
   id: string;
@@ -14,7 +16,11 @@ export interface MediaFile {
   dimensions?: { width: number; height: number };
   size: number;
   uploadProgress?: number;
-  status: 'uploading' | 'processing' | 'ready' | 'error';
+  status: 'uploading' | 'paused' | 'processing' | 'ready' | 'error';
+  /** `media` row and public URL once the upload has completed. */
+  mediaId?: string;
+  remoteUrl?: string;
+  error?: string;
   metadata?: {
     exif?: any;
     colorPalette?: string[];
@@ -38,6 +44,8 @@ export interface MediaUploadProps {
   maxFileSize?: number; // in MB
   autoOptimize?: boolean;
   platforms?: string[];
+  /** Uploads files to this workspace's storage; without it files stay local. */
+  workspaceId?: string;
   className?: string;
 }
 
@@ -50,9 +58,12 @@ export const MediaUpload: React.FC<MediaUploadProps> = ({
   maxFileSize = 100,
   autoOptimize = true,
   platforms = ['instagram', 'tiktok', 'youtube'],
+  workspaceId,
   className,
 }) => {
+  const { user } = useAuth();
   const [files, setFiles] = useState<MediaFile[]>([]);
+  const uploadsRef = useRef<Map<string, ResumableFileUpload>>(new Map());
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -105,9 +116,6 @@ export const MediaUpload: React.FC<MediaUploadProps> = ({
 
       newFiles.push(mediaFile);
 
-      // Simulate upload progress
-      simulateUpload(mediaFile);
-
       // Extract metadata and optimize
       if (autoOptimize) {
         await extractMetadata(mediaFile);
@@ -117,10 +125,70 @@ export const MediaUpload: React.FC<MediaUploadProps> = ({
 
     setFiles(prev => [...prev, ...newFiles]);
     onFilesAdded(newFiles);
+
+    for (const mediaFile of newFiles) {
+      if (workspaceId && user) {
+        startUpload(mediaFile, workspaceId, user.id);
+      } else {
+        simulateUpload(mediaFile);
+      }
+    }
+
     setIsProcessing(false);
   };
 
-  // Simulate upload with progress
+  const startUpload = (file: MediaFile, targetWorkspaceId: string, userId: string) => {
+    const upload = storageService.createResumableUpload(file.file, {
+      workspaceId: targetWorkspaceId,
+      userId,
+      onProgress: (progress) => {
+        setFiles(prev => prev.map(f =>
+          f.id === file.id ? { ...f, uploadProgress: progress.percentage } : f
+        ));
+      }
+    });
+
+    uploadsRef.current.set(file.id, upload);
+    runUpload(file.id, upload);
+  };
+
+  const runUpload = async (id: string, upload: ResumableFileUpload) => {
+    updateFileStatus(id, 'uploading');
+    const result = await upload.start();
+
+    if (result.paused) {
+      updateFileStatus(id, 'paused');
+      return;
+    }
+
+    uploadsRef.current.delete(id);
+    const updates: Partial<MediaFile> = result.success
+      ? { status: 'ready', mediaId: result.mediaId, remoteUrl: result.url, uploadProgress: 100 }
+      : { status: 'error', error: result.error };
+
+    setFiles(prev => prev.map(f => (f.id === id ? { ...f, ...updates } : f)));
+    onFileUpdated(id, updates);
+  };
+
+  const pauseUpload = (id: string) => {
+    uploadsRef.current.get(id)?.pause();
+  };
+
+  const resumeUpload = (id: string) => {
+    const upload = uploadsRef.current.get(id);
+    if (upload) {
+      runUpload(id, upload);
+    }
+  };
+
+  useEffect(() => {
+    const uploads = uploadsRef.current;
+    return () => {
+      uploads.forEach(upload => upload.pause());
+    };
+  }, []);
+
+  // Local-only preview when no workspace is configured
   const simulateUpload = (file: MediaFile) => {
     let progress = 0;
     const interval = setInterval(() => {
@@ -207,6 +275,8 @@ export const MediaUpload: React.FC<MediaUploadProps> = ({
   const removeFile = (id: string) => {
     const file = files.find(f => f.id === id);
     if (file) {
+      uploadsRef.current.get(id)?.abort();
+      uploadsRef.current.delete(id);
       URL.revokeObjectURL(file.url);
       setFiles(prev => prev.filter(f => f.id !== id));
       onFileRemoved(id);
@@ -296,6 +366,8 @@ export const MediaUpload: React.FC<MediaUploadProps> = ({
               key={file.id}
               file={file}
               onRemove={() => removeFile(file.id)}
+              onPause={() => pauseUpload(file.id)}
+              onResume={() => resumeUpload(file.id)}
               onUpdate={(updates) => {
                 setFiles(prev => prev.map(f => 
                   f.id === file.id ? { ...f, ...updates } : f
@@ -322,16 +394,20 @@ export const MediaUpload: React.FC<MediaUploadProps> = ({
 interface MediaPreviewCardProps {
   file: MediaFile;
   onRemove: () => void;
+  onPause: () => void;
+  onResume: () => void;
   onUpdate: (updates: Partial<MediaFile>) => void;
 }
 
-const MediaPreviewCard: React.FC<MediaPreviewCardProps> = ({ file, onRemove, onUpdate }) => {
+const MediaPreviewCard: React.FC<MediaPreviewCardProps> = ({ file, onRemove, onPause, onResume, onUpdate }) => {
   const [showDetails, setShowDetails] = useState(false);
 
   const getStatusIcon = () => {
     switch (file.status) {
       case 'uploading':
         return <Loader2 className="w-4 h-4 animate-spin text-primary-500" />;
+      case 'paused':
+        return <Pause className="w-4 h-4 text-neutral-500" />;
       case 'processing':
         return <Wand2 className="w-4 h-4 text-warning-500" />;
       case 'ready':
@@ -391,7 +467,7 @@ const MediaPreviewCard: React.FC<MediaPreviewCardProps> = ({ file, onRemove, onU
         </button>
 
         {/* Upload Progress */}
-        {file.status === 'uploading' && file.uploadProgress !== undefined && (
+        {(file.status === 'uploading' || file.status === 'paused') && file.uploadProgress !== undefined && (
           <div className="absolute bottom-0 left-0 right-0 bg-black/50">
             <div 
               className="h-1 bg-primary-500 transition-all duration-300"
@@ -410,11 +486,30 @@ const MediaPreviewCard: React.FC<MediaPreviewCardProps> = ({ file, onRemove, onU
               {file.status}
             </span>
           </div>
-          <span className="text-xs text-neutral-500">
-            {formatFileSize(file.size)}
-          </span>
+          <div className="flex items-center space-x-2">
+            {file.status === 'uploading' && file.uploadProgress !== undefined && (
+              <span className="text-xs text-neutral-500">{Math.round(file.uploadProgress)}%</span>
+            )}
+            {file.status === 'uploading' && (
+              <button onClick={onPause} className="text-neutral-500 hover:text-neutral-700" title="Pause upload">
+                <Pause className="w-3 h-3" />
+              </button>
+            )}
+            {file.status === 'paused' && (
+              <button onClick={onResume} className="text-primary-500 hover:text-primary-700" title="Resume upload">
+                <Play className="w-3 h-3" />
+              </button>
+            )}
+            <span className="text-xs text-neutral-500">
+              {formatFileSize(file.size)}
+            </span>
+          </div>
         </div>
 
+        {file.status === 'error' && file.error && (
+          <div className="text-xs text-error-600">{file.error}</div>
+        )}
+
         {/* Metadata */}
         {file.dimensions && (
           <div className="text-xs text-neutral-500">
@@ -8,20 +8,65 @@ export const CONNECTOR_CONFIG = {
   MAX_RETRY_ATTEMPTS: 3,
   RETRY_BACKOFF_MS: 1000,
   TOKEN_REFRESH_THRESHOLD_MS: 5 * 60 * 1000,
-  HEALTH_CHECK_INTERVAL_MS: 60 * 1000
+  HEALTH_CHECK_INTERVAL_MS: 60 * 1000,
+  INSTANCE_IDLE_TTL_MS: 15 * 60 * 1000,
+  INSTANCE_EVICTION_INTERVAL_MS: 60 * 1000
 };
 
 export const JOB_CONFIG = {
   MAX_CONCURRENT_JOBS: 5,
   DEFAULT_JOB_TIMEOUT_MS: 30 * 1000,
   MAX_JOB_ATTEMPTS: 3,
-  JOB_CLEANUP_AFTER_MS: 24 * 60 * 60 * 1000
+  JOB_CLEANUP_AFTER_MS: 24 * 60 * 60 * 1000,
+  HEARTBEAT_INTERVAL_MS: 10 * 1000,
+  STALLED_JOB_THRESHOLD_MS: 60 * 1000
+};
+
+export const SCHEDULE_CONFIG = {
+  POLL_INTERVAL_MS: 30 * 1000,
+  CLAIM_BATCH_SIZE: 10,
+  STALE_CLAIM_THRESHOLD_MS: 5 * 60 * 1000
+};
+
+export const OAUTH_CONFIG = {
+  STATE_TTL_MS: 10 * 60 * 1000,
+  /** Cookie carrying the browser binding of a pending authorization, suffixed with the platform. */
+  BINDING_COOKIE_PREFIX: 'oauth_binding_',
+  CONNECT_ROLES: ['owner', 'admin', 'editor']
+};
+
+export const WEBHOOK_CONFIG = {
+  /**
+   * Deliveries stamped earlier than this are rejected as replays. TikTok signs
+   * each delivery attempt; Meta and YouTube only carry the event time, so
+   * their windows cover the providers' retry schedules.
+   */
+  REPLAY_WINDOW_MS: {
+    tiktok: 5 * 60 * 1000,
+    instagram: 36 * 60 * 60 * 1000,
+    youtube: 36 * 60 * 60 * 1000
+  } as Record<string, number>,
+  CLOCK_SKEW_MS: 5 * 60 * 1000,
+  /** A claimed event not completed within this is assumed abandoned and may be taken over. */
+  CLAIM_LEASE_MS: 5 * 60 * 1000,
+  /** Processed event ids are kept this long; longer than any replay window. */
+  EVENT_RETENTION_MS: 7 * 24 * 60 * 60 * 1000
+};
+
+export const OUTBOUND_WEBHOOK_CONFIG = {
+  MANAGE_ROLES: ['owner', 'admin'],
+  DISPATCH_INTERVAL_MS: 5 * 1000,
+  DISPATCH_BATCH_SIZE: 100,
+  REQUEST_TIMEOUT_MS: 10 * 1000,
+  /** Response bodies are kept in the delivery log up to this many characters. */
+  MAX_LOGGED_RESPONSE_LENGTH: 2000
 };
 
 export const RATE_LIMITS = {
   youtube: {
     dailyQuota: 10000,
-    requestsPerSecond: 5
+    requestsPerSecond: 5,
+    uploadQuotaCost: 1600
   },
   instagram: {
     requestsPerHour: 200
@@ -47,34 +92,116 @@ export const SUPPORTED_PLATFORMS = [
 
 export type SupportedPlatform = typeof SUPPORTED_PLATFORMS[number];
 
+export const ASPECT_RATIOS = {
+  SQUARE: 1,
+  PORTRAIT: 4 / 5,
+  TALL: 2 / 3,
+  VERTICAL: 9 / 16,
+  LANDSCAPE: 1.91,
+  WIDESCREEN: 16 / 9
+};
+
 export const PLATFORM_LIMITS = {
   youtube: {
     maxVideoSize: 256 * 1024 * 1024 * 1024,
+    videoAspectRatio: ASPECT_RATIOS.WIDESCREEN,
+    videoFit: 'letterbox' as const,
+    maxVideoDimension: 1920,
+    maxVideoBitrateKbps: 8000,
+    maxAudioBitrateKbps: 192,
     maxTitleLength: 100,
     maxDescriptionLength: 5000,
-    maxTags: 500
+    maxTags: 500,
+    maxShortsDuration: 60
   },
   instagram: {
     maxImageSize: 8 * 1024 * 1024,
+    maxImageDimension: 1080,
+    imageAspectRatios: [ASPECT_RATIOS.SQUARE, ASPECT_RATIOS.PORTRAIT, ASPECT_RATIOS.LANDSCAPE],
+    imageFormat: 'image/jpeg',
     maxVideoSize: 100 * 1024 * 1024,
     maxVideoDuration: 60,
+    videoAspectRatio: ASPECT_RATIOS.VERTICAL,
+    videoFit: 'crop' as const,
+    maxVideoDimension: 1920,
+    maxVideoBitrateKbps: 5000,
+    maxAudioBitrateKbps: 128,
     maxCaptionLength: 2200,
     maxHashtags: 30
   },
   tiktok: {
+    maxImageSize: 20 * 1024 * 1024,
+    maxImageDimension: 1920,
+    imageAspectRatios: [ASPECT_RATIOS.VERTICAL],
+    imageFormat: 'image/jpeg',
     maxVideoSize: 287 * 1024 * 1024,
     maxVideoDuration: 600,
+    videoAspectRatio: ASPECT_RATIOS.VERTICAL,
+    videoFit: 'crop' as const,
+    maxVideoDimension: 1920,
+    maxVideoBitrateKbps: 6000,
+    maxAudioBitrateKbps: 128,
     maxCaptionLength: 2200
   },
   twitter: {
     maxTweetLength: 280,
+    maxThreadLength: 25,
+    maxImageSize: 5 * 1024 * 1024,
+    imageAspectRatios: [ASPECT_RATIOS.SQUARE, ASPECT_RATIOS.LANDSCAPE],
+    imageFormat: 'image/webp',
     maxMediaSize: 512 * 1024 * 1024,
-    maxMediaItems: 4
+    maxMediaItems: 4,
+    maxVideoDuration: 140,
+    videoAspectRatio: ASPECT_RATIOS.WIDESCREEN,
+    videoFit: 'letterbox' as const,
+    maxVideoDimension: 1280,
+    maxVideoBitrateKbps: 5000,
+    maxAudioBitrateKbps: 128
   },
   linkedin: {
     maxPostLength: 3000,
+    maxMediaItems: 20,
+    maxDocumentSize: 100 * 1024 * 1024,
     maxImageSize: 10 * 1024 * 1024,
-    maxVideoSize: 5 * 1024 * 1024 * 1024
+    imageAspectRatios: [ASPECT_RATIOS.SQUARE, ASPECT_RATIOS.PORTRAIT, ASPECT_RATIOS.LANDSCAPE],
+    imageFormat: 'image/jpeg',
+    maxVideoSize: 5 * 1024 * 1024 * 1024,
+    maxVideoDuration: 900,
+    videoAspectRatio: ASPECT_RATIOS.SQUARE,
+    videoFit: 'crop' as const,
+    maxVideoDimension: 1080,
+    maxVideoBitrateKbps: 5000,
+    maxAudioBitrateKbps: 128
+  },
+  facebook: {
+    maxPostLength: 63206,
+    maxImageSize: 10 * 1024 * 1024,
+    maxImageDimension: 2048,
+    imageAspectRatios: [ASPECT_RATIOS.SQUARE, ASPECT_RATIOS.PORTRAIT, ASPECT_RATIOS.LANDSCAPE],
+    imageFormat: 'image/jpeg',
+    maxMediaItems: 10,
+    maxVideoSize: 10 * 1024 * 1024 * 1024,
+    maxVideoDuration: 240 * 60,
+    videoAspectRatio: ASPECT_RATIOS.WIDESCREEN,
+    videoFit: 'letterbox' as const,
+    maxVideoDimension: 1920,
+    maxVideoBitrateKbps: 8000,
+    maxAudioBitrateKbps: 192
+  },
+  pinterest: {
+    maxTitleLength: 100,
+    maxDescriptionLength: 800,
+    maxAltTextLength: 500,
+    maxImageSize: 20 * 1024 * 1024,
+    imageAspectRatios: [ASPECT_RATIOS.TALL, ASPECT_RATIOS.SQUARE, ASPECT_RATIOS.VERTICAL],
+    imageFormat: 'image/jpeg',
+    maxVideoSize: 2 * 1024 * 1024 * 1024,
+    maxVideoDuration: 15 * 60,
+    videoAspectRatio: ASPECT_RATIOS.TALL,
+    videoFit: 'crop' as const,
+    maxVideoDimension: 1920,
+    maxVideoBitrateKbps: 8000,
+    maxAudioBitrateKbps: 192
   }
 };
 
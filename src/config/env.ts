@@ -19,6 +19,12 @@ const envSchema = z.object({
   VITE_LINKEDIN_CLIENT_ID: z.string().optional(),
   VITE_LINKEDIN_CLIENT_SECRET: z.string().optional(),
 
+  VITE_TWITTER_CLIENT_ID: z.string().optional(),
+  VITE_TWITTER_CLIENT_SECRET: z.string().optional(),
+
+  VITE_FACEBOOK_APP_ID: z.string().optional(),
+  VITE_FACEBOOK_APP_SECRET: z.string().optional(),
+
   VITE_PINTEREST_CLIENT_ID: z.string().optional(),
   VITE_PINTEREST_CLIENT_SECRET: z.string().optional(),
 
@@ -66,6 +72,10 @@ class Config {
       VITE_TIKTOK_CLIENT_SECRET: import.meta.env.VITE_TIKTOK_CLIENT_SECRET,
       VITE_LINKEDIN_CLIENT_ID: import.meta.env.VITE_LINKEDIN_CLIENT_ID,
       VITE_LINKEDIN_CLIENT_SECRET: import.meta.env.VITE_LINKEDIN_CLIENT_SECRET,
+      VITE_TWITTER_CLIENT_ID: import.meta.env.VITE_TWITTER_CLIENT_ID,
+      VITE_TWITTER_CLIENT_SECRET: import.meta.env.VITE_TWITTER_CLIENT_SECRET,
+      VITE_FACEBOOK_APP_ID: import.meta.env.VITE_FACEBOOK_APP_ID,
+      VITE_FACEBOOK_APP_SECRET: import.meta.env.VITE_FACEBOOK_APP_SECRET,
       VITE_PINTEREST_CLIENT_ID: import.meta.env.VITE_PINTEREST_CLIENT_ID,
       VITE_PINTEREST_CLIENT_SECRET: import.meta.env.VITE_PINTEREST_CLIENT_SECRET,
       VITE_OPENAI_API_KEY: import.meta.env.VITE_OPENAI_API_KEY,
@@ -112,7 +122,9 @@ class Config {
       instagram: ['VITE_INSTAGRAM_CLIENT_ID', 'VITE_INSTAGRAM_CLIENT_SECRET'],
       tiktok: ['VITE_TIKTOK_CLIENT_KEY', 'VITE_TIKTOK_CLIENT_SECRET'],
       linkedin: ['VITE_LINKEDIN_CLIENT_ID', 'VITE_LINKEDIN_CLIENT_SECRET'],
-      pinterest: ['VITE_PINTEREST_CLIENT_ID', 'VITE_PINTEREST_CLIENT_SECRET']
+      pinterest: ['VITE_PINTEREST_CLIENT_ID', 'VITE_PINTEREST_CLIENT_SECRET'],
+      twitter: ['VITE_TWITTER_CLIENT_ID', 'VITE_TWITTER_CLIENT_SECRET'],
+      facebook: ['VITE_FACEBOOK_APP_ID', 'VITE_FACEBOOK_APP_SECRET']
     };
 
     const required = requiredEnvVars[connector];
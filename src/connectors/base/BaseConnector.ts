@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { connectorRateLimiter } from './RateLimiter';
+import { TokenRefreshError } from '../../utils/errors';
 
 export enum ConnectorStatus {
   CONNECTED = 'connected',
@@ -51,13 +53,37 @@ export interface ConnectorHealthCheck {
   quotaLimit?: number;
 }
 
+/** Error body of a failed token request: OAuth's string code, or Meta's error object. */
+interface TokenErrorBody {
+  error?: string | { code?: number; message?: string };
+  error_description?: string;
+  message?: string;
+}
+
+/** Added to a failed result when the platform refused the call for rate limiting. */
+export interface RateLimitedFailure {
+  rateLimited: true;
+  retryAfterMs: number;
+}
+
 export abstract class BaseConnector {
   protected config: ConnectorConfig;
   protected credentials: ConnectorCredentials | null = null;
   protected lastHealthCheck: ConnectorHealthCheck | null = null;
+  protected workspaceId: string = 'default';
+  protected rateLimitedUntil: Date | null = null;
+  private tokenRefresher: (() => Promise<void>) | null = null;
 
   constructor(config: ConnectorConfig) {
     this.config = config;
+
+    if (config.rateLimit) {
+      connectorRateLimiter.setRules(
+        config.id,
+        [{ capacity: config.rateLimit.requests, periodMs: config.rateLimit.period }],
+        { ifAbsent: true }
+      );
+    }
   }
 
   abstract validateCredentials(credentials: ConnectorCredentials): Promise<boolean>;
@@ -74,18 +100,93 @@ export abstract class BaseConnector {
     return this.config;
   }
 
+  /** RATE_LIMITED while a platform rate limit is in force, otherwise the last health check's status. */
   getStatus(): ConnectorStatus {
+    if (this.getRateLimitedUntil()) return ConnectorStatus.RATE_LIMITED;
     return this.lastHealthCheck?.status || ConnectorStatus.DISCONNECTED;
   }
 
+  /**
+   * Whether the connection itself is healthy. A rate-limited connector is
+   * still connected; callers check `getRateLimitedUntil()` for that.
+   */
   isConnected(): boolean {
-    return this.credentials !== null && this.getStatus() === ConnectorStatus.CONNECTED;
+    return this.credentials !== null && this.lastHealthCheck?.status === ConnectorStatus.CONNECTED;
   }
 
   getCredentials(): ConnectorCredentials | null {
     return this.credentials;
   }
 
+  /**
+   * Scopes rate limiting and quota reporting to a workspace.
+   */
+  setWorkspace(workspaceId: string): void {
+    this.workspaceId = workspaceId;
+  }
+
+  getWorkspaceId(): string {
+    return this.workspaceId;
+  }
+
+  /**
+   * Routes this instance's token refreshes through `refresher` (which calls
+   * `refreshToken` and persists the result) instead of `refreshToken` alone.
+   */
+  setTokenRefresher(refresher: (() => Promise<void>) | null): void {
+    this.tokenRefresher = refresher;
+  }
+
+  /** Whether the access token expires within `ms`; false when it has no known expiry. */
+  expiresWithin(ms: number): boolean {
+    if (!this.credentials?.expiresAt) return false;
+    return this.credentials.expiresAt.getTime() - Date.now() <= ms;
+  }
+
+  /** Replaces the credentials without reconnecting, e.g. with tokens another process refreshed. */
+  replaceCredentials(credentials: ConnectorCredentials): void {
+    this.setCredentials(credentials);
+  }
+
+  markExpired(message: string): void {
+    this.updateHealthCheck({
+      status: ConnectorStatus.EXPIRED,
+      lastChecked: new Date(),
+      message
+    });
+  }
+
+  /**
+   * When the platform last rejected a call with a rate limit, the time it
+   * asked us to wait until; null otherwise or once that time has passed.
+   */
+  getRateLimitedUntil(): Date | null {
+    if (this.rateLimitedUntil && this.rateLimitedUntil <= new Date()) {
+      this.rateLimitedUntil = null;
+    }
+    return this.rateLimitedUntil;
+  }
+
+  getQuota(): { used: number; limit: number } | undefined {
+    return connectorRateLimiter.getQuota(this.config.id, this.workspaceId);
+  }
+
+  getLastHealthCheck(): ConnectorHealthCheck | null {
+    if (!this.lastHealthCheck) return null;
+    const quota = this.getQuota();
+    const rateLimitedUntil = this.getRateLimitedUntil();
+    return {
+      ...this.lastHealthCheck,
+      ...(quota ? { quotaUsed: quota.used, quotaLimit: quota.limit } : {}),
+      ...(rateLimitedUntil
+        ? {
+            status: ConnectorStatus.RATE_LIMITED,
+            message: `Rate limit exceeded. Retry after ${rateLimitedUntil.toISOString()}`
+          }
+        : {})
+    };
+  }
+
   protected setCredentials(credentials: ConnectorCredentials): void {
     this.credentials = credentials;
   }
@@ -95,7 +196,10 @@ export abstract class BaseConnector {
   }
 
   protected updateHealthCheck(healthCheck: ConnectorHealthCheck): void {
-    this.lastHealthCheck = healthCheck;
+    const quota = this.getQuota();
+    this.lastHealthCheck = quota
+      ? { quotaUsed: quota.used, quotaLimit: quota.limit, ...healthCheck }
+      : healthCheck;
   }
 
   protected isTokenExpired(): boolean {
@@ -103,16 +207,43 @@ export abstract class BaseConnector {
     return new Date() >= this.credentials.expiresAt;
   }
 
-  protected async handleRateLimit(retryAfter?: number): Promise<void> {
-    this.updateHealthCheck({
-      status: ConnectorStatus.RATE_LIMITED,
-      lastChecked: new Date(),
-      message: `Rate limit exceeded. Retry after ${retryAfter || 'unknown'} seconds`
-    });
+  /** Refreshes an expired token before an API call. */
+  protected async ensureFreshToken(): Promise<void> {
+    if (!this.isTokenExpired()) return;
+    await (this.tokenRefresher ? this.tokenRefresher() : this.refreshToken());
+  }
 
-    if (retryAfter) {
-      await new Promise(resolve => setTimeout(resolve, retryAfter * 1000));
+  /**
+   * Builds the error for a failed token request. OAuth servers answer a
+   * revoked or expired grant with `invalid_grant`; Meta answers with error
+   * code 190.
+   */
+  protected async tokenRefreshFailure(response: Response): Promise<TokenRefreshError> {
+    let body: TokenErrorBody | null = null;
+    try {
+      body = await response.json();
+    } catch {
+      // Not every error response has a JSON body.
     }
+
+    const error = typeof body?.error === 'object' ? body.error : undefined;
+    const revoked = body?.error === 'invalid_grant' || error?.code === 190;
+    const reason = body?.error_description ?? error?.message ?? body?.message ?? response.statusText;
+    return new TokenRefreshError(`Failed to refresh ${this.config.name} token: ${reason}`, this.config.id, revoked);
+  }
+
+  /**
+   * Records a platform rate-limit response. The connector does not wait here;
+   * the caller adds the returned fields to its failed result (or to the error
+   * it throws), and JobQueue defers the job by `retryAfterMs` without
+   * counting it as an attempt. The health check is left alone, so the
+   * connector reports CONNECTED again by itself once that time has passed.
+   */
+  protected async handleRateLimit(retryAfter?: number): Promise<RateLimitedFailure> {
+    const retryAfterMs = (retryAfter || 60) * 1000;
+    this.rateLimitedUntil = new Date(Date.now() + retryAfterMs);
+    connectorRateLimiter.block(this.config.id, this.workspaceId, this.rateLimitedUntil);
+    return { rateLimited: true, retryAfterMs };
   }
 
   protected validateEnv(schema: z.ZodObject<any>): void {
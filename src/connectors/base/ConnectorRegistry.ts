@@ -1,9 +1,44 @@
-import { BaseConnector, ConnectorConfig } from './BaseConnector';
+import { BaseConnector, ConnectorCredentials } from './BaseConnector';
+import { CONNECTOR_CONFIG } from '../../config/constants';
+import { logger } from '../../utils/logger';
 
+/** Identifies one connected platform account within a workspace. */
+export interface ConnectorInstanceKey {
+  workspaceId: string;
+  platform: string;
+  /** The platform's id for the account (channel, page, profile). */
+  accountId?: string;
+}
+
+interface ActiveConnector {
+  key: ConnectorInstanceKey;
+  connector: BaseConnector;
+  lastUsedAt: number;
+  /** Callers currently holding the instance; leased instances are never evicted. */
+  leases: number;
+}
+
+function instanceId(key: ConnectorInstanceKey): string {
+  return `${key.workspaceId}:${key.platform}:${key.accountId ?? ''}`;
+}
+
+/**
+ * Holds the connector classes and the connected instances built from them.
+ *
+ * Instances are scoped to a workspace, platform and platform account, so an
+ * agency workspace can hold a dozen YouTube channels side by side. They are
+ * hydrated lazily from stored credentials on first `acquire` (concurrent
+ * callers share one hydration) and disconnected once idle for
+ * `CONNECTOR_CONFIG.INSTANCE_IDLE_TTL_MS`.
+ */
 export class ConnectorRegistry {
   private static instance: ConnectorRegistry;
   private connectors: Map<string, typeof BaseConnector> = new Map();
-  private activeConnectors: Map<string, BaseConnector> = new Map();
+  private activeConnectors: Map<string, ActiveConnector> = new Map();
+  private hydrating: Map<string, Promise<void>> = new Map();
+  /** Evicted instances still leased; disconnected when their last lease is released. */
+  private retired: Map<BaseConnector, ActiveConnector> = new Map();
+  private evictionTimer: ReturnType<typeof setInterval> | null = null;
 
   private constructor() {}
 
@@ -22,32 +57,162 @@ export class ConnectorRegistry {
     return this.connectors.get(id);
   }
 
-  async createConnector(id: string, config: ConnectorConfig): Promise<BaseConnector> {
-    const ConnectorClass = this.connectors.get(id);
-    if (!ConnectorClass) {
-      throw new Error(`Connector ${id} not found in registry`);
+  /**
+   * Returns the connected instance for `key`, connecting a new one with the
+   * credentials from `loadCredentials` if there is none. The loader receives
+   * the instance before it connects, e.g. to refresh an expiring token
+   * through it. Every successful call must be paired with `release`.
+   */
+  async acquire(
+    key: ConnectorInstanceKey,
+    loadCredentials: (connector: BaseConnector) => Promise<ConnectorCredentials>
+  ): Promise<BaseConnector> {
+    const id = instanceId(key);
+
+    if (!this.activeConnectors.has(id)) {
+      let hydration = this.hydrating.get(id);
+      if (!hydration) {
+        hydration = this.hydrate(key, loadCredentials);
+        this.hydrating.set(id, hydration);
+        const settle = () => this.hydrating.delete(id);
+        hydration.then(settle, settle);
+      }
+      await hydration;
     }
 
-    const connector = new (ConnectorClass as any)(config);
-    this.activeConnectors.set(id, connector);
-    return connector;
+    const entry = this.activeConnectors.get(id);
+    if (!entry) {
+      throw new Error(`Connector ${id} was evicted while connecting`);
+    }
+
+    entry.leases++;
+    entry.lastUsedAt = Date.now();
+    return entry.connector;
   }
 
-  getActiveConnector(id: string): BaseConnector | undefined {
-    return this.activeConnectors.get(id);
+  release(connector: BaseConnector): void {
+    const retired = this.retired.get(connector);
+    if (retired) {
+      retired.leases--;
+      if (retired.leases <= 0) {
+        this.retired.delete(connector);
+        this.disconnect(retired);
+      }
+      return;
+    }
+
+    const entry = this.findEntry(connector);
+    if (entry) {
+      entry.leases = Math.max(0, entry.leases - 1);
+      entry.lastUsedAt = Date.now();
+    }
+  }
+
+  getActiveConnector(key: ConnectorInstanceKey): BaseConnector | undefined {
+    return this.activeConnectors.get(instanceId(key))?.connector;
   }
 
   getAllActiveConnectors(): BaseConnector[] {
-    return Array.from(this.activeConnectors.values());
+    return Array.from(this.activeConnectors.values(), entry => entry.connector);
+  }
+
+  /**
+   * Drops the instances matching `match` (every account of the platform when
+   * `accountId` is omitted, every platform when `platform` is too), so the
+   * next `acquire` reconnects with freshly stored credentials.
+   */
+  async evict(match: { workspaceId: string; platform?: string; accountId?: string }): Promise<number> {
+    return this.evictWhere(entry =>
+      entry.key.workspaceId === match.workspaceId &&
+      (match.platform === undefined || entry.key.platform === match.platform) &&
+      (match.accountId === undefined || entry.key.accountId === match.accountId)
+    );
+  }
+
+  /** Disconnects instances that are not leased and have not been used for `maxIdleMs`. */
+  async evictIdle(maxIdleMs: number = CONNECTOR_CONFIG.INSTANCE_IDLE_TTL_MS): Promise<number> {
+    const cutoff = Date.now() - maxIdleMs;
+    return this.evictWhere(entry => entry.leases === 0 && entry.lastUsedAt < cutoff);
+  }
+
+  startEviction(intervalMs: number = CONNECTOR_CONFIG.INSTANCE_EVICTION_INTERVAL_MS): void {
+    if (this.evictionTimer) return;
+    this.evictionTimer = setInterval(() => {
+      this.evictIdle();
+    }, intervalMs);
   }
 
-  removeConnector(id: string): void {
-    this.activeConnectors.delete(id);
+  stopEviction(): void {
+    if (this.evictionTimer) {
+      clearInterval(this.evictionTimer);
+      this.evictionTimer = null;
+    }
   }
 
   listAvailableConnectors(): string[] {
     return Array.from(this.connectors.keys());
   }
+
+  private async hydrate(
+    key: ConnectorInstanceKey,
+    loadCredentials: (connector: BaseConnector) => Promise<ConnectorCredentials>
+  ): Promise<void> {
+    const ConnectorClass = this.connectors.get(key.platform);
+    if (!ConnectorClass) {
+      throw new Error(`Connector ${key.platform} not found in registry`);
+    }
+
+    const connector: BaseConnector = new (ConnectorClass as any)();
+    connector.setWorkspace(key.workspaceId);
+    await connector.connect(await loadCredentials(connector));
+
+    this.activeConnectors.set(instanceId(key), {
+      key,
+      connector,
+      lastUsedAt: Date.now(),
+      leases: 0
+    });
+
+    logger.info('Connector instance hydrated', { ...key });
+  }
+
+  private async evictWhere(predicate: (entry: ActiveConnector) => boolean): Promise<number> {
+    const evicted: ActiveConnector[] = [];
+    for (const [id, entry] of this.activeConnectors) {
+      if (predicate(entry)) {
+        this.activeConnectors.delete(id);
+        evicted.push(entry);
+      }
+    }
+
+    for (const entry of evicted) {
+      if (entry.leases > 0) {
+        this.retired.set(entry.connector, entry);
+      } else {
+        await this.disconnect(entry);
+      }
+    }
+
+    if (evicted.length > 0) {
+      logger.info('Connector instances evicted', { count: evicted.length });
+    }
+    return evicted.length;
+  }
+
+  private async disconnect(entry: ActiveConnector): Promise<void> {
+    try {
+      await entry.connector.disconnect();
+    } catch (error) {
+      logger.warn('Failed to disconnect evicted connector', { ...entry.key, error: (error as Error).message });
+    }
+  }
+
+  private findEntry(connector: BaseConnector): ActiveConnector | undefined {
+    for (const entry of this.activeConnectors.values()) {
+      if (entry.connector === connector) return entry;
+    }
+    return undefined;
+  }
 }
 
 export const connectorRegistry = ConnectorRegistry.getInstance();
@@ -0,0 +1,183 @@
+import { RATE_LIMITS } from '../../config/constants';
+
+export interface RateLimitRule {
+  /** Maximum tokens (requests or quota units) the bucket can hold. */
+  capacity: number;
+  /** Time for an empty bucket to refill completely. */
+  periodMs: number;
+  /**
+   * Whether the bucket is measured in platform quota units (YouTube's daily
+   * quota) rather than requests. Only such buckets are charged the full
+   * `cost` of a reservation; request buckets are charged 1.
+   */
+  quotaUnits?: boolean;
+}
+
+export interface RateLimitReservation {
+  allowed: boolean;
+  /** Earliest time the request would be allowed, when `allowed` is false. */
+  retryAt?: Date;
+}
+
+export interface RateLimitQuota {
+  used: number;
+  limit: number;
+}
+
+/**
+ * Continuously refilling token bucket. Tokens accrue at
+ * `capacity / periodMs` per millisecond up to `capacity`.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+  private blockedUntil: number = 0;
+
+  constructor(private rule: RateLimitRule, now: number = Date.now()) {
+    this.tokens = rule.capacity;
+    this.updatedAt = now;
+  }
+
+  getRule(): RateLimitRule {
+    return this.rule;
+  }
+
+  /**
+   * Milliseconds until `cost` tokens are available; 0 means available now.
+   */
+  waitTime(cost: number, now: number = Date.now()): number {
+    this.refill(now);
+    if (now < this.blockedUntil) {
+      return this.blockedUntil - now;
+    }
+    if (this.tokens >= cost) return 0;
+    if (cost > this.rule.capacity) return Infinity;
+    return Math.ceil((cost - this.tokens) * (this.rule.periodMs / this.rule.capacity));
+  }
+
+  consume(cost: number, now: number = Date.now()): void {
+    this.refill(now);
+    this.tokens -= cost;
+  }
+
+  /**
+   * Empties the bucket and blocks it until `until`, used when the platform
+   * itself answered 429 and our local accounting was too optimistic.
+   */
+  block(until: number): void {
+    this.tokens = 0;
+    this.updatedAt = Math.max(this.updatedAt, until);
+    this.blockedUntil = Math.max(this.blockedUntil, until);
+  }
+
+  used(now: number = Date.now()): number {
+    this.refill(now);
+    return Math.round(this.rule.capacity - this.tokens);
+  }
+
+  private refill(now: number): void {
+    if (now <= this.updatedAt) return;
+    const refillRate = this.rule.capacity / this.rule.periodMs;
+    this.tokens = Math.min(this.rule.capacity, this.tokens + (now - this.updatedAt) * refillRate);
+    this.updatedAt = now;
+  }
+}
+
+const DEFAULT_RULES: Record<string, RateLimitRule[]> = {
+  youtube: [
+    { capacity: RATE_LIMITS.youtube.dailyQuota, periodMs: 24 * 60 * 60 * 1000, quotaUnits: true },
+    { capacity: RATE_LIMITS.youtube.requestsPerSecond, periodMs: 1000 }
+  ],
+  instagram: [{ capacity: RATE_LIMITS.instagram.requestsPerHour, periodMs: 60 * 60 * 1000 }],
+  tiktok: [{ capacity: RATE_LIMITS.tiktok.requestsPerDay, periodMs: 24 * 60 * 60 * 1000 }]
+};
+
+/**
+ * Token-bucket limiters keyed by connector and workspace. JobQueue reserves
+ * capacity before dispatching a job so that over-quota work is deferred
+ * instead of failing at the platform.
+ *
+ * Buckets live in process memory; each worker enforces its own view of the
+ * quota and platform 429s (via `block`) correct for drift between workers.
+ */
+export class ConnectorRateLimiter {
+  private static instance: ConnectorRateLimiter;
+  private rules: Map<string, RateLimitRule[]> = new Map(Object.entries(DEFAULT_RULES));
+  private buckets: Map<string, TokenBucket[]> = new Map();
+
+  private constructor() {}
+
+  static getInstance(): ConnectorRateLimiter {
+    if (!ConnectorRateLimiter.instance) {
+      ConnectorRateLimiter.instance = new ConnectorRateLimiter();
+    }
+    return ConnectorRateLimiter.instance;
+  }
+
+  /**
+   * Sets the rules for a connector. With `ifAbsent`, rules already defined
+   * in RATE_LIMITS take precedence over a connector's own config.
+   */
+  setRules(connectorId: string, rules: RateLimitRule[], options: { ifAbsent?: boolean } = {}): void {
+    if (options.ifAbsent && this.rules.has(connectorId)) return;
+
+    this.rules.set(connectorId, rules);
+    for (const key of Array.from(this.buckets.keys())) {
+      if (key.startsWith(`${connectorId}:`)) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  hasRules(connectorId: string): boolean {
+    return (this.rules.get(connectorId)?.length ?? 0) > 0;
+  }
+
+  /**
+   * Charges every bucket for the connector/workspace if all of them can
+   * afford it; otherwise charges nothing and reports when to try again.
+   */
+  reserve(connectorId: string, workspaceId: string, cost: number = 1, now: Date = new Date()): RateLimitReservation {
+    const buckets = this.getBuckets(connectorId, workspaceId, now.getTime());
+    const costOf = (bucket: TokenBucket) => (bucket.getRule().quotaUnits ? cost : 1);
+    const wait = Math.max(0, ...buckets.map(bucket => bucket.waitTime(costOf(bucket), now.getTime())));
+
+    if (wait > 0) {
+      const retryAt = Number.isFinite(wait) ? new Date(now.getTime() + wait) : undefined;
+      return { allowed: false, retryAt };
+    }
+
+    buckets.forEach(bucket => bucket.consume(costOf(bucket), now.getTime()));
+    return { allowed: true };
+  }
+
+  block(connectorId: string, workspaceId: string, until: Date): void {
+    this.getBuckets(connectorId, workspaceId, Date.now()).forEach(bucket => bucket.block(until.getTime()));
+  }
+
+  /**
+   * Usage of the connector's largest bucket, which is the quota that users
+   * care about (e.g. YouTube's daily units rather than its per-second cap).
+   */
+  getQuota(connectorId: string, workspaceId: string, now: Date = new Date()): RateLimitQuota | undefined {
+    const buckets = this.getBuckets(connectorId, workspaceId, now.getTime());
+    if (buckets.length === 0) return undefined;
+
+    const primary = buckets.reduce((largest, bucket) =>
+      bucket.getRule().capacity > largest.getRule().capacity ? bucket : largest
+    );
+    return { used: primary.used(now.getTime()), limit: primary.getRule().capacity };
+  }
+
+  private getBuckets(connectorId: string, workspaceId: string, now: number): TokenBucket[] {
+    const key = `${connectorId}:${workspaceId}`;
+    let buckets = this.buckets.get(key);
+    if (!buckets) {
+      buckets = (this.rules.get(connectorId) ?? []).map(rule => new TokenBucket(rule, now));
+      this.buckets.set(key, buckets);
+    }
+    return buckets;
+  }
+}
+
+export const connectorRateLimiter = ConnectorRateLimiter.getInstance();
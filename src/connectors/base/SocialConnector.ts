@@ -1,18 +1,28 @@
-import { BaseConnector, ConnectorType } from './BaseConnector';
+import { BaseConnector, ConnectorType, RateLimitedFailure } from './BaseConnector';
 
 export interface PostData {
   content: string;
   mediaUrls?: string[];
   scheduledAt?: Date;
   metadata?: Record<string, any>;
+  /**
+   * Aborted when the job posting this is timed out, cancelled or reclaimed.
+   * Connectors pass it to every request so an abandoned post stops promptly.
+   */
+  signal?: AbortSignal;
 }
 
 export interface PostResult {
   success: boolean;
   postId?: string;
+  /** The id the platform handed out before `postId` was known, which its webhooks may still use. */
+  provisionalPostId?: string;
   url?: string;
   error?: string;
   platformResponse?: any;
+  /** Set when this call was refused by the platform's rate limit. */
+  rateLimited?: boolean;
+  retryAfterMs?: number;
 }
 
 export interface MediaUploadResult {
@@ -20,6 +30,9 @@ export interface MediaUploadResult {
   mediaId?: string;
   url?: string;
   error?: string;
+  /** Set when this call was refused by the platform's rate limit. */
+  rateLimited?: boolean;
+  retryAfterMs?: number;
 }
 
 export interface PlatformMetrics {
@@ -36,6 +49,20 @@ export interface PlatformMetrics {
   impressions?: number;
 }
 
+export interface PlatformPost {
+  postId: string;
+  url?: string;
+  content?: string;
+  mediaType?: string;
+  publishedAt?: Date;
+  metrics?: {
+    likes: number;
+    comments: number;
+    shares: number;
+    views: number;
+  };
+}
+
 export abstract class SocialConnector extends BaseConnector {
   constructor(config: any) {
     super({ ...config, type: ConnectorType.SOCIAL });
@@ -43,7 +70,7 @@ export abstract class SocialConnector extends BaseConnector {
 
   abstract post(data: PostData): Promise<PostResult>;
 
-  abstract uploadMedia(file: File | Blob, type: 'image' | 'video'): Promise<MediaUploadResult>;
+  abstract uploadMedia(file: File | Blob, type: 'image' | 'video', signal?: AbortSignal): Promise<MediaUploadResult>;
 
   abstract deletePost(postId: string): Promise<boolean>;
 
@@ -51,12 +78,45 @@ export abstract class SocialConnector extends BaseConnector {
 
   abstract getPostMetrics(postId: string): Promise<any>;
 
+  /**
+   * Most recent posts on the connected account, newest first. Connectors
+   * whose platform API cannot list posts keep this default.
+   */
+  async getRecentPosts(_limit: number = 25): Promise<PlatformPost[]> {
+    throw new Error(`${this.config.name} does not support listing posts`);
+  }
+
   protected validatePostData(data: PostData): void {
     if (!data.content && (!data.mediaUrls || data.mediaUrls.length === 0)) {
       throw new Error('Post must contain either content or media');
     }
   }
 
+  /** The rate-limit fields an error carries when it was thrown after `handleRateLimit`. */
+  protected rateLimitOf(error: unknown): Partial<RateLimitedFailure> {
+    const { rateLimited, retryAfterMs } = error as Partial<RateLimitedFailure>;
+    return rateLimited ? { rateLimited, retryAfterMs } : {};
+  }
+
+  /** Sleeps between polls; rejects with the abort reason as soon as `signal` fires. */
+  protected wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
   protected async retryOnFailure<T>(
     fn: () => Promise<T>,
     maxRetries: number = 3,
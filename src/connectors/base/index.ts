@@ -1,3 +1,4 @@
 export * from './BaseConnector';
 export * from './SocialConnector';
 export * from './ConnectorRegistry';
+export * from './RateLimiter';
@@ -0,0 +1,453 @@
+import { z } from 'zod';
+import { SocialConnector, PostData, PostResult, MediaUploadResult, PlatformMetrics, PlatformPost } from '../base/SocialConnector';
+import { ConnectorStatus, ConnectorCredentials, ConnectorHealthCheck } from '../base/BaseConnector';
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+
+const facebookCredentialsSchema = z.object({
+  accessToken: z.string().min(1)
+});
+
+export interface FacebookPage {
+  id: string;
+  name: string;
+  category?: string;
+  /** Whether the user may publish to the Page. */
+  canPublish: boolean;
+}
+
+/** Graph error codes for application, user and Page rate limits. */
+const RATE_LIMIT_ERROR_CODES = new Set([4, 17, 32, 613]);
+
+const VIDEO_EXTENSIONS = /\.(mp4|mov|m4v|webm|avi)(\?|$)/i;
+
+const ENGAGEMENT_FIELDS = 'shares,reactions.summary(total_count).limit(0),comments.summary(total_count).limit(0)';
+
+/** The Graph fields read from Pages, posts and publish responses. */
+interface GraphPage {
+  id: string;
+  name: string;
+  category?: string;
+  tasks?: string[];
+  access_token?: string;
+  followers_count?: number;
+  fan_count?: number;
+}
+
+interface GraphPost {
+  id: string;
+  post_id?: string;
+  message?: string;
+  permalink_url?: string;
+  created_time?: string;
+  reactions?: { summary?: { total_count?: number } };
+  comments?: { summary?: { total_count?: number } };
+  shares?: { count?: number };
+  insights?: { data?: Array<{ name: string; values?: Array<{ value?: number }> }> };
+}
+
+interface GraphList<T> {
+  data?: T[];
+}
+
+interface GraphErrorBody {
+  error?: { code?: number; message?: string };
+}
+
+/**
+ * Facebook Pages through the Graph API. The stored token is the user's
+ * long-lived token; each Page is its own connector account
+ * (`platformUserId` is the Page id, see the facebook OAuth provider), so
+ * the Page to post to is selected like any other account. Calls on the
+ * Page use a Page token derived from the user token.
+ */
+export class FacebookConnector extends SocialConnector {
+  private readonly API_BASE = 'https://graph.facebook.com/v18.0';
+  private pageToken: { pageId: string; token: string; name: string } | null = null;
+
+  constructor() {
+    super({
+      id: 'facebook',
+      name: 'Facebook',
+      requiresOAuth: true,
+      requiresApiKey: false,
+      scopes: [
+        'pages_show_list',
+        'pages_read_engagement',
+        'pages_manage_posts',
+        'read_insights'
+      ],
+      apiEndpoint: 'https://graph.facebook.com/v18.0',
+      rateLimit: {
+        requests: 200,
+        period: 3600000
+      }
+    });
+  }
+
+  async validateCredentials(_credentials: ConnectorCredentials): Promise<boolean> {
+    try {
+      this.validateEnv(facebookCredentialsSchema);
+      return true;
+    } catch (error) {
+      logger.error('Facebook credentials validation failed', error as Error);
+      return false;
+    }
+  }
+
+  async connect(credentials: ConnectorCredentials): Promise<void> {
+    this.setCredentials(credentials);
+
+    if (!await this.validateCredentials(credentials)) {
+      this.clearCredentials();
+      throw new Error('Invalid Facebook credentials');
+    }
+
+    const healthCheck = await this.healthCheck();
+    this.updateHealthCheck(healthCheck);
+    if (healthCheck.status !== ConnectorStatus.CONNECTED) {
+      throw new Error(healthCheck.message || 'Failed to connect to Facebook');
+    }
+
+    logger.info('Facebook connector connected', { userId: credentials.userId, pageId: this.pageToken?.pageId });
+  }
+
+  async disconnect(): Promise<void> {
+    this.clearCredentials();
+    this.pageToken = null;
+    this.updateHealthCheck({
+      status: ConnectorStatus.DISCONNECTED,
+      lastChecked: new Date(),
+      message: 'Disconnected from Facebook'
+    });
+
+    logger.info('Facebook connector disconnected');
+  }
+
+  async healthCheck(): Promise<ConnectorHealthCheck> {
+    if (!this.credentials?.accessToken) {
+      return {
+        status: ConnectorStatus.DISCONNECTED,
+        lastChecked: new Date(),
+        message: 'No access token available'
+      };
+    }
+
+    try {
+      const page = await this.getPageToken();
+
+      return {
+        status: ConnectorStatus.CONNECTED,
+        lastChecked: new Date(),
+        message: `Connected to: ${page.name}`
+      };
+    } catch (error) {
+      const expired = (error as { code?: number }).code === 190;
+      return {
+        status: expired ? ConnectorStatus.EXPIRED : ConnectorStatus.ERROR,
+        lastChecked: new Date(),
+        message: expired ? 'Access token expired' : (error as Error).message
+      };
+    }
+  }
+
+  async refreshToken(): Promise<void> {
+    if (!this.credentials?.accessToken) {
+      throw new Error('No access token available');
+    }
+
+    config.requireConnector('facebook');
+
+    try {
+      const params = new URLSearchParams({
+        grant_type: 'fb_exchange_token',
+        client_id: config.get('VITE_FACEBOOK_APP_ID')!,
+        client_secret: config.get('VITE_FACEBOOK_APP_SECRET')!,
+        fb_exchange_token: this.credentials.accessToken
+      });
+      const response = await fetch(`${this.API_BASE}/oauth/access_token?${params}`);
+
+      if (!response.ok) {
+        throw await this.tokenRefreshFailure(response);
+      }
+
+      const data = await response.json();
+
+      this.setCredentials({
+        ...this.credentials,
+        accessToken: data.access_token,
+        expiresAt: data.expires_in ? new Date(Date.now() + data.expires_in * 1000) : undefined
+      });
+      this.pageToken = null;
+
+      logger.info('Facebook access token refreshed');
+    } catch (error) {
+      logger.error('Failed to refresh Facebook token', error as Error);
+      throw error;
+    }
+  }
+
+  /** The Pages the connected user manages, to pick which ones to publish to. */
+  async listPages(): Promise<FacebookPage[]> {
+    if (!this.credentials?.accessToken) {
+      throw new Error('Facebook connector not connected');
+    }
+
+    const data = await this.graph<GraphList<GraphPage>>(`/me/accounts?fields=id,name,category,tasks&limit=100`, this.credentials.accessToken);
+
+    return (data.data || []).map(page => ({
+      id: page.id,
+      name: page.name,
+      category: page.category,
+      canPublish: !page.tasks || page.tasks.includes('CREATE_CONTENT')
+    }));
+  }
+
+  async post(data: PostData): Promise<PostResult> {
+    this.validatePostData(data);
+
+    if (!this.isConnected()) {
+      return {
+        success: false,
+        error: 'Facebook connector not connected'
+      };
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const page = await this.getPageToken(data.signal);
+      const mediaUrls = data.mediaUrls ?? [];
+      const isVideo = data.metadata?.mediaType === 'VIDEO' || (mediaUrls.length === 1 && VIDEO_EXTENSIONS.test(mediaUrls[0]));
+
+      let result: GraphPost;
+      if (mediaUrls.length === 0) {
+        result = await this.publish(`/${page.pageId}/feed`, page.token, {
+          message: data.content,
+          ...(data.metadata?.link ? { link: data.metadata.link } : {})
+        }, data.signal);
+      } else if (isVideo) {
+        result = await this.publish(`/${page.pageId}/videos`, page.token, {
+          file_url: mediaUrls[0],
+          description: data.content,
+          ...(data.metadata?.title ? { title: data.metadata.title } : {})
+        }, data.signal);
+      } else if (mediaUrls.length === 1) {
+        result = await this.publish(`/${page.pageId}/photos`, page.token, {
+          url: mediaUrls[0],
+          caption: data.content
+        }, data.signal);
+      } else {
+        // Several photos: upload each unpublished, then attach them to one post.
+        const photoIds: string[] = [];
+        for (const url of mediaUrls) {
+          const photo = await this.publish<GraphPost>(`/${page.pageId}/photos`, page.token, { url, published: 'false' }, data.signal);
+          photoIds.push(photo.id);
+        }
+        result = await this.publish(`/${page.pageId}/feed`, page.token, {
+          message: data.content,
+          attached_media: JSON.stringify(photoIds.map(id => ({ media_fbid: id })))
+        }, data.signal);
+      }
+
+      // Photos answer with the photo id and the id of the post showing it.
+      const postId = result.post_id ?? result.id;
+
+      return {
+        success: true,
+        postId,
+        url: `https://www.facebook.com/${postId}`,
+        platformResponse: result
+      };
+    } catch (error) {
+      const rateLimited = this.rateLimitOf(error);
+      if (rateLimited.rateLimited) {
+        return {
+          success: false,
+          error: 'Facebook rate limit exceeded',
+          ...rateLimited
+        };
+      }
+
+      logger.error('Facebook post failed', error as Error);
+      return {
+        success: false,
+        error: (error as Error).message
+      };
+    }
+  }
+
+  async uploadMedia(_file: File | Blob, _type: 'image' | 'video'): Promise<MediaUploadResult> {
+    return {
+      success: false,
+      error: 'Facebook requires media to be hosted on a public URL'
+    };
+  }
+
+  async deletePost(postId: string): Promise<boolean> {
+    if (!this.isConnected()) {
+      throw new Error('Facebook connector not connected');
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const page = await this.getPageToken();
+      const response = await fetch(`${this.API_BASE}/${postId}?access_token=${page.token}`, { method: 'DELETE' });
+      return response.ok;
+    } catch (error) {
+      logger.error('Failed to delete Facebook post', error as Error);
+      return false;
+    }
+  }
+
+  async getMetrics(): Promise<PlatformMetrics> {
+    if (!this.isConnected()) {
+      throw new Error('Facebook connector not connected');
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const page = await this.getPageToken();
+      const data = await this.graph<GraphPage>(`/${page.pageId}?fields=followers_count,fan_count`, page.token);
+
+      return {
+        followers: data.followers_count ?? data.fan_count ?? 0,
+        engagement: {
+          likes: data.fan_count || 0,
+          comments: 0,
+          shares: 0,
+          views: 0
+        }
+      };
+    } catch (error) {
+      logger.error('Failed to fetch Facebook metrics', error as Error);
+      throw error;
+    }
+  }
+
+  async getPostMetrics(postId: string): Promise<Record<string, unknown>> {
+    if (!this.isConnected()) {
+      throw new Error('Facebook connector not connected');
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const page = await this.getPageToken();
+      const data = await this.graph<GraphPost>(
+        `/${postId}?fields=created_time,${ENGAGEMENT_FIELDS},insights.metric(post_impressions,post_impressions_unique)`,
+        page.token
+      );
+      const insight = (name: string): number =>
+        data.insights?.data?.find(metric => metric.name === name)?.values?.[0]?.value || 0;
+
+      return {
+        ...this.toEngagement(data),
+        views: insight('post_impressions'),
+        impressions: insight('post_impressions'),
+        reach: insight('post_impressions_unique'),
+        publishedAt: data.created_time
+      };
+    } catch (error) {
+      logger.error('Failed to fetch Facebook post metrics', error as Error);
+      throw error;
+    }
+  }
+
+  async getRecentPosts(limit: number = 25): Promise<PlatformPost[]> {
+    if (!this.isConnected()) {
+      throw new Error('Facebook connector not connected');
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const page = await this.getPageToken();
+      const data = await this.graph<GraphList<GraphPost>>(
+        `/${page.pageId}/posts?fields=id,message,permalink_url,created_time,${ENGAGEMENT_FIELDS}&limit=${limit}`,
+        page.token
+      );
+
+      return (data.data || []).map(post => ({
+        postId: post.id,
+        url: post.permalink_url,
+        content: post.message,
+        publishedAt: post.created_time ? new Date(post.created_time) : undefined,
+        metrics: this.toEngagement(post)
+      }));
+    } catch (error) {
+      logger.error('Failed to fetch recent Facebook posts', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * The Page token for the connector's Page. Tokens derived from a
+   * long-lived user token do not expire, so it is kept until the user token
+   * changes. Without a Page id the user's first publishable Page is used.
+   */
+  private async getPageToken(signal?: AbortSignal): Promise<{ pageId: string; token: string; name: string }> {
+    const pageId = this.credentials?.platformUserId
+      ?? (await this.listPages()).find(page => page.canPublish)?.id;
+    if (!pageId) {
+      throw new Error('No Facebook Page available to publish to');
+    }
+
+    if (this.pageToken?.pageId !== pageId) {
+      const data = await this.graph<GraphPage>(`/${pageId}?fields=access_token,name`, this.credentials!.accessToken!, signal);
+      if (!data.access_token) {
+        throw new Error('Not allowed to publish to this Facebook Page');
+      }
+      this.pageToken = { pageId, token: data.access_token, name: data.name };
+    }
+
+    return this.pageToken;
+  }
+
+  private async graph<T>(path: string, accessToken: string, signal?: AbortSignal): Promise<T> {
+    const separator = path.includes('?') ? '&' : '?';
+    const response = await fetch(`${this.API_BASE}${path}${separator}access_token=${accessToken}`, { signal });
+    return this.parseGraphResponse<T>(response);
+  }
+
+  private async publish<T = GraphPost>(
+    path: string,
+    accessToken: string,
+    fields: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const response = await fetch(`${this.API_BASE}${path}`, {
+      method: 'POST',
+      body: new URLSearchParams({ ...fields, access_token: accessToken }),
+      signal
+    });
+    return this.parseGraphResponse<T>(response);
+  }
+
+  /** Throws Graph errors with their code; rate limits are recorded first. */
+  private async parseGraphResponse<T>(response: Response): Promise<T> {
+    const data: GraphErrorBody = await response.json().catch(() => ({}));
+    if (response.ok && !data.error) return data as T;
+
+    const code = data.error?.code;
+    const error = Object.assign(
+      new Error(data.error?.message || `Facebook API error: ${response.statusText}`),
+      { code, rateLimited: (code !== undefined && RATE_LIMIT_ERROR_CODES.has(code)) || response.status === 429 }
+    );
+    if (error.rateLimited) {
+      Object.assign(error, await this.handleRateLimit(Number(response.headers.get('retry-after')) || 3600));
+    }
+    throw error;
+  }
+
+  private toEngagement(post: GraphPost) {
+    return {
+      likes: post.reactions?.summary?.total_count || 0,
+      comments: post.comments?.summary?.total_count || 0,
+      shares: post.shares?.count || 0,
+      views: 0
+    };
+  }
+}
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { SocialConnector, PostData, PostResult, MediaUploadResult, PlatformMetrics } from '../base/SocialConnector';
+import { SocialConnector, PostData, PostResult, MediaUploadResult, PlatformMetrics, PlatformPost } from '../base/SocialConnector';
 import { ConnectorStatus, ConnectorCredentials, ConnectorHealthCheck } from '../base/BaseConnector';
 import { config } from '../../config';
 import { logger } from '../../utils/logger';
@@ -9,6 +9,50 @@ const instagramCredentialsSchema = z.object({
   platformUserId: z.string().optional()
 });
 
+type InstagramFormat = 'IMAGE' | 'REELS' | 'CAROUSEL' | 'STORIES';
+
+interface ContainerStatus {
+  status_code: 'IN_PROGRESS' | 'FINISHED' | 'PUBLISHED' | 'ERROR' | 'EXPIRED';
+  status?: string;
+}
+
+/** The Graph fields read from media objects and publish responses. */
+interface GraphMedia {
+  id: string;
+  caption?: string;
+  media_type?: string;
+  permalink?: string;
+  timestamp?: string;
+  like_count?: number;
+  comments_count?: number;
+}
+
+interface GraphErrorBody {
+  error?: { code?: number; message?: string; error_user_msg?: string };
+}
+
+/** Graph error codes for application, user and Page rate limits. */
+const RATE_LIMIT_ERROR_CODES = new Set([4, 17, 32, 613]);
+
+const VIDEO_EXTENSIONS = /\.(mp4|mov|m4v)(\?|$)/i;
+
+const MAX_CAROUSEL_ITEMS = 10;
+const CONTAINER_POLL_INITIAL_MS = 2000;
+const CONTAINER_POLL_MAX_MS = 30 * 1000;
+const MAX_CONTAINER_WAIT_MS = 5 * 60 * 1000;
+
+function isVideoUrl(url: string | undefined): boolean {
+  return !!url && VIDEO_EXTENSIONS.test(url);
+}
+
+/**
+ * Instagram professional accounts through the Graph API content publishing
+ * flow: a media container is created from public media URLs, polled until
+ * processed and then published. Posting options are read from `metadata`:
+ * `mediaType` (`STORIES` or `REELS`), `shareToFeed`, `coverUrl` and
+ * `thumbOffsetMs` for Reels, and `firstComment`, posted once the media is
+ * live (see ContentAdaptationService for hashtags placed there).
+ */
 export class InstagramConnector extends SocialConnector {
   private readonly API_BASE = 'https://graph.facebook.com/v18.0';
 
@@ -135,7 +179,7 @@ export class InstagramConnector extends SocialConnector {
       );
 
       if (!response.ok) {
-        throw new Error('Failed to refresh Instagram token');
+        throw await this.tokenRefreshFailure(response);
       }
 
       const data = await response.json();
@@ -153,14 +197,15 @@ export class InstagramConnector extends SocialConnector {
     }
   }
 
-  private async getInstagramBusinessAccountId(): Promise<string | null> {
+  private async getInstagramBusinessAccountId(signal?: AbortSignal): Promise<string | null> {
     if (!this.credentials?.accessToken) {
       return null;
     }
 
     try {
       const response = await fetch(
-        `${this.API_BASE}/me/accounts?fields=instagram_business_account&access_token=${this.credentials.accessToken}`
+        `${this.API_BASE}/me/accounts?fields=instagram_business_account&access_token=${this.credentials.accessToken}`,
+        { signal }
       );
 
       if (!response.ok) {
@@ -185,12 +230,10 @@ export class InstagramConnector extends SocialConnector {
       };
     }
 
-    if (this.isTokenExpired()) {
-      await this.refreshToken();
-    }
+    await this.ensureFreshToken();
 
     try {
-      const igUserId = await this.getInstagramBusinessAccountId();
+      const igUserId = await this.getInstagramBusinessAccountId(data.signal);
 
       if (!igUserId) {
         return {
@@ -199,81 +242,96 @@ export class InstagramConnector extends SocialConnector {
         };
       }
 
-      let containerResponse;
-
-      if (data.mediaUrls && data.mediaUrls.length > 0) {
-        const mediaType = data.mediaUrls.length > 1 ? 'CAROUSEL' :
-                         data.metadata?.mediaType === 'VIDEO' ? 'REELS' : 'IMAGE';
-
-        const params = new URLSearchParams({
-          access_token: this.credentials!.accessToken,
-          caption: data.content
-        });
-
-        if (mediaType === 'CAROUSEL') {
-          params.append('media_type', 'CAROUSEL');
-
-          const children = await Promise.all(
-            data.mediaUrls.map(url => this.createMediaContainer(igUserId, url, 'IMAGE'))
-          );
-
-          params.append('children', children.join(','));
-        } else {
-          params.append('media_type', mediaType);
-          params.append(mediaType === 'VIDEO' ? 'video_url' : 'image_url', data.mediaUrls[0]);
-        }
-
-        containerResponse = await fetch(
-          `${this.API_BASE}/${igUserId}/media?${params.toString()}`,
-          { method: 'POST' }
-        );
-      } else {
+      const mediaUrls = data.mediaUrls ?? [];
+      if (mediaUrls.length === 0) {
         return {
           success: false,
           error: 'Instagram requires media for posting'
         };
       }
 
-      if (containerResponse.status === 429) {
-        await this.handleRateLimit(3600);
+      if (mediaUrls.length > MAX_CAROUSEL_ITEMS) {
         return {
           success: false,
-          error: 'Instagram rate limit exceeded'
+          error: `Instagram carousels hold at most ${MAX_CAROUSEL_ITEMS} items`
         };
       }
 
-      if (!containerResponse.ok) {
-        const errorData = await containerResponse.json();
-        return {
-          success: false,
-          error: errorData.error?.message || 'Failed to create Instagram media container'
+      const format = this.resolveFormat(data);
+      let fields: Record<string, string>;
+
+      if (format === 'CAROUSEL') {
+        // Children are created one at a time; video children must finish
+        // processing before the carousel container can reference them.
+        const children: string[] = [];
+        for (const url of mediaUrls) {
+          const child = await this.publish(`/${igUserId}/media`, {
+            is_carousel_item: 'true',
+            ...(isVideoUrl(url) ? { media_type: 'VIDEO', video_url: url } : { image_url: url })
+          }, data.signal);
+          children.push(child.id);
+        }
+        for (const childId of children) {
+          await this.waitForContainer(childId, data.signal);
+        }
+        fields = { media_type: 'CAROUSEL', caption: data.content, children: children.join(',') };
+      } else if (format === 'REELS') {
+        fields = {
+          media_type: 'REELS',
+          video_url: mediaUrls[0],
+          caption: data.content,
+          share_to_feed: String(data.metadata?.shareToFeed ?? true),
+          ...(data.metadata?.coverUrl ? { cover_url: data.metadata.coverUrl } : {}),
+          ...(data.metadata?.thumbOffsetMs !== undefined ? { thumb_offset: String(data.metadata.thumbOffsetMs) } : {})
         };
-      }
-
-      const containerData = await containerResponse.json();
-
-      const publishResponse = await fetch(
-        `${this.API_BASE}/${igUserId}/media_publish?creation_id=${containerData.id}&access_token=${this.credentials!.accessToken}`,
-        { method: 'POST' }
-      );
-
-      if (!publishResponse.ok) {
-        const errorData = await publishResponse.json();
-        return {
-          success: false,
-          error: errorData.error?.message || 'Failed to publish Instagram post'
+      } else if (format === 'STORIES') {
+        // Stories take no caption.
+        fields = {
+          media_type: 'STORIES',
+          ...(isVideoUrl(mediaUrls[0]) ? { video_url: mediaUrls[0] } : { image_url: mediaUrls[0] })
         };
+      } else {
+        fields = { image_url: mediaUrls[0], caption: data.content };
       }
 
-      const publishData = await publishResponse.json();
+      const container = await this.publish(`/${igUserId}/media`, fields, data.signal);
+      await this.waitForContainer(container.id, data.signal);
+
+      const published = await this.publish(`/${igUserId}/media_publish`, { creation_id: container.id }, data.signal);
+      const postId: string = published.id;
+
+      const permalink = await this.graph<GraphMedia>(`/${postId}?fields=permalink`, data.signal)
+        .then(media => media.permalink)
+        .catch(() => undefined);
+
+      // The post is live, so a failed comment is reported rather than failing
+      // the post: a retry would publish it twice.
+      let commentError: string | undefined;
+      if (data.metadata?.firstComment && format !== 'STORIES') {
+        try {
+          await this.publish(`/${postId}/comments`, { message: data.metadata.firstComment }, data.signal);
+        } catch (error) {
+          commentError = (error as Error).message;
+          logger.warn('Failed to post Instagram first comment', { postId, error: commentError });
+        }
+      }
 
       return {
         success: true,
-        postId: publishData.id,
-        url: `https://www.instagram.com/p/${publishData.id}/`,
-        platformResponse: publishData
+        postId,
+        url: permalink,
+        platformResponse: { ...published, format, containerId: container.id, commentError }
       };
     } catch (error) {
+      const rateLimited = this.rateLimitOf(error);
+      if (rateLimited.rateLimited) {
+        return {
+          success: false,
+          error: 'Instagram rate limit exceeded',
+          ...rateLimited
+        };
+      }
+
       logger.error('Instagram post failed', error as Error);
       return {
         success: false,
@@ -282,25 +340,81 @@ export class InstagramConnector extends SocialConnector {
     }
   }
 
-  private async createMediaContainer(igUserId: string, mediaUrl: string, type: string): Promise<string> {
-    const params = new URLSearchParams({
-      access_token: this.credentials!.accessToken,
-      is_carousel_item: 'true'
-    });
+  /**
+   * `metadata.mediaType` may ask for `STORIES` or `REELS`; otherwise several
+   * items make a carousel and a single video a Reel.
+   */
+  private resolveFormat(data: PostData): InstagramFormat {
+    const mediaUrls = data.mediaUrls ?? [];
+    const requested = data.metadata?.mediaType;
+
+    if (requested === 'STORIES') return 'STORIES';
+    if (mediaUrls.length > 1) return 'CAROUSEL';
+    if (requested === 'REELS' || requested === 'VIDEO' || isVideoUrl(mediaUrls[0])) return 'REELS';
+    return 'IMAGE';
+  }
 
-    params.append(type === 'VIDEO' ? 'video_url' : 'image_url', mediaUrl);
+  /**
+   * Containers are processed asynchronously (videos can take minutes) and
+   * `media_publish` rejects one that is not FINISHED, so poll with
+   * exponential backoff until it is.
+   */
+  private async waitForContainer(containerId: string, signal?: AbortSignal): Promise<void> {
+    const deadline = Date.now() + MAX_CONTAINER_WAIT_MS;
+    let delay = CONTAINER_POLL_INITIAL_MS;
 
+    for (;;) {
+      const container = await this.graph<ContainerStatus>(`/${containerId}?fields=status_code,status`, signal);
+
+      if (container.status_code === 'FINISHED' || container.status_code === 'PUBLISHED') {
+        return;
+      }
+
+      if (container.status_code === 'ERROR' || container.status_code === 'EXPIRED') {
+        throw new Error(`Instagram could not process the media: ${container.status || container.status_code}`);
+      }
+
+      if (Date.now() + delay > deadline) {
+        throw new Error('Instagram media processing timed out');
+      }
+
+      await this.wait(delay, signal);
+      delay = Math.min(delay * 2, CONTAINER_POLL_MAX_MS);
+    }
+  }
+
+  private async graph<T>(path: string, signal?: AbortSignal): Promise<T> {
+    const separator = path.includes('?') ? '&' : '?';
     const response = await fetch(
-      `${this.API_BASE}/${igUserId}/media?${params.toString()}`,
-      { method: 'POST' }
+      `${this.API_BASE}${path}${separator}access_token=${this.credentials!.accessToken}`,
+      { signal }
     );
+    return this.parseGraphResponse<T>(response);
+  }
 
-    if (!response.ok) {
-      throw new Error('Failed to create carousel item');
-    }
+  private async publish(path: string, fields: Record<string, string>, signal?: AbortSignal): Promise<GraphMedia> {
+    const response = await fetch(`${this.API_BASE}${path}`, {
+      method: 'POST',
+      body: new URLSearchParams({ ...fields, access_token: this.credentials!.accessToken! }),
+      signal
+    });
+    return this.parseGraphResponse<GraphMedia>(response);
+  }
+
+  /** Throws Graph errors with their code; rate limits are recorded first. */
+  private async parseGraphResponse<T>(response: Response): Promise<T> {
+    const data: GraphErrorBody = await response.json().catch(() => ({}));
+    if (response.ok && !data.error) return data as T;
 
-    const data = await response.json();
-    return data.id;
+    const code = data.error?.code;
+    const error = Object.assign(
+      new Error(data.error?.error_user_msg || data.error?.message || `Instagram API error: ${response.statusText}`),
+      { code, rateLimited: (code !== undefined && RATE_LIMIT_ERROR_CODES.has(code)) || response.status === 429 }
+    );
+    if (error.rateLimited) {
+      Object.assign(error, await this.handleRateLimit(Number(response.headers.get('retry-after')) || 3600));
+    }
+    throw error;
   }
 
   async uploadMedia(file: File | Blob, type: 'image' | 'video'): Promise<MediaUploadResult> {
@@ -315,9 +429,7 @@ export class InstagramConnector extends SocialConnector {
       throw new Error('Instagram connector not connected');
     }
 
-    if (this.isTokenExpired()) {
-      await this.refreshToken();
-    }
+    await this.ensureFreshToken();
 
     try {
       const response = await fetch(
@@ -337,9 +449,7 @@ export class InstagramConnector extends SocialConnector {
       throw new Error('Instagram connector not connected');
     }
 
-    if (this.isTokenExpired()) {
-      await this.refreshToken();
-    }
+    await this.ensureFreshToken();
 
     try {
       const igUserId = await this.getInstagramBusinessAccountId();
@@ -380,9 +490,7 @@ export class InstagramConnector extends SocialConnector {
       throw new Error('Instagram connector not connected');
     }
 
-    if (this.isTokenExpired()) {
-      await this.refreshToken();
-    }
+    await this.ensureFreshToken();
 
     try {
       const response = await fetch(
@@ -408,4 +516,47 @@ export class InstagramConnector extends SocialConnector {
       throw error;
     }
   }
+
+  async getRecentPosts(limit: number = 25): Promise<PlatformPost[]> {
+    if (!this.isConnected()) {
+      throw new Error('Instagram connector not connected');
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const igUserId = await this.getInstagramBusinessAccountId();
+
+      if (!igUserId) {
+        throw new Error('No Instagram Business account found');
+      }
+
+      const response = await fetch(
+        `${this.API_BASE}/${igUserId}/media?fields=id,caption,media_type,permalink,timestamp,like_count,comments_count&limit=${limit}&access_token=${this.credentials!.accessToken}`
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch Instagram media');
+      }
+
+      const data: { data?: GraphMedia[] } = await response.json();
+
+      return (data.data || []).map(media => ({
+        postId: media.id,
+        url: media.permalink,
+        content: media.caption,
+        mediaType: media.media_type,
+        publishedAt: media.timestamp ? new Date(media.timestamp) : undefined,
+        metrics: {
+          likes: media.like_count || 0,
+          comments: media.comments_count || 0,
+          shares: 0,
+          views: 0
+        }
+      }));
+    } catch (error) {
+      logger.error('Failed to fetch recent Instagram media', error as Error);
+      throw error;
+    }
+  }
 }
@@ -1,15 +1,57 @@
 import { z } from 'zod';
-import { SocialConnector, PostData, PostResult, MediaUploadResult, PlatformMetrics } from '../base/SocialConnector';
+import { SocialConnector, PostData, PostResult, MediaUploadResult, PlatformMetrics, PlatformPost } from '../base/SocialConnector';
 import { ConnectorStatus, ConnectorCredentials, ConnectorHealthCheck } from '../base/BaseConnector';
 import { config } from '../../config';
+import { PLATFORM_LIMITS } from '../../config/constants';
 import { logger } from '../../utils/logger';
 
 const linkedinCredentialsSchema = z.object({
   accessToken: z.string().min(1)
 });
 
+type LinkedInMediaKind = 'image' | 'video' | 'document';
+
+interface ShareStatistics {
+  clickCount?: number;
+  commentCount?: number;
+  engagement?: number;
+  impressionCount?: number;
+  likeCount?: number;
+  shareCount?: number;
+  uniqueImpressionsCount?: number;
+}
+
+/** Versioned REST API, used for documents, which the v2 asset flow does not take. */
+const REST_BASE = 'https://api.linkedin.com/rest';
+const REST_VERSION = '202405';
+
+const ORGANIZATION_URN_PREFIX = 'urn:li:organization:';
+
+const UPLOAD_RECIPES: Record<Exclude<LinkedInMediaKind, 'document'>, string> = {
+  image: 'urn:li:digitalmediaRecipe:feedshare-image',
+  video: 'urn:li:digitalmediaRecipe:feedshare-video'
+};
+
+const MEDIA_POLL_INTERVAL_MS = 3000;
+const MAX_MEDIA_WAIT_MS = 5 * 60 * 1000;
+
+function mediaKind(blob: Blob, url: string): LinkedInMediaKind {
+  if (blob.type === 'application/pdf' || /\.pdf(\?|$)/i.test(url)) return 'document';
+  return blob.type.startsWith('video/') ? 'video' : 'image';
+}
+
+/**
+ * LinkedIn members and Company Pages. The member connects once; every
+ * organization they administer becomes its own connector account whose
+ * `platformUserId` is the organization URN (see the linkedin OAuth
+ * provider), so posts are authored as whichever account was selected.
+ *
+ * Images and videos go through v2 asset registration and `ugcPosts`; a PDF
+ * is posted as a document (carousel) through the Documents and Posts APIs.
+ */
 export class LinkedInConnector extends SocialConnector {
   private readonly API_BASE = 'https://api.linkedin.com/v2';
+  private personUrn: string | null = null;
 
   constructor() {
     super({
@@ -17,12 +59,19 @@ export class LinkedInConnector extends SocialConnector {
       name: 'LinkedIn',
       requiresOAuth: true,
       requiresApiKey: false,
-      scopes: ['w_member_social', 'r_liteprofile', 'r_emailaddress'],
+      scopes: [
+        'w_member_social',
+        'r_liteprofile',
+        'r_emailaddress',
+        'w_organization_social',
+        'r_organization_social',
+        'rw_organization_admin'
+      ],
       apiEndpoint: 'https://api.linkedin.com/v2'
     });
   }
 
-  async validateCredentials(credentials: ConnectorCredentials): Promise<boolean> {
+  async validateCredentials(_credentials: ConnectorCredentials): Promise<boolean> {
     try {
       this.validateEnv(linkedinCredentialsSchema);
       return true;
@@ -34,6 +83,7 @@ export class LinkedInConnector extends SocialConnector {
 
   async connect(credentials: ConnectorCredentials): Promise<void> {
     this.setCredentials(credentials);
+    this.personUrn = null;
     const healthCheck = await this.healthCheck();
     if (healthCheck.status !== ConnectorStatus.CONNECTED) {
       throw new Error(healthCheck.message || 'Failed to connect to LinkedIn');
@@ -43,6 +93,7 @@ export class LinkedInConnector extends SocialConnector {
 
   async disconnect(): Promise<void> {
     this.clearCredentials();
+    this.personUrn = null;
     this.updateHealthCheck({
       status: ConnectorStatus.DISCONNECTED,
       lastChecked: new Date()
@@ -72,48 +123,288 @@ export class LinkedInConnector extends SocialConnector {
   }
 
   async refreshToken(): Promise<void> {
-    throw new Error('LinkedIn tokens must be refreshed through OAuth flow');
+    if (!this.credentials?.refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    config.requireConnector('linkedin');
+
+    try {
+      const response = await fetch('https://www.linkedin.com/oauth/v2/accessToken', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: new URLSearchParams({
+          grant_type: 'refresh_token',
+          refresh_token: this.credentials.refreshToken,
+          client_id: config.get('VITE_LINKEDIN_CLIENT_ID')!,
+          client_secret: config.get('VITE_LINKEDIN_CLIENT_SECRET')!
+        })
+      });
+
+      if (!response.ok) {
+        throw await this.tokenRefreshFailure(response);
+      }
+
+      const data = await response.json();
+
+      this.setCredentials({
+        ...this.credentials,
+        accessToken: data.access_token,
+        // LinkedIn only returns a new refresh token when it rotates it.
+        refreshToken: data.refresh_token ?? this.credentials.refreshToken,
+        expiresAt: new Date(Date.now() + data.expires_in * 1000)
+      });
+
+      logger.info('LinkedIn access token refreshed');
+    } catch (error) {
+      logger.error('Failed to refresh LinkedIn token', error as Error);
+      throw error;
+    }
   }
 
   async post(data: PostData): Promise<PostResult> {
+    this.validatePostData(data);
+
     if (!this.isConnected()) {
       return { success: false, error: 'LinkedIn connector not connected' };
     }
 
+    await this.ensureFreshToken();
+
     try {
-      const personId = await this.getPersonId();
+      const author = await this.getAuthorUrn();
+      const mediaUrls = data.mediaUrls ?? [];
+
+      if (mediaUrls.length > PLATFORM_LIMITS.linkedin.maxMediaItems) {
+        return { success: false, error: `LinkedIn allows at most ${PLATFORM_LIMITS.linkedin.maxMediaItems} images per post` };
+      }
+
+      const media: { kind: LinkedInMediaKind; blob: Blob }[] = [];
+      for (const url of mediaUrls) {
+        const mediaResponse = await fetch(url, { signal: data.signal });
+        if (!mediaResponse.ok) {
+          return { success: false, error: `Failed to download media from ${url}` };
+        }
+        const blob = await mediaResponse.blob();
+        media.push({ kind: mediaKind(blob, url), blob });
+      }
+
+      const kinds = new Set(media.map(item => item.kind));
+      if (kinds.size > 1 || (media.length > 1 && !kinds.has('image'))) {
+        return { success: false, error: 'LinkedIn posts take several images, or a single video or document' };
+      }
+
+      if (media[0]?.kind === 'document') {
+        return await this.postDocument(author, data, media[0].blob, data.signal);
+      }
+
+      const assets: string[] = [];
+      for (const item of media) {
+        const upload = await this.uploadAsset(author, item.blob, item.kind as 'image' | 'video', data.signal);
+        assets.push(upload);
+      }
 
       const response = await fetch(`${this.API_BASE}/ugcPosts`, {
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.credentials!.accessToken}`,
-          'Content-Type': 'application/json',
-          'X-Restli-Protocol-Version': '2.0.0'
-        },
+        headers: this.headers({ 'Content-Type': 'application/json' }),
         body: JSON.stringify({
-          author: `urn:li:person:${personId}`,
+          author,
           lifecycleState: 'PUBLISHED',
           specificContent: {
             'com.linkedin.ugc.ShareContent': {
               shareCommentary: { text: data.content },
-              shareMediaCategory: 'NONE'
+              shareMediaCategory: media.length === 0 ? 'NONE' : media[0].kind === 'video' ? 'VIDEO' : 'IMAGE',
+              ...(assets.length > 0
+                ? {
+                    media: assets.map(asset => ({
+                      status: 'READY',
+                      media: asset,
+                      ...(data.metadata?.title ? { title: { text: data.metadata.title } } : {})
+                    }))
+                  }
+                : {})
             }
           },
-          visibility: { 'com.linkedin.ugc.MemberNetworkVisibility': 'PUBLIC' }
-        })
+          visibility: { 'com.linkedin.ugc.MemberNetworkVisibility': data.metadata?.visibility || 'PUBLIC' }
+        }),
+        signal: data.signal
       });
 
+      if (response.status === 429) {
+        const rateLimited = await this.handleRateLimit(Number(response.headers.get('retry-after')) || 3600);
+        return { success: false, error: 'LinkedIn rate limit exceeded', ...rateLimited };
+      }
+
       if (!response.ok) {
-        return { success: false, error: 'Failed to post to LinkedIn' };
+        return { success: false, error: await this.errorMessage(response, 'Failed to post to LinkedIn') };
       }
 
-      const result = await response.json();
-      return { success: true, postId: result.id };
+      const result = await response.json().catch(() => ({}));
+      const postId: string = result.id ?? response.headers.get('x-restli-id');
+      return {
+        success: true,
+        postId,
+        url: `https://www.linkedin.com/feed/update/${postId}/`,
+        platformResponse: { ...result, author }
+      };
     } catch (error) {
+      logger.error('LinkedIn post failed', error as Error);
       return { success: false, error: (error as Error).message };
     }
   }
 
+  /** Documents are only accepted by the versioned Posts API. */
+  private async postDocument(author: string, data: PostData, file: Blob, signal?: AbortSignal): Promise<PostResult> {
+    if (file.size > PLATFORM_LIMITS.linkedin.maxDocumentSize) {
+      return { success: false, error: `LinkedIn documents are limited to ${PLATFORM_LIMITS.linkedin.maxDocumentSize} bytes` };
+    }
+
+    const initResponse = await fetch(`${REST_BASE}/documents?action=initializeUpload`, {
+      method: 'POST',
+      headers: this.restHeaders({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ initializeUploadRequest: { owner: author } }),
+      signal
+    });
+
+    if (!initResponse.ok) {
+      return { success: false, error: await this.errorMessage(initResponse, 'Failed to start LinkedIn document upload') };
+    }
+
+    const { uploadUrl, document } = (await initResponse.json()).value;
+    await this.putBytes(uploadUrl, file, signal);
+    await this.waitForMedia(`${REST_BASE}/documents/${encodeURIComponent(document)}`, true, signal);
+
+    const response = await fetch(`${REST_BASE}/posts`, {
+      method: 'POST',
+      headers: this.restHeaders({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({
+        author,
+        commentary: data.content,
+        visibility: data.metadata?.visibility || 'PUBLIC',
+        distribution: {
+          feedDistribution: 'MAIN_FEED',
+          targetEntities: [],
+          thirdPartyDistributionChannels: []
+        },
+        content: {
+          media: { id: document, title: data.metadata?.title || 'Document' }
+        },
+        lifecycleState: 'PUBLISHED',
+        isReshareDisabledByAuthor: false
+      }),
+      signal
+    });
+
+    if (response.status === 429) {
+      const rateLimited = await this.handleRateLimit(Number(response.headers.get('retry-after')) || 3600);
+      return { success: false, error: 'LinkedIn rate limit exceeded', ...rateLimited };
+    }
+
+    if (!response.ok) {
+      return { success: false, error: await this.errorMessage(response, 'Failed to post document to LinkedIn') };
+    }
+
+    // The Posts API answers 201 with an empty body and the id in a header.
+    const postId = response.headers.get('x-restli-id')!;
+    return {
+      success: true,
+      postId,
+      url: `https://www.linkedin.com/feed/update/${postId}/`,
+      platformResponse: { id: postId, document, author }
+    };
+  }
+
+  /** Registers an asset owned by `owner`, uploads the bytes and waits until it can be posted. */
+  private async uploadAsset(owner: string, file: Blob, kind: 'image' | 'video', signal?: AbortSignal): Promise<string> {
+    const response = await fetch(`${this.API_BASE}/assets?action=registerUpload`, {
+      method: 'POST',
+      headers: this.headers({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({
+        registerUploadRequest: {
+          recipes: [UPLOAD_RECIPES[kind]],
+          owner,
+          serviceRelationships: [{ relationshipType: 'OWNER', identifier: 'urn:li:userGeneratedContent' }]
+        }
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(await this.errorMessage(response, `Failed to register LinkedIn ${kind} upload`));
+    }
+
+    const { value } = await response.json();
+    const uploadUrl: string = value.uploadMechanism['com.linkedin.digitalmedia.uploading.MediaUploadHttpRequest'].uploadUrl;
+    await this.putBytes(uploadUrl, file, signal);
+
+    // Videos are transcoded before they can be attached; images are ready at once.
+    if (kind === 'video') {
+      await this.waitForMedia(`${this.API_BASE}/assets/${value.asset.split(':').pop()}`, false, signal);
+    }
+
+    return value.asset;
+  }
+
+  private async putBytes(uploadUrl: string, file: Blob, signal?: AbortSignal): Promise<void> {
+    const response = await fetch(uploadUrl, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${this.credentials!.accessToken}`,
+        'Content-Type': file.type || 'application/octet-stream'
+      },
+      body: file,
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to upload media to LinkedIn: ${response.statusText}`);
+    }
+  }
+
+  private async waitForMedia(statusUrl: string, rest: boolean, signal?: AbortSignal): Promise<void> {
+    const deadline = Date.now() + MAX_MEDIA_WAIT_MS;
+
+    for (;;) {
+      const response = await fetch(statusUrl, { headers: rest ? this.restHeaders() : this.headers(), signal });
+      if (!response.ok) {
+        throw new Error(`Failed to check LinkedIn media status: ${response.statusText}`);
+      }
+
+      const body = await response.json();
+      // Assets report per recipe; documents report a single status.
+      const status: string | undefined = rest ? body.status : body.recipes?.[0]?.status;
+
+      if (status === 'AVAILABLE') return;
+      if (status === 'CLIENT_ERROR' || status === 'SERVER_ERROR' || status === 'PROCESSING_FAILED') {
+        throw new Error(`LinkedIn could not process the media: ${status}`);
+      }
+      if (Date.now() + MEDIA_POLL_INTERVAL_MS > deadline) {
+        throw new Error('LinkedIn media processing timed out');
+      }
+      await this.wait(MEDIA_POLL_INTERVAL_MS, signal);
+    }
+  }
+
+  /** The selected organization, or the member who connected. */
+  private async getAuthorUrn(): Promise<string> {
+    const platformUserId = this.credentials?.platformUserId;
+    if (platformUserId?.startsWith(ORGANIZATION_URN_PREFIX)) {
+      return platformUserId;
+    }
+
+    if (!this.personUrn) {
+      this.personUrn = `urn:li:person:${platformUserId ?? await this.getPersonId()}`;
+    }
+    return this.personUrn;
+  }
+
+  private getOrganizationUrn(): string | null {
+    const platformUserId = this.credentials?.platformUserId;
+    return platformUserId?.startsWith(ORGANIZATION_URN_PREFIX) ? platformUserId : null;
+  }
+
   private async getPersonId(): Promise<string> {
     const response = await fetch(`${this.API_BASE}/me`, {
       headers: { 'Authorization': `Bearer ${this.credentials!.accessToken}` }
@@ -122,19 +413,211 @@ export class LinkedInConnector extends SocialConnector {
     return data.id;
   }
 
-  async uploadMedia(): Promise<MediaUploadResult> {
-    return { success: false, error: 'Media upload requires UGC asset registration' };
+  async uploadMedia(file: File | Blob, type: 'image' | 'video', signal?: AbortSignal): Promise<MediaUploadResult> {
+    if (!this.isConnected()) {
+      return { success: false, error: 'LinkedIn connector not connected' };
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const mediaId = await this.uploadAsset(await this.getAuthorUrn(), file, type, signal);
+      return { success: true, mediaId };
+    } catch (error) {
+      logger.error('LinkedIn media upload failed', error as Error);
+      return { success: false, error: (error as Error).message };
+    }
   }
 
-  async deletePost(): Promise<boolean> {
-    return false;
+  async deletePost(postId: string): Promise<boolean> {
+    if (!this.isConnected()) {
+      throw new Error('LinkedIn connector not connected');
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      // The Posts API deletes both share and ugcPost URNs.
+      const response = await fetch(`${REST_BASE}/posts/${encodeURIComponent(postId)}`, {
+        method: 'DELETE',
+        headers: this.restHeaders()
+      });
+      return response.ok;
+    } catch (error) {
+      logger.error('Failed to delete LinkedIn post', error as Error);
+      return false;
+    }
   }
 
+  /**
+   * Follower count and lifetime share statistics of the organization.
+   * Member profiles have no statistics API, so they report zeros.
+   */
   async getMetrics(): Promise<PlatformMetrics> {
-    return { followers: 0, posts: 0, engagement: { likes: 0, comments: 0, shares: 0, views: 0 } };
+    if (!this.isConnected()) {
+      throw new Error('LinkedIn connector not connected');
+    }
+
+    const organization = this.getOrganizationUrn();
+    if (!organization) {
+      return { followers: 0, posts: 0, engagement: { likes: 0, comments: 0, shares: 0, views: 0 } };
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const encoded = encodeURIComponent(organization);
+      const [network, statistics] = await Promise.all([
+        this.get(`/networkSizes/${encoded}?edgeType=CompanyFollowedByMember`),
+        this.get(`/organizationalEntityShareStatistics?q=organizationalEntity&organizationalEntity=${encoded}`)
+      ]);
+      const totals: ShareStatistics = statistics.elements?.[0]?.totalShareStatistics ?? {};
+
+      return {
+        followers: network.firstDegreeSize || 0,
+        engagement: this.toEngagement(totals),
+        impressions: totals.impressionCount || 0,
+        reach: totals.uniqueImpressionsCount || 0
+      };
+    } catch (error) {
+      logger.error('Failed to fetch LinkedIn metrics', error as Error);
+      throw error;
+    }
+  }
+
+  async getPostMetrics(postId: string): Promise<any> {
+    if (!this.isConnected()) {
+      throw new Error('LinkedIn connector not connected');
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const organization = this.getOrganizationUrn();
+      if (organization) {
+        const statistics = await this.getShareStatistics(organization, [postId]);
+        const totals = statistics.get(postId) ?? {};
+        return {
+          ...this.toEngagement(totals),
+          impressions: totals.impressionCount || 0,
+          reach: totals.uniqueImpressionsCount || 0,
+          clicks: totals.clickCount || 0,
+          engagementRate: totals.engagement || 0
+        };
+      }
+
+      // Member posts only expose their social actions.
+      const actions = await this.get(`/socialActions/${encodeURIComponent(postId)}`);
+      return {
+        likes: actions.likesSummary?.totalLikes || 0,
+        comments: actions.commentsSummary?.aggregatedTotalComments || 0,
+        shares: 0,
+        views: 0
+      };
+    } catch (error) {
+      logger.error('Failed to fetch LinkedIn post metrics', error as Error);
+      throw error;
+    }
+  }
+
+  /** Lists the organization's posts with their share statistics; member feeds cannot be listed. */
+  async getRecentPosts(limit: number = 25): Promise<PlatformPost[]> {
+    if (!this.isConnected()) {
+      throw new Error('LinkedIn connector not connected');
+    }
+
+    const organization = this.getOrganizationUrn();
+    if (!organization) {
+      return super.getRecentPosts(limit);
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const data = await this.get(
+        `/ugcPosts?q=authors&authors=List(${encodeURIComponent(organization)})&sortBy=CREATED&count=${Math.min(limit, 100)}`
+      );
+      const posts: any[] = data.elements ?? [];
+      const statistics = await this.getShareStatistics(organization, posts.map(post => post.id));
+
+      return posts.map(post => {
+        const share = post.specificContent?.['com.linkedin.ugc.ShareContent'];
+        return {
+          postId: post.id,
+          url: `https://www.linkedin.com/feed/update/${post.id}/`,
+          content: share?.shareCommentary?.text,
+          mediaType: share?.shareMediaCategory,
+          publishedAt: post.firstPublishedAt ? new Date(post.firstPublishedAt) : undefined,
+          metrics: this.toEngagement(statistics.get(post.id) ?? {})
+        };
+      });
+    } catch (error) {
+      logger.error('Failed to fetch recent LinkedIn posts', error as Error);
+      throw error;
+    }
+  }
+
+  /** Share statistics keyed by post URN; shares and ugcPosts are queried separately. */
+  private async getShareStatistics(organization: string, postIds: string[]): Promise<Map<string, ShareStatistics>> {
+    const result = new Map<string, ShareStatistics>();
+    const groups = {
+      shares: postIds.filter(id => id.startsWith('urn:li:share:')),
+      ugcPosts: postIds.filter(id => !id.startsWith('urn:li:share:'))
+    };
+
+    for (const [param, ids] of Object.entries(groups)) {
+      if (ids.length === 0) continue;
+      const data = await this.get(
+        `/organizationalEntityShareStatistics?q=organizationalEntity&organizationalEntity=${encodeURIComponent(organization)}` +
+        `&${param}=List(${ids.map(encodeURIComponent).join(',')})`
+      );
+      for (const element of data.elements ?? []) {
+        const id = element.share ?? element.ugcPost;
+        if (id) result.set(id, element.totalShareStatistics ?? {});
+      }
+    }
+
+    return result;
+  }
+
+  private async get(path: string): Promise<any> {
+    const response = await fetch(`${this.API_BASE}${path}`, { headers: this.headers() });
+
+    if (response.status === 429) {
+      await this.handleRateLimit(Number(response.headers.get('retry-after')) || 3600);
+      throw new Error('LinkedIn rate limit exceeded');
+    }
+
+    if (!response.ok) {
+      throw new Error(await this.errorMessage(response, `LinkedIn API error: ${response.statusText}`));
+    }
+
+    return response.json();
+  }
+
+  private headers(extra: Record<string, string> = {}): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${this.credentials!.accessToken}`,
+      'X-Restli-Protocol-Version': '2.0.0',
+      ...extra
+    };
+  }
+
+  private restHeaders(extra: Record<string, string> = {}): Record<string, string> {
+    return this.headers({ 'LinkedIn-Version': REST_VERSION, ...extra });
+  }
+
+  private async errorMessage(response: Response, fallback: string): Promise<string> {
+    const body = await response.json().catch(() => ({}));
+    return body.message || fallback;
   }
 
-  async getPostMetrics(): Promise<any> {
-    return {};
+  private toEngagement(statistics: ShareStatistics) {
+    return {
+      likes: statistics.likeCount || 0,
+      comments: statistics.commentCount || 0,
+      shares: statistics.shareCount || 0,
+      views: statistics.impressionCount || 0
+    };
   }
 }
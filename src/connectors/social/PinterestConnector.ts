@@ -1,12 +1,85 @@
 import { z } from 'zod';
-import { SocialConnector, PostData, PostResult, MediaUploadResult, PlatformMetrics } from '../base/SocialConnector';
+import { SocialConnector, PostData, PostResult, MediaUploadResult, PlatformMetrics, PlatformPost } from '../base/SocialConnector';
 import { ConnectorStatus, ConnectorCredentials, ConnectorHealthCheck } from '../base/BaseConnector';
+import { config } from '../../config';
+import { PLATFORM_LIMITS } from '../../config/constants';
 import { logger } from '../../utils/logger';
 
 const pinterestCredentialsSchema = z.object({
   accessToken: z.string().min(1)
 });
 
+export interface PinterestBoard {
+  id: string;
+  name: string;
+  description?: string;
+  privacy?: 'PUBLIC' | 'PROTECTED' | 'SECRET';
+  pinCount?: number;
+}
+
+export interface PinterestBoardSection {
+  id: string;
+  name: string;
+}
+
+type PinMetricSummary = Record<string, number | undefined>;
+
+/** The API v5 fields read from boards, sections, pins and analytics. */
+interface PinterestBoardItem {
+  id: string;
+  name: string;
+  description?: string | null;
+  privacy?: PinterestBoard['privacy'];
+  pin_count?: number;
+}
+
+interface PinterestPin {
+  id: string;
+  title?: string;
+  description?: string;
+  created_at?: string;
+  media?: { media_type?: string };
+  pin_metrics?: { lifetime_metrics?: Record<string, number | undefined> };
+}
+
+interface PinterestPage<T> {
+  items?: T[];
+  bookmark?: string | null;
+}
+
+interface PinterestAnalytics {
+  all?: { summary_metrics?: PinMetricSummary };
+}
+
+interface PinterestUserAccount {
+  follower_count?: number;
+  following_count?: number;
+  pin_count?: number;
+}
+
+const VIDEO_EXTENSIONS = /\.(mp4|mov|m4v)(\?|$)/i;
+
+const PIN_METRIC_TYPES = 'IMPRESSION,SAVE,PIN_CLICK,OUTBOUND_CLICK,VIDEO_MRC_VIEW';
+/** Pinterest keeps analytics for the last 90 days. */
+const ANALYTICS_WINDOW_DAYS = 90;
+
+const MEDIA_POLL_INTERVAL_MS = 3000;
+const MAX_MEDIA_WAIT_MS = 5 * 60 * 1000;
+
+function analyticsRange(): string {
+  const day = (date: Date) => date.toISOString().slice(0, 10);
+  const end = new Date();
+  const start = new Date(end.getTime() - (ANALYTICS_WINDOW_DAYS - 1) * 24 * 60 * 60 * 1000);
+  return `start_date=${day(start)}&end_date=${day(end)}`;
+}
+
+/**
+ * Pinterest through API v5. A pin goes to `metadata.boardId` (and
+ * optionally `metadata.boardSectionId`), falling back to the board saved as
+ * `defaultBoardId` / `defaultBoardSectionId` in the account's connector
+ * settings. Images are pinned from their URL; videos are registered,
+ * uploaded and processed before the pin is created.
+ */
 export class PinterestConnector extends SocialConnector {
   private readonly API_BASE = 'https://api.pinterest.com/v5';
 
@@ -16,12 +89,12 @@ export class PinterestConnector extends SocialConnector {
       name: 'Pinterest',
       requiresOAuth: true,
       requiresApiKey: false,
-      scopes: ['pins:read', 'pins:write', 'boards:read'],
+      scopes: ['pins:read', 'pins:write', 'boards:read', 'user_accounts:read'],
       apiEndpoint: 'https://api.pinterest.com/v5'
     });
   }
 
-  async validateCredentials(credentials: ConnectorCredentials): Promise<boolean> {
+  async validateCredentials(_credentials: ConnectorCredentials): Promise<boolean> {
     try {
       this.validateEnv(pinterestCredentialsSchema);
       return true;
@@ -32,69 +105,418 @@ export class PinterestConnector extends SocialConnector {
 
   async connect(credentials: ConnectorCredentials): Promise<void> {
     this.setCredentials(credentials);
+
+    const healthCheck = await this.healthCheck();
+    this.updateHealthCheck(healthCheck);
+    if (healthCheck.status !== ConnectorStatus.CONNECTED) {
+      throw new Error(healthCheck.message || 'Failed to connect to Pinterest');
+    }
+
     logger.info('Pinterest connector connected');
   }
 
   async disconnect(): Promise<void> {
     this.clearCredentials();
+    this.updateHealthCheck({
+      status: ConnectorStatus.DISCONNECTED,
+      lastChecked: new Date()
+    });
   }
 
   async healthCheck(): Promise<ConnectorHealthCheck> {
     if (!this.credentials?.accessToken) {
       return { status: ConnectorStatus.DISCONNECTED, lastChecked: new Date() };
     }
-    return { status: ConnectorStatus.CONNECTED, lastChecked: new Date() };
+
+    try {
+      const response = await fetch(`${this.API_BASE}/user_account`, { headers: this.headers() });
+
+      if (response.status === 401) {
+        return { status: ConnectorStatus.EXPIRED, lastChecked: new Date(), message: 'Access token expired' };
+      }
+
+      if (!response.ok) {
+        return { status: ConnectorStatus.ERROR, lastChecked: new Date(), message: `Pinterest API error: ${response.statusText}` };
+      }
+
+      const data = await response.json();
+      return { status: ConnectorStatus.CONNECTED, lastChecked: new Date(), message: `Connected to: ${data.username || 'Unknown'}` };
+    } catch (error) {
+      return { status: ConnectorStatus.ERROR, lastChecked: new Date(), message: (error as Error).message };
+    }
   }
 
   async refreshToken(): Promise<void> {
-    throw new Error('Pinterest tokens must be refreshed through OAuth flow');
+    if (!this.credentials?.refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    config.requireConnector('pinterest');
+
+    try {
+      const response = await fetch(`${this.API_BASE}/oauth/token`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${btoa(`${config.get('VITE_PINTEREST_CLIENT_ID')}:${config.get('VITE_PINTEREST_CLIENT_SECRET')}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: new URLSearchParams({
+          grant_type: 'refresh_token',
+          refresh_token: this.credentials.refreshToken
+        })
+      });
+
+      if (!response.ok) {
+        throw await this.tokenRefreshFailure(response);
+      }
+
+      const data = await response.json();
+
+      this.setCredentials({
+        ...this.credentials,
+        accessToken: data.access_token,
+        // Present when the app uses continuous refresh.
+        refreshToken: data.refresh_token ?? this.credentials.refreshToken,
+        expiresAt: new Date(Date.now() + data.expires_in * 1000)
+      });
+
+      logger.info('Pinterest access token refreshed');
+    } catch (error) {
+      logger.error('Failed to refresh Pinterest token', error as Error);
+      throw error;
+    }
+  }
+
+  /** Boards the user can pin to, to pick one for the account or a single post. */
+  async listBoards(): Promise<PinterestBoard[]> {
+    if (!this.isConnected()) {
+      throw new Error('Pinterest connector not connected');
+    }
+
+    const items = await this.listAll<PinterestBoardItem>('/boards?page_size=100');
+    return items.map(board => ({
+      id: board.id,
+      name: board.name,
+      description: board.description || undefined,
+      privacy: board.privacy,
+      pinCount: board.pin_count
+    }));
+  }
+
+  async listBoardSections(boardId: string): Promise<PinterestBoardSection[]> {
+    if (!this.isConnected()) {
+      throw new Error('Pinterest connector not connected');
+    }
+
+    const items = await this.listAll<PinterestBoardSection>(`/boards/${boardId}/sections?page_size=100`);
+    return items.map(section => ({ id: section.id, name: section.name }));
   }
 
   async post(data: PostData): Promise<PostResult> {
+    this.validatePostData(data);
+
     if (!this.isConnected()) {
       return { success: false, error: 'Pinterest connector not connected' };
     }
 
+    await this.ensureFreshToken();
+
     try {
+      const boardId = data.metadata?.boardId ?? this.credentials!.metadata?.defaultBoardId;
+      if (!boardId) {
+        return { success: false, error: 'Choose a Pinterest board to pin to' };
+      }
+      // A section only applies to the board it belongs to.
+      const boardSectionId = data.metadata?.boardSectionId
+        ?? (data.metadata?.boardId ? undefined : this.credentials!.metadata?.defaultBoardSectionId);
+
+      const mediaUrl = data.mediaUrls?.[0];
+      if (!mediaUrl) {
+        return { success: false, error: 'Pinterest pins require an image or video' };
+      }
+
+      const limits = PLATFORM_LIMITS.pinterest;
+      let mediaSource: Record<string, unknown>;
+
+      if (data.metadata?.mediaType === 'VIDEO' || VIDEO_EXTENSIONS.test(mediaUrl)) {
+        const mediaResponse = await fetch(mediaUrl, { signal: data.signal });
+        if (!mediaResponse.ok) {
+          return { success: false, error: `Failed to download media from ${mediaUrl}` };
+        }
+
+        const upload = await this.uploadMedia(await mediaResponse.blob(), 'video', data.signal);
+        if (!upload.success || !upload.mediaId) {
+          return { success: false, error: upload.error || 'Failed to upload video to Pinterest' };
+        }
+
+        // Video pins need a cover: an image, or a frame of the video.
+        mediaSource = {
+          source_type: 'video_id',
+          media_id: upload.mediaId,
+          ...(data.metadata?.coverImageUrl
+            ? { cover_image_url: data.metadata.coverImageUrl }
+            : { cover_image_key_frame_time: data.metadata?.coverKeyFrameTime ?? 0 })
+        };
+      } else {
+        mediaSource = { source_type: 'image_url', url: mediaUrl };
+      }
+
       const response = await fetch(`${this.API_BASE}/pins`, {
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.credentials!.accessToken}`,
-          'Content-Type': 'application/json'
-        },
+        headers: this.headers({ 'Content-Type': 'application/json' }),
         body: JSON.stringify({
-          board_id: data.metadata?.boardId,
-          title: data.content.substring(0, 100),
-          description: data.content,
-          link: data.metadata?.link,
-          media_source: { source_type: 'image_url', url: data.mediaUrls?.[0] }
-        })
+          board_id: boardId,
+          ...(boardSectionId ? { board_section_id: boardSectionId } : {}),
+          title: (data.metadata?.title || data.content).substring(0, limits.maxTitleLength),
+          description: (data.metadata?.description || data.content).substring(0, limits.maxDescriptionLength),
+          ...(data.metadata?.link ? { link: data.metadata.link } : {}),
+          ...(data.metadata?.altText ? { alt_text: String(data.metadata.altText).substring(0, limits.maxAltTextLength) } : {}),
+          media_source: mediaSource
+        }),
+        signal: data.signal
       });
 
+      if (response.status === 429) {
+        const rateLimited = await this.handleRateLimit(Number(response.headers.get('retry-after')) || 60);
+        return { success: false, error: 'Pinterest rate limit exceeded', ...rateLimited };
+      }
+
       if (!response.ok) {
-        return { success: false, error: 'Failed to create Pinterest pin' };
+        return { success: false, error: await this.errorMessage(response, 'Failed to create Pinterest pin') };
       }
 
       const result = await response.json();
-      return { success: true, postId: result.id };
+      return {
+        success: true,
+        postId: result.id,
+        url: `https://www.pinterest.com/pin/${result.id}/`,
+        platformResponse: result
+      };
     } catch (error) {
-      return { success: false, error: (error as Error).message };
+      logger.error('Pinterest post failed', error as Error);
+      return { success: false, error: (error as Error).message, ...this.rateLimitOf(error) };
     }
   }
 
-  async uploadMedia(): Promise<MediaUploadResult> {
-    return { success: false, error: 'Use image URL for Pinterest pins' };
+  /**
+   * Registers and uploads a video, then waits for Pinterest to process it.
+   * Images are pinned straight from their URL instead.
+   */
+  async uploadMedia(file: File | Blob, type: 'image' | 'video', signal?: AbortSignal): Promise<MediaUploadResult> {
+    if (type !== 'video') {
+      return { success: false, error: 'Pinterest pins images from their URL' };
+    }
+
+    if (!this.isConnected()) {
+      return { success: false, error: 'Pinterest connector not connected' };
+    }
+
+    if (file.size > PLATFORM_LIMITS.pinterest.maxVideoSize) {
+      return { success: false, error: `Pinterest videos are limited to ${PLATFORM_LIMITS.pinterest.maxVideoSize} bytes` };
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const registerResponse = await fetch(`${this.API_BASE}/media`, {
+        method: 'POST',
+        headers: this.headers({ 'Content-Type': 'application/json' }),
+        body: JSON.stringify({ media_type: 'video' }),
+        signal
+      });
+
+      if (!registerResponse.ok) {
+        return { success: false, error: await this.errorMessage(registerResponse, 'Failed to register Pinterest video upload') };
+      }
+
+      const { media_id: mediaId, upload_url: uploadUrl, upload_parameters: uploadParameters } = await registerResponse.json();
+
+      // The upload URL is a pre-signed form POST; the file must be the last field.
+      const form = new FormData();
+      for (const [key, value] of Object.entries(uploadParameters ?? {})) {
+        form.append(key, String(value));
+      }
+      form.append('file', file);
+
+      const uploadResponse = await fetch(uploadUrl, { method: 'POST', body: form, signal });
+      if (!uploadResponse.ok) {
+        return { success: false, error: `Failed to upload video to Pinterest: ${uploadResponse.statusText}` };
+      }
+
+      await this.waitForMedia(mediaId, signal);
+
+      return { success: true, mediaId };
+    } catch (error) {
+      logger.error('Pinterest media upload failed', error as Error);
+      return { success: false, error: (error as Error).message, ...this.rateLimitOf(error) };
+    }
   }
 
-  async deletePost(): Promise<boolean> {
-    return false;
+  private async waitForMedia(mediaId: string, signal?: AbortSignal): Promise<void> {
+    const deadline = Date.now() + MAX_MEDIA_WAIT_MS;
+
+    for (;;) {
+      const media = await this.get<{ status?: string }>(`/media/${mediaId}`, signal);
+
+      if (media.status === 'succeeded') return;
+      if (media.status === 'failed') {
+        throw new Error('Pinterest could not process the video');
+      }
+      if (Date.now() + MEDIA_POLL_INTERVAL_MS > deadline) {
+        throw new Error('Pinterest video processing timed out');
+      }
+      await this.wait(MEDIA_POLL_INTERVAL_MS, signal);
+    }
+  }
+
+  async deletePost(postId: string): Promise<boolean> {
+    if (!this.isConnected()) {
+      throw new Error('Pinterest connector not connected');
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const response = await fetch(`${this.API_BASE}/pins/${postId}`, {
+        method: 'DELETE',
+        headers: this.headers()
+      });
+      return response.ok;
+    } catch (error) {
+      logger.error('Failed to delete Pinterest pin', error as Error);
+      return false;
+    }
   }
 
+  /** Follower counts plus the account's analytics over the last 90 days. */
   async getMetrics(): Promise<PlatformMetrics> {
-    return { followers: 0, posts: 0, engagement: { likes: 0, comments: 0, shares: 0, views: 0 } };
+    if (!this.isConnected()) {
+      throw new Error('Pinterest connector not connected');
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const [account, analytics] = await Promise.all([
+        this.get<PinterestUserAccount>('/user_account'),
+        this.get<PinterestAnalytics>(`/user_account/analytics?${analyticsRange()}`)
+      ]);
+      const summary: PinMetricSummary = analytics.all?.summary_metrics ?? {};
+
+      return {
+        followers: account.follower_count || 0,
+        following: account.following_count || 0,
+        posts: account.pin_count || 0,
+        engagement: this.toEngagement(summary),
+        impressions: summary.IMPRESSION || 0
+      };
+    } catch (error) {
+      logger.error('Failed to fetch Pinterest metrics', error as Error);
+      throw error;
+    }
+  }
+
+  async getPostMetrics(postId: string): Promise<Record<string, unknown>> {
+    if (!this.isConnected()) {
+      throw new Error('Pinterest connector not connected');
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const analytics = await this.get<PinterestAnalytics>(`/pins/${postId}/analytics?${analyticsRange()}&metric_types=${PIN_METRIC_TYPES}`);
+      const summary: PinMetricSummary = analytics.all?.summary_metrics ?? {};
+
+      return {
+        ...this.toEngagement(summary),
+        impressions: summary.IMPRESSION || 0,
+        saves: summary.SAVE || 0,
+        pinClicks: summary.PIN_CLICK || 0,
+        outboundClicks: summary.OUTBOUND_CLICK || 0
+      };
+    } catch (error) {
+      logger.error('Failed to fetch Pinterest pin metrics', error as Error);
+      throw error;
+    }
+  }
+
+  async getRecentPosts(limit: number = 25): Promise<PlatformPost[]> {
+    if (!this.isConnected()) {
+      throw new Error('Pinterest connector not connected');
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const data = await this.get<PinterestPage<PinterestPin>>(`/pins?page_size=${Math.min(limit, 100)}&pin_metrics=true`);
+
+      return (data.items || []).map(pin => {
+        const lifetime = pin.pin_metrics?.lifetime_metrics ?? {};
+        return {
+          postId: pin.id,
+          url: `https://www.pinterest.com/pin/${pin.id}/`,
+          content: pin.description || pin.title,
+          mediaType: pin.media?.media_type,
+          publishedAt: pin.created_at ? new Date(pin.created_at) : undefined,
+          metrics: {
+            likes: lifetime.reaction || 0,
+            comments: lifetime.comment || 0,
+            shares: lifetime.save || 0,
+            views: lifetime.impression || 0
+          }
+        };
+      });
+    } catch (error) {
+      logger.error('Failed to fetch recent Pinterest pins', error as Error);
+      throw error;
+    }
+  }
+
+  /** Follows `bookmark` through every page of a list endpoint. */
+  private async listAll<T>(path: string): Promise<T[]> {
+    const items: T[] = [];
+    let bookmark: string | null = null;
+
+    do {
+      const data: PinterestPage<T> = await this.get(bookmark ? `${path}&bookmark=${encodeURIComponent(bookmark)}` : path);
+      items.push(...(data.items ?? []));
+      bookmark = data.bookmark ?? null;
+    } while (bookmark);
+
+    return items;
+  }
+
+  private async get<T>(path: string, signal?: AbortSignal): Promise<T> {
+    const response = await fetch(`${this.API_BASE}${path}`, { headers: this.headers(), signal });
+
+    if (response.status === 429) {
+      const rateLimited = await this.handleRateLimit(Number(response.headers.get('retry-after')) || 60);
+      throw Object.assign(new Error('Pinterest rate limit exceeded'), rateLimited);
+    }
+
+    if (!response.ok) {
+      throw new Error(await this.errorMessage(response, `Pinterest API error: ${response.statusText}`));
+    }
+
+    return response.json();
+  }
+
+  private headers(extra: Record<string, string> = {}): Record<string, string> {
+    return { 'Authorization': `Bearer ${this.credentials!.accessToken}`, ...extra };
+  }
+
+  private async errorMessage(response: Response, fallback: string): Promise<string> {
+    const body = await response.json().catch(() => ({}));
+    return body.message || fallback;
   }
 
-  async getPostMetrics(): Promise<any> {
-    return {};
+  /** Saves are Pinterest's shares; it has no likes or comments in analytics. */
+  private toEngagement(summary: PinMetricSummary) {
+    return {
+      likes: 0,
+      comments: 0,
+      shares: summary.SAVE || 0,
+      views: summary.IMPRESSION || 0
+    };
   }
 }
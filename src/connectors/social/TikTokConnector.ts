@@ -1,7 +1,8 @@
 import { z } from 'zod';
-import { SocialConnector, PostData, PostResult, MediaUploadResult, PlatformMetrics } from '../base/SocialConnector';
+import { SocialConnector, PostData, PostResult, MediaUploadResult, PlatformMetrics, PlatformPost } from '../base/SocialConnector';
 import { ConnectorStatus, ConnectorCredentials, ConnectorHealthCheck } from '../base/BaseConnector';
 import { config } from '../../config';
+import { PLATFORM_LIMITS } from '../../config/constants';
 import { logger } from '../../utils/logger';
 
 const tiktokCredentialsSchema = z.object({
@@ -9,6 +10,49 @@ const tiktokCredentialsSchema = z.object({
   refreshToken: z.string().optional()
 });
 
+interface PublishStatus {
+  status: 'PROCESSING_UPLOAD' | 'PROCESSING_DOWNLOAD' | 'SEND_TO_USER_INBOX' | 'PUBLISH_COMPLETE' | 'FAILED';
+  fail_reason?: string;
+  // Spelled this way by TikTok.
+  publicaly_available_post_id?: number[];
+  uploaded_bytes?: number;
+}
+
+interface TikTokVideo {
+  id: string;
+  title?: string;
+  video_description?: string;
+  share_url?: string;
+  create_time?: number;
+  like_count?: number;
+  comment_count?: number;
+  share_count?: number;
+  view_count?: number;
+}
+
+/** TikTok accepts chunks of 5 to 64 MB; a video under 5 MB is sent whole. */
+const MIN_CHUNK_SIZE = 5 * 1024 * 1024;
+const UPLOAD_CHUNK_SIZE = 10 * 1024 * 1024;
+const PUBLISH_POLL_INTERVAL_MS = 5000;
+const MAX_PUBLISH_WAIT_MS = 3 * 60 * 1000;
+
+/**
+ * TikTok wants the chunk count up front and folds the remainder into the
+ * last chunk instead of sending a short one.
+ */
+function planChunks(videoSize: number): { chunkSize: number; count: number } {
+  if (videoSize < MIN_CHUNK_SIZE) {
+    return { chunkSize: videoSize, count: 1 };
+  }
+  const chunkSize = Math.min(UPLOAD_CHUNK_SIZE, videoSize);
+  return { chunkSize, count: Math.floor(videoSize / chunkSize) };
+}
+
+/**
+ * TikTok through the Content Posting API. The video in `mediaUrls[0]` is
+ * uploaded in chunks and either posted directly or, with
+ * `metadata.postMode: 'inbox'`, sent to the creator's drafts.
+ */
 export class TikTokConnector extends SocialConnector {
   private readonly API_BASE = 'https://open.tiktokapis.com/v2';
 
@@ -139,7 +183,7 @@ export class TikTokConnector extends SocialConnector {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to refresh TikTok token');
+        throw await this.tokenRefreshFailure(response);
       }
 
       const data = await response.json();
@@ -168,9 +212,7 @@ export class TikTokConnector extends SocialConnector {
       };
     }
 
-    if (this.isTokenExpired()) {
-      await this.refreshToken();
-    }
+    await this.ensureFreshToken();
 
     try {
       if (!data.mediaUrls || data.mediaUrls.length === 0) {
@@ -180,57 +222,101 @@ export class TikTokConnector extends SocialConnector {
         };
       }
 
-      const initResponse = await fetch(`${this.API_BASE}/post/publish/video/init/`, {
+      const mediaResponse = await fetch(data.mediaUrls[0], { signal: data.signal });
+      if (!mediaResponse.ok) {
+        return {
+          success: false,
+          error: `Failed to download media from ${data.mediaUrls[0]}`
+        };
+      }
+
+      const video = await mediaResponse.blob();
+      if (video.size === 0 || video.size > PLATFORM_LIMITS.tiktok.maxVideoSize) {
+        return {
+          success: false,
+          error: `TikTok videos must be between 1 byte and ${PLATFORM_LIMITS.tiktok.maxVideoSize} bytes`
+        };
+      }
+
+      const inbox = data.metadata?.postMode === 'inbox';
+      const chunks = planChunks(video.size);
+      const sourceInfo = {
+        source: 'FILE_UPLOAD',
+        video_size: video.size,
+        chunk_size: chunks.chunkSize,
+        total_chunk_count: chunks.count
+      };
+
+      // Inbox uploads land in the creator's drafts, where they add the caption
+      // and settings themselves; only direct posts carry post_info.
+      const initResponse = await fetch(`${this.API_BASE}/post/publish/${inbox ? 'inbox/' : ''}video/init/`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${this.credentials!.accessToken}`,
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json; charset=UTF-8'
         },
-        body: JSON.stringify({
+        body: JSON.stringify(inbox ? { source_info: sourceInfo } : {
           post_info: {
-            title: data.content.substring(0, 150),
+            title: data.content,
             privacy_level: data.metadata?.privacy || 'PUBLIC_TO_EVERYONE',
             disable_comment: data.metadata?.disableComments || false,
             disable_duet: data.metadata?.disableDuet || false,
             disable_stitch: data.metadata?.disableStitch || false,
             video_cover_timestamp_ms: data.metadata?.coverTimestamp || 1000
           },
-          source_info: {
-            source: 'FILE_UPLOAD',
-            video_size: data.metadata?.videoSize || 0,
-            chunk_size: 10485760,
-            total_chunk_count: Math.ceil((data.metadata?.videoSize || 0) / 10485760)
-          }
-        })
+          source_info: sourceInfo
+        }),
+        signal: data.signal
       });
 
       if (initResponse.status === 429) {
-        await this.handleRateLimit(3600);
         return {
           success: false,
-          error: 'TikTok rate limit exceeded'
+          error: 'TikTok rate limit exceeded',
+          ...(await this.handleRateLimit(Number(initResponse.headers.get('retry-after')) || 3600))
         };
       }
 
       if (!initResponse.ok) {
-        const errorData = await initResponse.json();
+        const errorData = await initResponse.json().catch(() => ({}));
         return {
           success: false,
           error: errorData.error?.message || 'Failed to initialize TikTok upload'
         };
       }
 
-      const initData = await initResponse.json();
+      const { publish_id: publishId, upload_url: uploadUrl } = (await initResponse.json()).data ?? {};
+      if (!publishId || !uploadUrl) {
+        return {
+          success: false,
+          error: 'TikTok did not return an upload URL'
+        };
+      }
 
-      return {
-        success: true,
-        postId: initData.data?.publish_id,
-        url: undefined,
-        platformResponse: {
-          ...initData,
-          message: 'Video upload initialized. User must complete upload in TikTok Creator inbox.'
+      for (let index = 0; index < chunks.count; index++) {
+        const start = index * chunks.chunkSize;
+        // The last chunk takes the remainder, so it may be up to twice the chunk size.
+        const end = index === chunks.count - 1 ? video.size : start + chunks.chunkSize;
+
+        const chunkResponse = await fetch(uploadUrl, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': video.type || 'video/mp4',
+            'Content-Range': `bytes ${start}-${end - 1}/${video.size}`
+          },
+          body: video.slice(start, end),
+          signal: data.signal
+        });
+
+        if (!chunkResponse.ok) {
+          return {
+            success: false,
+            error: `Failed to upload TikTok video chunk ${index + 1}/${chunks.count}: ${chunkResponse.statusText}`
+          };
         }
-      };
+      }
+
+      return await this.waitForPublish(publishId, inbox, data.signal);
     } catch (error) {
       logger.error('TikTok post failed', error as Error);
       return {
@@ -240,6 +326,77 @@ export class TikTokConnector extends SocialConnector {
     }
   }
 
+  /**
+   * Polls the publish status until TikTok has processed the upload. Once the
+   * bytes are uploaded the post exists on TikTok, so running out of time is
+   * not a failure: the publish id is returned and the `post.publish.*`
+   * webhooks fill in the outcome (see platformEvents.ts).
+   */
+  private async waitForPublish(publishId: string, inbox: boolean, signal?: AbortSignal): Promise<PostResult> {
+    const deadline = Date.now() + MAX_PUBLISH_WAIT_MS;
+    let status: PublishStatus | undefined;
+
+    while (Date.now() < deadline) {
+      await this.wait(PUBLISH_POLL_INTERVAL_MS, signal);
+
+      const response = await fetch(`${this.API_BASE}/post/publish/status/fetch/`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.credentials!.accessToken}`,
+          'Content-Type': 'application/json; charset=UTF-8'
+        },
+        body: JSON.stringify({ publish_id: publishId }),
+        signal
+      });
+
+      if (!response.ok) {
+        logger.warn('Failed to fetch TikTok publish status', { publishId, status: response.status });
+        continue;
+      }
+
+      status = (await response.json()).data as PublishStatus | undefined;
+
+      if (status?.status === 'FAILED') {
+        return {
+          success: false,
+          error: `TikTok could not publish the video: ${status.fail_reason || 'unknown reason'}`,
+          platformResponse: { publishId, ...status }
+        };
+      }
+
+      if (status?.status === 'SEND_TO_USER_INBOX' || (inbox && status?.status === 'PUBLISH_COMPLETE')) {
+        return {
+          success: true,
+          postId: publishId,
+          platformResponse: {
+            publishId,
+            ...status,
+            message: 'Video sent to the TikTok inbox. The creator must finish posting it in the app.'
+          }
+        };
+      }
+
+      if (status?.status === 'PUBLISH_COMPLETE') {
+        // Private and moderated posts have no public id yet; the webhook supplies it.
+        const postId = status.publicaly_available_post_id?.[0];
+        return {
+          success: true,
+          postId: postId ? String(postId) : publishId,
+          provisionalPostId: postId ? publishId : undefined,
+          platformResponse: { publishId, ...status }
+        };
+      }
+    }
+
+    logger.warn('TikTok publish still processing, leaving it to webhooks', { publishId, status: status?.status });
+
+    return {
+      success: true,
+      postId: publishId,
+      platformResponse: { publishId, ...status }
+    };
+  }
+
   async uploadMedia(file: File | Blob, type: 'image' | 'video'): Promise<MediaUploadResult> {
     if (type !== 'video') {
       return {
@@ -271,9 +428,7 @@ export class TikTokConnector extends SocialConnector {
       throw new Error('TikTok connector not connected');
     }
 
-    if (this.isTokenExpired()) {
-      await this.refreshToken();
-    }
+    await this.ensureFreshToken();
 
     try {
       const response = await fetch(`${this.API_BASE}/user/info/`, {
@@ -322,4 +477,49 @@ export class TikTokConnector extends SocialConnector {
       message: 'TikTok post metrics not available'
     };
   }
+
+  async getRecentPosts(limit: number = 25): Promise<PlatformPost[]> {
+    if (!this.isConnected()) {
+      throw new Error('TikTok connector not connected');
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const response = await fetch(
+        `${this.API_BASE}/video/list/?fields=id,title,video_description,share_url,create_time,like_count,comment_count,share_count,view_count`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${this.credentials!.accessToken}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ max_count: Math.min(limit, 20) })
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch TikTok videos');
+      }
+
+      const data: { data?: { videos?: TikTokVideo[] } } = await response.json();
+
+      return (data.data?.videos || []).map(video => ({
+        postId: video.id,
+        url: video.share_url,
+        content: video.title || video.video_description,
+        mediaType: 'video',
+        publishedAt: video.create_time ? new Date(video.create_time * 1000) : undefined,
+        metrics: {
+          likes: video.like_count || 0,
+          comments: video.comment_count || 0,
+          shares: video.share_count || 0,
+          views: video.view_count || 0
+        }
+      }));
+    } catch (error) {
+      logger.error('Failed to fetch recent TikTok videos', error as Error);
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,568 @@
+import { z } from 'zod';
+import { SocialConnector, PostData, PostResult, MediaUploadResult, PlatformMetrics, PlatformPost } from '../base/SocialConnector';
+import { ConnectorStatus, ConnectorCredentials, ConnectorHealthCheck } from '../base/BaseConnector';
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+
+const twitterCredentialsSchema = z.object({
+  accessToken: z.string().min(1),
+  refreshToken: z.string().min(1)
+});
+
+interface TweetPublicMetrics {
+  retweet_count?: number;
+  reply_count?: number;
+  like_count?: number;
+  quote_count?: number;
+  impression_count?: number;
+}
+
+interface Tweet {
+  id: string;
+  text?: string;
+  created_at?: string;
+  public_metrics?: TweetPublicMetrics;
+}
+
+interface ProcessingInfo {
+  state: 'pending' | 'in_progress' | 'succeeded' | 'failed';
+  check_after_secs?: number;
+  error?: { message?: string };
+}
+
+/** X media uploads are sent in chunks of at most 5 MB. */
+const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024;
+const MAX_PROCESSING_WAIT_MS = 5 * 60 * 1000;
+
+/**
+ * X (Twitter) through API v2 with an OAuth 2.0 user token. Long posts are
+ * threaded: `metadata.thread` holds the tweets that follow the first one
+ * (see ContentAdaptationService), and `metadata.replyToPostId` makes the
+ * post itself a reply. Media is fetched from `mediaUrls` and sent through
+ * the chunked v2 media upload, unless `metadata.mediaIds` lists media that
+ * was already uploaded.
+ */
+export class TwitterConnector extends SocialConnector {
+  private readonly API_BASE = 'https://api.x.com/2';
+
+  constructor() {
+    super({
+      id: 'twitter',
+      name: 'X',
+      requiresOAuth: true,
+      requiresApiKey: false,
+      scopes: ['tweet.read', 'tweet.write', 'users.read', 'media.write', 'offline.access'],
+      apiEndpoint: 'https://api.x.com/2',
+      rateLimit: {
+        requests: 100,
+        period: 15 * 60 * 1000
+      }
+    });
+  }
+
+  async validateCredentials(_credentials: ConnectorCredentials): Promise<boolean> {
+    try {
+      this.validateEnv(twitterCredentialsSchema);
+      return true;
+    } catch (error) {
+      logger.error('X credentials validation failed', error as Error);
+      return false;
+    }
+  }
+
+  async connect(credentials: ConnectorCredentials): Promise<void> {
+    this.setCredentials(credentials);
+
+    if (!await this.validateCredentials(credentials)) {
+      this.clearCredentials();
+      throw new Error('Invalid X credentials');
+    }
+
+    const healthCheck = await this.healthCheck();
+    this.updateHealthCheck(healthCheck);
+    if (healthCheck.status !== ConnectorStatus.CONNECTED) {
+      throw new Error(healthCheck.message || 'Failed to connect to X');
+    }
+
+    logger.info('X connector connected', { userId: credentials.userId });
+  }
+
+  async disconnect(): Promise<void> {
+    this.clearCredentials();
+    this.updateHealthCheck({
+      status: ConnectorStatus.DISCONNECTED,
+      lastChecked: new Date(),
+      message: 'Disconnected from X'
+    });
+
+    logger.info('X connector disconnected');
+  }
+
+  async healthCheck(): Promise<ConnectorHealthCheck> {
+    if (!this.credentials?.accessToken) {
+      return {
+        status: ConnectorStatus.DISCONNECTED,
+        lastChecked: new Date(),
+        message: 'No access token available'
+      };
+    }
+
+    try {
+      const response = await fetch(`${this.API_BASE}/users/me`, {
+        headers: { 'Authorization': `Bearer ${this.credentials.accessToken}` }
+      });
+
+      if (response.status === 401) {
+        return {
+          status: ConnectorStatus.EXPIRED,
+          lastChecked: new Date(),
+          message: 'Access token expired'
+        };
+      }
+
+      if (!response.ok) {
+        return {
+          status: ConnectorStatus.ERROR,
+          lastChecked: new Date(),
+          message: `X API error: ${response.statusText}`
+        };
+      }
+
+      const data = await response.json();
+
+      return {
+        status: ConnectorStatus.CONNECTED,
+        lastChecked: new Date(),
+        message: `Connected to: @${data.data?.username || 'Unknown'}`
+      };
+    } catch (error) {
+      return {
+        status: ConnectorStatus.ERROR,
+        lastChecked: new Date(),
+        message: (error as Error).message
+      };
+    }
+  }
+
+  async refreshToken(): Promise<void> {
+    if (!this.credentials?.refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    config.requireConnector('twitter');
+
+    try {
+      const clientId = config.get('VITE_TWITTER_CLIENT_ID')!;
+      const response = await fetch(`${this.API_BASE}/oauth2/token`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Authorization': `Basic ${btoa(`${clientId}:${config.get('VITE_TWITTER_CLIENT_SECRET')}`)}`
+        },
+        body: new URLSearchParams({
+          grant_type: 'refresh_token',
+          refresh_token: this.credentials.refreshToken,
+          client_id: clientId
+        })
+      });
+
+      if (!response.ok) {
+        throw await this.tokenRefreshFailure(response);
+      }
+
+      const data = await response.json();
+
+      // X rotates refresh tokens: the old one stops working once used.
+      this.setCredentials({
+        ...this.credentials,
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token ?? this.credentials.refreshToken,
+        expiresAt: new Date(Date.now() + data.expires_in * 1000)
+      });
+
+      logger.info('X access token refreshed');
+    } catch (error) {
+      logger.error('Failed to refresh X token', error as Error);
+      throw error;
+    }
+  }
+
+  async post(data: PostData): Promise<PostResult> {
+    this.validatePostData(data);
+
+    if (!this.isConnected()) {
+      return {
+        success: false,
+        error: 'X connector not connected'
+      };
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const uploaded: string[] = Array.isArray(data.metadata?.mediaIds) ? data.metadata!.mediaIds : [];
+      const mediaIds = [...uploaded];
+      for (const mediaUrl of uploaded.length > 0 ? [] : data.mediaUrls ?? []) {
+        const mediaResponse = await fetch(mediaUrl, { signal: data.signal });
+        if (!mediaResponse.ok) {
+          return {
+            success: false,
+            error: `Failed to download media from ${mediaUrl}`
+          };
+        }
+
+        const blob = await mediaResponse.blob();
+        const upload = await this.uploadMedia(blob, blob.type.startsWith('video/') ? 'video' : 'image', data.signal);
+        if (!upload.success || !upload.mediaId) {
+          return {
+            success: false,
+            error: upload.error || 'Failed to upload media to X'
+          };
+        }
+        mediaIds.push(upload.mediaId);
+      }
+
+      const first = await this.createTweet({
+        text: data.content,
+        ...(mediaIds.length > 0 ? { media: { media_ids: mediaIds } } : {}),
+        ...(data.metadata?.replyToPostId ? { reply: { in_reply_to_tweet_id: String(data.metadata.replyToPostId) } } : {})
+      }, data.signal);
+
+      if (!first.success) {
+        return first;
+      }
+
+      // The first tweet is live, so a failing reply must not fail the post:
+      // a retry would publish it twice. The rest of the thread is reported.
+      const tweetIds = [first.postId!];
+      const thread: string[] = Array.isArray(data.metadata?.thread) ? data.metadata!.thread : [];
+      let threadError: string | undefined;
+
+      for (const text of thread) {
+        const reply = await this.createTweet({
+          text,
+          reply: { in_reply_to_tweet_id: tweetIds[tweetIds.length - 1] }
+        }, data.signal);
+        if (!reply.success) {
+          threadError = reply.error;
+          logger.warn('X thread incomplete', { postId: first.postId, posted: tweetIds.length, total: thread.length + 1 });
+          break;
+        }
+        tweetIds.push(reply.postId!);
+      }
+
+      return {
+        success: true,
+        postId: first.postId,
+        url: first.url,
+        platformResponse: { ...first.platformResponse, tweetIds, threadError }
+      };
+    } catch (error) {
+      logger.error('X post failed', error as Error);
+      return {
+        success: false,
+        error: (error as Error).message
+      };
+    }
+  }
+
+  private async createTweet(body: Record<string, unknown>, signal?: AbortSignal): Promise<PostResult> {
+    const response = await fetch(`${this.API_BASE}/tweets`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.credentials!.accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (response.status === 429) {
+      return {
+        success: false,
+        error: 'X rate limit exceeded',
+        ...(await this.handleRateLimit(this.retryAfterSeconds(response)))
+      };
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return {
+        success: false,
+        error: errorData.detail || errorData.errors?.[0]?.message || 'Failed to post to X'
+      };
+    }
+
+    const result = await response.json();
+
+    return {
+      success: true,
+      postId: result.data.id,
+      url: `https://x.com/i/web/status/${result.data.id}`,
+      platformResponse: result.data
+    };
+  }
+
+  /** X reports when the rate-limit window resets, in epoch seconds. */
+  private retryAfterSeconds(response: Response): number {
+    const reset = Number(response.headers.get('x-rate-limit-reset'));
+    return reset ? Math.max(1, reset - Math.floor(Date.now() / 1000)) : 900;
+  }
+
+  async uploadMedia(file: File | Blob, type: 'image' | 'video', signal?: AbortSignal): Promise<MediaUploadResult> {
+    if (!this.isConnected()) {
+      return {
+        success: false,
+        error: 'X connector not connected'
+      };
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const mediaType = file.type || (type === 'video' ? 'video/mp4' : 'image/jpeg');
+      const category = type === 'video' ? 'tweet_video' : mediaType === 'image/gif' ? 'tweet_gif' : 'tweet_image';
+      const headers = { 'Authorization': `Bearer ${this.credentials!.accessToken}` };
+
+      const initResponse = await fetch(`${this.API_BASE}/media/upload/initialize`, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ media_type: mediaType, total_bytes: file.size, media_category: category }),
+        signal
+      });
+
+      if (initResponse.status === 429) {
+        return {
+          success: false,
+          error: 'X rate limit exceeded',
+          ...(await this.handleRateLimit(this.retryAfterSeconds(initResponse)))
+        };
+      }
+
+      if (!initResponse.ok) {
+        return {
+          success: false,
+          error: `Failed to start X media upload: ${initResponse.statusText}`
+        };
+      }
+
+      const mediaId: string = (await initResponse.json()).data.id;
+
+      for (let offset = 0, segment = 0; offset < file.size; offset += UPLOAD_CHUNK_SIZE, segment++) {
+        const form = new FormData();
+        form.append('segment_index', String(segment));
+        form.append('media', file.slice(offset, offset + UPLOAD_CHUNK_SIZE));
+
+        const appendResponse = await fetch(`${this.API_BASE}/media/upload/${mediaId}/append`, {
+          method: 'POST',
+          headers,
+          body: form,
+          signal
+        });
+
+        if (!appendResponse.ok) {
+          return {
+            success: false,
+            error: `Failed to upload X media chunk ${segment}: ${appendResponse.statusText}`
+          };
+        }
+      }
+
+      const finalizeResponse = await fetch(`${this.API_BASE}/media/upload/${mediaId}/finalize`, {
+        method: 'POST',
+        headers,
+        signal
+      });
+
+      if (!finalizeResponse.ok) {
+        return {
+          success: false,
+          error: `Failed to finalize X media upload: ${finalizeResponse.statusText}`
+        };
+      }
+
+      const processing: ProcessingInfo | undefined = (await finalizeResponse.json()).data?.processing_info;
+      if (processing) {
+        await this.waitForProcessing(mediaId, processing, signal);
+      }
+
+      return {
+        success: true,
+        mediaId
+      };
+    } catch (error) {
+      logger.error('X media upload failed', error as Error);
+      return {
+        success: false,
+        error: (error as Error).message
+      };
+    }
+  }
+
+  /** Videos and GIFs are transcoded after upload and cannot be attached until that finishes. */
+  private async waitForProcessing(mediaId: string, initial: ProcessingInfo, signal?: AbortSignal): Promise<void> {
+    const deadline = Date.now() + MAX_PROCESSING_WAIT_MS;
+    let processing = initial;
+
+    while (processing.state === 'pending' || processing.state === 'in_progress') {
+      if (Date.now() > deadline) {
+        throw new Error('X media processing timed out');
+      }
+      await this.wait((processing.check_after_secs ?? 5) * 1000, signal);
+
+      const statusResponse = await fetch(`${this.API_BASE}/media/upload?command=STATUS&media_id=${mediaId}`, {
+        headers: { 'Authorization': `Bearer ${this.credentials!.accessToken}` },
+        signal
+      });
+      if (!statusResponse.ok) {
+        throw new Error(`Failed to check X media processing: ${statusResponse.statusText}`);
+      }
+      processing = (await statusResponse.json()).data?.processing_info ?? { state: 'succeeded' };
+    }
+
+    if (processing.state === 'failed') {
+      throw new Error(processing.error?.message || 'X could not process the media');
+    }
+  }
+
+  async deletePost(postId: string): Promise<boolean> {
+    if (!this.isConnected()) {
+      throw new Error('X connector not connected');
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const response = await fetch(`${this.API_BASE}/tweets/${postId}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${this.credentials!.accessToken}` }
+      });
+
+      if (!response.ok) return false;
+      const data = await response.json();
+      return data.data?.deleted === true;
+    } catch (error) {
+      logger.error('Failed to delete tweet', error as Error);
+      return false;
+    }
+  }
+
+  async getMetrics(): Promise<PlatformMetrics> {
+    if (!this.isConnected()) {
+      throw new Error('X connector not connected');
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const response = await fetch(`${this.API_BASE}/users/me?user.fields=public_metrics`, {
+        headers: { 'Authorization': `Bearer ${this.credentials!.accessToken}` }
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch X metrics');
+      }
+
+      const metrics = (await response.json()).data?.public_metrics ?? {};
+
+      return {
+        followers: metrics.followers_count || 0,
+        following: metrics.following_count || 0,
+        posts: metrics.tweet_count || 0,
+        engagement: {
+          likes: metrics.like_count || 0,
+          comments: 0,
+          shares: 0,
+          views: 0
+        }
+      };
+    } catch (error) {
+      logger.error('Failed to fetch X metrics', error as Error);
+      throw error;
+    }
+  }
+
+  async getPostMetrics(postId: string): Promise<Record<string, unknown>> {
+    if (!this.isConnected()) {
+      throw new Error('X connector not connected');
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const response = await fetch(`${this.API_BASE}/tweets/${postId}?tweet.fields=public_metrics,created_at`, {
+        headers: { 'Authorization': `Bearer ${this.credentials!.accessToken}` }
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch X post metrics');
+      }
+
+      const tweet: Partial<Tweet> = (await response.json()).data ?? {};
+
+      return {
+        ...this.toEngagement(tweet.public_metrics),
+        publishedAt: tweet.created_at
+      };
+    } catch (error) {
+      logger.error('Failed to fetch X post metrics', error as Error);
+      throw error;
+    }
+  }
+
+  async getRecentPosts(limit: number = 25): Promise<PlatformPost[]> {
+    if (!this.isConnected()) {
+      throw new Error('X connector not connected');
+    }
+
+    await this.ensureFreshToken();
+
+    try {
+      const userId = this.credentials!.platformUserId ?? await this.getUserId();
+      // The timeline endpoint accepts between 5 and 100 results.
+      const maxResults = Math.min(100, Math.max(5, limit));
+
+      const response = await fetch(
+        `${this.API_BASE}/users/${userId}/tweets?max_results=${maxResults}&tweet.fields=created_at,public_metrics`,
+        { headers: { 'Authorization': `Bearer ${this.credentials!.accessToken}` } }
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch X posts');
+      }
+
+      const data: { data?: Tweet[] } = await response.json();
+
+      return (data.data || []).slice(0, limit).map(tweet => ({
+        postId: tweet.id,
+        url: `https://x.com/i/web/status/${tweet.id}`,
+        content: tweet.text,
+        publishedAt: tweet.created_at ? new Date(tweet.created_at) : undefined,
+        metrics: this.toEngagement(tweet.public_metrics)
+      }));
+    } catch (error) {
+      logger.error('Failed to fetch recent X posts', error as Error);
+      throw error;
+    }
+  }
+
+  private async getUserId(): Promise<string> {
+    const response = await fetch(`${this.API_BASE}/users/me`, {
+      headers: { 'Authorization': `Bearer ${this.credentials!.accessToken}` }
+    });
+    if (!response.ok) {
+      throw new Error('Failed to identify the X account');
+    }
+    return (await response.json()).data.id;
+  }
+
+  /** Retweets and quotes both count as shares. */
+  private toEngagement(metrics: TweetPublicMetrics = {}) {
+    return {
+      likes: metrics.like_count || 0,
+      comments: metrics.reply_count || 0,
+      shares: (metrics.retweet_count || 0) + (metrics.quote_count || 0),
+      views: metrics.impression_count || 0
+    };
+  }
+}
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { SocialConnector, PostData, PostResult, MediaUploadResult, PlatformMetrics } from '../base/SocialConnector';
+import { SocialConnector, PostData, PostResult, MediaUploadResult, PlatformMetrics, PlatformPost } from '../base/SocialConnector';
 import { ConnectorStatus, ConnectorCredentials, ConnectorHealthCheck } from '../base/BaseConnector';
 import { config } from '../../config';
 import { logger } from '../../utils/logger';
@@ -11,7 +11,6 @@ const youtubeCredentialsSchema = z.object({
 });
 
 interface YouTubeVideo {
-  id: string;
   snippet: {
     title: string;
     description: string;
@@ -20,12 +19,38 @@ interface YouTubeVideo {
   };
   status: {
     privacyStatus: 'public' | 'private' | 'unlisted';
+    selfDeclaredMadeForKids: boolean;
+    /** Only for private videos; YouTube publishes them at this time. */
+    publishAt?: string;
   };
 }
 
+/** The Data API fields read from uploaded and listed videos. */
+interface YouTubeVideoResource {
+  id: string;
+  snippet?: { title?: string; publishedAt?: string };
+  statistics?: { viewCount?: string; likeCount?: string; commentCount?: string };
+}
+
+/** Random access to the bytes of the video being uploaded. */
+interface VideoSource {
+  size: number;
+  type: string;
+  read(start: number, end: number): Promise<Blob>;
+}
+
+/** People & Blogs. */
+const DEFAULT_CATEGORY_ID = '22';
+
+/** Resumable chunks must be multiples of 256 KiB. */
+const UPLOAD_CHUNK_SIZE = 32 * 256 * 1024;
+const MAX_CHUNK_RETRIES = 5;
+
 export class YouTubeConnector extends SocialConnector {
   private readonly API_BASE = 'https://www.googleapis.com/youtube/v3';
   private readonly UPLOAD_API_BASE = 'https://www.googleapis.com/upload/youtube/v3';
+  /** Open resumable upload sessions by media URL. */
+  private readonly uploadSessions = new Map<string, string>();
 
   constructor() {
     super({
@@ -153,7 +178,7 @@ export class YouTubeConnector extends SocialConnector {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to refresh YouTube token');
+        throw await this.tokenRefreshFailure(response);
       }
 
       const data = await response.json();
@@ -181,9 +206,7 @@ export class YouTubeConnector extends SocialConnector {
       };
     }
 
-    if (this.isTokenExpired()) {
-      await this.refreshToken();
-    }
+    await this.ensureFreshToken();
 
     try {
       if (!data.mediaUrls || data.mediaUrls.length === 0) {
@@ -193,62 +216,375 @@ export class YouTubeConnector extends SocialConnector {
         };
       }
 
+      // A scheduled video is uploaded private and YouTube makes it public at publishAt.
+      const publishAt: string | undefined = data.metadata?.publishAt
+        ? new Date(data.metadata.publishAt).toISOString()
+        : undefined;
+
       const videoMetadata: YouTubeVideo = {
-        id: '',
         snippet: {
           title: data.metadata?.title || data.content.substring(0, 100),
-          description: data.content,
+          description: data.metadata?.description ?? data.content,
           tags: data.metadata?.tags || [],
-          categoryId: data.metadata?.categoryId || '22'
+          categoryId: data.metadata?.categoryId || DEFAULT_CATEGORY_ID
         },
         status: {
-          privacyStatus: data.metadata?.privacyStatus || 'public'
+          privacyStatus: publishAt ? 'private' : data.metadata?.privacyStatus || 'public',
+          selfDeclaredMadeForKids: data.metadata?.madeForKids ?? false,
+          ...(publishAt ? { publishAt } : {})
         }
       };
 
-      const response = await fetch(`${this.UPLOAD_API_BASE}/videos?part=snippet,status`, {
+      const source = await this.openVideoSource(data.mediaUrls[0], data.signal);
+      const video = await this.resumableUpload(data.mediaUrls[0], source, videoMetadata, data.signal);
+      if (!video.success) {
+        return video;
+      }
+
+      const videoId = video.postId!;
+
+      // The video exists now, so follow-up failures are reported rather than
+      // failing the post: a retry would upload it again.
+      let thumbnailError: string | undefined;
+      if (data.metadata?.thumbnailUrl) {
+        thumbnailError = await this.setThumbnail(videoId, data.metadata.thumbnailUrl, data.signal);
+      }
+
+      let playlistError: string | undefined;
+      if (data.metadata?.playlistId) {
+        playlistError = await this.addToPlaylist(videoId, data.metadata.playlistId, data.signal);
+      }
+
+      if (thumbnailError || playlistError) {
+        logger.warn('YouTube video uploaded with errors', { videoId, thumbnailError, playlistError });
+      }
+
+      return {
+        success: true,
+        postId: videoId,
+        url: data.metadata?.isShort
+          ? `https://www.youtube.com/shorts/${videoId}`
+          : `https://www.youtube.com/watch?v=${videoId}`,
+        platformResponse: { ...video.platformResponse, thumbnailError, playlistError }
+      };
+    } catch (error) {
+      logger.error('YouTube post failed', error as Error);
+      return {
+        success: false,
+        error: (error as Error).message
+      };
+    }
+  }
+
+  /**
+   * Uploads through the resumable protocol. The session URI is kept per
+   * media URL, so a retried post resumes from the last byte YouTube
+   * acknowledged instead of starting over; sessions stay valid for about a
+   * week. Chunks that fail with a network error or a 5xx are re-sent from
+   * the offset YouTube reports. An abort keeps the session for the retry.
+   */
+  private async resumableUpload(
+    sessionKey: string,
+    source: VideoSource,
+    metadata: YouTubeVideo,
+    signal?: AbortSignal
+  ): Promise<PostResult> {
+    let sessionUri = this.uploadSessions.get(sessionKey);
+    let offset = 0;
+
+    if (sessionUri) {
+      const status = await this.queryUploadStatus(sessionUri, source.size, signal);
+      if (status.video) {
+        this.uploadSessions.delete(sessionKey);
+        return this.uploadResult(status.video);
+      }
+      if (status.expired) {
+        sessionUri = undefined;
+      } else {
+        offset = status.offset;
+        logger.info('Resuming YouTube upload', { offset, size: source.size });
+      }
+    }
+
+    if (!sessionUri) {
+      const response = await fetch(`${this.UPLOAD_API_BASE}/videos?uploadType=resumable&part=snippet,status`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${this.credentials!.accessToken}`,
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json; charset=UTF-8',
+          'X-Upload-Content-Length': String(source.size),
+          'X-Upload-Content-Type': source.type
         },
-        body: JSON.stringify(videoMetadata)
+        body: JSON.stringify(metadata),
+        signal
       });
 
-      if (response.status === 429) {
-        await this.handleRateLimit(3600);
+      const rateLimited = await this.checkQuota(response);
+      if (rateLimited) {
+        return rateLimited;
+      }
+
+      if (!response.ok || !response.headers.get('location')) {
+        const errorData = await response.json().catch(() => ({}));
         return {
           success: false,
-          error: 'YouTube rate limit exceeded'
+          error: errorData.error?.message || 'Failed to start YouTube upload'
         };
       }
 
-      if (!response.ok) {
-        const errorData = await response.json();
+      sessionUri = response.headers.get('location')!;
+      this.uploadSessions.set(sessionKey, sessionUri);
+    }
+
+    let failures = 0;
+
+    while (offset < source.size) {
+      const end = Math.min(offset + UPLOAD_CHUNK_SIZE, source.size);
+      let response: Response | null = null;
+
+      try {
+        response = await fetch(sessionUri, {
+          method: 'PUT',
+          headers: {
+            'Authorization': `Bearer ${this.credentials!.accessToken}`,
+            'Content-Type': source.type,
+            'Content-Range': `bytes ${offset}-${end - 1}/${source.size}`
+          },
+          body: await source.read(offset, end),
+          signal
+        });
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        logger.warn('YouTube upload chunk failed', { offset, error: (error as Error).message });
+      }
+
+      if (response && (response.status === 200 || response.status === 201)) {
+        this.uploadSessions.delete(sessionKey);
+        return this.uploadResult(await response.json());
+      }
+
+      if (response?.status === 308) {
+        offset = this.nextOffset(response);
+        failures = 0;
+        continue;
+      }
+
+      if (response?.status === 401) {
+        // The session outlives the token; the retry refreshes it and resumes.
         return {
           success: false,
-          error: errorData.error?.message || 'Failed to upload video to YouTube'
+          error: 'YouTube access token expired during upload'
         };
       }
 
-      const result = await response.json();
+      if (response && response.status < 500) {
+        const errorData = await response.json().catch(() => ({}));
+        this.uploadSessions.delete(sessionKey);
+        return {
+          success: false,
+          error: errorData.error?.message || `YouTube upload failed: ${response.statusText}`
+        };
+      }
 
-      return {
-        success: true,
-        postId: result.id,
-        url: `https://www.youtube.com/watch?v=${result.id}`,
-        platformResponse: result
-      };
+      if (++failures > MAX_CHUNK_RETRIES) {
+        // The session is kept, so the job's next attempt resumes from here.
+        return {
+          success: false,
+          error: `YouTube upload interrupted at byte ${offset} of ${source.size}`
+        };
+      }
+
+      await this.wait(1000 * 2 ** failures, signal);
+
+      const status = await this.queryUploadStatus(sessionUri, source.size, signal);
+      if (status.video) {
+        this.uploadSessions.delete(sessionKey);
+        return this.uploadResult(status.video);
+      }
+      if (status.expired) {
+        this.uploadSessions.delete(sessionKey);
+        return {
+          success: false,
+          error: 'YouTube upload session expired'
+        };
+      }
+      offset = status.offset;
+    }
+
+    // Every byte was acknowledged but the final response was lost.
+    const status = await this.queryUploadStatus(sessionUri, source.size, signal);
+    if (status.video) {
+      this.uploadSessions.delete(sessionKey);
+      return this.uploadResult(status.video);
+    }
+    return {
+      success: false,
+      error: 'YouTube did not confirm the upload'
+    };
+  }
+
+  /** Asks the session how many bytes it holds, with an empty PUT of unknown range. */
+  private async queryUploadStatus(
+    sessionUri: string,
+    size: number,
+    signal?: AbortSignal
+  ): Promise<{ offset: number; video?: YouTubeVideoResource; expired?: boolean }> {
+    try {
+      const response = await fetch(sessionUri, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${this.credentials!.accessToken}`,
+          'Content-Range': `bytes */${size}`
+        },
+        signal
+      });
+
+      if (response.status === 200 || response.status === 201) {
+        return { offset: size, video: await response.json() };
+      }
+      if (response.status === 308) {
+        return { offset: this.nextOffset(response) };
+      }
+      if (response.status === 404 || response.status === 410) {
+        return { offset: 0, expired: true };
+      }
     } catch (error) {
-      logger.error('YouTube post failed', error as Error);
+      if (signal?.aborted) throw error;
+      logger.warn('Failed to query YouTube upload status', { error: (error as Error).message });
+    }
+    return { offset: 0, expired: true };
+  }
+
+  /** A 308 carries `Range: bytes=0-<last>`, or no Range when nothing was stored. */
+  private nextOffset(response: Response): number {
+    const range = response.headers.get('range');
+    const last = range ? Number(range.split('-')[1]) : NaN;
+    return Number.isNaN(last) ? 0 : last + 1;
+  }
+
+  private uploadResult(video: YouTubeVideoResource): PostResult {
+    return {
+      success: true,
+      postId: video.id,
+      url: `https://www.youtube.com/watch?v=${video.id}`,
+      platformResponse: video
+    };
+  }
+
+  /**
+   * Reads the video in ranges when its host supports them, so a multi-GB
+   * upload never holds the whole file in memory; otherwise downloads it once.
+   */
+  private async openVideoSource(mediaUrl: string, signal?: AbortSignal): Promise<VideoSource> {
+    const head = await fetch(mediaUrl, { method: 'HEAD', signal }).catch(() => null);
+    const size = Number(head?.headers.get('content-length'));
+    const type = head?.headers.get('content-type') || 'video/*';
+
+    if (head?.ok && size > 0 && head.headers.get('accept-ranges') === 'bytes') {
       return {
-        success: false,
-        error: (error as Error).message
+        size,
+        type,
+        read: async (start, end) => {
+          const response = await fetch(mediaUrl, {
+            headers: { 'Range': `bytes=${start}-${end - 1}` },
+            signal
+          });
+          if (response.status !== 206) {
+            throw new Error(`Failed to read video bytes ${start}-${end - 1}: ${response.statusText}`);
+          }
+          return response.blob();
+        }
       };
     }
+
+    const response = await fetch(mediaUrl, { signal });
+    if (!response.ok) {
+      throw new Error(`Failed to download media from ${mediaUrl}`);
+    }
+    const blob = await response.blob();
+    return {
+      size: blob.size,
+      type: blob.type || type,
+      read: async (start, end) => blob.slice(start, end)
+    };
+  }
+
+  /** Returns an error message, or undefined when the thumbnail was set. */
+  private async setThumbnail(videoId: string, thumbnailUrl: string, signal?: AbortSignal): Promise<string | undefined> {
+    try {
+      const image = await fetch(thumbnailUrl, { signal });
+      if (!image.ok) {
+        return `Failed to download thumbnail from ${thumbnailUrl}`;
+      }
+      const blob = await image.blob();
+
+      const response = await fetch(`${this.UPLOAD_API_BASE}/thumbnails/set?videoId=${videoId}&uploadType=media`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.credentials!.accessToken}`,
+          'Content-Type': blob.type || 'image/jpeg'
+        },
+        body: blob,
+        signal
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        return errorData.error?.message || `Failed to set thumbnail: ${response.statusText}`;
+      }
+      return undefined;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+
+  /** Returns an error message, or undefined when the video was added. */
+  private async addToPlaylist(videoId: string, playlistId: string, signal?: AbortSignal): Promise<string | undefined> {
+    try {
+      const response = await fetch(`${this.API_BASE}/playlistItems?part=snippet`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.credentials!.accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          snippet: {
+            playlistId,
+            resourceId: { kind: 'youtube#video', videoId }
+          }
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        return errorData.error?.message || `Failed to add video to playlist: ${response.statusText}`;
+      }
+      return undefined;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+
+  /** YouTube reports an exhausted daily quota as a 403, not a 429. */
+  private async checkQuota(response: Response): Promise<PostResult | null> {
+    if (response.status === 429) {
+      const rateLimited = await this.handleRateLimit(Number(response.headers.get('retry-after')) || 3600);
+      return { success: false, error: 'YouTube rate limit exceeded', ...rateLimited };
+    }
+
+    if (response.status === 403) {
+      const errorData = await response.clone().json().catch(() => ({}));
+      const reason = errorData.error?.errors?.[0]?.reason;
+      if (reason === 'quotaExceeded' || reason === 'rateLimitExceeded' || reason === 'uploadLimitExceeded') {
+        return { success: false, error: `YouTube quota exceeded (${reason})`, ...(await this.handleRateLimit(3600)) };
+      }
+    }
+
+    return null;
   }
 
-  async uploadMedia(file: File | Blob, type: 'image' | 'video'): Promise<MediaUploadResult> {
+  async uploadMedia(file: File | Blob, type: 'image' | 'video', signal?: AbortSignal): Promise<MediaUploadResult> {
     if (type !== 'video') {
       return {
         success: false,
@@ -263,10 +599,30 @@ export class YouTubeConnector extends SocialConnector {
       };
     }
 
-    return {
-      success: false,
-      error: 'Direct video upload not implemented. Use resumable upload flow.'
-    };
+    await this.ensureFreshToken();
+
+    try {
+      // Uploaded private and untitled; post() is the way to publish.
+      const upload = await this.resumableUpload(
+        `blob:${crypto.randomUUID()}`,
+        { size: file.size, type: file.type || 'video/*', read: async (start, end) => file.slice(start, end) },
+        {
+          snippet: { title: file instanceof File ? file.name : 'Untitled', description: '', categoryId: DEFAULT_CATEGORY_ID },
+          status: { privacyStatus: 'private', selfDeclaredMadeForKids: false }
+        },
+        signal
+      );
+
+      return upload.success
+        ? { success: true, mediaId: upload.postId, url: upload.url }
+        : { success: false, error: upload.error };
+    } catch (error) {
+      logger.error('YouTube media upload failed', error as Error);
+      return {
+        success: false,
+        error: (error as Error).message
+      };
+    }
   }
 
   async deletePost(postId: string): Promise<boolean> {
@@ -274,9 +630,7 @@ export class YouTubeConnector extends SocialConnector {
       throw new Error('YouTube connector not connected');
     }
 
-    if (this.isTokenExpired()) {
-      await this.refreshToken();
-    }
+    await this.ensureFreshToken();
 
     try {
       const response = await fetch(`${this.API_BASE}/videos?id=${postId}`, {
@@ -298,9 +652,7 @@ export class YouTubeConnector extends SocialConnector {
       throw new Error('YouTube connector not connected');
     }
 
-    if (this.isTokenExpired()) {
-      await this.refreshToken();
-    }
+    await this.ensureFreshToken();
 
     try {
       const channelResponse = await fetch(
@@ -340,9 +692,7 @@ export class YouTubeConnector extends SocialConnector {
       throw new Error('YouTube connector not connected');
     }
 
-    if (this.isTokenExpired()) {
-      await this.refreshToken();
-    }
+    await this.ensureFreshToken();
 
     try {
       const response = await fetch(
@@ -378,4 +728,73 @@ export class YouTubeConnector extends SocialConnector {
       throw error;
     }
   }
+
+  async getRecentPosts(limit: number = 25): Promise<PlatformPost[]> {
+    if (!this.isConnected()) {
+      throw new Error('YouTube connector not connected');
+    }
+
+    await this.ensureFreshToken();
+
+    const headers = { 'Authorization': `Bearer ${this.credentials!.accessToken}` };
+
+    try {
+      const channelResponse = await fetch(`${this.API_BASE}/channels?part=contentDetails&mine=true`, { headers });
+
+      if (!channelResponse.ok) {
+        throw new Error('Failed to fetch YouTube channel');
+      }
+
+      const channelData = await channelResponse.json();
+      const uploadsPlaylistId = channelData.items?.[0]?.contentDetails?.relatedPlaylists?.uploads;
+
+      if (!uploadsPlaylistId) {
+        return [];
+      }
+
+      const itemsResponse = await fetch(
+        `${this.API_BASE}/playlistItems?part=contentDetails&playlistId=${uploadsPlaylistId}&maxResults=${Math.min(limit, 50)}`,
+        { headers }
+      );
+
+      if (!itemsResponse.ok) {
+        throw new Error('Failed to fetch YouTube uploads');
+      }
+
+      const itemsData: { items?: Array<{ contentDetails: { videoId: string } }> } = await itemsResponse.json();
+      const videoIds = (itemsData.items || []).map(item => item.contentDetails.videoId);
+
+      if (videoIds.length === 0) {
+        return [];
+      }
+
+      const videosResponse = await fetch(
+        `${this.API_BASE}/videos?part=snippet,statistics&id=${videoIds.join(',')}`,
+        { headers }
+      );
+
+      if (!videosResponse.ok) {
+        throw new Error('Failed to fetch YouTube videos');
+      }
+
+      const videosData: { items?: YouTubeVideoResource[] } = await videosResponse.json();
+
+      return (videosData.items || []).map(video => ({
+        postId: video.id,
+        url: `https://www.youtube.com/watch?v=${video.id}`,
+        content: video.snippet?.title,
+        mediaType: 'video',
+        publishedAt: video.snippet?.publishedAt ? new Date(video.snippet.publishedAt) : undefined,
+        metrics: {
+          likes: parseInt(video.statistics?.likeCount || '0'),
+          comments: parseInt(video.statistics?.commentCount || '0'),
+          shares: 0,
+          views: parseInt(video.statistics?.viewCount || '0')
+        }
+      }));
+    } catch (error) {
+      logger.error('Failed to fetch recent YouTube videos', error as Error);
+      throw error;
+    }
+  }
 }
@@ -3,3 +3,5 @@ export * from './TikTokConnector';
 export * from './InstagramConnector';
 export * from './LinkedInConnector';
 export * from './PinterestConnector';
+export * from './TwitterConnector';
+export * from './FacebookConnector';
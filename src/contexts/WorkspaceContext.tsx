@@ -0,0 +1,79 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { workspaceApi } from '../api';
+import { Workspace } from '../types';
+import { logger } from '../utils/logger';
+
+const CURRENT_WORKSPACE_KEY = 'current-workspace-id';
+
+interface WorkspaceContextType {
+  workspaces: Workspace[];
+  currentWorkspace: Workspace | null;
+  loading: boolean;
+  selectWorkspace: (workspaceId: string) => void;
+  refresh: () => Promise<void>;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+function readStoredWorkspaceId(): string | null {
+  return typeof localStorage === 'undefined' ? null : localStorage.getItem(CURRENT_WORKSPACE_KEY);
+}
+
+/**
+ * Loads the signed-in user's workspaces and tracks which one is active. The
+ * selection is remembered across reloads and falls back to the first
+ * workspace the user belongs to.
+ */
+export const WorkspaceProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(readStoredWorkspaceId);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setWorkspaces([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setWorkspaces(await workspaceApi.getWorkspaces(user.id));
+    } catch (error) {
+      logger.error('Failed to load workspaces', error as Error);
+      setWorkspaces([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const selectWorkspace = useCallback((workspaceId: string) => {
+    setSelectedId(workspaceId);
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(CURRENT_WORKSPACE_KEY, workspaceId);
+    }
+  }, []);
+
+  const currentWorkspace = workspaces.find(workspace => workspace.id === selectedId) ?? workspaces[0] ?? null;
+
+  return (
+    <WorkspaceContext.Provider value={{ workspaces, currentWorkspace, loading, selectWorkspace, refresh }}>
+      {children}
+    </WorkspaceContext.Provider>
+  );
+};
+
+export const useCurrentWorkspace = () => {
+  const context = useContext(WorkspaceContext);
+  if (context === undefined) {
+    throw new Error('useCurrentWorkspace must be used within a WorkspaceProvider');
+  }
+  return context;
+};
+
+export default WorkspaceContext;
@@ -1,8 +1,15 @@
 import { createClient } from '@supabase/supabase-js';
+import { logger } from '../utils/logger';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
+// Headless workers (scripts/worker.ts) have no user session and authenticate
+// with the service role key, which only exists in the server's environment.
+const serviceRoleKey = typeof window === 'undefined'
+  ? globalThis.process?.env?.SUPABASE_SERVICE_ROLE_KEY
+  : undefined;
+
 // Create a mock client if environment variables are not set
 const createSupabaseClient = () => {
   console.log('[SUPABASE] Initializing client...');
@@ -15,6 +22,16 @@ const createSupabaseClient = () => {
     return null;
   }
 
+  if (serviceRoleKey) {
+    logger.debug('Creating Supabase service role client');
+    return createClient(supabaseUrl, serviceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+  }
+
   console.log('[SUPABASE] Creating client with valid credentials');
   return createClient(supabaseUrl, supabaseAnonKey, {
     auth: {
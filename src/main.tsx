@@ -2,7 +2,9 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import { AuthProvider } from './contexts/AuthContext';
+import { WorkspaceProvider } from './contexts/WorkspaceContext';
 import { ErrorBoundary } from './components/ErrorBoundary';
+import { registerDefaultJobHandlers } from './workflows';
 import './index.css';
 
 if (typeof window !== 'undefined' && import.meta.env.PROD) {
@@ -13,11 +15,15 @@ if (typeof window !== 'undefined' && import.meta.env.PROD) {
   });
 }
 
+registerDefaultJobHandlers();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <ErrorBoundary>
       <AuthProvider>
-        <App />
+        <WorkspaceProvider>
+          <App />
+        </WorkspaceProvider>
       </AuthProvider>
     </ErrorBoundary>
   </StrictMode>
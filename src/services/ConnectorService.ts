@@ -1,8 +1,20 @@
 import { supabase } from '../lib/supabase';
 import { logger } from '../utils/logger';
-import { ConnectorCredentials } from '../connectors/base/BaseConnector';
-import { YouTubeConnector, TikTokConnector, InstagramConnector, LinkedInConnector, PinterestConnector } from '../connectors/social';
-import { connectorRegistry } from '../connectors/base/ConnectorRegistry';
+import { BaseConnector, ConnectorCredentials } from '../connectors/base/BaseConnector';
+import {
+  YouTubeConnector,
+  TikTokConnector,
+  InstagramConnector,
+  LinkedInConnector,
+  PinterestConnector,
+  TwitterConnector,
+  FacebookConnector
+} from '../connectors/social';
+import { connectorRegistry, ConnectorInstanceKey } from '../connectors/base/ConnectorRegistry';
+import { credentialVault } from './security/CredentialVault';
+import { auditLogService } from './audit/AuditLogService';
+import { AppError, ErrorCode, NotFoundError, TokenRefreshError } from '../utils/errors';
+import { tokenLifecycleManager } from './TokenLifecycleManager';
 
 /**
  * ConnectorService manages social media platform connections and credentials.
@@ -17,6 +29,8 @@ import { connectorRegistry } from '../connectors/base/ConnectorRegistry';
  * - Instagram
  * - LinkedIn
  * - Pinterest
+ * - X (Twitter)
+ * - Facebook Pages
  * 
  * @example
  * ```typescript
@@ -57,11 +71,13 @@ export class ConnectorService {
    * @private
    */
   private registerConnectors(): void {
-    connectorRegistry.register('youtube', YouTubeConnector as any);
-    connectorRegistry.register('tiktok', TikTokConnector as any);
-    connectorRegistry.register('instagram', InstagramConnector as any);
-    connectorRegistry.register('linkedin', LinkedInConnector as any);
-    connectorRegistry.register('pinterest', PinterestConnector as any);
+    connectorRegistry.register('youtube', YouTubeConnector);
+    connectorRegistry.register('tiktok', TikTokConnector);
+    connectorRegistry.register('instagram', InstagramConnector);
+    connectorRegistry.register('linkedin', LinkedInConnector);
+    connectorRegistry.register('pinterest', PinterestConnector);
+    connectorRegistry.register('twitter', TwitterConnector);
+    connectorRegistry.register('facebook', FacebookConnector);
   }
 
   /**
@@ -69,7 +85,9 @@ export class ConnectorService {
    * 
    * This method stores encrypted credentials in the database with upsert logic,
    * meaning it will create a new record or update an existing one if a connection
-   * for the same workspace/platform/user combination already exists.
+   * for the same workspace/platform/user combination already exists. Tokens are
+   * encrypted with the workspace's data key (see CredentialVault), so this only
+   * works where the master key is configured; plaintext is never stored.
    * 
    * @param userId - The ID of the user who owns the connection
    * @param workspaceId - The workspace ID where the connector belongs
@@ -120,6 +138,10 @@ export class ConnectorService {
     }
 
     try {
+      if (!await credentialVault.isAvailable()) {
+        return { error: new Error('Credential encryption is not configured') };
+      }
+
       const { error } = await supabase
         .from('connectors')
         .upsert({
@@ -127,8 +149,10 @@ export class ConnectorService {
           workspace_id: workspaceId,
           platform,
           platform_user_id: credentials.platformUserId,
-          access_token: credentials.accessToken,
-          refresh_token: credentials.refreshToken,
+          access_token: await credentialVault.encrypt(workspaceId, credentials.accessToken),
+          refresh_token: credentials.refreshToken
+            ? await credentialVault.encrypt(workspaceId, credentials.refreshToken)
+            : null,
           token_expires_at: credentials.expiresAt?.toISOString(),
           status: 'connected',
           metadata: credentials.metadata || {},
@@ -142,6 +166,8 @@ export class ConnectorService {
         return { error };
       }
 
+      await connectorRegistry.evict({ workspaceId, platform, accountId: credentials.platformUserId });
+
       logger.info('Connector credentials saved', { platform, workspaceId });
       return { error: null };
     } catch (error) {
@@ -155,13 +181,20 @@ export class ConnectorService {
    * 
    * Fetches the stored credentials for an active platform connection. Only returns
    * credentials for connections with status 'connected'. Returns null if no active
-   * connection exists.
+   * connection exists. Tokens are decrypted transparently; reads on behalf of a
+   * job are recorded in the audit log.
+   * 
+   * A workspace can connect several accounts of one platform; pass
+   * `platformUserId` to pick one. Without it the lookup fails when more than
+   * one account is connected rather than guessing.
    * 
    * @param userId - The ID of the user who owns the connection (currently unused but kept for future use)
    * @param workspaceId - The workspace ID to query
    * @param platform - The social media platform identifier
+   * @param [options.platformUserId] - The platform account to read
+   * @param [options.job] - The job reading the credentials, for the audit trail
    * 
-   * @returns Promise resolving to credentials and error status
+   * @returns Promise resolving to credentials, the `connectors` row id and error status
    * 
    * @example
    * ```typescript
@@ -184,46 +217,144 @@ export class ConnectorService {
   async getConnectorCredentials(
     userId: string,
     workspaceId: string,
-    platform: string
-  ): Promise<{ credentials: ConnectorCredentials | null; error: Error | null }> {
+    platform: string,
+    options: { platformUserId?: string; job?: { id: string; type: string } } = {}
+  ): Promise<{ credentials: ConnectorCredentials | null; connectorRecordId?: string; error: Error | null }> {
     if (!supabase) {
       return { credentials: null, error: new Error('Supabase not configured') };
     }
 
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('connectors')
         .select('*')
         .eq('workspace_id', workspaceId)
         .eq('platform', platform)
-        .eq('status', 'connected')
-        .maybeSingle();
+        .eq('status', 'connected');
+
+      if (options.platformUserId) {
+        query = query.eq('platform_user_id', options.platformUserId);
+      }
+
+      const { data: rows, error } = await query.limit(2);
 
       if (error) {
         logger.error('Failed to fetch connector credentials', error);
         return { credentials: null, error };
       }
 
-      if (!data) {
+      if (!rows || rows.length === 0) {
         return { credentials: null, error: null };
       }
 
+      if (rows.length > 1) {
+        return {
+          credentials: null,
+          error: new Error(`Several ${platform} accounts are connected; specify which one to use`)
+        };
+      }
+
+      const data = rows[0];
+
       const credentials: ConnectorCredentials = {
         userId: data.user_id,
-        accessToken: data.access_token,
-        refreshToken: data.refresh_token,
+        accessToken: data.access_token ? await credentialVault.decrypt(data.access_token) : undefined,
+        refreshToken: data.refresh_token ? await credentialVault.decrypt(data.refresh_token) : undefined,
         platformUserId: data.platform_user_id,
         expiresAt: data.token_expires_at ? new Date(data.token_expires_at) : undefined,
         metadata: data.metadata
       };
 
-      return { credentials, error: null };
+      if (options.job) {
+        await auditLogService.log('credentials_read', {
+          workspaceId,
+          userId: data.user_id,
+          resourceType: 'connector',
+          resourceId: data.id,
+          newValues: { platform, jobId: options.job.id, jobType: options.job.type }
+        });
+      }
+
+      return { credentials, connectorRecordId: data.id, error: null };
     } catch (error) {
       logger.error('Error fetching connector credentials', error as Error);
       return { credentials: null, error: error as Error };
     }
   }
 
+  /**
+   * Returns a connected instance for one platform account of a workspace,
+   * hydrating it from the stored credentials if this process has none yet.
+   * 
+   * Instances are shared through the connector registry and kept until idle,
+   * so credentials are only read (and audited) when an instance is created.
+   * Tokens close to expiry are refreshed by the TokenLifecycleManager before
+   * the instance is returned; a connection whose grant was revoked is marked
+   * expired and reported as not connected. Pass the instance to
+   * `connectorRegistry.release` when done with it.
+   * 
+   * @param target - Workspace, platform and optional platform account id
+   * @param [options.job] - The job using the connector, for the audit trail
+   * 
+   * @returns Promise resolving to the connector, or null if the account is not connected
+   * 
+   * @example
+   * ```typescript
+   * const { connector, error } = await connectorService.acquireConnector(
+   *   { workspaceId: 'workspace-456', platform: 'youtube', accountId: 'UC123' },
+   *   { job }
+   * );
+   * 
+   * if (connector) {
+   *   try {
+   *     await (connector as SocialConnector).post(postData);
+   *   } finally {
+   *     connectorRegistry.release(connector);
+   *   }
+   * }
+   * ```
+   */
+  async acquireConnector(
+    target: ConnectorInstanceKey,
+    options: { job?: { id: string; type: string } } = {}
+  ): Promise<{ connector: BaseConnector | null; error: Error | null }> {
+    try {
+      const connector = await connectorRegistry.acquire(target, async instance => {
+        const { credentials, connectorRecordId, error } = await this.getConnectorCredentials(
+          '',
+          target.workspaceId,
+          target.platform,
+          { platformUserId: target.accountId, job: options.job }
+        );
+
+        if (error) throw error;
+        if (!credentials || !connectorRecordId) {
+          throw new AppError(`No connected ${target.platform} account`, ErrorCode.NOT_FOUND);
+        }
+        return tokenLifecycleManager.prepare(instance, { ...target, connectorRecordId }, credentials);
+      });
+
+      try {
+        await tokenLifecycleManager.ensureFresh(connector);
+      } catch (refreshError) {
+        connectorRegistry.release(connector);
+        throw refreshError;
+      }
+
+      return { connector, error: null };
+    } catch (error) {
+      if (error instanceof AppError && error.code === ErrorCode.NOT_FOUND) {
+        return { connector: null, error: null };
+      }
+      if (error instanceof TokenRefreshError && error.revoked) {
+        logger.warn('Connector needs to be reconnected', { ...target, error: error.message });
+        return { connector: null, error: null };
+      }
+      logger.error('Failed to hydrate connector', error as Error, { ...target });
+      return { connector: null, error: error as Error };
+    }
+  }
+
   /**
    * Disconnects a social media platform by marking it as disconnected.
    * 
@@ -270,6 +401,8 @@ export class ConnectorService {
         return { error };
       }
 
+      await connectorRegistry.evict({ workspaceId, platform });
+
       logger.info('Connector disconnected', { platform, workspaceId });
       return { error: null };
     } catch (error) {
@@ -278,6 +411,210 @@ export class ConnectorService {
     }
   }
 
+  /**
+   * Stores tokens a connector obtained by refreshing, re-encrypted with the
+   * workspace's data key.
+   * 
+   * @param connectorRecordId - The `connectors` row the tokens belong to
+   * @param workspaceId - The workspace ID, whose data key encrypts the tokens
+   * @param credentials - The refreshed credentials
+   * 
+   * @returns Promise resolving to error status (null if successful)
+   */
+  async updateConnectorTokens(
+    connectorRecordId: string,
+    workspaceId: string,
+    credentials: ConnectorCredentials
+  ): Promise<{ error: Error | null }> {
+    if (!supabase) {
+      return { error: new Error('Supabase not configured') };
+    }
+
+    try {
+      if (!credentials.accessToken) {
+        return { error: new Error('Refreshed credentials have no access token') };
+      }
+
+      const { error } = await supabase
+        .from('connectors')
+        .update({
+          access_token: await credentialVault.encrypt(workspaceId, credentials.accessToken),
+          refresh_token: credentials.refreshToken
+            ? await credentialVault.encrypt(workspaceId, credentials.refreshToken)
+            : null,
+          token_expires_at: credentials.expiresAt?.toISOString() ?? null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', connectorRecordId);
+
+      if (error) {
+        logger.error('Failed to store refreshed tokens', error, { connectorRecordId });
+        return { error };
+      }
+
+      return { error: null };
+    } catch (error) {
+      logger.error('Error storing refreshed tokens', error as Error);
+      return { error: error as Error };
+    }
+  }
+
+  /**
+   * Merges per-account settings into a connector's metadata, e.g. the
+   * Pinterest board pins go to by default (`defaultBoardId`). A `null`
+   * value removes the setting.
+   *
+   * @param workspaceId - The workspace the connector belongs to
+   * @param connectorRecordId - The `connectors` row to update
+   * @param settings - Settings to merge into the metadata
+   *
+   * @returns Promise resolving to error status (null if successful)
+   */
+  async updateConnectorSettings(
+    workspaceId: string,
+    connectorRecordId: string,
+    settings: Record<string, unknown>
+  ): Promise<{ error: Error | null }> {
+    if (!supabase) {
+      return { error: new Error('Supabase not configured') };
+    }
+
+    try {
+      const { data: row, error: fetchError } = await supabase
+        .from('connectors')
+        .select('platform, platform_user_id, metadata')
+        .eq('id', connectorRecordId)
+        .eq('workspace_id', workspaceId)
+        .maybeSingle();
+
+      if (fetchError) {
+        logger.error('Failed to load connector settings', fetchError, { connectorRecordId });
+        return { error: fetchError };
+      }
+
+      if (!row) {
+        return { error: new NotFoundError('Connector') };
+      }
+
+      const metadata: Record<string, unknown> = { ...(row.metadata ?? {}), ...settings };
+      for (const [key, value] of Object.entries(settings)) {
+        if (value === null) delete metadata[key];
+      }
+
+      const { error } = await supabase
+        .from('connectors')
+        .update({ metadata, updated_at: new Date().toISOString() })
+        .eq('id', connectorRecordId);
+
+      if (error) {
+        logger.error('Failed to update connector settings', error, { connectorRecordId });
+        return { error };
+      }
+
+      // Cached instances hold the old metadata in their credentials.
+      await connectorRegistry.evict({ workspaceId, platform: row.platform, accountId: row.platform_user_id });
+
+      return { error: null };
+    } catch (error) {
+      logger.error('Error updating connector settings', error as Error);
+      return { error: error as Error };
+    }
+  }
+
+  /**
+   * Marks a connection as expired after the platform revoked its grant. Like
+   * a disconnected connector, it is no longer returned by
+   * getConnectorCredentials until the user reconnects.
+   * 
+   * @param connectorRecordId - The `connectors` row to mark
+   * 
+   * @returns Promise resolving to whether this call expired the connector
+   * (false if it was no longer connected) and error status
+   */
+  async markConnectorExpired(connectorRecordId: string): Promise<{ expired: boolean; error: Error | null }> {
+    if (!supabase) {
+      return { expired: false, error: new Error('Supabase not configured') };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('connectors')
+        .update({ status: 'expired', updated_at: new Date().toISOString() })
+        .eq('id', connectorRecordId)
+        .eq('status', 'connected')
+        .select('id');
+
+      if (error) {
+        logger.error('Failed to mark connector expired', error, { connectorRecordId });
+        return { expired: false, error };
+      }
+
+      return { expired: (data ?? []).length > 0, error: null };
+    } catch (error) {
+      logger.error('Error marking connector expired', error as Error);
+      return { expired: false, error: error as Error };
+    }
+  }
+
+  /**
+   * Encrypts tokens that were stored before credential encryption existed.
+   * Part of the key rotation command; rows that are already encrypted are
+   * left untouched.
+   * 
+   * @returns Promise resolving to the number of connectors encrypted
+   */
+  async encryptStoredCredentials(): Promise<{ encrypted: number; error: Error | null }> {
+    if (!supabase) {
+      return { encrypted: 0, error: new Error('Supabase not configured') };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('connectors')
+        .select('id, workspace_id, access_token, refresh_token');
+
+      if (error) {
+        logger.error('Failed to load connectors for encryption', error);
+        return { encrypted: 0, error };
+      }
+
+      let encrypted = 0;
+      for (const row of data ?? []) {
+        if (!row.access_token) continue;
+
+        const accessPlain = !credentialVault.isEncrypted(row.access_token);
+        const refreshPlain = row.refresh_token && !credentialVault.isEncrypted(row.refresh_token);
+        if (!accessPlain && !refreshPlain) continue;
+
+        const { error: updateError } = await supabase
+          .from('connectors')
+          .update({
+            access_token: accessPlain
+              ? await credentialVault.encrypt(row.workspace_id, row.access_token)
+              : row.access_token,
+            refresh_token: refreshPlain
+              ? await credentialVault.encrypt(row.workspace_id, row.refresh_token)
+              : row.refresh_token
+          })
+          .eq('id', row.id)
+          // Skip rows re-saved since they were read.
+          .eq('access_token', row.access_token);
+
+        if (updateError) {
+          logger.error('Failed to encrypt connector credentials', updateError, { connectorId: row.id });
+          continue;
+        }
+        encrypted++;
+      }
+
+      logger.info('Stored connector credentials encrypted', { encrypted });
+      return { encrypted, error: null };
+    } catch (error) {
+      logger.error('Error encrypting stored credentials', error as Error);
+      return { encrypted: 0, error: error as Error };
+    }
+  }
+
   /**
    * Lists all connectors for a workspace, regardless of status.
    * 
@@ -0,0 +1,207 @@
+import { supabase } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import { TokenRefreshError } from '../utils/errors';
+import { CONNECTOR_CONFIG } from '../config/constants';
+import { BaseConnector, ConnectorCredentials } from '../connectors/base/BaseConnector';
+import { connectorRegistry, ConnectorInstanceKey } from '../connectors/base/ConnectorRegistry';
+import { connectorService } from './ConnectorService';
+import { emailNotificationService } from './notifications';
+
+/** A hydrated connector instance and the `connectors` row it was built from. */
+export interface ManagedConnection extends ConnectorInstanceKey {
+  connectorRecordId: string;
+}
+
+function expiresWithin(credentials: ConnectorCredentials, ms: number): boolean {
+  return credentials.expiresAt !== undefined && credentials.expiresAt.getTime() - Date.now() <= ms;
+}
+
+/**
+ * Keeps the OAuth tokens of hydrated connector instances fresh.
+ *
+ * Tokens are refreshed once they are within
+ * `CONNECTOR_CONFIG.TOKEN_REFRESH_THRESHOLD_MS` of expiry, whenever an
+ * instance is hydrated or acquired and whenever a connector finds its token
+ * expired mid-job. Rotated tokens are written back through ConnectorService.
+ *
+ * Refreshes of one connection are single-flighted within the process, and
+ * the stored tokens are re-read first so a token another worker already
+ * rotated is adopted instead of being refreshed again (which would fail for
+ * platforms that rotate refresh tokens). When the platform rejects the grant,
+ * the connection is marked expired, its instances are evicted and the
+ * workspace owner is asked to reconnect.
+ */
+export class TokenLifecycleManager {
+  private static instance: TokenLifecycleManager;
+  private connections: WeakMap<BaseConnector, ManagedConnection> = new WeakMap();
+  private refreshes: Map<string, Promise<ConnectorCredentials>> = new Map();
+
+  private constructor() {}
+
+  static getInstance(): TokenLifecycleManager {
+    if (!TokenLifecycleManager.instance) {
+      TokenLifecycleManager.instance = new TokenLifecycleManager();
+    }
+    return TokenLifecycleManager.instance;
+  }
+
+  /**
+   * Takes over token refreshes for a connector that is being hydrated and
+   * returns the credentials to connect it with, refreshed first if they are
+   * about to expire.
+   */
+  async prepare(
+    connector: BaseConnector,
+    connection: ManagedConnection,
+    credentials: ConnectorCredentials
+  ): Promise<ConnectorCredentials> {
+    this.connections.set(connector, connection);
+    connector.setTokenRefresher(async () => {
+      await this.refresh(connector);
+    });
+    connector.replaceCredentials(credentials);
+
+    await this.ensureFresh(connector);
+    return connector.getCredentials() ?? credentials;
+  }
+
+  /**
+   * Refreshes the connector's token if it expires within `thresholdMs`. A
+   * token that is still valid keeps being used when the refresh fails for any
+   * reason other than a revoked grant.
+   */
+  async ensureFresh(
+    connector: BaseConnector,
+    thresholdMs: number = CONNECTOR_CONFIG.TOKEN_REFRESH_THRESHOLD_MS
+  ): Promise<void> {
+    if (!connector.expiresWithin(thresholdMs)) return;
+
+    try {
+      await this.refresh(connector);
+    } catch (error) {
+      const revoked = error instanceof TokenRefreshError && error.revoked;
+      if (revoked || connector.expiresWithin(0)) throw error;
+
+      logger.warn('Token refresh failed, using the current token until it expires', {
+        platform: connector.getConfig().id,
+        workspaceId: connector.getWorkspaceId(),
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /** Refreshes the connector's token, joining a refresh of the same connection already in flight. */
+  async refresh(connector: BaseConnector): Promise<ConnectorCredentials> {
+    const connection = this.connections.get(connector);
+    if (!connection) {
+      await connector.refreshToken();
+      return connector.getCredentials()!;
+    }
+
+    let pending = this.refreshes.get(connection.connectorRecordId);
+    if (!pending) {
+      pending = this.runRefresh(connector, connection);
+      this.refreshes.set(connection.connectorRecordId, pending);
+      const settle = () => this.refreshes.delete(connection.connectorRecordId);
+      pending.then(settle, settle);
+    }
+
+    const credentials = await pending;
+    // Another instance of the same connection may have run the refresh.
+    if (connector.getCredentials() !== credentials) {
+      connector.replaceCredentials(credentials);
+    }
+    return credentials;
+  }
+
+  private async runRefresh(connector: BaseConnector, connection: ManagedConnection): Promise<ConnectorCredentials> {
+    const stored = await this.loadStoredCredentials(connection);
+    if (stored) {
+      connector.replaceCredentials(stored);
+      if (!expiresWithin(stored, CONNECTOR_CONFIG.TOKEN_REFRESH_THRESHOLD_MS)) {
+        return stored;
+      }
+    }
+
+    const usedRefreshToken = connector.getCredentials()?.refreshToken;
+
+    try {
+      await connector.refreshToken();
+    } catch (error) {
+      if (!(error instanceof TokenRefreshError && error.revoked)) throw error;
+
+      // A worker that refreshed in the meantime invalidated our refresh token.
+      const current = await this.loadStoredCredentials(connection);
+      if (current?.refreshToken && current.refreshToken !== usedRefreshToken) {
+        connector.replaceCredentials(current);
+        return current;
+      }
+
+      await this.expire(connector, connection, error);
+      throw error;
+    }
+
+    const refreshed = connector.getCredentials()!;
+    const { error } = await connectorService.updateConnectorTokens(
+      connection.connectorRecordId,
+      connection.workspaceId,
+      refreshed
+    );
+    if (error) {
+      // The instance keeps working; the next hydration refreshes again.
+      logger.error('Refreshed tokens were not stored', error, { connectorRecordId: connection.connectorRecordId });
+    }
+
+    logger.info('Connector token refreshed', { ...connection });
+    return refreshed;
+  }
+
+  private async loadStoredCredentials(connection: ManagedConnection): Promise<ConnectorCredentials | null> {
+    const { credentials, error } = await connectorService.getConnectorCredentials(
+      '',
+      connection.workspaceId,
+      connection.platform,
+      { platformUserId: connection.accountId }
+    );
+    if (error) {
+      logger.warn('Failed to re-read stored tokens', { ...connection, error: error.message });
+    }
+    return credentials;
+  }
+
+  private async expire(connector: BaseConnector, connection: ManagedConnection, error: TokenRefreshError): Promise<void> {
+    connector.markExpired(error.message);
+    await connectorRegistry.evict(connection);
+
+    const { expired } = await connectorService.markConnectorExpired(connection.connectorRecordId);
+    logger.warn('Connector grant revoked, marked expired', { ...connection, error: error.message });
+
+    // Only the worker that flipped the status notifies, so the owner hears once.
+    if (expired) {
+      await this.notifyOwner(connector, connection);
+    }
+  }
+
+  private async notifyOwner(connector: BaseConnector, connection: ManagedConnection): Promise<void> {
+    if (!supabase) return;
+
+    const { data: workspace, error } = await supabase
+      .from('workspaces')
+      .select('owner_id')
+      .eq('id', connection.workspaceId)
+      .maybeSingle();
+
+    if (error || !workspace) {
+      logger.warn('Workspace owner not found for expired connector', { ...connection });
+      return;
+    }
+
+    await emailNotificationService.sendConnectorExpiredNotification(
+      workspace.owner_id,
+      connector.getConfig().name,
+      connector.getCredentials()?.metadata?.accountName
+    );
+  }
+}
+
+export const tokenLifecycleManager = TokenLifecycleManager.getInstance();
@@ -168,7 +168,8 @@ class PostingTimeAnalyzer {
   }
 
   /**
-   * Record engagement by time for analysis
+   * Record engagement by time for analysis. One row is kept per post and
+   * whole hour since publishing; recording again within the hour updates it.
    */
   async recordEngagement(
     workspaceId: string,
@@ -188,7 +189,7 @@ class PostingTimeAnalyzer {
       const dayOfWeek = postedAt.getDay();
       const hourOfDay = postedAt.getHours();
       const engagementRate = this.calculateEngagementRate(metrics);
-      const hoursSincePublish = (Date.now() - postedAt.getTime()) / (1000 * 60 * 60);
+      const hoursSincePublish = Math.max(0, Math.floor((Date.now() - postedAt.getTime()) / (1000 * 60 * 60)));
 
       const engagementData: Database['public']['Tables']['engagement_by_time']['Insert'] = {
         workspace_id: workspaceId,
@@ -210,7 +211,7 @@ class PostingTimeAnalyzer {
 
       const { data, error } = await supabase
         .from('engagement_by_time')
-        .insert(engagementData)
+        .upsert(engagementData, { onConflict: 'post_id,hours_since_publish' })
         .select()
         .single();
 
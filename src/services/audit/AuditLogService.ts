@@ -27,7 +27,9 @@ export type AuditAction =
   | 'login'
   | 'logout'
   | 'settings_change'
-  | 'subscription_change';
+  | 'subscription_change'
+  | 'credentials_read'
+  | 'key_rotation';
 
 class AuditLogService {
   private static instance: AuditLogService;
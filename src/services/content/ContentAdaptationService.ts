@@ -7,6 +7,21 @@ export interface ContentData {
   hashtags?: string[];
   mentions?: string[];
   link?: string;
+  /** Where Instagram hashtags go; `first_comment` keeps them out of the caption. */
+  hashtagPlacement?: 'caption' | 'first_comment';
+  /** The attached video, when known; decides whether it goes out as a YouTube Short. */
+  video?: { width?: number | null; height?: number | null; duration?: number | null };
+  youtube?: YouTubeOptions;
+}
+
+export interface YouTubeOptions {
+  categoryId?: string;
+  madeForKids?: boolean;
+  privacyStatus?: 'public' | 'private' | 'unlisted';
+  /** Uploads the video private and lets YouTube publish it at this time. */
+  publishAt?: string;
+  playlistId?: string;
+  thumbnailUrl?: string;
 }
 
 export interface AdaptedContent {
@@ -52,6 +67,8 @@ export class ContentAdaptationService {
         return this.adaptForLinkedIn(content, limits, warnings);
       case 'pinterest':
         return this.adaptForPinterest(content, limits, warnings);
+      case 'facebook':
+        return this.adaptForFacebook(content, PLATFORM_LIMITS.facebook, warnings);
       default:
         return {
           platform,
@@ -86,6 +103,20 @@ export class ContentAdaptationService {
       warnings.push('Maximum 500 tags allowed on YouTube');
     }
 
+    // YouTube files vertical videos up to a minute long under Shorts when
+    // they are tagged #Shorts.
+    const { width, height, duration } = content.video ?? {};
+    const isShort = !!width && !!height && height > width && !!duration && duration <= limits.maxShortsDuration;
+    if (isShort && !/#shorts\b/i.test(`${title} ${description}`)) {
+      if (title.length + ' #Shorts'.length <= limits.maxTitleLength) {
+        title = `${title} #Shorts`;
+      } else if (description.length + '\n\n#Shorts'.length <= limits.maxDescriptionLength) {
+        description = `${description}\n\n#Shorts`;
+      }
+    }
+
+    const options = content.youtube ?? {};
+
     return {
       platform: 'youtube',
       content: description,
@@ -94,7 +125,13 @@ export class ContentAdaptationService {
         title,
         description,
         tags,
-        categoryId: '22'
+        categoryId: options.categoryId || '22',
+        madeForKids: options.madeForKids ?? false,
+        isShort,
+        ...(options.privacyStatus ? { privacyStatus: options.privacyStatus } : {}),
+        ...(options.publishAt ? { publishAt: options.publishAt } : {}),
+        ...(options.playlistId ? { playlistId: options.playlistId } : {}),
+        ...(options.thumbnailUrl ? { thumbnailUrl: options.thumbnailUrl } : {})
       },
       warnings: warnings.length > 0 ? warnings : undefined
     };
@@ -119,8 +156,10 @@ export class ContentAdaptationService {
       warnings.push(`Instagram allows max ${limits.maxHashtags} hashtags`);
     }
 
-    const fullCaption = hashtags.length > 0
-      ? `${caption}\n\n${hashtags.map(tag => `#${tag}`).join(' ')}`
+    const hashtagLine = hashtags.map(tag => `#${tag}`).join(' ');
+    const inFirstComment = content.hashtagPlacement === 'first_comment' && hashtags.length > 0;
+    const fullCaption = hashtags.length > 0 && !inFirstComment
+      ? `${caption}\n\n${hashtagLine}`
       : caption;
 
     return {
@@ -129,7 +168,8 @@ export class ContentAdaptationService {
       mediaUrls: content.mediaUrls || [],
       metadata: {
         caption: fullCaption,
-        mediaType: content.mediaUrls && content.mediaUrls.length > 1 ? 'CAROUSEL' : 'IMAGE'
+        mediaType: content.mediaUrls && content.mediaUrls.length > 1 ? 'CAROUSEL' : 'IMAGE',
+        ...(inFirstComment ? { firstComment: hashtagLine } : {})
       },
       warnings: warnings.length > 0 ? warnings : undefined,
       truncated
@@ -154,6 +194,7 @@ export class ContentAdaptationService {
       mediaUrls: content.mediaUrls || [],
       metadata: {
         title: caption.substring(0, 150),
+        postMode: 'direct',
         privacy: 'PUBLIC_TO_EVERYONE',
         disableComments: false,
         disableDuet: false,
@@ -163,18 +204,28 @@ export class ContentAdaptationService {
     };
   }
 
+  /**
+   * Text over the tweet limit becomes a thread: the first tweet is the post,
+   * the rest go in `metadata.thread` and are posted as replies to it.
+   */
   private adaptForTwitter(
     content: ContentData,
     limits: any,
     warnings: string[]
   ): AdaptedContent {
-    let tweet = content.body;
+    let tweets = this.splitIntoThread(content.body, limits.maxTweetLength);
     let truncated = false;
 
-    if (tweet.length > limits.maxTweetLength) {
-      tweet = tweet.substring(0, limits.maxTweetLength - 3) + '...';
+    if (tweets.length > limits.maxThreadLength) {
+      tweets = tweets.slice(0, limits.maxThreadLength);
+      const last = tweets[tweets.length - 1];
+      tweets[tweets.length - 1] = last.length > limits.maxTweetLength - 3
+        ? last.substring(0, limits.maxTweetLength - 3) + '...'
+        : last + '...';
       truncated = true;
-      warnings.push('Tweet truncated to fit 280 character limit');
+      warnings.push(`Thread truncated to ${limits.maxThreadLength} tweets`);
+    } else if (tweets.length > 1) {
+      warnings.push(`Posted as a thread of ${tweets.length} tweets`);
     }
 
     const mediaUrls = content.mediaUrls?.slice(0, limits.maxMediaItems) || [];
@@ -184,14 +235,39 @@ export class ContentAdaptationService {
 
     return {
       platform: 'twitter',
-      content: tweet,
+      content: tweets[0] ?? '',
       mediaUrls,
-      metadata: {},
+      metadata: tweets.length > 1 ? { thread: tweets.slice(1) } : {},
       warnings: warnings.length > 0 ? warnings : undefined,
       truncated
     };
   }
 
+  /** Splits text into tweets, preferring line and sentence breaks, then word breaks. */
+  private splitIntoThread(text: string, maxLength: number): string[] {
+    const tweets: string[] = [];
+    let rest = text.trim();
+
+    while (rest.length > maxLength) {
+      const head = rest.substring(0, maxLength + 1);
+      const sentenceEnd = Math.max(
+        head.lastIndexOf('\n'),
+        head.lastIndexOf('. '),
+        head.lastIndexOf('! '),
+        head.lastIndexOf('? ')
+      );
+
+      let cut = sentenceEnd > maxLength / 2 ? sentenceEnd + 1 : head.lastIndexOf(' ');
+      if (cut <= 0) cut = maxLength;
+
+      tweets.push(rest.substring(0, cut).trim());
+      rest = rest.substring(cut).trim();
+    }
+
+    if (rest) tweets.push(rest);
+    return tweets;
+  }
+
   private adaptForLinkedIn(
     content: ContentData,
     limits: any,
@@ -209,7 +285,8 @@ export class ContentAdaptationService {
       content: post,
       mediaUrls: content.mediaUrls || [],
       metadata: {
-        visibility: 'PUBLIC'
+        visibility: 'PUBLIC',
+        ...(content.title ? { title: content.title } : {})
       },
       warnings: warnings.length > 0 ? warnings : undefined
     };
@@ -220,8 +297,18 @@ export class ContentAdaptationService {
     limits: any,
     warnings: string[]
   ): AdaptedContent {
-    const title = content.title || content.body.substring(0, 100);
-    const description = content.body;
+    let title = content.title || content.body.substring(0, limits.maxTitleLength);
+    let description = content.body;
+
+    if (title.length > limits.maxTitleLength) {
+      title = title.substring(0, limits.maxTitleLength - 3) + '...';
+      warnings.push(`Title truncated to fit Pinterest limit (${limits.maxTitleLength} chars)`);
+    }
+
+    if (description.length > limits.maxDescriptionLength) {
+      description = description.substring(0, limits.maxDescriptionLength - 3) + '...';
+      warnings.push(`Description truncated to fit Pinterest limit (${limits.maxDescriptionLength} chars)`);
+    }
 
     return {
       platform: 'pinterest',
@@ -236,15 +323,39 @@ export class ContentAdaptationService {
     };
   }
 
+  private adaptForFacebook(
+    content: ContentData,
+    limits: typeof PLATFORM_LIMITS.facebook,
+    warnings: string[]
+  ): AdaptedContent {
+    let post = content.body;
+
+    if (post.length > limits.maxPostLength) {
+      post = post.substring(0, limits.maxPostLength - 3) + '...';
+      warnings.push('Post truncated to fit Facebook limit');
+    }
+
+    const mediaUrls = content.mediaUrls?.slice(0, limits.maxMediaItems) || [];
+    if (content.mediaUrls && content.mediaUrls.length > limits.maxMediaItems) {
+      warnings.push(`Facebook allows max ${limits.maxMediaItems} photos per post`);
+    }
+
+    return {
+      platform: 'facebook',
+      content: post,
+      mediaUrls,
+      metadata: content.link ? { link: content.link } : {},
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
   validateMedia(
     mediaUrl: string,
     platform: SupportedPlatform,
     mediaType: 'image' | 'video'
   ): { valid: boolean; error?: string } {
-    const limits = PLATFORM_LIMITS[platform];
-
     if (mediaType === 'video' && platform === 'instagram') {
-      if (limits.maxVideoDuration) {
+      if (PLATFORM_LIMITS.instagram.maxVideoDuration) {
         return {
           valid: true
         };
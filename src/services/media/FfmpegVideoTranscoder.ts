@@ -0,0 +1,182 @@
+import { spawn } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { logger } from '../../utils/logger';
+import { TranscodedVideo, VideoRenditionSpec, VideoTranscoder } from './VideoTranscoder';
+
+interface ProbeResult {
+  width: number;
+  height: number;
+  duration: number;
+  hasAudio: boolean;
+}
+
+const STDERR_TAIL_LENGTH = 2000;
+
+/** Rounds to an even number, which yuv420p requires for both edges. */
+function even(value: number): number {
+  return Math.max(2, Math.round(value / 2) * 2);
+}
+
+/**
+ * Node-only VideoTranscoder that shells out to the `ffmpeg` and `ffprobe`
+ * binaries (software H.264 via libx264, no GPU required). Never import this
+ * from browser code.
+ *
+ * @example
+ * mediaProcessingService.useVideoTranscoder(new FfmpegVideoTranscoder());
+ */
+export class FfmpegVideoTranscoder implements VideoTranscoder {
+  constructor(
+    private ffmpegPath: string = process.env.FFMPEG_PATH || 'ffmpeg',
+    private ffprobePath: string = process.env.FFPROBE_PATH || 'ffprobe'
+  ) {}
+
+  async transcode(source: Blob, spec: VideoRenditionSpec, signal?: AbortSignal): Promise<TranscodedVideo> {
+    const workDir = await mkdtemp(join(tmpdir(), 'transcode-'));
+    const inputPath = join(workDir, 'input');
+    const outputPath = join(workDir, 'output.mp4');
+    const posterPath = join(workDir, 'poster.jpg');
+
+    try {
+      await writeFile(inputPath, Buffer.from(await source.arrayBuffer()));
+
+      const probe = await this.probe(inputPath, signal);
+      const optimizations: string[] = [];
+
+      const duration = spec.maxDuration ? Math.min(probe.duration, spec.maxDuration) : probe.duration;
+      if (duration < probe.duration) {
+        optimizations.push(`Video trimmed to ${spec.maxDuration}s duration limit`);
+      }
+
+      const dimensions = this.outputDimensions(probe, spec);
+      const sourceRatio = probe.width / probe.height;
+      if (Math.abs(sourceRatio - spec.aspectRatio) / spec.aspectRatio > 0.01) {
+        optimizations.push(
+          spec.fit === 'crop'
+            ? `Video cropped to ${dimensions.width}x${dimensions.height}`
+            : `Video letterboxed to ${dimensions.width}x${dimensions.height}`
+        );
+      }
+
+      const args = ['-y', '-i', inputPath];
+      if (duration < probe.duration) {
+        args.push('-t', duration.toFixed(3));
+      }
+      args.push(
+        '-vf', this.videoFilter(dimensions, spec.fit),
+        '-c:v', 'libx264',
+        '-preset', 'medium',
+        '-profile:v', 'high',
+        '-pix_fmt', 'yuv420p',
+        '-crf', '23',
+        '-maxrate', `${spec.maxVideoBitrateKbps}k`,
+        '-bufsize', `${spec.maxVideoBitrateKbps * 2}k`
+      );
+      if (probe.hasAudio) {
+        args.push('-c:a', 'aac', '-b:a', `${spec.maxAudioBitrateKbps}k`, '-ac', '2', '-ar', '48000');
+      } else {
+        args.push('-an');
+      }
+      args.push('-map_metadata', '-1', '-movflags', '+faststart', outputPath);
+
+      await this.run(this.ffmpegPath, args, signal);
+      optimizations.push(
+        `Video transcoded to H.264/AAC MP4 capped at ${spec.maxVideoBitrateKbps}kbps`
+      );
+
+      await this.run(
+        this.ffmpegPath,
+        ['-y', '-ss', Math.min(1, duration / 2).toFixed(3), '-i', outputPath, '-frames:v', '1', '-q:v', '2', posterPath],
+        signal
+      );
+      optimizations.push('Poster frame generated');
+
+      return {
+        blob: new Blob([await readFile(outputPath)], { type: 'video/mp4' }),
+        format: 'video/mp4',
+        dimensions,
+        duration,
+        poster: new Blob([await readFile(posterPath)], { type: 'image/jpeg' }),
+        optimizations
+      };
+    } finally {
+      await rm(workDir, { recursive: true, force: true }).catch(error =>
+        logger.warn('Failed to remove transcoding directory', { workDir, error: (error as Error).message })
+      );
+    }
+  }
+
+  private outputDimensions(probe: ProbeResult, spec: VideoRenditionSpec): { width: number; height: number } {
+    // Start from the largest frame of the target ratio that the source can
+    // fill (crop) or contain (letterbox), then cap the long edge.
+    const sourceRatio = probe.width / probe.height;
+    const fillsWidth = spec.fit === 'crop' ? sourceRatio <= spec.aspectRatio : sourceRatio >= spec.aspectRatio;
+
+    let width = fillsWidth ? probe.width : probe.height * spec.aspectRatio;
+    let height = fillsWidth ? probe.width / spec.aspectRatio : probe.height;
+
+    const scale = Math.min(1, spec.maxDimension / Math.max(width, height));
+    width *= scale;
+    height *= scale;
+
+    return { width: even(width), height: even(height) };
+  }
+
+  private videoFilter(dimensions: { width: number; height: number }, fit: 'crop' | 'letterbox'): string {
+    const { width, height } = dimensions;
+    if (fit === 'crop') {
+      return `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},setsar=1`;
+    }
+    return `scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+      `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black,setsar=1`;
+  }
+
+  private async probe(inputPath: string, signal?: AbortSignal): Promise<ProbeResult> {
+    const output = await this.run(
+      this.ffprobePath,
+      ['-v', 'error', '-show_entries', 'stream=codec_type,width,height:format=duration', '-of', 'json', inputPath],
+      signal
+    );
+
+    const data = JSON.parse(output);
+    const streams: Array<{ codec_type: string; width?: number; height?: number }> = data.streams || [];
+    const video = streams.find(stream => stream.codec_type === 'video');
+
+    if (!video?.width || !video?.height) {
+      throw new Error('Source has no video stream');
+    }
+
+    return {
+      width: video.width,
+      height: video.height,
+      duration: parseFloat(data.format?.duration || '0'),
+      hasAudio: streams.some(stream => stream.codec_type === 'audio')
+    };
+  }
+
+  private run(command: string, args: string[], signal?: AbortSignal): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, args, { signal, stdio: ['ignore', 'pipe', 'pipe'] });
+      let stdout = '';
+      let stderr = '';
+
+      child.stdout.on('data', chunk => {
+        stdout += chunk;
+      });
+      child.stderr.on('data', chunk => {
+        stderr = (stderr + chunk).slice(-STDERR_TAIL_LENGTH);
+      });
+
+      child.on('error', reject);
+      child.on('close', code => {
+        if (code === 0) {
+          resolve(stdout);
+        } else {
+          reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+        }
+      });
+    });
+  }
+}
@@ -1,4 +1,5 @@
 import { MIME_TYPES, PLATFORM_LIMITS } from '../../config/constants';
+import { VideoTranscoder } from './VideoTranscoder';
 
 export interface MediaFile {
   file: File;
@@ -16,12 +17,44 @@ export interface ProcessedMedia {
     format: string;
     size: number;
     dimensions?: { width: number; height: number };
+    /** Re-encoded file; absent when the original was passed through. */
+    blob?: Blob;
+    /** Still frame for transcoded video. */
+    poster?: Blob;
+    duration?: number;
   };
   optimizations: string[];
 }
 
+interface ImageLimits {
+  maxImageSize?: number;
+  maxImageDimension?: number;
+  imageAspectRatios?: number[];
+  imageFormat?: string;
+}
+
+interface VideoLimits {
+  maxVideoSize?: number;
+  maxVideoDuration?: number;
+  videoAspectRatio?: number;
+  videoFit?: 'crop' | 'letterbox';
+  maxVideoDimension?: number;
+  maxVideoBitrateKbps?: number;
+  maxAudioBitrateKbps?: number;
+}
+
+type ImageCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+const DEFAULT_MAX_IMAGE_DIMENSION = 1920;
+const ENCODE_QUALITIES = [0.92, 0.85, 0.75, 0.65, 0.5, 0.4];
+const DOWNSCALE_STEP = 0.85;
+const MIN_DOWNSCALED_DIMENSION = 320;
+/** Relative difference below which an image already matches a ratio. */
+const ASPECT_RATIO_TOLERANCE = 0.01;
+
 export class MediaProcessingService {
   private static instance: MediaProcessingService;
+  private videoTranscoder?: VideoTranscoder;
 
   private constructor() {}
 
@@ -32,12 +65,31 @@ export class MediaProcessingService {
     return MediaProcessingService.instance;
   }
 
+  /**
+   * Enables video transcoding. Without a transcoder (e.g. in the browser)
+   * videos are only checked against platform limits.
+   */
+  useVideoTranscoder(transcoder: VideoTranscoder): void {
+    this.videoTranscoder = transcoder;
+  }
+
+  /**
+   * Whether images can be re-encoded in this process. That takes
+   * `createImageBitmap` and a canvas, which browsers have and the Node
+   * worker does not; elsewhere images are passed through unchanged.
+   */
+  canProcessImages(): boolean {
+    return typeof createImageBitmap !== 'undefined'
+      && (typeof OffscreenCanvas !== 'undefined' || typeof document !== 'undefined');
+  }
+
   async processMediaForPlatform(
     media: MediaFile,
-    platform: string
+    platform: string,
+    options: { signal?: AbortSignal } = {}
   ): Promise<ProcessedMedia> {
     const optimizations: string[] = [];
-    const limits = PLATFORM_LIMITS[platform as keyof typeof PLATFORM_LIMITS];
+    const limits: ImageLimits & VideoLimits = PLATFORM_LIMITS[platform as keyof typeof PLATFORM_LIMITS];
 
     if (!limits) {
       throw new Error(`Unknown platform: ${platform}`);
@@ -46,55 +98,223 @@ export class MediaProcessingService {
     if (media.type === 'image') {
       return this.processImage(media, limits, optimizations);
     } else if (media.type === 'video') {
-      return this.processVideo(media, limits, optimizations);
+      return this.processVideo(media, limits, optimizations, options.signal);
     }
 
     throw new Error(`Unsupported media type: ${media.type}`);
   }
 
+  /**
+   * Center-crops to the allowed aspect ratio closest to the original, scales
+   * down to the platform's maximum dimension and re-encodes at decreasing
+   * quality (then smaller sizes) until the result fits `maxImageSize`.
+   * Drawing through a canvas drops EXIF/GPS metadata while
+   * `createImageBitmap` still honours the EXIF orientation. Without a canvas
+   * (see `canProcessImages`) the original is passed through.
+   */
   private async processImage(
     media: MediaFile,
-    limits: any,
+    limits: ImageLimits,
     optimizations: string[]
   ): Promise<ProcessedMedia> {
-    const processedUrl = media.url || URL.createObjectURL(media.file);
-    let processedSize = media.size;
-    let dimensions = media.dimensions;
+    if (media.file.type === 'image/gif') {
+      if (limits.maxImageSize && media.size > limits.maxImageSize) {
+        throw new Error(`GIF exceeds ${limits.maxImageSize / (1024 * 1024)}MB limit and cannot be re-encoded`);
+      }
+      return this.passThroughImage(media, ['Animated GIF passed through unchanged']);
+    }
 
-    if (limits.maxImageSize && media.size > limits.maxImageSize) {
-      optimizations.push(`Image compressed to fit ${limits.maxImageSize / (1024 * 1024)}MB limit`);
-      processedSize = limits.maxImageSize;
+    if (!this.canProcessImages()) {
+      if (limits.maxImageSize && media.size > limits.maxImageSize) {
+        optimizations.push(`Image needs compression to fit ${limits.maxImageSize / (1024 * 1024)}MB limit`);
+      }
+      optimizations.push('Image passed through unchanged: no canvas available to re-encode it');
+      return this.passThroughImage(media, optimizations);
     }
 
-    if (dimensions) {
-      const maxDimension = 1920;
-      if (dimensions.width > maxDimension || dimensions.height > maxDimension) {
-        const scale = maxDimension / Math.max(dimensions.width, dimensions.height);
+    const bitmap = await createImageBitmap(media.file);
+
+    try {
+      const crop = this.computeCrop(bitmap.width, bitmap.height, limits.imageAspectRatios);
+      if (crop.width !== bitmap.width || crop.height !== bitmap.height) {
+        optimizations.push(`Image cropped to ${this.formatAspectRatio(crop.width / crop.height)} aspect ratio`);
+      }
+
+      const maxDimension = limits.maxImageDimension ?? DEFAULT_MAX_IMAGE_DIMENSION;
+      let scale = Math.min(1, maxDimension / Math.max(crop.width, crop.height));
+      const format = limits.imageFormat ?? (media.file.type === 'image/webp' ? 'image/webp' : 'image/jpeg');
+      const budget = limits.maxImageSize ?? Infinity;
+
+      let blob: Blob | null = null;
+      let dimensions = { width: crop.width, height: crop.height };
+      let quality = ENCODE_QUALITIES[0];
+
+      while (!blob || blob.size > budget) {
         dimensions = {
-          width: Math.round(dimensions.width * scale),
-          height: Math.round(dimensions.height * scale)
+          width: Math.max(1, Math.round(crop.width * scale)),
+          height: Math.max(1, Math.round(crop.height * scale))
         };
+        const canvas = this.drawImage(bitmap, crop, dimensions, format);
+
+        for (quality of ENCODE_QUALITIES) {
+          blob = await this.encodeCanvas(canvas, format, quality);
+          if (blob.size <= budget) break;
+        }
+
+        if (blob!.size <= budget) break;
+        if (Math.max(dimensions.width, dimensions.height) * DOWNSCALE_STEP < MIN_DOWNSCALED_DIMENSION) {
+          throw new Error(`Image cannot be compressed below ${budget / (1024 * 1024)}MB`);
+        }
+        scale *= DOWNSCALE_STEP;
+      }
+
+      if (dimensions.width !== crop.width || dimensions.height !== crop.height) {
         optimizations.push(`Image resized to ${dimensions.width}x${dimensions.height}`);
       }
+      optimizations.push(`Image re-encoded as ${format.replace('image/', '').toUpperCase()} at quality ${Math.round(quality * 100)}`);
+      optimizations.push('Image metadata (EXIF/GPS) stripped');
+
+      return {
+        original: media,
+        processed: {
+          url: URL.createObjectURL(blob!),
+          format,
+          size: blob!.size,
+          dimensions,
+          blob: blob!
+        },
+        optimizations
+      };
+    } finally {
+      bitmap.close();
     }
+  }
 
+  private passThroughImage(media: MediaFile, optimizations: string[]): ProcessedMedia {
     return {
       original: media,
       processed: {
-        url: processedUrl,
+        url: media.url || URL.createObjectURL(media.file),
         format: media.file.type,
-        size: processedSize,
-        dimensions
+        size: media.size,
+        dimensions: media.dimensions
       },
       optimizations
     };
   }
 
+  private computeCrop(
+    width: number,
+    height: number,
+    aspectRatios?: number[]
+  ): { x: number; y: number; width: number; height: number } {
+    const full = { x: 0, y: 0, width, height };
+    if (!aspectRatios || aspectRatios.length === 0) {
+      return full;
+    }
+
+    const ratio = width / height;
+    const target = aspectRatios.reduce((closest, candidate) =>
+      Math.abs(Math.log(candidate / ratio)) < Math.abs(Math.log(closest / ratio)) ? candidate : closest
+    );
+
+    if (Math.abs(target - ratio) / target <= ASPECT_RATIO_TOLERANCE) {
+      return full;
+    }
+
+    if (ratio > target) {
+      const croppedWidth = Math.round(height * target);
+      return { x: Math.round((width - croppedWidth) / 2), y: 0, width: croppedWidth, height };
+    }
+
+    const croppedHeight = Math.round(width / target);
+    return { x: 0, y: Math.round((height - croppedHeight) / 2), width, height: croppedHeight };
+  }
+
+  private formatAspectRatio(ratio: number): string {
+    const known: Record<string, string> = { '1.00': '1:1', '0.80': '4:5', '0.56': '9:16', '1.91': '1.91:1' };
+    return known[ratio.toFixed(2)] ?? `${ratio.toFixed(2)}:1`;
+  }
+
+  private drawImage(
+    bitmap: ImageBitmap,
+    crop: { x: number; y: number; width: number; height: number },
+    size: { width: number; height: number },
+    format: string
+  ): ImageCanvas {
+    const canvas: ImageCanvas = typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(size.width, size.height)
+      : Object.assign(document.createElement('canvas'), size);
+    const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+
+    if (!ctx) {
+      throw new Error('Failed to acquire a 2D canvas context');
+    }
+
+    if (format === 'image/jpeg') {
+      // JPEG has no alpha channel; flatten transparent areas onto white.
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, size.width, size.height);
+    }
+
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, crop.x, crop.y, crop.width, crop.height, 0, 0, size.width, size.height);
+    return canvas;
+  }
+
+  private async encodeCanvas(canvas: ImageCanvas, format: string, quality: number): Promise<Blob> {
+    if ('convertToBlob' in canvas) {
+      return canvas.convertToBlob({ type: format, quality });
+    }
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(
+        blob => (blob ? resolve(blob) : reject(new Error(`Failed to encode image as ${format}`))),
+        format,
+        quality
+      );
+    });
+  }
+
   private async processVideo(
     media: MediaFile,
-    limits: any,
-    optimizations: string[]
+    limits: VideoLimits,
+    optimizations: string[],
+    signal?: AbortSignal
   ): Promise<ProcessedMedia> {
+    if (this.videoTranscoder && limits.videoAspectRatio) {
+      const transcoded = await this.videoTranscoder.transcode(
+        media.file,
+        {
+          aspectRatio: limits.videoAspectRatio,
+          fit: limits.videoFit ?? 'letterbox',
+          maxDimension: limits.maxVideoDimension ?? 1920,
+          maxVideoBitrateKbps: limits.maxVideoBitrateKbps ?? 8000,
+          maxAudioBitrateKbps: limits.maxAudioBitrateKbps ?? 128,
+          maxDuration: limits.maxVideoDuration
+        },
+        signal
+      );
+
+      if (limits.maxVideoSize && transcoded.blob.size > limits.maxVideoSize) {
+        throw new Error(`Transcoded video still exceeds ${limits.maxVideoSize / (1024 * 1024)}MB limit`);
+      }
+
+      return {
+        original: media,
+        processed: {
+          url: URL.createObjectURL(transcoded.blob),
+          format: transcoded.format,
+          size: transcoded.blob.size,
+          dimensions: transcoded.dimensions,
+          blob: transcoded.blob,
+          poster: transcoded.poster,
+          duration: transcoded.duration
+        },
+        optimizations: [...optimizations, ...transcoded.optimizations]
+      };
+    }
+
     const processedUrl = media.url || URL.createObjectURL(media.file);
     const processedSize = media.size;
     const dimensions = media.dimensions;
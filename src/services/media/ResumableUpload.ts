@@ -0,0 +1,301 @@
+import { CONNECTOR_CONFIG } from '../../config/constants';
+import { logger } from '../../utils/logger';
+
+export interface UploadProgress {
+  bytesUploaded: number;
+  bytesTotal: number;
+  percentage: number;
+}
+
+export type ResumableUploadState = 'idle' | 'uploading' | 'paused' | 'completed' | 'failed' | 'aborted';
+
+export interface ResumableUploadTarget {
+  /** tus creation endpoint, e.g. `<supabase url>/storage/v1/upload/resumable`. */
+  endpoint: string;
+  bucket: string;
+  objectName: string;
+  /** Resolves auth headers per request so long uploads survive token refreshes. */
+  getHeaders: () => Promise<Record<string, string>>;
+}
+
+export interface ResumableUploadOptions {
+  /** Supabase Storage requires exactly 6MB chunks. */
+  chunkSize?: number;
+  maxChunkRetries?: number;
+  /** Key under which the upload URL is remembered to resume after a reload. */
+  fingerprint?: string;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export const RESUMABLE_CHUNK_SIZE = 6 * 1024 * 1024;
+
+const TUS_VERSION = '1.0.0';
+const STORAGE_KEY_PREFIX = 'resumable-upload:';
+
+class UploadPausedError extends Error {
+  constructor() {
+    super('Upload paused');
+    this.name = 'UploadPausedError';
+  }
+}
+
+class UploadHttpError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'UploadHttpError';
+  }
+}
+
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(unescape(encodeURIComponent(value)))}`)
+    .join(',');
+}
+
+/**
+ * Client for the tus 1.0 resumable upload protocol as served by Supabase
+ * Storage. The file is sent in fixed-size PATCH requests; after each one the
+ * server-reported offset must match the bytes sent, otherwise the offset is
+ * re-read with HEAD and the chunk is retried. The server reassembles chunks
+ * and only exposes the object once the final offset equals the file size.
+ *
+ * `start()` resolves with `'completed'` or `'paused'`; calling it again after
+ * a pause (or after a page reload, via `fingerprint`) continues from the
+ * server's offset.
+ */
+export class ResumableUpload {
+  private state: ResumableUploadState = 'idle';
+  private uploadUrl: string | null = null;
+  private objectName: string;
+  private offset = 0;
+  private controller: AbortController | null = null;
+  private readonly chunkSize: number;
+  private readonly maxChunkRetries: number;
+
+  constructor(
+    private file: Blob,
+    private target: ResumableUploadTarget,
+    private options: ResumableUploadOptions = {}
+  ) {
+    this.chunkSize = options.chunkSize ?? RESUMABLE_CHUNK_SIZE;
+    this.maxChunkRetries = options.maxChunkRetries ?? CONNECTOR_CONFIG.MAX_RETRY_ATTEMPTS;
+    this.objectName = target.objectName;
+
+    const stored = this.loadStoredUpload();
+    if (stored) {
+      this.uploadUrl = stored.uploadUrl;
+      this.objectName = stored.objectName;
+    }
+  }
+
+  /** Storage path; differs from the target's when resuming a stored upload. */
+  getObjectName(): string {
+    return this.objectName;
+  }
+
+  getState(): ResumableUploadState {
+    return this.state;
+  }
+
+  getProgress(): UploadProgress {
+    return {
+      bytesUploaded: this.offset,
+      bytesTotal: this.file.size,
+      percentage: this.file.size === 0 ? 100 : Math.round((this.offset / this.file.size) * 100)
+    };
+  }
+
+  async start(): Promise<'completed' | 'paused'> {
+    if (this.state === 'uploading') {
+      throw new Error('Upload already in progress');
+    }
+    if (this.state === 'completed' || this.state === 'aborted') {
+      throw new Error(`Upload already ${this.state}`);
+    }
+
+    this.state = 'uploading';
+    this.controller = new AbortController();
+
+    try {
+      if (this.uploadUrl) {
+        try {
+          this.offset = await this.fetchOffset();
+        } catch (error) {
+          if (!(error instanceof UploadHttpError)) throw error;
+          // Expired or unknown upload; start over.
+          this.uploadUrl = null;
+          this.objectName = this.target.objectName;
+          this.offset = 0;
+        }
+      }
+
+      if (!this.uploadUrl) {
+        this.uploadUrl = await this.create();
+        this.storeUpload();
+      }
+
+      this.emitProgress();
+
+      while (this.offset < this.file.size) {
+        if (this.controller.signal.aborted) throw new UploadPausedError();
+        await this.sendChunkWithRetry();
+        this.emitProgress();
+      }
+
+      this.state = 'completed';
+      this.clearStoredUpload();
+      return 'completed';
+    } catch (error) {
+      if (error instanceof UploadPausedError || this.controller.signal.aborted) {
+        if (this.state === 'uploading') this.state = 'paused';
+        return 'paused';
+      }
+      this.state = 'failed';
+      throw error;
+    } finally {
+      this.controller = null;
+    }
+  }
+
+  /** Stops after aborting the in-flight chunk; `start()` resumes. */
+  pause(): void {
+    if (this.state !== 'uploading') return;
+    this.state = 'paused';
+    this.controller?.abort();
+  }
+
+  /** Cancels the upload and asks the server to discard received chunks. */
+  async abort(): Promise<void> {
+    const wasUploading = this.state === 'uploading';
+    this.state = 'aborted';
+    if (wasUploading) this.controller?.abort();
+
+    if (this.uploadUrl) {
+      try {
+        await fetch(this.uploadUrl, {
+          method: 'DELETE',
+          headers: { ...(await this.target.getHeaders()), 'Tus-Resumable': TUS_VERSION }
+        });
+      } catch (error) {
+        logger.warn('Failed to terminate resumable upload', { error: (error as Error).message });
+      }
+    }
+    this.clearStoredUpload();
+  }
+
+  private async create(): Promise<string> {
+    const response = await fetch(this.target.endpoint, {
+      method: 'POST',
+      signal: this.controller!.signal,
+      headers: {
+        ...(await this.target.getHeaders()),
+        'Tus-Resumable': TUS_VERSION,
+        'Upload-Length': String(this.file.size),
+        'Upload-Metadata': encodeMetadata({
+          bucketName: this.target.bucket,
+          objectName: this.objectName,
+          contentType: this.file.type || 'application/octet-stream',
+          cacheControl: '3600'
+        }),
+        'x-upsert': 'false'
+      }
+    });
+
+    const location = response.headers.get('Location');
+    if (response.status !== 201 || !location) {
+      throw new UploadHttpError(`Failed to create resumable upload: ${response.status}`, response.status);
+    }
+
+    return new URL(location, this.target.endpoint).toString();
+  }
+
+  private async fetchOffset(): Promise<number> {
+    const response = await fetch(this.uploadUrl!, {
+      method: 'HEAD',
+      signal: this.controller!.signal,
+      headers: { ...(await this.target.getHeaders()), 'Tus-Resumable': TUS_VERSION }
+    });
+
+    const header = response.headers.get('Upload-Offset');
+    const offset = Number(header);
+    if (!response.ok || header === null || !Number.isFinite(offset)) {
+      throw new UploadHttpError(`Failed to read upload offset: ${response.status}`, response.status);
+    }
+    return offset;
+  }
+
+  private async sendChunkWithRetry(): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.sendChunk();
+        return;
+      } catch (error) {
+        if (this.controller!.signal.aborted) throw new UploadPausedError();
+
+        const retryable = !(error instanceof UploadHttpError) || error.status >= 500 || error.status === 409;
+        if (!retryable || attempt >= this.maxChunkRetries) throw error;
+
+        logger.warn('Retrying upload chunk', { offset: this.offset, attempt: attempt + 1, error: (error as Error).message });
+        await new Promise(resolve => setTimeout(resolve, CONNECTOR_CONFIG.RETRY_BACKOFF_MS * Math.pow(2, attempt)));
+        if (this.controller!.signal.aborted) throw new UploadPausedError();
+
+        // The server may have stored part of the failed chunk.
+        this.offset = await this.fetchOffset();
+      }
+    }
+  }
+
+  private async sendChunk(): Promise<void> {
+    const chunk = this.file.slice(this.offset, Math.min(this.offset + this.chunkSize, this.file.size));
+
+    const response = await fetch(this.uploadUrl!, {
+      method: 'PATCH',
+      signal: this.controller!.signal,
+      headers: {
+        ...(await this.target.getHeaders()),
+        'Tus-Resumable': TUS_VERSION,
+        'Upload-Offset': String(this.offset),
+        'Content-Type': 'application/offset+octet-stream'
+      },
+      body: chunk
+    });
+
+    if (response.status !== 204) {
+      throw new UploadHttpError(`Chunk upload failed: ${response.status}`, response.status);
+    }
+
+    const serverOffset = Number(response.headers.get('Upload-Offset'));
+    const expected = this.offset + chunk.size;
+    if (serverOffset !== expected) {
+      throw new UploadHttpError(`Chunk verification failed: server at ${serverOffset}, expected ${expected}`, 409);
+    }
+
+    this.offset = serverOffset;
+  }
+
+  private emitProgress(): void {
+    this.options.onProgress?.(this.getProgress());
+  }
+
+  private loadStoredUpload(): { uploadUrl: string; objectName: string } | null {
+    if (!this.options.fingerprint || typeof localStorage === 'undefined') return null;
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY_PREFIX + this.options.fingerprint) || 'null');
+    } catch {
+      return null;
+    }
+  }
+
+  private storeUpload(): void {
+    if (!this.options.fingerprint || typeof localStorage === 'undefined' || !this.uploadUrl) return;
+    localStorage.setItem(
+      STORAGE_KEY_PREFIX + this.options.fingerprint,
+      JSON.stringify({ uploadUrl: this.uploadUrl, objectName: this.objectName })
+    );
+  }
+
+  private clearStoredUpload(): void {
+    if (!this.options.fingerprint || typeof localStorage === 'undefined') return;
+    localStorage.removeItem(STORAGE_KEY_PREFIX + this.options.fingerprint);
+  }
+}
@@ -1,20 +1,61 @@
 import { supabase } from '../../lib/supabase';
 import { logger } from '../../utils/logger';
+import { config } from '../../config';
+import { sha256Hex } from '../../utils/hash';
+import { RESUMABLE_CHUNK_SIZE, ResumableUpload, UploadProgress } from './ResumableUpload';
 
 export interface UploadOptions {
   workspaceId: string;
   userId: string;
   folder?: string;
   makePublic?: boolean;
+  /** Links the new row to the `media` row it was derived from. */
+  sourceMediaId?: string;
+  /** Kind of derived file, e.g. `instagram` or `instagram_poster`. */
+  rendition?: string;
+  dimensions?: { width: number; height: number };
+  duration?: number;
+  onProgress?: (progress: UploadProgress) => void;
 }
 
 export interface UploadResult {
   success: boolean;
   url?: string;
   path?: string;
+  mediaId?: string;
   error?: string;
+  /** Set when a resumable upload was paused before completing. */
+  paused?: boolean;
+  /** Set when identical bytes were already stored and nothing was uploaded. */
+  deduplicated?: boolean;
 }
 
+export interface DeleteFileResult {
+  success: boolean;
+  error?: string;
+  /** Set when content still references the file, so the object was kept. */
+  retained?: boolean;
+}
+
+interface StoredMedia {
+  id: string;
+  storage_path: string;
+  url: string;
+  deleted_at: string | null;
+}
+
+export interface ResumableFileUpload {
+  /** Starts or resumes; resolves once the upload completes or is paused. */
+  start(): Promise<UploadResult>;
+  pause(): void;
+  abort(): Promise<void>;
+  getProgress(): UploadProgress;
+}
+
+/** Files above this size are uploaded in resumable chunks. */
+export const RESUMABLE_UPLOAD_THRESHOLD = RESUMABLE_CHUNK_SIZE;
+const DEFAULT_UPLOAD_CONCURRENCY = 3;
+
 export class StorageService {
   private static instance: StorageService;
   private readonly BUCKET_NAME = 'media';
@@ -28,6 +69,10 @@ export class StorageService {
     return StorageService.instance;
   }
 
+  /**
+   * Uploads `file` unless the workspace already stores the same bytes, in
+   * which case the existing `media` row is returned with `deduplicated` set.
+   */
   async uploadFile(
     file: File,
     options: UploadOptions
@@ -39,13 +84,19 @@ export class StorageService {
       };
     }
 
+    if (file.size > RESUMABLE_UPLOAD_THRESHOLD) {
+      return this.createResumableUpload(file, options).start();
+    }
+
     try {
-      const timestamp = Date.now();
-      const randomString = Math.random().toString(36).substring(2, 15);
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${timestamp}_${randomString}.${fileExt}`;
-      const folder = options.folder || 'uploads';
-      const filePath = `${options.workspaceId}/${folder}/${fileName}`;
+      const contentHash = await sha256Hex(file);
+      const existing = await this.findMediaByHash(options.workspaceId, contentHash);
+      if (existing) {
+        return this.reuseMedia(existing, file, options);
+      }
+
+      const filePath = this.buildPath(file, options);
+      options.onProgress?.({ bytesUploaded: 0, bytesTotal: file.size, percentage: 0 });
 
       const { error } = await supabase.storage
         .from(this.BUCKET_NAME)
@@ -62,19 +113,8 @@ export class StorageService {
         };
       }
 
-      const { data: urlData } = supabase.storage
-        .from(this.BUCKET_NAME)
-        .getPublicUrl(filePath);
-
-      await this.saveMediaRecord(file, filePath, urlData.publicUrl, options);
-
-      logger.info('File uploaded successfully', { path: filePath });
-
-      return {
-        success: true,
-        url: urlData.publicUrl,
-        path: filePath
-      };
+      options.onProgress?.({ bytesUploaded: file.size, bytesTotal: file.size, percentage: 100 });
+      return this.finalizeUpload(file, filePath, options, contentHash);
     } catch (error) {
       logger.error('Upload error', error as Error);
       return {
@@ -84,16 +124,124 @@ export class StorageService {
     }
   }
 
+  /**
+   * Uploads `file` over the tus protocol in 6MB chunks, retrying failed
+   * chunks and resuming from the server's offset after a pause or reload.
+   * The `media` row is only written once every chunk has been acknowledged.
+   * The file is hashed before the first chunk is sent, so a duplicate is
+   * detected without transferring it.
+   */
+  createResumableUpload(file: File, options: UploadOptions): ResumableFileUpload {
+    const upload = new ResumableUpload(
+      file,
+      {
+        endpoint: `${config.get('VITE_SUPABASE_URL')}/storage/v1/upload/resumable`,
+        bucket: this.BUCKET_NAME,
+        objectName: this.buildPath(file, options),
+        getHeaders: () => this.getUploadHeaders()
+      },
+      {
+        fingerprint: `${options.workspaceId}:${options.folder || 'uploads'}:${file.name}:${file.size}:${file.lastModified}`,
+        onProgress: options.onProgress
+      }
+    );
+
+    let contentHash: string | null = null;
+
+    return {
+      start: async () => {
+        if (!supabase) {
+          return { success: false, error: 'Supabase not configured' };
+        }
+
+        try {
+          if (!contentHash) {
+            contentHash = await sha256Hex(file);
+            const existing = await this.findMediaByHash(options.workspaceId, contentHash);
+            if (existing) {
+              // Discards chunks left over from an earlier session.
+              await upload.abort();
+              return this.reuseMedia(existing, file, options);
+            }
+          }
+
+          const outcome = await upload.start();
+          if (outcome === 'paused') {
+            return { success: false, paused: true, error: 'Upload paused' };
+          }
+          return this.finalizeUpload(file, upload.getObjectName(), options, contentHash);
+        } catch (error) {
+          logger.error('Resumable upload failed', error as Error);
+          return { success: false, error: (error as Error).message };
+        }
+      },
+      pause: () => upload.pause(),
+      abort: () => upload.abort(),
+      getProgress: () => upload.getProgress()
+    };
+  }
+
+  private buildPath(file: File, options: UploadOptions): string {
+    const timestamp = Date.now();
+    const randomString = Math.random().toString(36).substring(2, 15);
+    const fileExt = file.name.split('.').pop();
+    const fileName = `${timestamp}_${randomString}.${fileExt}`;
+    const folder = options.folder || 'uploads';
+    return `${options.workspaceId}/${folder}/${fileName}`;
+  }
+
+  private async getUploadHeaders(): Promise<Record<string, string>> {
+    const anonKey = config.get('VITE_SUPABASE_ANON_KEY');
+    const { data } = await supabase!.auth.getSession();
+    return {
+      Authorization: `Bearer ${data.session?.access_token ?? anonKey}`,
+      apikey: anonKey
+    };
+  }
+
+  private async finalizeUpload(
+    file: File,
+    filePath: string,
+    options: UploadOptions,
+    contentHash: string
+  ): Promise<UploadResult> {
+    const { data: urlData } = supabase!.storage
+      .from(this.BUCKET_NAME)
+      .getPublicUrl(filePath);
+
+    const mediaId = await this.saveMediaRecord(file, filePath, urlData.publicUrl, options, contentHash);
+
+    if (!mediaId) {
+      // A concurrent upload of the same bytes may have claimed the hash first;
+      // keep its object and drop ours.
+      const existing = await this.findMediaByHash(options.workspaceId, contentHash);
+      if (existing && existing.storage_path !== filePath) {
+        await supabase!.storage.from(this.BUCKET_NAME).remove([filePath]);
+        return this.reuseMedia(existing, file, options);
+      }
+    }
+
+    logger.info('File uploaded successfully', { path: filePath });
+
+    return {
+      success: true,
+      url: urlData.publicUrl,
+      path: filePath,
+      mediaId
+    };
+  }
+
   private async saveMediaRecord(
     file: File,
     path: string,
     url: string,
-    options: UploadOptions
-  ): Promise<void> {
-    if (!supabase) return;
+    options: UploadOptions,
+    contentHash: string
+  ): Promise<string | undefined> {
+    if (!supabase) return undefined;
 
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('media')
         .insert({
           workspace_id: options.workspaceId,
@@ -103,35 +251,286 @@ export class StorageService {
           size_bytes: file.size,
           storage_path: path,
           url: url,
+          width: options.dimensions?.width ?? null,
+          height: options.dimensions?.height ?? null,
+          duration: options.duration !== undefined ? Math.round(options.duration) : null,
+          source_media_id: options.sourceMediaId ?? null,
+          rendition: options.rendition ?? null,
+          content_hash: contentHash,
           metadata: {
             originalName: file.name,
             uploadedAt: new Date().toISOString()
           }
-        });
+        })
+        .select('id')
+        .single();
 
       if (error) {
-        logger.error('Failed to save media record', error);
+        if (error.code !== '23505') {
+          logger.error('Failed to save media record', error);
+        }
+        return undefined;
       }
+
+      return data.id;
     } catch (error) {
       logger.error('Error saving media record', error as Error);
+      return undefined;
+    }
+  }
+
+  private async findMediaByHash(workspaceId: string, contentHash: string): Promise<StoredMedia | null> {
+    const { data, error } = await supabase!
+      .from('media')
+      .select('id, storage_path, url, deleted_at')
+      .eq('workspace_id', workspaceId)
+      .eq('content_hash', contentHash)
+      .maybeSingle();
+
+    if (error) {
+      logger.warn('Media hash lookup failed', { workspaceId, error: error.message });
+      return null;
+    }
+    return data;
+  }
+
+  private async reuseMedia(existing: StoredMedia, file: File, options: UploadOptions): Promise<UploadResult> {
+    // Uploading a file again restores it to the library if it was deleted
+    // while still referenced by content.
+    if (existing.deleted_at) {
+      await supabase!
+        .from('media')
+        .update({ deleted_at: null })
+        .eq('id', existing.id);
     }
+
+    options.onProgress?.({ bytesUploaded: file.size, bytesTotal: file.size, percentage: 100 });
+    logger.info('Reusing stored media with identical content', { mediaId: existing.id, path: existing.storage_path });
+
+    return {
+      success: true,
+      url: existing.url,
+      path: existing.storage_path,
+      mediaId: existing.id,
+      deduplicated: true
+    };
   }
 
+  /**
+   * Uploads files with bounded concurrency so that large batches don't
+   * saturate the connection; results keep the order of `files`.
+   */
   async uploadMultiple(
     files: File[],
-    options: UploadOptions
+    options: UploadOptions & {
+      concurrency?: number;
+      onFileProgress?: (index: number, progress: UploadProgress) => void;
+    }
   ): Promise<UploadResult[]> {
-    return Promise.all(
-      files.map(file => this.uploadFile(file, options))
-    );
+    const { concurrency = DEFAULT_UPLOAD_CONCURRENCY, onFileProgress, ...uploadOptions } = options;
+    const results: UploadResult[] = new Array(files.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < files.length) {
+        const index = next++;
+        results[index] = await this.uploadFile(files[index], {
+          ...uploadOptions,
+          onProgress: onFileProgress ? progress => onFileProgress(index, progress) : uploadOptions.onProgress
+        });
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, worker));
+    return results;
   }
 
-  async deleteFile(path: string): Promise<{ success: boolean; error?: string }> {
+  /** Attaches a media file to content; the reference keeps the object alive. */
+  async addMediaReference(
+    contentId: string,
+    mediaId: string,
+    position: number = 0
+  ): Promise<{ success: boolean; error?: string }> {
+    if (!supabase) {
+      return { success: false, error: 'Supabase not configured' };
+    }
+
+    const { error } = await supabase
+      .from('content_media')
+      .upsert({ content_id: contentId, media_id: mediaId, position }, { onConflict: 'content_id,media_id' });
+
+    if (error) {
+      logger.error('Failed to add media reference', error);
+      return { success: false, error: error.message };
+    }
+    return { success: true };
+  }
+
+  /**
+   * Detaches a media file from content. If the file was already deleted from
+   * the library and this was its last reference, the object is removed.
+   */
+  async releaseMediaReference(contentId: string, mediaId: string): Promise<DeleteFileResult> {
+    if (!supabase) {
+      return { success: false, error: 'Supabase not configured' };
+    }
+
+    try {
+      const { error } = await supabase
+        .from('content_media')
+        .delete()
+        .eq('content_id', contentId)
+        .eq('media_id', mediaId);
+
+      if (error) {
+        logger.error('Failed to release media reference', error);
+        return { success: false, error: error.message };
+      }
+
+      const { data: media } = await supabase
+        .from('media')
+        .select('storage_path, deleted_at')
+        .eq('id', mediaId)
+        .maybeSingle();
+
+      if (media?.deleted_at) {
+        return this.deleteFile(media.storage_path);
+      }
+      return { success: true, retained: true };
+    } catch (error) {
+      logger.error('Release reference error', error as Error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Makes the content's references match `mediaUrls`: library files in the
+   * list are attached in order and files no longer listed are released. URLs
+   * that are not in the workspace library are ignored.
+   */
+  async syncContentMedia(
+    contentId: string,
+    workspaceId: string,
+    mediaUrls: string[]
+  ): Promise<{ success: boolean; error?: string }> {
+    if (!supabase) {
+      return { success: false, error: 'Supabase not configured' };
+    }
+
+    try {
+      const { data: references, error: referencesError } = await supabase
+        .from('content_media')
+        .select('media_id')
+        .eq('content_id', contentId);
+
+      if (referencesError) {
+        logger.error('Failed to load content media', referencesError);
+        return { success: false, error: referencesError.message };
+      }
+
+      const { data: media, error: mediaError } = await supabase
+        .from('media')
+        .select('id, url')
+        .eq('workspace_id', workspaceId)
+        .in('url', mediaUrls);
+
+      if (mediaError) {
+        logger.error('Failed to resolve content media', mediaError);
+        return { success: false, error: mediaError.message };
+      }
+
+      const attached = new Set<string>();
+      for (const [position, url] of mediaUrls.entries()) {
+        const item = media?.find(m => m.url === url);
+        if (!item || attached.has(item.id)) continue;
+
+        const added = await this.addMediaReference(contentId, item.id, position);
+        if (!added.success) return added;
+        attached.add(item.id);
+      }
+
+      for (const { media_id } of references ?? []) {
+        if (attached.has(media_id)) continue;
+
+        const released = await this.releaseMediaReference(contentId, media_id);
+        if (!released.success) return { success: false, error: released.error };
+      }
+
+      return { success: true };
+    } catch (error) {
+      logger.error('Content media sync error', error as Error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /** Releases every media reference held by content that is about to be deleted. */
+  async releaseContentMedia(contentId: string): Promise<{ success: boolean; error?: string }> {
+    if (!supabase) {
+      return { success: false, error: 'Supabase not configured' };
+    }
+
+    const { data: references, error } = await supabase
+      .from('content_media')
+      .select('media_id')
+      .eq('content_id', contentId);
+
+    if (error) {
+      logger.error('Failed to load content media', error);
+      return { success: false, error: error.message };
+    }
+
+    for (const { media_id } of references ?? []) {
+      const released = await this.releaseMediaReference(contentId, media_id);
+      if (!released.success) return { success: false, error: released.error };
+    }
+    return { success: true };
+  }
+
+  /**
+   * Deletes a file from the library. Uploads are deduplicated, so the same
+   * object may back several posts: while any `content_media` row references
+   * it, the row is only marked deleted and the object is kept. The last
+   * `releaseMediaReference` then removes it.
+   */
+  async deleteFile(path: string): Promise<DeleteFileResult> {
     if (!supabase) {
       return { success: false, error: 'Supabase not configured' };
     }
 
     try {
+      const { data: media, error: lookupError } = await supabase
+        .from('media')
+        .select('id')
+        .eq('storage_path', path)
+        .maybeSingle();
+
+      if (lookupError) {
+        logger.error('Failed to look up media for deletion', lookupError);
+        return { success: false, error: lookupError.message };
+      }
+
+      if (media) {
+        const { count, error: countError } = await supabase
+          .from('content_media')
+          .select('media_id', { count: 'exact', head: true })
+          .eq('media_id', media.id);
+
+        if (countError) {
+          logger.error('Failed to count media references', countError);
+          return { success: false, error: countError.message };
+        }
+
+        if (count && count > 0) {
+          await supabase
+            .from('media')
+            .update({ deleted_at: new Date().toISOString() })
+            .eq('id', media.id);
+
+          logger.info('File still referenced, keeping stored object', { path, references: count });
+          return { success: true, retained: true };
+        }
+      }
+
       const { error } = await supabase.storage
         .from(this.BUCKET_NAME)
         .remove([path]);
@@ -171,6 +570,7 @@ export class StorageService {
         .from('media')
         .select('*')
         .eq('workspace_id', workspaceId)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (options?.type) {
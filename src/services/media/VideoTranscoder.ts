@@ -0,0 +1,31 @@
+export interface VideoRenditionSpec {
+  /** Output width / height, e.g. 9 / 16 for vertical video. */
+  aspectRatio: number;
+  /** Crop the source to fill the frame, or letterbox it with black bars. */
+  fit: 'crop' | 'letterbox';
+  /** Upper bound for the output's long edge; sources are never upscaled. */
+  maxDimension: number;
+  maxVideoBitrateKbps: number;
+  maxAudioBitrateKbps: number;
+  /** Seconds; longer sources are trimmed. */
+  maxDuration?: number;
+}
+
+export interface TranscodedVideo {
+  blob: Blob;
+  format: string;
+  dimensions: { width: number; height: number };
+  duration: number;
+  /** JPEG still taken from the transcoded video. */
+  poster: Blob;
+  optimizations: string[];
+}
+
+/**
+ * Produces platform-compliant renditions of a video. Transcoding needs native
+ * tooling, so browsers run without one and worker processes install an
+ * implementation through `MediaProcessingService.useVideoTranscoder`.
+ */
+export interface VideoTranscoder {
+  transcode(source: Blob, spec: VideoRenditionSpec, signal?: AbortSignal): Promise<TranscodedVideo>;
+}
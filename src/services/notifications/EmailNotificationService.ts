@@ -37,7 +37,8 @@ export type NotificationType =
   | 'team_invite'
   | 'subscription_renewed'
   | 'subscription_canceled'
-  | 'usage_limit_warning';
+  | 'usage_limit_warning'
+  | 'connector_expired';
 
 class EmailNotificationService {
   private static instance: EmailNotificationService;
@@ -204,6 +205,17 @@ class EmailNotificationService {
     });
   }
 
+  async sendConnectorExpiredNotification(
+    userId: string,
+    platform: string,
+    accountName?: string
+  ): Promise<void> {
+    await this.sendNotification(userId, 'connector_expired', {
+      platform,
+      accountName,
+    });
+  }
+
   async sendBulkEmail(recipients: EmailRecipient[], options: Omit<EmailOptions, 'to'>): Promise<void> {
     const batchSize = 100;
     for (let i = 0; i < recipients.length; i += batchSize) {
@@ -307,6 +319,18 @@ class EmailNotificationService {
           text: `You've used ${data.currentUsage} of ${data.limit} ${data.resourceType} (${data.percentUsed}%). Consider upgrading.`,
         };
 
+      case 'connector_expired':
+        return {
+          name: 'Connector Expired',
+          subject: `Reconnect your ${data.platform} account`,
+          html: `
+            <h1>${data.platform} Connection Expired</h1>
+            <p>We can no longer access ${data.accountName ? `<strong>${data.accountName}</strong> on ` : 'your account on '}${data.platform}. Scheduled posts to it will fail until it is reconnected.</p>
+            <p><a href="https://app.sparklabs.com/connectors">Reconnect Account</a></p>
+          `,
+          text: `We can no longer access ${data.accountName ? `${data.accountName} on ` : 'your account on '}${data.platform}. Reconnect it at https://app.sparklabs.com/connectors`,
+        };
+
       default:
         return {
           name: 'Notification',
@@ -0,0 +1,293 @@
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+import { AppError, ErrorCode } from '../../utils/errors';
+import { connectorRegistry } from '../../connectors/base/ConnectorRegistry';
+import { BaseConnector } from '../../connectors/base/BaseConnector';
+import { connectorService } from '../ConnectorService';
+import { OAUTH_PROVIDERS, OAuthAccount, OAuthProvider, getOAuthEndpoint } from './providers';
+import { oauthStateStore, AuthorizationState } from './OAuthStateStore';
+import { createPkcePair } from './pkce';
+
+export interface BeginAuthorizationOptions {
+  userId: string;
+  workspaceId: string;
+  platform: string;
+  /** Where to send the user once the account is connected. */
+  redirectUrl: string;
+  /** Our callback route, sent to the provider as `redirect_uri`. */
+  callbackUrl: string;
+}
+
+export interface CompletedAuthorization {
+  workspaceId: string;
+  platform: string;
+  redirectUrl: string;
+  account: OAuthAccount;
+  /** Every account connected by the grant; just `account` for most providers. */
+  accounts: OAuthAccount[];
+}
+
+interface TokenSet {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: Date;
+  raw: Record<string, unknown>;
+}
+
+/** Token endpoint body; Facebook nests its error object. */
+interface TokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number | string;
+  error?: string | { message?: string };
+  error_description?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Runs the OAuth authorization-code flow that connects a platform account to
+ * a workspace: `beginAuthorization` builds the provider's authorize URL and
+ * `completeAuthorization` handles the callback, exchanging the code (with the
+ * PKCE verifier where the provider supports it) and storing the tokens
+ * through ConnectorService. Server-side only; see api/auth.
+ */
+export class OAuthService {
+  private static instance: OAuthService;
+
+  private constructor() {}
+
+  static getInstance(): OAuthService {
+    if (!OAuthService.instance) {
+      OAuthService.instance = new OAuthService();
+    }
+    return OAuthService.instance;
+  }
+
+  listProviders(): string[] {
+    return Object.keys(OAUTH_PROVIDERS);
+  }
+
+  async beginAuthorization(
+    options: BeginAuthorizationOptions
+  ): Promise<{ authUrl?: string; state?: string; binding?: string; error: Error | null }> {
+    try {
+      const provider = this.getProvider(options.platform);
+      config.requireConnector(options.platform);
+
+      const pkce = provider.pkce ? await createPkcePair() : undefined;
+      const { state, binding } = await oauthStateStore.issue({
+        userId: options.userId,
+        workspaceId: options.workspaceId,
+        platform: options.platform,
+        redirectUrl: options.redirectUrl,
+        callbackUrl: options.callbackUrl,
+        codeVerifier: pkce?.codeVerifier
+      });
+
+      const params = new URLSearchParams({
+        response_type: 'code',
+        [provider.clientIdParam]: config.get(provider.clientIdKey)!,
+        redirect_uri: options.callbackUrl,
+        scope: this.getScopes(options.platform).join(provider.scopeSeparator),
+        state,
+        ...provider.authorizeParams
+      });
+      if (pkce) {
+        params.set('code_challenge', pkce.codeChallenge);
+        params.set('code_challenge_method', pkce.codeChallengeMethod);
+      }
+
+      logger.info('OAuth authorization started', { platform: options.platform, workspaceId: options.workspaceId });
+      return { authUrl: `${getOAuthEndpoint(provider, 'authorizeUrl')}?${params}`, state, binding, error: null };
+    } catch (error) {
+      logger.error('Failed to start OAuth authorization', error as Error, { platform: options.platform });
+      return { error: error as Error };
+    }
+  }
+
+  /**
+   * Handles the provider's callback. Returns a null result with no error when
+   * the state is invalid, expired, replayed or from another browser.
+   */
+  async completeAuthorization(options: {
+    platform: string;
+    code: string;
+    state: string;
+    /** The browser binding cookie set by oauth-begin. */
+    binding: string | undefined;
+  }): Promise<{ result: CompletedAuthorization | null; error: Error | null }> {
+    try {
+      const provider = this.getProvider(options.platform);
+
+      const state = await oauthStateStore.consume(options.state, options.platform, options.binding);
+      if (!state) {
+        return { result: null, error: null };
+      }
+
+      let tokens = await this.exchangeCode(provider, options.code, state);
+      if (provider.exchangeLongLivedToken) {
+        tokens = await this.exchangeLongLivedToken(provider, tokens);
+      }
+
+      const accounts = await this.fetchAccounts(provider, tokens);
+
+      for (const account of accounts) {
+        const { error: saveError } = await connectorService.saveConnectorCredentials(
+          state.userId,
+          state.workspaceId,
+          options.platform,
+          {
+            accessToken: tokens.accessToken,
+            refreshToken: tokens.refreshToken,
+            expiresAt: tokens.expiresAt,
+            platformUserId: account.platformUserId,
+            metadata: { accountName: account.accountName, scope: tokens.raw.scope }
+          }
+        );
+        if (saveError) throw saveError;
+      }
+
+      logger.info('OAuth authorization completed', {
+        platform: options.platform,
+        workspaceId: state.workspaceId,
+        platformUserIds: accounts.map(account => account.platformUserId)
+      });
+
+      return {
+        result: {
+          workspaceId: state.workspaceId,
+          platform: options.platform,
+          redirectUrl: state.redirectUrl,
+          account: accounts[0],
+          accounts
+        },
+        error: null
+      };
+    } catch (error) {
+      logger.error('Failed to complete OAuth authorization', error as Error, { platform: options.platform });
+      return { result: null, error: error as Error };
+    }
+  }
+
+  private getProvider(platform: string): OAuthProvider {
+    const provider = OAUTH_PROVIDERS[platform];
+    if (!provider) {
+      throw new AppError(`OAuth is not supported for ${platform}`, ErrorCode.VALIDATION_ERROR, 400);
+    }
+    return provider;
+  }
+
+  /** Scopes come from the connector's config, so they match what the connector calls. */
+  private getScopes(platform: string): string[] {
+    const ConnectorClass = connectorRegistry.getConnectorClass(platform);
+    if (!ConnectorClass) {
+      throw new AppError(`Connector ${platform} not found in registry`, ErrorCode.NOT_FOUND, 404);
+    }
+    return (new (ConnectorClass as unknown as new () => BaseConnector)()).getConfig().scopes ?? [];
+  }
+
+  private async exchangeCode(provider: OAuthProvider, code: string, state: AuthorizationState): Promise<TokenSet> {
+    const clientId = config.get(provider.clientIdKey)!;
+    const clientSecret = config.get(provider.clientSecretKey)!;
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: state.callbackUrl
+    });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json'
+    };
+
+    if (provider.basicClientAuth) {
+      headers['Authorization'] = `Basic ${btoa(`${clientId}:${clientSecret}`)}`;
+    } else {
+      body.set(provider.clientIdParam, clientId);
+      body.set('client_secret', clientSecret);
+    }
+    if (state.codeVerifier) {
+      body.set('code_verifier', state.codeVerifier);
+    }
+
+    const response = await fetch(getOAuthEndpoint(provider, 'tokenUrl'), { method: 'POST', headers, body });
+    return this.parseTokenResponse(provider, response);
+  }
+
+  private async exchangeLongLivedToken(provider: OAuthProvider, tokens: TokenSet): Promise<TokenSet> {
+    const params = new URLSearchParams({
+      grant_type: 'fb_exchange_token',
+      client_id: config.get(provider.clientIdKey)!,
+      client_secret: config.get(provider.clientSecretKey)!,
+      fb_exchange_token: tokens.accessToken
+    });
+
+    const response = await fetch(`${getOAuthEndpoint(provider, 'tokenUrl')}?${params}`);
+    return this.parseTokenResponse(provider, response);
+  }
+
+  private async parseTokenResponse(provider: OAuthProvider, response: Response): Promise<TokenSet> {
+    const data: TokenResponse = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.access_token) {
+      const reason = data.error_description
+        ?? (typeof data.error === 'object' ? data.error.message : data.error)
+        ?? response.statusText;
+      throw new AppError(`${provider.platform} token exchange failed: ${reason}`, ErrorCode.EXTERNAL_API_ERROR, 502);
+    }
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: data.expires_in ? new Date(Date.now() + Number(data.expires_in) * 1000) : undefined,
+      raw: data
+    };
+  }
+
+  private async fetchAccounts(provider: OAuthProvider, tokens: TokenSet): Promise<OAuthAccount[]> {
+    const { ok, body } = await this.fetchAccountEndpoint(provider, 'accountUrl', tokens);
+    let accounts: OAuthAccount[] = [];
+    if (ok) {
+      const account = provider.parseAccount(body, tokens.raw);
+      accounts = provider.parseAccounts?.(body, tokens.raw) ?? (account ? [account] : []);
+    }
+
+    if (accounts.length === 0) {
+      throw new AppError(`Could not identify the connected ${provider.platform} account`, ErrorCode.EXTERNAL_API_ERROR, 502);
+    }
+
+    // Linked accounts are optional: a user without any, or without the
+    // scope to list them, still connects their own account.
+    if (provider.linkedAccountsUrl && provider.parseLinkedAccounts) {
+      const linked = await this.fetchAccountEndpoint(provider, 'linkedAccountsUrl', tokens);
+      if (linked.ok) {
+        accounts.push(...provider.parseLinkedAccounts(linked.body));
+      } else {
+        logger.warn('Failed to list linked accounts', { platform: provider.platform });
+      }
+    }
+
+    return accounts;
+  }
+
+  private async fetchAccountEndpoint(
+    provider: OAuthProvider,
+    endpoint: 'accountUrl' | 'linkedAccountsUrl',
+    tokens: TokenSet
+  ): Promise<{ ok: boolean; body: unknown }> {
+    const url = new URL(getOAuthEndpoint(provider, endpoint));
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+
+    if (provider.tokenInQuery) {
+      url.searchParams.set('access_token', tokens.accessToken);
+    } else {
+      headers['Authorization'] = `Bearer ${tokens.accessToken}`;
+    }
+
+    const response = await fetch(url, { headers });
+    const body = await response.json().catch(() => null);
+    return { ok: response.ok, body };
+  }
+}
+
+export const oauthService = OAuthService.getInstance();
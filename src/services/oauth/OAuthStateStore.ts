@@ -0,0 +1,213 @@
+import { supabase } from '../../lib/supabase';
+import { logger } from '../../utils/logger';
+import { AppError, ErrorCode } from '../../utils/errors';
+import { OAUTH_CONFIG } from '../../config/constants';
+import { fromBase64Url, randomToken, toBase64Url } from './pkce';
+
+/** Claims carried in the signed `state` parameter. */
+export interface OAuthStateClaims {
+  nonce: string;
+  userId: string;
+  workspaceId: string;
+  platform: string;
+  expiresAt: number;
+  /** SHA-256 of the browser binding; see `issue`. */
+  bindingHash: string;
+}
+
+/** A consumed state, with what the server kept back from the provider. */
+export interface AuthorizationState extends OAuthStateClaims {
+  redirectUrl: string;
+  callbackUrl: string;
+  codeVerifier?: string;
+}
+
+/**
+ * Issues and consumes the `state` parameter of OAuth authorization requests.
+ *
+ * The state is `<claims>.<signature>`: base64url JSON claims signed with
+ * HMAC-SHA256 under `OAUTH_STATE_SECRET`, so forged or expired states are
+ * rejected without a database round trip. Each state's nonce is also stored
+ * in `oauth_states` together with the PKCE verifier and the redirect URLs,
+ * and consuming it is a conditional update, so a state can be redeemed once.
+ *
+ * A state is also bound to the browser that started the flow: `issue`
+ * returns a random binding, which oauth-begin sets as an HttpOnly cookie,
+ * and `consume` only accepts the state together with that cookie. Someone
+ * who sends their own authorize URL to another user therefore cannot get
+ * that user's platform tokens saved into their workspace.
+ */
+export class OAuthStateStore {
+  private static instance: OAuthStateStore;
+  private signingKey: Promise<CryptoKey | null> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): OAuthStateStore {
+    if (!OAuthStateStore.instance) {
+      OAuthStateStore.instance = new OAuthStateStore();
+    }
+    return OAuthStateStore.instance;
+  }
+
+  async issue(options: {
+    userId: string;
+    workspaceId: string;
+    platform: string;
+    redirectUrl: string;
+    callbackUrl: string;
+    codeVerifier?: string;
+  }): Promise<{ state: string; binding: string }> {
+    if (!supabase) {
+      throw new AppError('Supabase not configured', ErrorCode.DATABASE_ERROR);
+    }
+
+    const binding = randomToken(32);
+    const claims: OAuthStateClaims = {
+      nonce: randomToken(16),
+      userId: options.userId,
+      workspaceId: options.workspaceId,
+      platform: options.platform,
+      expiresAt: Date.now() + OAUTH_CONFIG.STATE_TTL_MS,
+      bindingHash: await this.hashBinding(binding)
+    };
+
+    const { error } = await supabase.from('oauth_states').insert({
+      nonce: claims.nonce,
+      user_id: claims.userId,
+      workspace_id: claims.workspaceId,
+      platform: claims.platform,
+      redirect_url: options.redirectUrl,
+      callback_url: options.callbackUrl,
+      code_verifier: options.codeVerifier ?? null,
+      expires_at: new Date(claims.expiresAt).toISOString()
+    });
+
+    if (error) {
+      throw new AppError(`Failed to store OAuth state: ${error.message}`, ErrorCode.DATABASE_ERROR);
+    }
+
+    const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(claims)));
+    return { state: `${payload}.${await this.sign(payload)}`, binding };
+  }
+
+  /**
+   * Verifies `state` and marks its nonce consumed. Returns null for states
+   * that are forged, expired, for another platform, already used, or
+   * presented without the binding of the browser they were issued to.
+   */
+  async consume(state: string, platform: string, binding: string | undefined): Promise<AuthorizationState | null> {
+    const claims = await this.verify(state);
+    if (!claims) return null;
+
+    if (!binding || !claims.bindingHash || (await this.hashBinding(binding)) !== claims.bindingHash) {
+      logger.warn('OAuth state presented from another browser', { platform });
+      return null;
+    }
+    if (claims.platform !== platform) {
+      logger.warn('OAuth state was issued for another platform', { expected: claims.platform, platform });
+      return null;
+    }
+    if (claims.expiresAt <= Date.now()) {
+      logger.warn('OAuth state expired', { platform });
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabase!
+      .from('oauth_states')
+      .update({ consumed_at: now })
+      .eq('nonce', claims.nonce)
+      .is('consumed_at', null)
+      .gt('expires_at', now)
+      .select('user_id, workspace_id, redirect_url, callback_url, code_verifier')
+      .maybeSingle();
+
+    if (error) {
+      throw new AppError(`Failed to consume OAuth state: ${error.message}`, ErrorCode.DATABASE_ERROR);
+    }
+    if (!data) {
+      logger.warn('OAuth state replayed or unknown', { platform });
+      return null;
+    }
+    if (data.user_id !== claims.userId || data.workspace_id !== claims.workspaceId) {
+      logger.warn('OAuth state does not match its stored nonce', { platform });
+      return null;
+    }
+
+    return {
+      ...claims,
+      redirectUrl: data.redirect_url,
+      callbackUrl: data.callback_url,
+      codeVerifier: data.code_verifier ?? undefined
+    };
+  }
+
+  /** Deletes states that expired more than a day ago. */
+  async purgeExpired(): Promise<number> {
+    if (!supabase) return 0;
+
+    const { data, error } = await supabase
+      .from('oauth_states')
+      .delete()
+      .lt('expires_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString())
+      .select('nonce');
+
+    if (error) {
+      logger.error('Failed to purge OAuth states', error);
+      return 0;
+    }
+    return (data ?? []).length;
+  }
+
+  private async verify(state: string): Promise<OAuthStateClaims | null> {
+    const [payload, signature, extra] = state.split('.');
+    if (!payload || !signature || extra !== undefined) return null;
+
+    const key = await this.getSigningKey();
+    try {
+      const valid = await crypto.subtle.verify(
+        'HMAC',
+        key,
+        fromBase64Url(signature),
+        new TextEncoder().encode(payload)
+      );
+      if (!valid) {
+        logger.warn('OAuth state signature mismatch');
+        return null;
+      }
+      return JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as OAuthStateClaims;
+    } catch {
+      return null;
+    }
+  }
+
+  private async hashBinding(binding: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(binding));
+    return toBase64Url(new Uint8Array(digest));
+  }
+
+  private async sign(payload: string): Promise<string> {
+    const key = await this.getSigningKey();
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+    return toBase64Url(new Uint8Array(signature));
+  }
+
+  private async getSigningKey(): Promise<CryptoKey> {
+    if (!this.signingKey) {
+      const env = typeof window === 'undefined' ? globalThis.process?.env : undefined;
+      const secret = env?.OAUTH_STATE_SECRET;
+      this.signingKey = secret
+        ? crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+        : Promise.resolve(null);
+    }
+
+    const key = await this.signingKey;
+    if (!key) {
+      throw new AppError('OAUTH_STATE_SECRET is not configured', ErrorCode.INTERNAL_ERROR);
+    }
+    return key;
+  }
+}
+
+export const oauthStateStore = OAuthStateStore.getInstance();
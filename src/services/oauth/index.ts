@@ -0,0 +1,6 @@
+export { oauthService } from './OAuthService';
+export type { BeginAuthorizationOptions, CompletedAuthorization } from './OAuthService';
+export { oauthStateStore } from './OAuthStateStore';
+export type { AuthorizationState, OAuthStateClaims } from './OAuthStateStore';
+export { OAUTH_PROVIDERS } from './providers';
+export type { OAuthAccount, OAuthProvider } from './providers';
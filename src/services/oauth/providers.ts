@@ -0,0 +1,238 @@
+import { Env } from '../../config/env';
+
+/** Env keys holding string values, i.e. usable as client credentials. */
+type CredentialKey = { [K in keyof Env]-?: Env[K] extends string | undefined ? K : never }[keyof Env];
+
+export interface OAuthAccount {
+  platformUserId: string;
+  accountName?: string;
+}
+
+/** The fields read from each provider's account response. */
+interface YouTubeChannels {
+  items?: Array<{ id: string; snippet?: { title?: string } }>;
+}
+
+interface TikTokUserInfo {
+  data?: { user?: { open_id?: string; display_name?: string } };
+}
+
+interface InstagramPages {
+  data?: Array<{ instagram_business_account?: { id: string; username?: string } }>;
+}
+
+interface LinkedInMember {
+  id?: string;
+  localizedFirstName?: string;
+  localizedLastName?: string;
+}
+
+interface LinkedInOrganizationAcls {
+  elements?: Array<{ organization?: unknown; 'organization~'?: { localizedName?: string } }>;
+}
+
+interface PinterestUserAccount {
+  id?: string;
+  username?: string;
+}
+
+interface TwitterMe {
+  data?: { id: string; username?: string };
+}
+
+interface FacebookPages {
+  data?: Array<{ id: string; name?: string; tasks?: string[] }>;
+}
+
+/** Per-provider details of the authorization-code flow. */
+export interface OAuthProvider {
+  platform: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  /** Identifies the account the token belongs to. */
+  accountUrl: string;
+  clientIdKey: CredentialKey;
+  clientSecretKey: CredentialKey;
+  /** TikTok calls the client id `client_key`. */
+  clientIdParam: string;
+  scopeSeparator: string;
+  /** Whether the provider accepts S256 PKCE on web clients. */
+  pkce: boolean;
+  /** Whether client credentials go in a Basic header instead of the token request body. */
+  basicClientAuth?: boolean;
+  authorizeParams?: Record<string, string>;
+  /** Whether the account endpoint takes the token as `access_token` in the query. */
+  tokenInQuery?: boolean;
+  /** Facebook issues short-lived user tokens that must be exchanged for a long-lived one. */
+  exchangeLongLivedToken?: boolean;
+  parseAccount(body: unknown, tokenResponse: Record<string, unknown>): OAuthAccount | null;
+  /**
+   * For providers whose grant covers several accounts (Facebook Pages), every
+   * account to connect; each gets its own connector.
+   */
+  parseAccounts?(body: unknown, tokenResponse: Record<string, unknown>): OAuthAccount[];
+  /**
+   * Lists further accounts the grant can act as besides the one from
+   * `accountUrl` (LinkedIn organizations the member administers).
+   */
+  linkedAccountsUrl?: string;
+  parseLinkedAccounts?(body: unknown): OAuthAccount[];
+}
+
+/** LinkedIn organizations from an `organizationAcls` lookup with the organization projected in. */
+function linkedinOrganizations(body: unknown): OAuthAccount[] {
+  return ((body as LinkedInOrganizationAcls | null)?.elements ?? []).flatMap(acl =>
+    typeof acl.organization === 'string'
+      ? [{ platformUserId: acl.organization, accountName: acl['organization~']?.localizedName }]
+      : []
+  );
+}
+
+/** Facebook Pages the user may publish to. */
+function facebookPages(body: unknown): OAuthAccount[] {
+  return ((body as FacebookPages | null)?.data ?? [])
+    .filter(page => !page.tasks || page.tasks.includes('CREATE_CONTENT'))
+    .map(page => ({ platformUserId: page.id, accountName: page.name }));
+}
+
+export const OAUTH_PROVIDERS: Record<string, OAuthProvider> = {
+  youtube: {
+    platform: 'youtube',
+    authorizeUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    accountUrl: 'https://www.googleapis.com/youtube/v3/channels?part=snippet&mine=true',
+    clientIdKey: 'VITE_YOUTUBE_CLIENT_ID',
+    clientSecretKey: 'VITE_YOUTUBE_CLIENT_SECRET',
+    clientIdParam: 'client_id',
+    scopeSeparator: ' ',
+    pkce: true,
+    // Google only returns a refresh token for offline access, and only on consent.
+    authorizeParams: { access_type: 'offline', prompt: 'consent', include_granted_scopes: 'true' },
+    parseAccount: body => {
+      const channel = (body as YouTubeChannels | null)?.items?.[0];
+      return channel ? { platformUserId: channel.id, accountName: channel.snippet?.title } : null;
+    }
+  },
+  tiktok: {
+    platform: 'tiktok',
+    authorizeUrl: 'https://www.tiktok.com/v2/auth/authorize/',
+    tokenUrl: 'https://open.tiktokapis.com/v2/oauth/token/',
+    accountUrl: 'https://open.tiktokapis.com/v2/user/info/?fields=open_id,display_name',
+    clientIdKey: 'VITE_TIKTOK_CLIENT_KEY',
+    clientSecretKey: 'VITE_TIKTOK_CLIENT_SECRET',
+    clientIdParam: 'client_key',
+    scopeSeparator: ',',
+    // TikTok only supports PKCE for desktop and mobile apps.
+    pkce: false,
+    parseAccount: (body, tokenResponse) => {
+      const user = (body as TikTokUserInfo | null)?.data?.user;
+      const openId = user?.open_id ?? (tokenResponse.open_id as string | undefined);
+      return openId ? { platformUserId: openId, accountName: user?.display_name } : null;
+    }
+  },
+  instagram: {
+    platform: 'instagram',
+    authorizeUrl: 'https://www.facebook.com/v18.0/dialog/oauth',
+    tokenUrl: 'https://graph.facebook.com/v18.0/oauth/access_token',
+    accountUrl: 'https://graph.facebook.com/v18.0/me/accounts?fields=instagram_business_account{id,username}',
+    clientIdKey: 'VITE_INSTAGRAM_CLIENT_ID',
+    clientSecretKey: 'VITE_INSTAGRAM_CLIENT_SECRET',
+    clientIdParam: 'client_id',
+    scopeSeparator: ',',
+    pkce: true,
+    tokenInQuery: true,
+    exchangeLongLivedToken: true,
+    parseAccount: body => {
+      const pages = (body as InstagramPages | null)?.data ?? [];
+      const account = pages.find(page => page.instagram_business_account)?.instagram_business_account;
+      return account ? { platformUserId: account.id, accountName: account.username } : null;
+    }
+  },
+  linkedin: {
+    platform: 'linkedin',
+    authorizeUrl: 'https://www.linkedin.com/oauth/v2/authorization',
+    tokenUrl: 'https://www.linkedin.com/oauth/v2/accessToken',
+    accountUrl: 'https://api.linkedin.com/v2/me',
+    clientIdKey: 'VITE_LINKEDIN_CLIENT_ID',
+    clientSecretKey: 'VITE_LINKEDIN_CLIENT_SECRET',
+    clientIdParam: 'client_id',
+    scopeSeparator: ' ',
+    // LinkedIn only supports PKCE for native clients.
+    pkce: false,
+    parseAccount: body => {
+      const member = body as LinkedInMember | null;
+      return member?.id
+        ? {
+            platformUserId: member.id,
+            accountName: [member.localizedFirstName, member.localizedLastName].filter(Boolean).join(' ') || undefined
+          }
+        : null;
+    },
+    // Company Pages the member administers; posting as one uses its organization URN.
+    linkedAccountsUrl: 'https://api.linkedin.com/v2/organizationAcls?q=roleAssignee&role=ADMINISTRATOR&state=APPROVED&projection=(elements*(organization,organization~(localizedName)))',
+    parseLinkedAccounts: linkedinOrganizations
+  },
+  pinterest: {
+    platform: 'pinterest',
+    authorizeUrl: 'https://www.pinterest.com/oauth/',
+    tokenUrl: 'https://api.pinterest.com/v5/oauth/token',
+    accountUrl: 'https://api.pinterest.com/v5/user_account',
+    clientIdKey: 'VITE_PINTEREST_CLIENT_ID',
+    clientSecretKey: 'VITE_PINTEREST_CLIENT_SECRET',
+    clientIdParam: 'client_id',
+    scopeSeparator: ',',
+    pkce: false,
+    basicClientAuth: true,
+    parseAccount: body => {
+      const user = body as PinterestUserAccount | null;
+      return user?.username ? { platformUserId: user.id ?? user.username, accountName: user.username } : null;
+    }
+  },
+  twitter: {
+    platform: 'twitter',
+    authorizeUrl: 'https://x.com/i/oauth2/authorize',
+    tokenUrl: 'https://api.x.com/2/oauth2/token',
+    accountUrl: 'https://api.x.com/2/users/me',
+    clientIdKey: 'VITE_TWITTER_CLIENT_ID',
+    clientSecretKey: 'VITE_TWITTER_CLIENT_SECRET',
+    clientIdParam: 'client_id',
+    scopeSeparator: ' ',
+    pkce: true,
+    basicClientAuth: true,
+    parseAccount: body => {
+      const user = (body as TwitterMe | null)?.data;
+      return user?.id ? { platformUserId: user.id, accountName: user.username } : null;
+    }
+  },
+  facebook: {
+    platform: 'facebook',
+    authorizeUrl: 'https://www.facebook.com/v18.0/dialog/oauth',
+    tokenUrl: 'https://graph.facebook.com/v18.0/oauth/access_token',
+    accountUrl: 'https://graph.facebook.com/v18.0/me/accounts?fields=id,name,tasks',
+    clientIdKey: 'VITE_FACEBOOK_APP_ID',
+    clientSecretKey: 'VITE_FACEBOOK_APP_SECRET',
+    clientIdParam: 'client_id',
+    scopeSeparator: ',',
+    pkce: true,
+    tokenInQuery: true,
+    exchangeLongLivedToken: true,
+    parseAccount: body => facebookPages(body)[0] ?? null,
+    parseAccounts: body => facebookPages(body)
+  }
+};
+
+export type OAuthEndpoint = 'authorizeUrl' | 'tokenUrl' | 'accountUrl' | 'linkedAccountsUrl';
+
+/**
+ * Returns a provider endpoint. With `OAUTH_PROVIDER_OVERRIDE_URL` set (see
+ * scripts/fake-oauth-provider.ts), every provider is pointed at
+ * `<override>/<platform>/{authorize,token,account,linked-accounts}` instead.
+ */
+export function getOAuthEndpoint(provider: OAuthProvider, endpoint: OAuthEndpoint): string {
+  const env = typeof window === 'undefined' ? globalThis.process?.env : undefined;
+  const override = env?.OAUTH_PROVIDER_OVERRIDE_URL;
+  if (!override) return provider[endpoint] ?? '';
+
+  const name = { authorizeUrl: 'authorize', tokenUrl: 'token', accountUrl: 'account', linkedAccountsUrl: 'linked-accounts' }[endpoint];
+  return `${override.replace(/\/$/, '')}/${provider.platform}/${name}`;
+}
@@ -0,0 +1,204 @@
+import { supabase } from '../../lib/supabase';
+import { logger } from '../../utils/logger';
+
+export type PlatformPublicationStatus = 'queued' | 'uploading' | 'published' | 'failed';
+
+/**
+ * Content-level status, derived by the database from every platform row of
+ * the content (see the `refresh_content_publication_status` trigger).
+ */
+export type ContentPublicationStatus =
+  | 'scheduled'
+  | 'publishing'
+  | 'published'
+  | 'partially_published'
+  | 'failed';
+
+const TRANSITIONS: Record<PlatformPublicationStatus, PlatformPublicationStatus[]> = {
+  queued: ['uploading', 'failed'],
+  // A retried job attempt re-enters uploading.
+  uploading: ['uploading', 'published', 'failed'],
+  published: [],
+  failed: ['queued']
+};
+
+/** States from which `to` may be entered. */
+function sourcesOf(to: PlatformPublicationStatus): PlatformPublicationStatus[] {
+  return (Object.keys(TRANSITIONS) as PlatformPublicationStatus[]).filter(from => TRANSITIONS[from].includes(to));
+}
+
+/** Statuses a platform reports, through webhooks, for a post it has accepted. */
+export type PlatformReportedStatus = 'published' | 'failed' | 'deleted';
+
+/**
+ * The platform is authoritative about its own posts, so its reports may
+ * override what the job recorded: an accepted upload can still fail
+ * processing, and any post can be removed upstream.
+ */
+const PLATFORM_REPORT_SOURCES: Record<PlatformReportedStatus, string[]> = {
+  published: ['uploading', 'failed'],
+  failed: ['uploading', 'published'],
+  deleted: ['queued', 'uploading', 'published', 'failed']
+};
+
+export interface PublicationUpdate {
+  platformPostId?: string;
+  /** Kept in `platform_data` so webhooks that still reference it find the post. */
+  provisionalPostId?: string;
+  url?: string;
+  error?: string;
+}
+
+/**
+ * Tracks each platform's publication of a piece of content as a row in
+ * `published_posts`. Transitions are applied with a conditional update, so an
+ * outcome that arrives out of order (e.g. a retry starting after the post was
+ * already confirmed) is ignored instead of regressing the status.
+ */
+export class PublicationStatusService {
+  private static instance: PublicationStatusService;
+
+  private constructor() {}
+
+  static getInstance(): PublicationStatusService {
+    if (!PublicationStatusService.instance) {
+      PublicationStatusService.instance = new PublicationStatusService();
+    }
+    return PublicationStatusService.instance;
+  }
+
+  /**
+   * Returns the row tracking `platform` for `contentId`, creating it in the
+   * queued state. A failed row is reused and re-queued.
+   */
+  async queue(options: {
+    contentId: string;
+    connectorRecordId: string;
+    platform: string;
+  }): Promise<{ publishedPostId?: string; error: Error | null }> {
+    if (!supabase) {
+      return { error: new Error('Supabase not configured') };
+    }
+
+    try {
+      const { data: existing } = await supabase
+        .from('published_posts')
+        .select('id')
+        .eq('content_id', options.contentId)
+        .eq('connector_id', options.connectorRecordId)
+        .eq('status', 'failed')
+        .limit(1)
+        .maybeSingle();
+
+      if (existing && await this.transition(existing.id, 'queued')) {
+        return { publishedPostId: existing.id, error: null };
+      }
+
+      const { data, error } = await supabase
+        .from('published_posts')
+        .insert({
+          content_id: options.contentId,
+          connector_id: options.connectorRecordId,
+          platform: options.platform,
+          status: 'queued',
+          published_at: null
+        })
+        .select('id')
+        .single();
+
+      if (error) {
+        logger.error('Failed to create publication record', error);
+        return { error };
+      }
+
+      return { publishedPostId: data.id, error: null };
+    } catch (error) {
+      logger.error('Error creating publication record', error as Error);
+      return { error: error as Error };
+    }
+  }
+
+  /** Returns false if the row is missing or not in a state that can reach `to`. */
+  async transition(
+    publishedPostId: string,
+    to: PlatformPublicationStatus,
+    update: PublicationUpdate = {}
+  ): Promise<boolean> {
+    if (!supabase) return false;
+
+    const now = new Date().toISOString();
+    const fields: Record<string, unknown> = { status: to, updated_at: now };
+
+    if (to === 'published') {
+      fields.published_at = now;
+      fields.error = null;
+      if (update.platformPostId) fields.platform_post_id = update.platformPostId;
+      if (update.url) fields.url = update.url;
+      if (update.provisionalPostId) fields.platform_data = { provisional_post_id: update.provisionalPostId };
+    } else if (to === 'failed') {
+      fields.error = update.error ?? 'Publishing failed';
+    } else if (to === 'queued') {
+      fields.error = null;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('published_posts')
+        .update(fields)
+        .eq('id', publishedPostId)
+        .in('status', sourcesOf(to))
+        .select('id');
+
+      if (error) {
+        logger.error('Failed to update publication status', error, { publishedPostId, to });
+        return false;
+      }
+
+      if (!data || data.length === 0) {
+        logger.warn('Publication status transition skipped', { publishedPostId, to });
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logger.error('Error updating publication status', error as Error, { publishedPostId, to });
+      return false;
+    }
+  }
+
+  /**
+   * Applies a status reported by the platform. Returns false if the row is
+   * missing or already in that status.
+   */
+  async applyPlatformReport(
+    publishedPostId: string,
+    status: PlatformReportedStatus,
+    update: PublicationUpdate & { occurredAt?: Date } = {}
+  ): Promise<boolean> {
+    if (!supabase) return false;
+
+    const fields: Record<string, unknown> = { status, updated_at: new Date().toISOString() };
+    if (status === 'published') {
+      fields.published_at = (update.occurredAt ?? new Date()).toISOString();
+      fields.error = null;
+    } else if (status === 'failed') {
+      fields.error = update.error ?? 'Rejected by the platform';
+    }
+
+    const { data, error } = await supabase
+      .from('published_posts')
+      .update(fields)
+      .eq('id', publishedPostId)
+      .in('status', PLATFORM_REPORT_SOURCES[status])
+      .select('id');
+
+    if (error) {
+      logger.error('Failed to apply platform-reported status', error, { publishedPostId, status });
+      throw error;
+    }
+
+    return (data ?? []).length > 0;
+  }
+}
+
+export const publicationStatusService = PublicationStatusService.getInstance();
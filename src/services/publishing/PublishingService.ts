@@ -1,10 +1,13 @@
 import { supabase } from '../../lib/supabase';
 import { logger } from '../../utils/logger';
-import { connectorRegistry } from '../../connectors/base/ConnectorRegistry';
-import { SocialConnector } from '../../connectors/base/SocialConnector';
-import { contentAdaptationService } from '../content/ContentAdaptationService';
+import { contentAdaptationService, ContentData, YouTubeOptions } from '../content/ContentAdaptationService';
 import { connectorService } from '../ConnectorService';
-import { jobQueue, JobType, JobPriority } from '../../workflows';
+import { publicationStatusService } from './PublicationStatusService';
+import { storageService } from '../media/StorageService';
+import { jobQueue, JobType, JobPriority, workflowEngine, WorkflowStatus, buildPublishWorkflow } from '../../workflows';
+import { RATE_LIMITS, SupportedPlatform } from '../../config/constants';
+
+const YOUTUBE_UPLOAD_TIMEOUT_MS = 2 * 60 * 60 * 1000;
 
 export interface PublishOptions {
   contentId: string;
@@ -12,13 +15,42 @@ export interface PublishOptions {
   userId: string;
   platforms: string[];
   scheduledFor?: Date;
+  /**
+   * Platform account to publish as, by platform. Required for platforms with
+   * more than one connected account in the workspace.
+   */
+  accounts?: Record<string, string>;
+  /** Merged into each job's metadata, e.g. the schedule being executed. */
+  metadata?: Record<string, unknown>;
+  /**
+   * Makes publishing safe to repeat: the first job of each platform's
+   * workflow is keyed by `<idempotencyKey>:<platform>`, and a platform that
+   * already has a job under its key is reported as published to that
+   * workflow instead of started again.
+   */
+  idempotencyKey?: string;
 }
 
 export interface PublishResult {
   success: boolean;
   publishedTo: string[];
   failed: Array<{ platform: string; error: string }>;
+  /** First job of each platform's publish workflow, in `publishedTo` order. */
   jobIds: string[];
+  /** Publish workflow runs; a platform whose existing job ran outside a workflow has none. */
+  workflowIds: string[];
+}
+
+/** The `content` columns a publish workflow is built from. */
+interface PublishableContent {
+  title?: string | null;
+  body: string;
+  metadata?: {
+    hashtags?: string[];
+    mediaUrls?: string[];
+    hashtagPlacement?: ContentData['hashtagPlacement'];
+    youtube?: YouTubeOptions;
+  } | null;
 }
 
 export class PublishingService {
@@ -38,7 +70,8 @@ export class PublishingService {
       success: false,
       publishedTo: [],
       failed: [],
-      jobIds: []
+      jobIds: [],
+      workflowIds: []
     };
 
     if (!supabase) {
@@ -64,15 +97,53 @@ export class PublishingService {
         return result;
       }
 
+      // Keeps the files being posted from being deleted out of the library
+      // while the jobs still need them.
+      const referenced = await storageService.syncContentMedia(
+        options.contentId,
+        options.workspaceId,
+        content.metadata?.mediaUrls ?? []
+      );
+      if (!referenced.success) {
+        result.failed = options.platforms.map(p => ({
+          platform: p,
+          error: `Failed to record content media: ${referenced.error}`
+        }));
+        return result;
+      }
+
+      // Only the connection is checked here; credentials are decrypted by the
+      // job that uses them.
+      const { connectors } = await connectorService.listWorkspaceConnectors(options.workspaceId);
+
       for (const platform of options.platforms) {
+        let publishedPostId: string | undefined;
+        const idempotencyKey = options.idempotencyKey ? `${options.idempotencyKey}:${platform}` : undefined;
+
         try {
-          const { credentials, error: credError } = await connectorService.getConnectorCredentials(
-            options.userId,
-            options.workspaceId,
-            platform
+          if (idempotencyKey) {
+            const existing = await jobQueue.findJobByIdempotencyKey(idempotencyKey);
+            if (existing) {
+              const workflowId = existing.metadata?.workflowId;
+              result.jobIds.push(existing.id);
+              if (typeof workflowId === 'string') {
+                result.workflowIds.push(workflowId);
+              }
+              result.publishedTo.push(platform);
+              logger.info('Publish workflow already started', { contentId: options.contentId, platform, jobId: existing.id });
+              continue;
+            }
+          }
+
+          const accountId = options.accounts?.[platform];
+          const candidates = connectors.filter(
+            connector =>
+              connector.platform === platform &&
+              connector.status === 'connected' &&
+              (accountId === undefined || connector.platformUserId === accountId)
           );
 
-          if (credError || !credentials) {
+          if (candidates.length === 0) {
             result.failed.push({
               platform,
               error: `Platform not connected: ${platform}`
@@ -80,49 +151,54 @@ export class PublishingService {
             continue;
           }
 
-          const adapted = contentAdaptationService.adaptForPlatform(
-            {
-              title: content.title,
-              body: content.body,
-              hashtags: content.metadata?.hashtags,
-              mediaUrls: content.metadata?.mediaUrls
-            },
-            platform as any
-          );
-
-          const job = await jobQueue.addJob(
-            JobType.POST_CONTENT,
-            {
-              connectorId: platform,
-              postData: {
-                content: adapted.content,
-                mediaUrls: adapted.mediaUrls,
-                metadata: adapted.metadata,
-                scheduledAt: options.scheduledFor
-              }
-            },
-            {
-              userId: options.userId,
-              connectorId: platform,
-              priority: options.scheduledFor ? JobPriority.NORMAL : JobPriority.HIGH,
-              scheduledFor: options.scheduledFor,
-              metadata: {
-                contentId: options.contentId,
-                workspaceId: options.workspaceId,
-                platform
-              }
-            }
-          );
+          if (candidates.length > 1) {
+            result.failed.push({
+              platform,
+              error: `Several ${platform} accounts are connected; choose one to publish as`
+            });
+            continue;
+          }
 
-          result.jobIds.push(job.id);
-          result.publishedTo.push(platform);
+          const { id: connectorRecordId, platformUserId } = candidates[0];
 
-          logger.info('Publish job queued', {
+          const queued = await publicationStatusService.queue({
             contentId: options.contentId,
+            connectorRecordId,
+            platform
+          });
+          publishedPostId = queued.publishedPostId;
+
+          if (queued.error || !publishedPostId) {
+            result.failed.push({
+              platform,
+              error: `Failed to record publication: ${queued.error?.message}`
+            });
+            continue;
+          }
+
+          const started = await this.startPublishWorkflow(content, {
             platform,
-            jobId: job.id
+            workspaceId: options.workspaceId,
+            accountId: platformUserId,
+            userId: options.userId,
+            scheduledFor: options.scheduledFor,
+            idempotencyKey,
+            metadata: {
+              ...options.metadata,
+              contentId: options.contentId,
+              workspaceId: options.workspaceId,
+              platform,
+              publishedPostId
+            }
           });
+
+          result.jobIds.push(started.jobId);
+          result.workflowIds.push(started.workflowId);
+          result.publishedTo.push(platform);
         } catch (error) {
+          if (publishedPostId) {
+            await publicationStatusService.transition(publishedPostId, 'failed', { error: (error as Error).message });
+          }
           result.failed.push({
             platform,
             error: (error as Error).message
@@ -132,13 +208,14 @@ export class PublishingService {
 
       result.success = result.publishedTo.length > 0;
 
-      if (result.success) {
+      // Otherwise the content status follows the platform rows as their jobs
+      // report back; see PublicationStatusService.
+      if (result.success && options.scheduledFor) {
         await supabase
           .from('content')
           .update({
-            status: options.scheduledFor ? 'scheduled' : 'published',
-            published_at: options.scheduledFor ? null : new Date().toISOString(),
-            scheduled_for: options.scheduledFor?.toISOString(),
+            status: 'scheduled',
+            scheduled_for: options.scheduledFor.toISOString(),
             updated_at: new Date().toISOString()
           })
           .eq('id', options.contentId);
@@ -155,6 +232,90 @@ export class PublishingService {
     }
   }
 
+  /**
+   * Adapts the content for one platform and starts its publish workflow.
+   * Throws when the run could not start; the caller fails the publication.
+   */
+  private async startPublishWorkflow(
+    content: PublishableContent,
+    options: {
+      platform: string;
+      workspaceId: string;
+      accountId?: string;
+      userId: string;
+      scheduledFor?: Date;
+      idempotencyKey?: string;
+      metadata: Record<string, unknown>;
+    }
+  ): Promise<{ workflowId: string; jobId: string }> {
+    const { platform } = options;
+
+    const adapted = contentAdaptationService.adaptForPlatform(
+      {
+        title: content.title ?? undefined,
+        body: content.body,
+        hashtags: content.metadata?.hashtags,
+        mediaUrls: content.metadata?.mediaUrls,
+        hashtagPlacement: content.metadata?.hashtagPlacement,
+        video: platform === 'youtube' ? await this.getVideoInfo(content.metadata?.mediaUrls?.[0]) : undefined,
+        youtube: content.metadata?.youtube
+      },
+      platform as SupportedPlatform
+    );
+
+    const definition = buildPublishWorkflow({
+      platform,
+      workspaceId: options.workspaceId,
+      accountId: options.accountId,
+      postData: {
+        content: adapted.content,
+        mediaUrls: adapted.mediaUrls,
+        metadata: adapted.metadata,
+        scheduledAt: options.scheduledFor
+      },
+      scheduledFor: options.scheduledFor,
+      // Multi-GB YouTube uploads outlast the default post timeout.
+      postTimeoutMs: platform === 'youtube' ? YOUTUBE_UPLOAD_TIMEOUT_MS : undefined,
+      postMetadata: { rateLimitCost: platform === 'youtube' ? RATE_LIMITS.youtube.uploadQuotaCost : 1 },
+      idempotencyKey: options.idempotencyKey
+    });
+
+    const run = await workflowEngine.start(definition, {
+      userId: options.userId,
+      metadata: options.metadata
+    });
+
+    const jobId = run.steps[definition.steps[0].id]?.jobId;
+    if (run.status === WorkflowStatus.FAILED || !jobId) {
+      throw new Error(run.error || 'Failed to start the publish workflow');
+    }
+
+    logger.info('Publish workflow started', {
+      contentId: options.metadata.contentId,
+      platform,
+      workflowId: run.id,
+      jobId
+    });
+
+    return { workflowId: run.id, jobId };
+  }
+
+  /** Dimensions and duration recorded for a stored media file, if any. */
+  private async getVideoInfo(
+    mediaUrl: string | undefined
+  ): Promise<{ width: number | null; height: number | null; duration: number | null } | undefined> {
+    if (!supabase || !mediaUrl) return undefined;
+
+    const { data } = await supabase
+      .from('media')
+      .select('width, height, duration')
+      .eq('url', mediaUrl)
+      .limit(1)
+      .maybeSingle();
+
+    return data ?? undefined;
+  }
+
   async batchPublish(
     contentIds: string[],
     options: {
@@ -243,9 +404,14 @@ export class PublishingService {
     }
   }
 
+  /**
+   * Publishes a failed post again by running the platform's publish workflow
+   * from the start, so its media is processed and uploaded again and its
+   * metrics are fetched.
+   */
   async retryFailedPost(
     postId: string
-  ): Promise<{ success: boolean; error?: string }> {
+  ): Promise<{ success: boolean; workflowId?: string; error?: string }> {
     if (!supabase) {
       return { success: false, error: 'Supabase not configured' };
     }
@@ -253,7 +419,7 @@ export class PublishingService {
     try {
       const { data: post, error: fetchError } = await supabase
         .from('published_posts')
-        .select('*, content:content_id(*)')
+        .select('*, content:content_id(*), connector:connector_id(platform_user_id)')
         .eq('id', postId)
         .single();
 
@@ -261,47 +427,45 @@ export class PublishingService {
         return { success: false, error: 'Post not found' };
       }
 
-      await supabase
-        .from('published_posts')
-        .update({
-          status: 'retrying',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', postId);
+      if (!await publicationStatusService.transition(postId, 'queued')) {
+        return { success: false, error: `Post cannot be retried while ${post.status}` };
+      }
 
-      const job = await jobQueue.addJob(
-        JobType.POST_CONTENT,
-        {
-          connectorId: post.platform,
-          postData: {
-            content: post.content.body,
-            metadata: post.metadata
-          }
-        },
-        {
+      try {
+        const { workflowId } = await this.startPublishWorkflow(post.content, {
+          platform: post.platform,
+          workspaceId: post.content.workspace_id,
+          accountId: post.connector?.platform_user_id ?? undefined,
           userId: post.content.created_by,
-          connectorId: post.platform,
-          priority: JobPriority.HIGH,
           metadata: {
             contentId: post.content_id,
-            postId: post.id,
+            workspaceId: post.content.workspace_id,
+            platform: post.platform,
+            publishedPostId: post.id,
             isRetry: true
           }
-        }
-      );
-
-      logger.info('Retry job queued', { postId, jobId: job.id });
+        });
 
-      return { success: true };
+        logger.info('Retry workflow started', { postId, workflowId });
+        return { success: true, workflowId };
+      } catch (error) {
+        await publicationStatusService.transition(postId, 'failed', { error: (error as Error).message });
+        throw error;
+      }
     } catch (error) {
       logger.error('Error retrying post', error as Error);
       return { success: false, error: (error as Error).message };
     }
   }
 
+  /**
+   * Deletes a published post from its platform. The platform call runs in a
+   * DELETE_CONTENT job, where the publishing account's credentials are
+   * available; the row is marked deleted once the platform confirms.
+   */
   async deletePublishedPost(
     postId: string
-  ): Promise<{ success: boolean; error?: string }> {
+  ): Promise<{ success: boolean; jobId?: string; error?: string }> {
     if (!supabase) {
       return { success: false, error: 'Supabase not configured' };
     }
@@ -309,7 +473,7 @@ export class PublishingService {
     try {
       const { data: post, error: fetchError } = await supabase
         .from('published_posts')
-        .select('*')
+        .select('*, content:content_id(created_by, workspace_id)')
         .eq('id', postId)
         .single();
 
@@ -317,18 +481,34 @@ export class PublishingService {
         return { success: false, error: 'Post not found' };
       }
 
-      const connector = connectorRegistry.getActiveConnector(post.platform);
-      if (connector && connector instanceof SocialConnector) {
-        await connector.deletePost(post.platform_post_id);
+      // Never reached the platform, so there is nothing to delete there.
+      if (!post.platform_post_id) {
+        await supabase
+          .from('published_posts')
+          .update({ status: 'deleted' })
+          .eq('id', postId);
+
+        logger.info('Post deleted', { postId });
+        return { success: true };
       }
 
-      await supabase
-        .from('published_posts')
-        .update({ status: 'deleted' })
-        .eq('id', postId);
+      const job = await jobQueue.addJob(
+        JobType.DELETE_CONTENT,
+        { contentId: post.content_id, publishedPostIds: [postId] },
+        {
+          userId: post.content.created_by,
+          connectorId: post.platform,
+          priority: JobPriority.HIGH,
+          metadata: {
+            contentId: post.content_id,
+            workspaceId: post.content.workspace_id,
+            publishedPostId: postId
+          }
+        }
+      );
 
-      logger.info('Post deleted', { postId });
-      return { success: true };
+      logger.info('Post deletion queued', { postId, jobId: job.id });
+      return { success: true, jobId: job.id };
     } catch (error) {
       logger.error('Error deleting post', error as Error);
       return { success: false, error: (error as Error).message };
@@ -0,0 +1,198 @@
+import { supabase } from '../../lib/supabase';
+import { logger } from '../../utils/logger';
+import { jobQueue, Job, JobStatus, JobType } from '../../workflows';
+import { SCHEDULE_CONFIG } from '../../config/constants';
+import { publishingService } from './PublishingService';
+import { ScheduleOutcome } from './SchedulingService';
+
+interface ScheduleRow {
+  id: string;
+  content_id: string;
+  workspace_id: string;
+  platforms: string[];
+  created_by: string;
+  outcomes: Record<string, ScheduleOutcome> | null;
+}
+
+/**
+ * Publishes due schedules from a headless worker (see scripts/worker.ts).
+ *
+ * Each poll claims a batch of due rows through `claim_due_schedules`, which
+ * locks them with `FOR UPDATE SKIP LOCKED`, so any number of executors can
+ * share the table. A claimed schedule gets one POST_CONTENT job per platform;
+ * platforms that already have an outcome are skipped, which makes re-claiming
+ * a schedule whose executor died halfway safe. When those jobs settle on
+ * whichever worker ran them, the outcome is written back per platform and the
+ * schedule moves to 'published', 'partially_published' or 'failed'.
+ */
+export class ScheduleExecutor {
+  private static instance: ScheduleExecutor;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private polling = false;
+
+  private constructor() {}
+
+  static getInstance(): ScheduleExecutor {
+    if (!ScheduleExecutor.instance) {
+      ScheduleExecutor.instance = new ScheduleExecutor();
+    }
+    return ScheduleExecutor.instance;
+  }
+
+  start(intervalMs: number = SCHEDULE_CONFIG.POLL_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.unsubscribe = jobQueue.onJobSettled(job => this.recordJobOutcome(job));
+    this.timer = setInterval(() => {
+      this.runOnce();
+    }, intervalMs);
+    this.runOnce();
+
+    logger.info('Schedule executor started', { workerId: jobQueue.getWorkerId(), intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /** Claims and executes one batch of due schedules; returns how many were claimed. */
+  async runOnce(): Promise<number> {
+    if (!supabase || this.polling) return 0;
+    this.polling = true;
+
+    try {
+      const now = new Date();
+      const { data, error } = await supabase.rpc('claim_due_schedules', {
+        p_worker_id: jobQueue.getWorkerId(),
+        p_now: now.toISOString(),
+        p_stale_before: new Date(now.getTime() - SCHEDULE_CONFIG.STALE_CLAIM_THRESHOLD_MS).toISOString(),
+        p_limit: SCHEDULE_CONFIG.CLAIM_BATCH_SIZE
+      });
+
+      if (error) {
+        logger.error('Failed to claim due schedules', error);
+        return 0;
+      }
+
+      const schedules = (data ?? []) as ScheduleRow[];
+      if (schedules.length > 0) {
+        logger.info(`Executing ${schedules.length} scheduled posts`);
+      }
+
+      for (const schedule of schedules) {
+        await this.executeSchedule(schedule);
+      }
+      return schedules.length;
+    } catch (error) {
+      logger.error('Error executing schedules', error as Error);
+      return 0;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async executeSchedule(schedule: ScheduleRow): Promise<void> {
+    const outcomes = schedule.outcomes ?? {};
+    const remaining = schedule.platforms.filter(platform => !outcomes[platform]);
+
+    if (schedule.platforms.length === 0) {
+      await supabase!
+        .from('schedules')
+        .update({
+          status: 'failed',
+          claimed_by: null,
+          completed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', schedule.id);
+      logger.warn('Schedule has no platforms', { scheduleId: schedule.id });
+      return;
+    }
+
+    if (remaining.length > 0) {
+      logger.info('Publishing scheduled post', { scheduleId: schedule.id, platforms: remaining });
+
+      const result = await publishingService.publishContent({
+        contentId: schedule.content_id,
+        workspaceId: schedule.workspace_id,
+        userId: schedule.created_by,
+        platforms: remaining,
+        metadata: { scheduleId: schedule.id },
+        // A run that stopped before recording its outcomes finds the jobs it
+        // already queued rather than posting twice.
+        idempotencyKey: `schedule:${schedule.id}`
+      });
+
+      for (const [index, platform] of result.publishedTo.entries()) {
+        await this.recordOutcome(schedule.id, platform, { status: 'queued', jobId: result.jobIds[index] });
+      }
+      for (const failure of result.failed) {
+        await this.recordOutcome(schedule.id, failure.platform, { status: 'failed', error: failure.error });
+      }
+    }
+
+    // Every platform now has a job or a failure; the claim is no longer needed.
+    await supabase!
+      .from('schedules')
+      .update({ claimed_by: null })
+      .eq('id', schedule.id)
+      .eq('claimed_by', jobQueue.getWorkerId());
+  }
+
+  private async recordJobOutcome(job: Job): Promise<void> {
+    const scheduleId = job.metadata?.scheduleId as string | undefined;
+    const platform = job.metadata?.platform as string | undefined;
+    if (!scheduleId || !platform) return;
+
+    // Media steps of the publish workflow only matter when they fail, since
+    // the post then never runs.
+    if (job.type === JobType.PROCESS_MEDIA || job.type === JobType.UPLOAD_MEDIA) {
+      if (job.status === JobStatus.COMPLETED) return;
+      await this.recordOutcome(scheduleId, platform, {
+        status: 'failed',
+        jobId: job.id,
+        error: job.status === JobStatus.CANCELLED ? 'Media job was cancelled' : job.error
+      });
+      return;
+    }
+    if (job.type !== JobType.POST_CONTENT) return;
+
+    const result = job.result as { postId?: string; url?: string } | undefined;
+    const outcome: ScheduleOutcome = job.status === JobStatus.COMPLETED
+      ? { status: 'published', jobId: job.id, postId: result?.postId, url: result?.url }
+      : {
+          status: 'failed',
+          jobId: job.id,
+          error: job.status === JobStatus.CANCELLED ? 'Publish job was cancelled' : job.error
+        };
+
+    await this.recordOutcome(scheduleId, platform, outcome);
+  }
+
+  private async recordOutcome(scheduleId: string, platform: string, outcome: ScheduleOutcome): Promise<void> {
+    const { data, error } = await supabase!.rpc('record_schedule_outcome', {
+      p_schedule_id: scheduleId,
+      p_platform: platform,
+      p_outcome: outcome,
+      p_now: new Date().toISOString()
+    });
+
+    if (error) {
+      logger.error('Failed to record schedule outcome', error, { scheduleId, platform });
+      return;
+    }
+
+    const status = (data as Array<{ status: string }> | null)?.[0]?.status;
+    if (status && status !== 'publishing') {
+      logger.info('Scheduled post finished', { scheduleId, status });
+    }
+  }
+}
+
+export const scheduleExecutor = ScheduleExecutor.getInstance();
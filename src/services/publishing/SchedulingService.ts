@@ -10,14 +10,24 @@ export interface ScheduleOptions {
   userId: string;
 }
 
+export interface ScheduleOutcome {
+  status: 'queued' | 'published' | 'failed';
+  jobId?: string;
+  postId?: string;
+  url?: string;
+  error?: string;
+}
+
 export interface ScheduledPost {
   id: string;
   contentId: string;
   workspaceId: string;
   scheduledFor: Date;
   timezone: string;
-  status: 'pending' | 'publishing' | 'published' | 'failed' | 'cancelled';
+  status: 'pending' | 'publishing' | 'published' | 'partially_published' | 'failed' | 'cancelled';
   platforms: string[];
+  /** Per-platform result, written by the ScheduleExecutor. */
+  outcomes: Record<string, ScheduleOutcome>;
   createdBy: string;
   createdAt: Date;
   updatedAt: Date;
@@ -26,9 +36,7 @@ export interface ScheduledPost {
 export class SchedulingService {
   private static instance: SchedulingService;
 
-  private constructor() {
-    this.startScheduleProcessor();
-  }
+  private constructor() {}
 
   static getInstance(): SchedulingService {
     if (!SchedulingService.instance) {
@@ -204,6 +212,7 @@ export class SchedulingService {
         timezone: s.timezone,
         status: s.status,
         platforms: s.platforms,
+        outcomes: s.outcomes || {},
         createdBy: s.created_by,
         createdAt: new Date(s.created_at),
         updatedAt: new Date(s.updated_at)
@@ -226,7 +235,8 @@ export class SchedulingService {
       youtube: [14, 17, 20],
       twitter: [8, 12, 17, 21],
       linkedin: [8, 10, 12, 17],
-      pinterest: [9, 14, 20]
+      pinterest: [9, 14, 20],
+      facebook: [9, 13, 15]
     };
 
     const hours = optimalHours[platform] || [9, 12, 15, 18];
@@ -243,53 +253,6 @@ export class SchedulingService {
 
     return { times, error: null };
   }
-
-  private startScheduleProcessor(): void {
-    if (typeof window === 'undefined') return;
-
-    setInterval(async () => {
-      await this.processSchedules();
-    }, 60000);
-  }
-
-  private async processSchedules(): Promise<void> {
-    if (!supabase) return;
-
-    try {
-      const now = new Date();
-
-      const { data: duePosts, error } = await supabase
-        .from('schedules')
-        .select('*')
-        .eq('status', 'pending')
-        .lte('scheduled_for', now.toISOString())
-        .limit(10);
-
-      if (error || !duePosts || duePosts.length === 0) {
-        return;
-      }
-
-      logger.info(`Processing ${duePosts.length} scheduled posts`);
-
-      for (const post of duePosts) {
-        await this.publishScheduledPost(post);
-      }
-    } catch (error) {
-      logger.error('Error processing schedules', error as Error);
-    }
-  }
-
-  private async publishScheduledPost(schedule: any): Promise<void> {
-    logger.info('Publishing scheduled post', { scheduleId: schedule.id });
-
-    await supabase
-      ?.from('schedules')
-      .update({
-        status: 'publishing',
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', schedule.id);
-  }
 }
 
 export const schedulingService = SchedulingService.getInstance();
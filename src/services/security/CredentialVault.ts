@@ -0,0 +1,282 @@
+import { supabase } from '../../lib/supabase';
+import { logger } from '../../utils/logger';
+import { AppError, ErrorCode } from '../../utils/errors';
+
+const CIPHERTEXT_PREFIX = 'enc:v1:';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+interface MasterKey {
+  id: string;
+  key: CryptoKey;
+}
+
+interface DataKeyRow {
+  id: string;
+  workspace_id: string;
+  wrapped_key: string;
+  master_key_id: string;
+}
+
+export interface RewrapResult {
+  rewrapped: number;
+  unchanged: number;
+  failed: Array<{ dataKeyId: string; error: string }>;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+async function seal(key: CryptoKey, plaintext: Uint8Array): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  return `${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+async function open(key: CryptoKey, sealed: string): Promise<Uint8Array> {
+  const [iv, ciphertext] = sealed.split(':');
+  if (!iv || !ciphertext) {
+    throw new Error('Malformed ciphertext');
+  }
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(ciphertext));
+  return new Uint8Array(plaintext);
+}
+
+/**
+ * Envelope encryption for connector secrets.
+ *
+ * Each workspace has one AES-256-GCM data key, stored in `workspace_data_keys`
+ * wrapped by a master key. Secrets are stored as
+ * `enc:v1:<data key id>:<iv>:<ciphertext>`, so values written before
+ * encryption was introduced are still recognised as plaintext.
+ *
+ * Master keys are base64-encoded 32-byte values that only exist in the
+ * server environment: `CREDENTIALS_MASTER_KEY` encrypts, and
+ * `CREDENTIALS_RETIRED_MASTER_KEYS` (comma-separated) can still unwrap data
+ * keys until `rewrapDataKeys` has moved them to the current key. Each key is
+ * identified by a fingerprint of its bytes. Browsers have no master key, so
+ * encryption and decryption only work in workers and server functions.
+ */
+export class CredentialVault {
+  private static instance: CredentialVault;
+  private masterKeys: Promise<{ current?: MasterKey; all: Map<string, MasterKey> }> | null = null;
+  private dataKeys: Map<string, Promise<CryptoKey>> = new Map();
+
+  private constructor() {}
+
+  static getInstance(): CredentialVault {
+    if (!CredentialVault.instance) {
+      CredentialVault.instance = new CredentialVault();
+    }
+    return CredentialVault.instance;
+  }
+
+  isEncrypted(value: string | null | undefined): boolean {
+    return typeof value === 'string' && value.startsWith(CIPHERTEXT_PREFIX);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return (await this.loadMasterKeys()).current !== undefined;
+  }
+
+  async encrypt(workspaceId: string, plaintext: string): Promise<string> {
+    const { id, key } = await this.getWorkspaceDataKey(workspaceId);
+    const sealed = await seal(key, new TextEncoder().encode(plaintext));
+    return `${CIPHERTEXT_PREFIX}${id}:${sealed}`;
+  }
+
+  /** Decrypts a stored secret; plaintext left over from before encryption is returned as is. */
+  async decrypt(value: string): Promise<string> {
+    if (!this.isEncrypted(value)) return value;
+
+    const rest = value.slice(CIPHERTEXT_PREFIX.length);
+    const separator = rest.indexOf(':');
+    const dataKeyId = rest.slice(0, separator);
+    const key = await this.getDataKey(dataKeyId);
+
+    return new TextDecoder().decode(await open(key, rest.slice(separator + 1)));
+  }
+
+  /**
+   * Re-wraps every workspace data key under the current master key. Data
+   * keys (and therefore the stored secrets) are unchanged, so this is safe to
+   * run while workers are reading credentials.
+   */
+  async rewrapDataKeys(): Promise<RewrapResult> {
+    const { current, all } = await this.loadMasterKeys();
+    if (!current) {
+      throw new AppError('CREDENTIALS_MASTER_KEY is not configured', ErrorCode.INTERNAL_ERROR);
+    }
+
+    const { data, error } = await supabase!
+      .from('workspace_data_keys')
+      .select('id, workspace_id, wrapped_key, master_key_id');
+
+    if (error) {
+      throw new AppError(`Failed to load data keys: ${error.message}`, ErrorCode.DATABASE_ERROR);
+    }
+
+    const result: RewrapResult = { rewrapped: 0, unchanged: 0, failed: [] };
+
+    for (const row of (data ?? []) as DataKeyRow[]) {
+      if (row.master_key_id === current.id) {
+        result.unchanged++;
+        continue;
+      }
+
+      try {
+        const wrappingKey = all.get(row.master_key_id);
+        if (!wrappingKey) {
+          throw new Error(`Master key ${row.master_key_id} is not in the keyring`);
+        }
+
+        const rawKey = await open(wrappingKey.key, row.wrapped_key);
+        const { error: updateError } = await supabase!
+          .from('workspace_data_keys')
+          .update({
+            wrapped_key: await seal(current.key, rawKey),
+            master_key_id: current.id,
+            rotated_at: new Date().toISOString()
+          })
+          .eq('id', row.id)
+          .eq('master_key_id', row.master_key_id);
+
+        if (updateError) throw updateError;
+        result.rewrapped++;
+      } catch (rewrapError) {
+        logger.error('Failed to re-wrap data key', rewrapError as Error, { dataKeyId: row.id });
+        result.failed.push({ dataKeyId: row.id, error: (rewrapError as Error).message });
+      }
+    }
+
+    logger.info('Data keys re-wrapped', { masterKeyId: current.id, rewrapped: result.rewrapped, failed: result.failed.length });
+    return result;
+  }
+
+  private async getWorkspaceDataKey(workspaceId: string): Promise<{ id: string; key: CryptoKey }> {
+    const existing = await this.findWorkspaceDataKey(workspaceId);
+    if (existing) {
+      return { id: existing.id, key: await this.getDataKey(existing.id, existing) };
+    }
+
+    const { current } = await this.loadMasterKeys();
+    if (!current) {
+      throw new AppError('CREDENTIALS_MASTER_KEY is not configured', ErrorCode.INTERNAL_ERROR);
+    }
+
+    const rawKey = crypto.getRandomValues(new Uint8Array(KEY_BYTES));
+    const { error } = await supabase!
+      .from('workspace_data_keys')
+      .upsert(
+        { workspace_id: workspaceId, wrapped_key: await seal(current.key, rawKey), master_key_id: current.id },
+        { onConflict: 'workspace_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      throw new AppError(`Failed to create data key: ${error.message}`, ErrorCode.DATABASE_ERROR);
+    }
+
+    // Another process may have won the insert; use whichever key was stored.
+    const stored = await this.findWorkspaceDataKey(workspaceId);
+    if (!stored) {
+      throw new AppError(`Data key for workspace ${workspaceId} was not stored`, ErrorCode.DATABASE_ERROR);
+    }
+    return { id: stored.id, key: await this.getDataKey(stored.id, stored) };
+  }
+
+  private async findWorkspaceDataKey(workspaceId: string): Promise<DataKeyRow | null> {
+    if (!supabase) {
+      throw new AppError('Supabase not configured', ErrorCode.DATABASE_ERROR);
+    }
+
+    const { data, error } = await supabase
+      .from('workspace_data_keys')
+      .select('id, workspace_id, wrapped_key, master_key_id')
+      .eq('workspace_id', workspaceId)
+      .maybeSingle();
+
+    if (error) {
+      throw new AppError(`Failed to load data key: ${error.message}`, ErrorCode.DATABASE_ERROR);
+    }
+    return data;
+  }
+
+  private getDataKey(dataKeyId: string, row?: DataKeyRow): Promise<CryptoKey> {
+    let key = this.dataKeys.get(dataKeyId);
+    if (!key) {
+      key = this.unwrapDataKey(dataKeyId, row);
+      this.dataKeys.set(dataKeyId, key);
+      key.catch(() => this.dataKeys.delete(dataKeyId));
+    }
+    return key;
+  }
+
+  private async unwrapDataKey(dataKeyId: string, row?: DataKeyRow): Promise<CryptoKey> {
+    if (!row) {
+      const { data, error } = await supabase!
+        .from('workspace_data_keys')
+        .select('id, workspace_id, wrapped_key, master_key_id')
+        .eq('id', dataKeyId)
+        .maybeSingle();
+
+      if (error || !data) {
+        throw new AppError(`Data key ${dataKeyId} not found`, ErrorCode.NOT_FOUND);
+      }
+      row = data as DataKeyRow;
+    }
+
+    const { all } = await this.loadMasterKeys();
+    const masterKey = all.get(row.master_key_id);
+    if (!masterKey) {
+      throw new AppError(`Master key ${row.master_key_id} is not configured`, ErrorCode.INTERNAL_ERROR);
+    }
+
+    const rawKey = await open(masterKey.key, row.wrapped_key);
+    return crypto.subtle.importKey('raw', rawKey, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  }
+
+  private loadMasterKeys(): Promise<{ current?: MasterKey; all: Map<string, MasterKey> }> {
+    if (!this.masterKeys) {
+      this.masterKeys = (async () => {
+        const env = typeof window === 'undefined' ? globalThis.process?.env : undefined;
+        const all = new Map<string, MasterKey>();
+
+        const current = env?.CREDENTIALS_MASTER_KEY ? await this.importMasterKey(env.CREDENTIALS_MASTER_KEY) : undefined;
+        if (current) all.set(current.id, current);
+
+        for (const encoded of (env?.CREDENTIALS_RETIRED_MASTER_KEYS ?? '').split(',')) {
+          if (!encoded.trim()) continue;
+          const retired = await this.importMasterKey(encoded.trim());
+          all.set(retired.id, retired);
+        }
+
+        return { current, all };
+      })();
+    }
+    return this.masterKeys;
+  }
+
+  private async importMasterKey(encoded: string): Promise<MasterKey> {
+    const raw = fromBase64(encoded);
+    if (raw.length !== KEY_BYTES) {
+      throw new AppError(`Master keys must be ${KEY_BYTES} bytes, base64-encoded`, ErrorCode.VALIDATION_ERROR);
+    }
+
+    const fingerprint = new Uint8Array(await crypto.subtle.digest('SHA-256', raw));
+    return {
+      id: Array.from(fingerprint.slice(0, 8), byte => byte.toString(16).padStart(2, '0')).join(''),
+      key: await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt'])
+    };
+  }
+}
+
+export const credentialVault = CredentialVault.getInstance();
@@ -0,0 +1,2 @@
+export { credentialVault } from './CredentialVault';
+export type { RewrapResult } from './CredentialVault';
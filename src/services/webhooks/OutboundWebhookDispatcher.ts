@@ -0,0 +1,116 @@
+import { supabase } from '../../lib/supabase';
+import { logger } from '../../utils/logger';
+import { jobQueue, JobType } from '../../workflows';
+import { OUTBOUND_WEBHOOK_CONFIG } from '../../config/constants';
+
+interface UnqueuedDelivery {
+  id: string;
+  endpoint: { created_by: string } | null;
+}
+
+/**
+ * Turns outbox events into delivery jobs from a headless worker (see
+ * scripts/worker.ts).
+ *
+ * Each poll fans undispatched outbox events out into deliveries through
+ * `dispatch_webhook_events`, which locks them with `FOR UPDATE SKIP LOCKED`,
+ * then queues a DELIVER_WEBHOOK job for every delivery that has none yet,
+ * including redeliveries requested through the API. A delivery that ends up
+ * queued twice (two workers polling at once, or a crash before `job_id` was
+ * stored) is sent once: the job that claims it first wins.
+ */
+export class OutboundWebhookDispatcher {
+  private static instance: OutboundWebhookDispatcher;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  private constructor() {}
+
+  static getInstance(): OutboundWebhookDispatcher {
+    if (!OutboundWebhookDispatcher.instance) {
+      OutboundWebhookDispatcher.instance = new OutboundWebhookDispatcher();
+    }
+    return OutboundWebhookDispatcher.instance;
+  }
+
+  start(intervalMs: number = OUTBOUND_WEBHOOK_CONFIG.DISPATCH_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runOnce();
+    }, intervalMs);
+    this.runOnce();
+
+    logger.info('Outbound webhook dispatcher started', { workerId: jobQueue.getWorkerId(), intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Dispatches pending events and queues their deliveries; returns how many jobs were queued. */
+  async runOnce(): Promise<number> {
+    if (!supabase || this.polling) return 0;
+    this.polling = true;
+
+    try {
+      const { error: dispatchError } = await supabase.rpc('dispatch_webhook_events', {
+        p_limit: OUTBOUND_WEBHOOK_CONFIG.DISPATCH_BATCH_SIZE
+      });
+      if (dispatchError) {
+        logger.error('Failed to dispatch webhook events', dispatchError);
+      }
+
+      const { data, error } = await supabase
+        .from('webhook_deliveries')
+        .select('id, endpoint:endpoint_id(created_by)')
+        .eq('status', 'pending')
+        .is('job_id', null)
+        .order('created_at', { ascending: true })
+        .limit(OUTBOUND_WEBHOOK_CONFIG.DISPATCH_BATCH_SIZE);
+
+      if (error) {
+        logger.error('Failed to load unqueued webhook deliveries', error);
+        return 0;
+      }
+
+      const deliveries = (data ?? []) as unknown as UnqueuedDelivery[];
+      let queued = 0;
+      for (const delivery of deliveries) {
+        if (!delivery.endpoint) continue;
+        await this.queueDelivery(delivery.id, delivery.endpoint.created_by);
+        queued++;
+      }
+
+      if (queued > 0) {
+        logger.info(`Queued ${queued} webhook deliveries`);
+      }
+      return queued;
+    } catch (error) {
+      logger.error('Error dispatching webhooks', error as Error);
+      return 0;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async queueDelivery(deliveryId: string, userId: string): Promise<void> {
+    const job = await jobQueue.addJob(JobType.DELIVER_WEBHOOK, { deliveryId }, { userId });
+
+    // Only records the job; the job claims the delivery itself when it runs.
+    const { error } = await supabase!
+      .from('webhook_deliveries')
+      .update({ job_id: job.id })
+      .eq('id', deliveryId)
+      .is('job_id', null);
+
+    if (error) {
+      logger.warn('Failed to record webhook delivery job', { deliveryId, jobId: job.id, error: error.message });
+    }
+  }
+}
+
+export const outboundWebhookDispatcher = OutboundWebhookDispatcher.getInstance();
@@ -0,0 +1,385 @@
+import { supabase } from '../../lib/supabase';
+import { logger } from '../../utils/logger';
+import { AppError, ErrorCode, NotFoundError, ValidationError } from '../../utils/errors';
+import { WEBHOOK_EVENTS } from '../../config/constants';
+import { credentialVault } from '../security/CredentialVault';
+import { hmacHex } from './verifiers';
+import { assertDeliverableWebhookUrl } from './webhookUrlPolicy';
+
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'succeeded' | 'failed' | 'cancelled';
+
+/** A subscribed URL; the signing secret is never read back. */
+export interface WebhookEndpoint {
+  id: string;
+  workspace_id: string;
+  url: string;
+  description: string | null;
+  /** Event types delivered to the endpoint; empty means all of them. */
+  events: string[];
+  is_active: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDeliveryAttempt {
+  id: string;
+  attempt: number;
+  status_code: number | null;
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number | null;
+  attempted_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  workspace_id: string;
+  /** Shared by redeliveries of the same event; receivers deduplicate on it. */
+  event_id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  occurred_at: string;
+  status: WebhookDeliveryStatus;
+  job_id: string | null;
+  attempts: number;
+  last_status_code: number | null;
+  last_error: string | null;
+  last_attempt_at: string | null;
+  delivered_at: string | null;
+  redelivery_of: string | null;
+  created_at: string;
+  attempts_log?: WebhookDeliveryAttempt[];
+}
+
+export interface CreateWebhookEndpointInput {
+  workspaceId: string;
+  url: string;
+  description?: string;
+  events?: string[];
+  createdBy: string;
+}
+
+export interface UpdateWebhookEndpointInput {
+  url?: string;
+  description?: string | null;
+  events?: string[];
+  isActive?: boolean;
+}
+
+const ENDPOINT_COLUMNS = 'id, workspace_id, url, description, events, is_active, created_by, created_at, updated_at';
+
+const KNOWN_EVENTS = new Set<string>(Object.values(WEBHOOK_EVENTS));
+
+/**
+ * Workspace webhook subscriptions for the events in WEBHOOK_EVENTS.
+ *
+ * Events are written to `webhook_outbox` by database triggers (and by
+ * `emit` for the ones the application raises), fanned out into one
+ * `webhook_deliveries` row per subscribed endpoint by
+ * OutboundWebhookDispatcher and sent by DELIVER_WEBHOOK jobs, which retry
+ * with the queue's backoff and log every attempt.
+ *
+ * Requests are signed like Stripe's: `X-Webhook-Signature: t=<unix
+ * seconds>,v1=<hex>`, an HMAC-SHA256 of `<t>.<raw body>` under the
+ * endpoint's secret. Secrets are stored encrypted, so this service is
+ * server-side only.
+ */
+export class OutboundWebhookService {
+  private static instance: OutboundWebhookService;
+
+  private constructor() {}
+
+  static getInstance(): OutboundWebhookService {
+    if (!OutboundWebhookService.instance) {
+      OutboundWebhookService.instance = new OutboundWebhookService();
+    }
+    return OutboundWebhookService.instance;
+  }
+
+  /** Registers an endpoint; the returned secret is shown once and cannot be read back. */
+  async createEndpoint(
+    input: CreateWebhookEndpointInput
+  ): Promise<{ endpoint: WebhookEndpoint | null; secret: string | null; error: Error | null }> {
+    try {
+      const db = this.db();
+      const url = await this.validateUrl(input.url);
+      const events = this.validateEvents(input.events ?? []);
+      const secret = this.generateSecret();
+
+      const { data, error } = await db
+        .from('webhook_endpoints')
+        .insert({
+          workspace_id: input.workspaceId,
+          url,
+          description: input.description ?? null,
+          events,
+          secret: await credentialVault.encrypt(input.workspaceId, secret),
+          created_by: input.createdBy
+        })
+        .select(ENDPOINT_COLUMNS)
+        .single();
+
+      if (error) {
+        throw new AppError(`Failed to create webhook endpoint: ${error.message}`, ErrorCode.DATABASE_ERROR);
+      }
+
+      logger.info('Webhook endpoint created', { workspaceId: input.workspaceId, endpointId: data.id, events });
+      return { endpoint: data as WebhookEndpoint, secret, error: null };
+    } catch (error) {
+      logger.error('Error creating webhook endpoint', error as Error, { workspaceId: input.workspaceId });
+      return { endpoint: null, secret: null, error: error as Error };
+    }
+  }
+
+  async updateEndpoint(
+    workspaceId: string,
+    endpointId: string,
+    updates: UpdateWebhookEndpointInput
+  ): Promise<{ endpoint: WebhookEndpoint | null; error: Error | null }> {
+    try {
+      const db = this.db();
+      const changes: Record<string, unknown> = { updated_at: new Date().toISOString() };
+      if (updates.url !== undefined) changes.url = await this.validateUrl(updates.url);
+      if (updates.description !== undefined) changes.description = updates.description;
+      if (updates.events !== undefined) changes.events = this.validateEvents(updates.events);
+      if (updates.isActive !== undefined) changes.is_active = updates.isActive;
+
+      const { data, error } = await db
+        .from('webhook_endpoints')
+        .update(changes)
+        .eq('id', endpointId)
+        .eq('workspace_id', workspaceId)
+        .select(ENDPOINT_COLUMNS)
+        .maybeSingle();
+
+      if (error) {
+        throw new AppError(`Failed to update webhook endpoint: ${error.message}`, ErrorCode.DATABASE_ERROR);
+      }
+      if (!data) {
+        throw new NotFoundError('Webhook endpoint', { endpointId });
+      }
+
+      return { endpoint: data as WebhookEndpoint, error: null };
+    } catch (error) {
+      logger.error('Error updating webhook endpoint', error as Error, { workspaceId, endpointId });
+      return { endpoint: null, error: error as Error };
+    }
+  }
+
+  /** Replaces the signing secret; deliveries already in flight are signed with the new one. */
+  async rotateSecret(
+    workspaceId: string,
+    endpointId: string
+  ): Promise<{ secret: string | null; error: Error | null }> {
+    try {
+      const db = this.db();
+      const secret = this.generateSecret();
+
+      const { data, error } = await db
+        .from('webhook_endpoints')
+        .update({
+          secret: await credentialVault.encrypt(workspaceId, secret),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', endpointId)
+        .eq('workspace_id', workspaceId)
+        .select('id')
+        .maybeSingle();
+
+      if (error) {
+        throw new AppError(`Failed to rotate webhook secret: ${error.message}`, ErrorCode.DATABASE_ERROR);
+      }
+      if (!data) {
+        throw new NotFoundError('Webhook endpoint', { endpointId });
+      }
+
+      logger.info('Webhook secret rotated', { workspaceId, endpointId });
+      return { secret, error: null };
+    } catch (error) {
+      logger.error('Error rotating webhook secret', error as Error, { workspaceId, endpointId });
+      return { secret: null, error: error as Error };
+    }
+  }
+
+  /** Deletes the endpoint together with its delivery log. */
+  async deleteEndpoint(workspaceId: string, endpointId: string): Promise<{ error: Error | null }> {
+    try {
+      const { error } = await this.db()
+        .from('webhook_endpoints')
+        .delete()
+        .eq('id', endpointId)
+        .eq('workspace_id', workspaceId);
+
+      if (error) {
+        throw new AppError(`Failed to delete webhook endpoint: ${error.message}`, ErrorCode.DATABASE_ERROR);
+      }
+      return { error: null };
+    } catch (error) {
+      logger.error('Error deleting webhook endpoint', error as Error, { workspaceId, endpointId });
+      return { error: error as Error };
+    }
+  }
+
+  async listEndpoints(workspaceId: string): Promise<{ endpoints: WebhookEndpoint[]; error: Error | null }> {
+    try {
+      const { data, error } = await this.db()
+        .from('webhook_endpoints')
+        .select(ENDPOINT_COLUMNS)
+        .eq('workspace_id', workspaceId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new AppError(`Failed to load webhook endpoints: ${error.message}`, ErrorCode.DATABASE_ERROR);
+      }
+      return { endpoints: (data ?? []) as WebhookEndpoint[], error: null };
+    } catch (error) {
+      logger.error('Error loading webhook endpoints', error as Error, { workspaceId });
+      return { endpoints: [], error: error as Error };
+    }
+  }
+
+  /** The delivery log, newest first, with every HTTP attempt and its response code. */
+  async listDeliveries(
+    workspaceId: string,
+    options: { endpointId?: string; status?: WebhookDeliveryStatus; limit?: number } = {}
+  ): Promise<{ deliveries: WebhookDelivery[]; error: Error | null }> {
+    try {
+      let query = this.db()
+        .from('webhook_deliveries')
+        .select('*, attempts_log:webhook_delivery_attempts(id, attempt, status_code, response_body, error, duration_ms, attempted_at)')
+        .eq('workspace_id', workspaceId)
+        .order('created_at', { ascending: false })
+        .limit(options.limit ?? 50);
+
+      if (options.endpointId) query = query.eq('endpoint_id', options.endpointId);
+      if (options.status) query = query.eq('status', options.status);
+
+      const { data, error } = await query;
+      if (error) {
+        throw new AppError(`Failed to load webhook deliveries: ${error.message}`, ErrorCode.DATABASE_ERROR);
+      }
+
+      const deliveries = (data ?? []) as WebhookDelivery[];
+      for (const delivery of deliveries) {
+        delivery.attempts_log?.sort((a, b) => a.attempt - b.attempt);
+      }
+      return { deliveries, error: null };
+    } catch (error) {
+      logger.error('Error loading webhook deliveries', error as Error, { workspaceId });
+      return { deliveries: [], error: error as Error };
+    }
+  }
+
+  /**
+   * Raises an event that no trigger covers. It is delivered after the next
+   * dispatcher poll, to the workspace's active endpoints that subscribe to it.
+   */
+  async emit(workspaceId: string, event: string, payload: Record<string, unknown>): Promise<{ error: Error | null }> {
+    try {
+      const { error } = await this.db().rpc('enqueue_webhook_event', {
+        p_workspace_id: workspaceId,
+        p_event: event,
+        p_payload: payload
+      });
+
+      if (error) {
+        throw new AppError(`Failed to enqueue webhook event: ${error.message}`, ErrorCode.DATABASE_ERROR);
+      }
+      return { error: null };
+    } catch (error) {
+      logger.error('Error emitting webhook event', error as Error, { workspaceId, event });
+      return { error: error as Error };
+    }
+  }
+
+  /**
+   * Sends a delivery again as a new delivery with the same event id, whatever
+   * the original's outcome. The dispatcher queues it on its next poll.
+   */
+  async redeliver(
+    workspaceId: string,
+    deliveryId: string
+  ): Promise<{ delivery: WebhookDelivery | null; error: Error | null }> {
+    try {
+      const db = this.db();
+      const { data: original, error: loadError } = await db
+        .from('webhook_deliveries')
+        .select('id, endpoint_id, workspace_id, event_id, event, payload, occurred_at, endpoint:endpoint_id(is_active)')
+        .eq('id', deliveryId)
+        .eq('workspace_id', workspaceId)
+        .maybeSingle();
+
+      if (loadError) {
+        throw new AppError(`Failed to load webhook delivery: ${loadError.message}`, ErrorCode.DATABASE_ERROR);
+      }
+      if (!original) {
+        throw new NotFoundError('Webhook delivery', { deliveryId });
+      }
+      if (!(original.endpoint as unknown as { is_active: boolean } | null)?.is_active) {
+        throw new ValidationError('The webhook endpoint is disabled', { deliveryId });
+      }
+
+      const { data, error } = await db
+        .from('webhook_deliveries')
+        .insert({
+          endpoint_id: original.endpoint_id,
+          workspace_id: original.workspace_id,
+          event_id: original.event_id,
+          event: original.event,
+          payload: original.payload,
+          occurred_at: original.occurred_at,
+          redelivery_of: original.id
+        })
+        .select('*')
+        .single();
+
+      if (error) {
+        throw new AppError(`Failed to create webhook redelivery: ${error.message}`, ErrorCode.DATABASE_ERROR);
+      }
+
+      logger.info('Webhook redelivery requested', { workspaceId, deliveryId, redeliveryId: data.id });
+      return { delivery: data as WebhookDelivery, error: null };
+    } catch (error) {
+      logger.error('Error redelivering webhook', error as Error, { workspaceId, deliveryId });
+      return { delivery: null, error: error as Error };
+    }
+  }
+
+  /** The `X-Webhook-Signature` value for a request body sent at `timestamp` (unix seconds). */
+  async sign(secret: string, timestamp: number, body: string): Promise<string> {
+    return `t=${timestamp},v1=${await hmacHex('SHA-256', secret, `${timestamp}.${body}`)}`;
+  }
+
+  private db() {
+    if (!supabase) {
+      throw new AppError('Supabase not configured', ErrorCode.DATABASE_ERROR);
+    }
+    return supabase;
+  }
+
+  private async validateUrl(value: string): Promise<string> {
+    try {
+      return await assertDeliverableWebhookUrl(value);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new ValidationError('Webhook URL host could not be resolved', { url: value });
+    }
+  }
+
+  private validateEvents(events: string[]): string[] {
+    const unknown = events.filter(event => !KNOWN_EVENTS.has(event));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown webhook events: ${unknown.join(', ')}`, { events: unknown });
+    }
+    return Array.from(new Set(events));
+  }
+
+  private generateSecret(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    return `whsec_${Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+  }
+}
+
+export const outboundWebhookService = OutboundWebhookService.getInstance();
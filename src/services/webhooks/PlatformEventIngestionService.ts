@@ -0,0 +1,240 @@
+import { supabase } from '../../lib/supabase';
+import { logger } from '../../utils/logger';
+import { AppError, ErrorCode } from '../../utils/errors';
+import { publicationStatusService } from '../publishing/PublicationStatusService';
+import { postingTimeAnalyzer } from '../analytics/PostingTimeAnalyzer';
+import { alertService } from '../analytics/AlertService';
+import { WEBHOOK_EVENTS } from '../../config/constants';
+import { PlatformEvent, PostMetricValues } from './platformEvents';
+import { outboundWebhookService } from './OutboundWebhookService';
+
+interface TrackedPost {
+  id: string;
+  content_id: string | null;
+  platform: string;
+  platform_post_id: string;
+  platform_data: Record<string, unknown> | null;
+  published_at: string | null;
+  connector: { id: string; workspace_id: string; platform_user_id: string | null };
+}
+
+/**
+ * Applies normalized platform events to the posts we track, so analytics
+ * follow the platforms in near real time instead of waiting for the next
+ * FetchMetricsJob poll:
+ *
+ * - status events move `published_posts` through PublicationStatusService
+ *   (the content status follows via its trigger);
+ * - metric events are merged into `published_posts.platform_data.metrics`,
+ *   then snapshotted into `content_analytics` and `engagement_by_time`,
+ *   checked against the workspace's alerts and announced to its webhook
+ *   subscribers as `analytics.updated`.
+ *
+ * Only the `published_posts` writes can fail an event (and so have the
+ * provider redeliver it); the derived snapshots and alerts are best effort,
+ * because a redelivery would apply metric increments twice.
+ */
+export class PlatformEventIngestionService {
+  private static instance: PlatformEventIngestionService;
+
+  private constructor() {}
+
+  static getInstance(): PlatformEventIngestionService {
+    if (!PlatformEventIngestionService.instance) {
+      PlatformEventIngestionService.instance = new PlatformEventIngestionService();
+    }
+    return PlatformEventIngestionService.instance;
+  }
+
+  /** Returns the number of tracked posts the event was applied to. */
+  async apply(event: PlatformEvent): Promise<number> {
+    const posts = await this.findPosts(event);
+    if (posts.length === 0) {
+      logger.debug('Platform event for an untracked post', {
+        platform: event.platform,
+        kind: event.kind,
+        platformPostId: event.platformPostId
+      });
+      return 0;
+    }
+
+    for (const post of posts) {
+      switch (event.kind) {
+        case 'media.processed':
+          await this.applyProcessed(post, event);
+          break;
+
+        case 'media.failed':
+          await publicationStatusService.applyPlatformReport(post.id, 'failed', { error: event.error });
+          break;
+
+        case 'post.deleted':
+          await publicationStatusService.applyPlatformReport(post.id, 'deleted');
+          break;
+
+        case 'comment.created':
+        case 'metrics.updated':
+          await this.applyMetrics(post, event);
+          break;
+      }
+    }
+
+    logger.info('Applied platform event', {
+      platform: event.platform,
+      kind: event.kind,
+      platformPostId: event.platformPostId,
+      posts: posts.length
+    });
+    return posts.length;
+  }
+
+  /**
+   * Posts matching the event's post id, narrowed to the event's account when
+   * it names one. Several workspaces may track the same account.
+   */
+  private async findPosts(event: PlatformEvent): Promise<TrackedPost[]> {
+    if (!supabase) {
+      throw new AppError('Supabase not configured', ErrorCode.DATABASE_ERROR);
+    }
+
+    const select = 'id, content_id, platform, platform_post_id, platform_data, published_at, connector:connector_id!inner(id, workspace_id, platform_user_id)';
+    const query = (column: string) => {
+      let builder = supabase!
+        .from('published_posts')
+        .select(select)
+        .eq('platform', event.platform)
+        .eq(column, event.platformPostId)
+        .neq('status', 'deleted');
+      if (event.platformUserId) {
+        builder = builder.eq('connector.platform_user_id', event.platformUserId);
+      }
+      return builder;
+    };
+
+    const { data, error } = await query('platform_post_id');
+    if (error) {
+      throw new AppError(`Failed to look up published posts: ${error.message}`, ErrorCode.DATABASE_ERROR);
+    }
+    if (data && data.length > 0) {
+      return data as unknown as TrackedPost[];
+    }
+
+    // A post whose provisional id was already replaced by its permanent one.
+    const { data: renamed, error: renamedError } = await query('platform_data->>provisional_post_id');
+    if (renamedError) {
+      throw new AppError(`Failed to look up published posts: ${renamedError.message}`, ErrorCode.DATABASE_ERROR);
+    }
+    return (renamed ?? []) as unknown as TrackedPost[];
+  }
+
+  private async applyProcessed(post: TrackedPost, event: PlatformEvent): Promise<void> {
+    await publicationStatusService.applyPlatformReport(post.id, 'published', { occurredAt: event.occurredAt });
+
+    if (!event.canonicalPostId || event.canonicalPostId === post.platform_post_id) return;
+
+    // Keep the provisional id so later events that still reference it match,
+    // and store the permanent one where platform syncs will look for it.
+    const { error } = await supabase!
+      .from('published_posts')
+      .update({
+        platform_post_id: event.canonicalPostId,
+        platform_data: { ...(post.platform_data ?? {}), provisional_post_id: post.platform_post_id },
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', post.id);
+
+    if (error) {
+      throw new AppError(`Failed to store the post id: ${error.message}`, ErrorCode.DATABASE_ERROR);
+    }
+  }
+
+  private async applyMetrics(post: TrackedPost, event: PlatformEvent): Promise<void> {
+    const { data, error } = await supabase!.rpc('apply_post_metrics', {
+      p_post_id: post.id,
+      p_metrics: this.definedValues(event.metrics),
+      p_increments: this.definedValues(event.increments)
+    });
+
+    if (error) {
+      throw new AppError(`Failed to apply post metrics: ${error.message}`, ErrorCode.DATABASE_ERROR);
+    }
+    if (!data) return;
+
+    await this.recordSnapshots(post, data as PostMetricValues).catch(snapshotError => {
+      logger.error('Failed to record metrics from platform event', snapshotError as Error, { postId: post.id });
+    });
+  }
+
+  private async recordSnapshots(post: TrackedPost, metrics: PostMetricValues): Promise<void> {
+    const workspaceId = post.connector.workspace_id;
+    const counters = {
+      views: metrics.views ?? 0,
+      likes: metrics.likes ?? 0,
+      comments: metrics.comments ?? 0,
+      shares: metrics.shares ?? 0
+    };
+    const engagementCount = counters.likes + counters.comments + counters.shares;
+    const engagementRate = counters.views > 0
+      ? Math.min(999.99, Math.round((engagementCount / counters.views) * 10000) / 100)
+      : 0;
+
+    if (post.content_id) {
+      const now = new Date();
+      const { error } = await supabase!
+        .from('content_analytics')
+        .upsert({
+          workspace_id: workspaceId,
+          content_id: post.content_id,
+          platform: post.platform,
+          ...counters,
+          impressions: metrics.impressions ?? 0,
+          reach: metrics.reach ?? 0,
+          engagement_count: engagementCount,
+          engagement_rate: engagementRate,
+          snapshot_date: now.toISOString().slice(0, 10),
+          collected_at: now.toISOString(),
+          updated_at: now.toISOString()
+        }, { onConflict: 'content_id,platform,snapshot_date' });
+
+      if (error) throw error;
+    }
+
+    await outboundWebhookService.emit(workspaceId, WEBHOOK_EVENTS.ANALYTICS_UPDATED, {
+      content_id: post.content_id,
+      published_post_id: post.id,
+      platform: post.platform,
+      platform_post_id: post.platform_post_id,
+      metrics: { ...counters, impressions: metrics.impressions ?? 0, reach: metrics.reach ?? 0 },
+      engagement_rate: engagementRate
+    });
+
+    if (post.published_at) {
+      await postingTimeAnalyzer.recordEngagement(workspaceId, post.id, post.platform, new Date(post.published_at), counters);
+    }
+
+    await alertService.monitorMetrics(
+      workspaceId,
+      {
+        ...counters,
+        impressions: metrics.impressions ?? 0,
+        reach: metrics.reach ?? 0,
+        engagement_rate: engagementRate
+      },
+      {
+        platform: post.platform,
+        connectorId: post.connector.id,
+        contentId: post.content_id ?? undefined
+      }
+    );
+  }
+
+  private definedValues(values?: PostMetricValues): Record<string, number> {
+    const result: Record<string, number> = {};
+    for (const [key, value] of Object.entries(values ?? {})) {
+      if (value !== undefined) result[key] = value;
+    }
+    return result;
+  }
+}
+
+export const platformEventIngestionService = PlatformEventIngestionService.getInstance();
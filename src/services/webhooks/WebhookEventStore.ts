@@ -0,0 +1,111 @@
+import { supabase } from '../../lib/supabase';
+import { logger } from '../../utils/logger';
+import { AppError, ErrorCode } from '../../utils/errors';
+import { WEBHOOK_CONFIG } from '../../config/constants';
+import { VerifiedWebhook } from './verifiers';
+
+export type ClaimOutcome = 'claimed' | 'duplicate';
+
+/**
+ * Idempotency store for inbound webhook events, keyed by platform and event
+ * id in `webhook_events`. A delivery claims its event before processing;
+ * redeliveries of an event that is processed, or still being processed,
+ * find the claim taken. A failed delivery releases its claim so the
+ * provider's retry runs again, and a claim left by a crashed handler can be
+ * taken over once its lease lapses.
+ */
+export class WebhookEventStore {
+  private static instance: WebhookEventStore;
+
+  private constructor() {}
+
+  static getInstance(): WebhookEventStore {
+    if (!WebhookEventStore.instance) {
+      WebhookEventStore.instance = new WebhookEventStore();
+    }
+    return WebhookEventStore.instance;
+  }
+
+  async claim(event: VerifiedWebhook): Promise<ClaimOutcome> {
+    if (!supabase) {
+      throw new AppError('Supabase not configured', ErrorCode.DATABASE_ERROR);
+    }
+
+    const now = new Date();
+    const { error } = await supabase.from('webhook_events').insert({
+      platform: event.platform,
+      event_id: event.eventId,
+      event_type: event.eventType,
+      status: 'processing',
+      claimed_at: now.toISOString()
+    });
+
+    if (!error) return 'claimed';
+    if (error.code !== '23505') {
+      throw new AppError(`Failed to claim webhook event: ${error.message}`, ErrorCode.DATABASE_ERROR);
+    }
+
+    const { data, error: takeoverError } = await supabase
+      .from('webhook_events')
+      .update({ claimed_at: now.toISOString() })
+      .eq('platform', event.platform)
+      .eq('event_id', event.eventId)
+      .eq('status', 'processing')
+      .lt('claimed_at', new Date(now.getTime() - WEBHOOK_CONFIG.CLAIM_LEASE_MS).toISOString())
+      .select('event_id')
+      .maybeSingle();
+
+    if (takeoverError) {
+      throw new AppError(`Failed to claim webhook event: ${takeoverError.message}`, ErrorCode.DATABASE_ERROR);
+    }
+    if (data) {
+      logger.warn('Took over abandoned webhook event', { platform: event.platform, eventId: event.eventId });
+      return 'claimed';
+    }
+    return 'duplicate';
+  }
+
+  async complete(event: VerifiedWebhook): Promise<void> {
+    const { error } = await supabase!
+      .from('webhook_events')
+      .update({ status: 'processed', processed_at: new Date().toISOString() })
+      .eq('platform', event.platform)
+      .eq('event_id', event.eventId);
+
+    if (error) {
+      logger.error('Failed to mark webhook event processed', error, { platform: event.platform, eventId: event.eventId });
+    }
+  }
+
+  async release(event: VerifiedWebhook): Promise<void> {
+    const { error } = await supabase!
+      .from('webhook_events')
+      .delete()
+      .eq('platform', event.platform)
+      .eq('event_id', event.eventId)
+      .eq('status', 'processing');
+
+    if (error) {
+      logger.error('Failed to release webhook event', error, { platform: event.platform, eventId: event.eventId });
+    }
+  }
+
+  /** Deletes events past the retention period; by then every replay window has closed. */
+  async purgeExpired(): Promise<number> {
+    if (!supabase) return 0;
+
+    const { data, error } = await supabase
+      .from('webhook_events')
+      .delete()
+      .lt('received_at', new Date(Date.now() - WEBHOOK_CONFIG.EVENT_RETENTION_MS).toISOString())
+      .select('event_id');
+
+    if (error) {
+      logger.error('Failed to purge webhook events', error);
+      return 0;
+    }
+    return (data ?? []).length;
+  }
+}
+
+export const webhookEventStore = WebhookEventStore.getInstance();
@@ -0,0 +1,90 @@
+import { logger } from '../../utils/logger';
+import { AppError, AuthenticationError, ErrorCode } from '../../utils/errors';
+import { WEBHOOK_CONFIG } from '../../config/constants';
+import { WEBHOOK_VERIFIERS, VerifiedWebhook } from './verifiers';
+import { webhookEventStore } from './WebhookEventStore';
+
+/**
+ * Entry point for inbound platform webhooks: answers subscription
+ * handshakes, verifies signatures over the raw body, rejects deliveries
+ * outside the platform's replay window and runs each event's handler once,
+ * however often the provider delivers it. Server-side only; see
+ * api/webhooks/platform-webhook.
+ */
+export class WebhookService {
+  private static instance: WebhookService;
+
+  private constructor() {}
+
+  static getInstance(): WebhookService {
+    if (!WebhookService.instance) {
+      WebhookService.instance = new WebhookService();
+    }
+    return WebhookService.instance;
+  }
+
+  supports(platform: string): boolean {
+    return platform in WEBHOOK_VERIFIERS;
+  }
+
+  /** The challenge to echo for a subscription handshake, or null to refuse it. */
+  handshake(platform: string, params: URLSearchParams): string | null {
+    const challenge = WEBHOOK_VERIFIERS[platform]?.handshake?.(params) ?? null;
+    if (!challenge) {
+      logger.warn('Webhook handshake refused', { platform, mode: params.get('hub.mode') });
+    }
+    return challenge;
+  }
+
+  async verify(
+    platform: string,
+    headers: Headers,
+    rawBody: string
+  ): Promise<{ event: VerifiedWebhook | null; error: Error | null }> {
+    const verifier = WEBHOOK_VERIFIERS[platform];
+    if (!verifier) {
+      return { event: null, error: new AppError(`Webhooks are not supported for ${platform}`, ErrorCode.NOT_FOUND, 404) };
+    }
+
+    const event = await verifier.verify(headers, rawBody);
+    if (!event) {
+      logger.warn('Webhook signature rejected', { platform });
+      return { event: null, error: new AuthenticationError('Invalid webhook signature') };
+    }
+
+    const age = Date.now() - event.timestamp;
+    const window = WEBHOOK_CONFIG.REPLAY_WINDOW_MS[platform];
+    if (!Number.isFinite(age) || age > window || age < -WEBHOOK_CONFIG.CLOCK_SKEW_MS) {
+      logger.warn('Webhook outside replay window', { platform, eventId: event.eventId, age });
+      return { event: null, error: new AuthenticationError('Webhook timestamp outside the allowed window') };
+    }
+
+    return { event, error: null };
+  }
+
+  /**
+   * Runs `handler` unless the event was already processed. A failing handler
+   * releases the event so the provider's retry is processed again.
+   */
+  async process(
+    event: VerifiedWebhook,
+    handler: (event: VerifiedWebhook) => Promise<void>
+  ): Promise<{ duplicate: boolean }> {
+    if (await webhookEventStore.claim(event) === 'duplicate') {
+      logger.info('Skipping redelivered webhook event', { platform: event.platform, eventId: event.eventId });
+      return { duplicate: true };
+    }
+
+    try {
+      await handler(event);
+    } catch (error) {
+      await webhookEventStore.release(event);
+      throw error;
+    }
+
+    await webhookEventStore.complete(event);
+    return { duplicate: false };
+  }
+}
+
+export const webhookService = WebhookService.getInstance();
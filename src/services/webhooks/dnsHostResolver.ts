@@ -0,0 +1,12 @@
+import { lookup } from 'node:dns/promises';
+import { HostResolver } from './webhookUrlPolicy';
+
+/**
+ * Node-only HostResolver backed by the system resolver. Never import this
+ * from browser code.
+ *
+ * @example
+ * setWebhookHostResolver(resolveHostWithDns);
+ */
+export const resolveHostWithDns: HostResolver = async hostname =>
+  (await lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
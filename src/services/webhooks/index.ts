@@ -0,0 +1,18 @@
+export { webhookService } from './WebhookService';
+export { webhookEventStore } from './WebhookEventStore';
+export type { ClaimOutcome } from './WebhookEventStore';
+export { WEBHOOK_VERIFIERS } from './verifiers';
+export type { PlatformWebhookVerifier, VerifiedWebhook } from './verifiers';
+export { normalizeWebhook } from './platformEvents';
+export type { PlatformEvent, PlatformEventKind, PostMetricValues } from './platformEvents';
+export { platformEventIngestionService } from './PlatformEventIngestionService';
+export { outboundWebhookService } from './OutboundWebhookService';
+export type {
+  WebhookEndpoint,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+  CreateWebhookEndpointInput,
+  UpdateWebhookEndpointInput
+} from './OutboundWebhookService';
+export { outboundWebhookDispatcher } from './OutboundWebhookDispatcher';
@@ -0,0 +1,191 @@
+import { VerifiedWebhook, epochToMs } from './verifiers';
+
+export type PlatformEventKind =
+  | 'comment.created'
+  | 'metrics.updated'
+  | 'media.processed'
+  | 'media.failed'
+  | 'post.deleted';
+
+export interface PostMetricValues {
+  views?: number;
+  likes?: number;
+  comments?: number;
+  shares?: number;
+  impressions?: number;
+  reach?: number;
+  [metric: string]: number | undefined;
+}
+
+/** A platform webhook event in the shape the ingestion service applies. */
+export interface PlatformEvent {
+  kind: PlatformEventKind;
+  platform: string;
+  /** The post the event is about, as stored in `published_posts.platform_post_id`. */
+  platformPostId: string;
+  /**
+   * The post's permanent id, for platforms that first hand out a provisional
+   * one (TikTok's `publish_id`).
+   */
+  canonicalPostId?: string;
+  /** The account the post belongs to: YouTube channel, Instagram business account, TikTok open id. */
+  platformUserId?: string;
+  occurredAt: Date;
+  /** Absolute counter values. */
+  metrics?: PostMetricValues;
+  /** Deltas to add to the stored counters. */
+  increments?: PostMetricValues;
+  error?: string;
+}
+
+/** Instagram Graph `entry[].changes[]` batches, as far as they are read here. */
+interface InstagramWebhookData {
+  entry?: Array<{
+    id?: string;
+    time?: number;
+    changes?: Array<{
+      field?: string;
+      value?: {
+        media?: { id?: string | number };
+        media_id?: string | number;
+        impressions?: unknown;
+        reach?: unknown;
+        replies?: unknown;
+      };
+    }>;
+  }>;
+}
+
+interface YouTubeWebhookData {
+  videoId?: string;
+  channelId?: string;
+}
+
+interface TikTokWebhookData {
+  user_openid?: string;
+  /** A JSON string, or already parsed. */
+  content?: string | TikTokWebhookContent;
+}
+
+interface TikTokWebhookContent {
+  publish_id?: string | number;
+  post_id?: string | number;
+  reason?: string;
+  fail_reason?: string;
+}
+
+function count(value: unknown): number | undefined {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Instagram Graph batches changes per account: `entry[].changes[]` with the
+ * subscribed `field`. Comments count towards the media they were left on;
+ * story insights arrive once the story expires.
+ */
+function normalizeInstagram(webhook: VerifiedWebhook): PlatformEvent[] {
+  const events: PlatformEvent[] = [];
+
+  for (const entry of (webhook.data as InstagramWebhookData).entry ?? []) {
+    const occurredAt = new Date(epochToMs(entry.time) || webhook.timestamp);
+
+    for (const change of entry.changes ?? []) {
+      const value = change.value ?? {};
+
+      if ((change.field === 'comments' || change.field === 'live_comments') && value.media?.id) {
+        events.push({
+          kind: 'comment.created',
+          platform: 'instagram',
+          platformPostId: String(value.media.id),
+          platformUserId: entry.id,
+          occurredAt,
+          increments: { comments: 1 }
+        });
+      } else if (change.field === 'story_insights' && value.media_id) {
+        events.push({
+          kind: 'metrics.updated',
+          platform: 'instagram',
+          platformPostId: String(value.media_id),
+          platformUserId: entry.id,
+          occurredAt,
+          metrics: {
+            impressions: count(value.impressions),
+            reach: count(value.reach),
+            replies: count(value.replies)
+          }
+        });
+      }
+    }
+  }
+
+  return events;
+}
+
+/**
+ * YouTube only notifies that a video appeared or changed (once it is
+ * processed and visible) or that it was deleted.
+ */
+function normalizeYouTube(webhook: VerifiedWebhook): PlatformEvent[] {
+  const { videoId, channelId } = webhook.data as YouTubeWebhookData;
+  if (!videoId) return [];
+
+  return [{
+    kind: webhook.eventType === 'video.deleted' ? 'post.deleted' : 'media.processed',
+    platform: 'youtube',
+    platformPostId: videoId,
+    platformUserId: channelId,
+    occurredAt: new Date(webhook.timestamp)
+  }];
+}
+
+/**
+ * TikTok Content Posting events reference the `publish_id` returned when
+ * the post was created; the video's own id only arrives once it is public.
+ * A post that is no longer publicly available (deleted or made private)
+ * is treated as removed.
+ */
+function normalizeTikTok(webhook: VerifiedWebhook): PlatformEvent[] {
+  const data = webhook.data as TikTokWebhookData;
+  let content: TikTokWebhookContent = {};
+  try {
+    content = typeof data.content === 'string' ? JSON.parse(data.content) : data.content ?? {};
+  } catch {
+    return [];
+  }
+  if (!content.publish_id) return [];
+
+  const base = {
+    platform: 'tiktok',
+    platformPostId: String(content.publish_id),
+    platformUserId: data.user_openid,
+    occurredAt: new Date(webhook.timestamp)
+  };
+
+  switch (webhook.eventType) {
+    case 'post.publish.complete':
+    case 'video.publish.completed':
+      return [{ ...base, kind: 'media.processed' }];
+    case 'post.publish.publicly_available':
+      return [{ ...base, kind: 'media.processed', canonicalPostId: content.post_id ? String(content.post_id) : undefined }];
+    case 'post.publish.failed':
+    case 'video.upload.failed':
+      return [{ ...base, kind: 'media.failed', error: content.reason ?? content.fail_reason }];
+    // TikTok's event name is misspelled.
+    case 'post.publish.no_longer_publicaly_available':
+      return [{ ...base, kind: 'post.deleted' }];
+    default:
+      return [];
+  }
+}
+
+const NORMALIZERS: Record<string, (webhook: VerifiedWebhook) => PlatformEvent[]> = {
+  instagram: normalizeInstagram,
+  youtube: normalizeYouTube,
+  tiktok: normalizeTikTok
+};
+
+/** Translates a verified delivery into the events it carries; unknown events yield none. */
+export function normalizeWebhook(webhook: VerifiedWebhook): PlatformEvent[] {
+  return NORMALIZERS[webhook.platform]?.(webhook) ?? [];
+}
@@ -0,0 +1,221 @@
+import { config } from '../../config';
+
+/** An inbound delivery whose signature checked out. */
+export interface VerifiedWebhook {
+  platform: string;
+  /** Stable across redeliveries of the same event; the idempotency key. */
+  eventId: string;
+  eventType: string;
+  /** When the provider signed or emitted the event, in ms since the epoch. */
+  timestamp: number;
+  data: Record<string, unknown>;
+}
+
+/** Per-platform handshake and signature scheme. */
+export interface PlatformWebhookVerifier {
+  /**
+   * Answers the subscription handshake (a GET from the provider) with the
+   * challenge to echo, or null to refuse it.
+   */
+  handshake?(params: URLSearchParams): string | null;
+  /** Checks the signature over the raw body; null when it does not match. */
+  verify(headers: Headers, rawBody: string): Promise<VerifiedWebhook | null>;
+}
+
+export type HashAlgorithm = 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+const HUB_ALGORITHMS: Record<string, HashAlgorithm> = {
+  sha1: 'SHA-1',
+  sha256: 'SHA-256',
+  sha384: 'SHA-384',
+  sha512: 'SHA-512'
+};
+
+function serverEnv(key: string): string | undefined {
+  const env = typeof window === 'undefined' ? globalThis.process?.env : undefined;
+  return env?.[key] || undefined;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function hmacHex(algorithm: HashAlgorithm, secret: string, payload: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: algorithm }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+}
+
+async function sha256Hex(payload: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload)));
+}
+
+/** Compares hex digests without short-circuiting on the first mismatch. */
+function digestsMatch(actual: string, expected: string): boolean {
+  const a = actual.toLowerCase();
+  if (a.length !== expected.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/** Meta stamps entries in seconds; tolerate milliseconds too. */
+export function epochToMs(value: unknown): number {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) return NaN;
+  return n < 1e12 ? n * 1000 : n;
+}
+
+function xmlText(xml: string, tag: string): string | undefined {
+  return xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`))?.[1]?.trim();
+}
+
+/** The envelope fields read to identify a Meta delivery. */
+interface MetaWebhookBody {
+  object?: string;
+  entry?: Array<{ time?: number; changes?: Array<{ field?: string }> }>;
+}
+
+function parseJson(rawBody: string): Record<string, unknown> | null {
+  try {
+    const data = JSON.parse(rawBody);
+    return data && typeof data === 'object' ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Meta (Instagram Graph) webhooks: a `hub.verify_token` handshake, then
+ * `X-Hub-Signature-256: sha256=<hex>`, an HMAC of the raw body under the app
+ * secret. Payloads carry no event id, so the body digest is used.
+ */
+const metaVerifier: PlatformWebhookVerifier = {
+  handshake(params) {
+    const verifyToken = serverEnv('WEBHOOK_VERIFY_TOKEN');
+    if (!verifyToken || params.get('hub.mode') !== 'subscribe') return null;
+    if (params.get('hub.verify_token') !== verifyToken) return null;
+    return params.get('hub.challenge');
+  },
+
+  async verify(headers, rawBody) {
+    const secret = config.get('VITE_INSTAGRAM_CLIENT_SECRET');
+    const header = headers.get('x-hub-signature-256');
+    if (!secret || !header?.startsWith('sha256=')) return null;
+
+    const expected = await hmacHex('SHA-256', secret, rawBody);
+    if (!digestsMatch(header.slice('sha256='.length), expected)) return null;
+
+    const data = parseJson(rawBody);
+    if (!data) return null;
+
+    const entry = (data as MetaWebhookBody).entry?.[0];
+    return {
+      platform: 'instagram',
+      eventId: await sha256Hex(rawBody),
+      eventType: entry?.changes?.[0]?.field ?? (data as MetaWebhookBody).object ?? 'unknown',
+      timestamp: epochToMs(entry?.time),
+      data
+    };
+  }
+};
+
+/**
+ * YouTube push notifications via PubSubHubbub: the hub confirms each
+ * (un)subscription with a `hub.challenge` GET, then posts Atom entries
+ * signed as `X-Hub-Signature: <algo>=<hex>` with the `hub.secret` we
+ * subscribed with.
+ */
+const youtubeVerifier: PlatformWebhookVerifier = {
+  handshake(params) {
+    const mode = params.get('hub.mode');
+    if (mode !== 'subscribe' && mode !== 'unsubscribe') return null;
+    if (!params.get('hub.topic')?.startsWith('https://www.youtube.com/xml/feeds/videos.xml')) return null;
+
+    const verifyToken = serverEnv('WEBHOOK_VERIFY_TOKEN');
+    if (!verifyToken || params.get('hub.verify_token') !== verifyToken) return null;
+    return params.get('hub.challenge');
+  },
+
+  async verify(headers, rawBody) {
+    const secret = serverEnv('YOUTUBE_WEBSUB_SECRET');
+    const [method, signature] = headers.get('x-hub-signature')?.split('=') ?? [];
+    const algorithm = HUB_ALGORITHMS[method?.toLowerCase()];
+    if (!secret || !algorithm || !signature) return null;
+
+    const expected = await hmacHex(algorithm, secret, rawBody);
+    if (!digestsMatch(signature, expected)) return null;
+
+    const deleted = rawBody.match(/<at:deleted-entry[^>]*>/)?.[0];
+    if (deleted) {
+      const videoId = deleted.match(/ref="yt:video:([^"]+)"/)?.[1];
+      const when = deleted.match(/when="([^"]+)"/)?.[1];
+      if (!videoId) return null;
+      return {
+        platform: 'youtube',
+        eventId: `${videoId}:deleted`,
+        eventType: 'video.deleted',
+        timestamp: when ? Date.parse(when) : NaN,
+        data: { videoId, deletedAt: when }
+      };
+    }
+
+    // The feed itself has a <title> and <updated> too; read the entry's.
+    const entry = rawBody.match(/<entry>([\s\S]*)<\/entry>/)?.[1];
+    const videoId = entry && xmlText(entry, 'yt:videoId');
+    const updated = entry && xmlText(entry, 'updated');
+    if (!entry || !videoId) return null;
+
+    return {
+      platform: 'youtube',
+      eventId: `${videoId}:${updated ?? ''}`,
+      eventType: 'video.updated',
+      timestamp: updated ? Date.parse(updated) : NaN,
+      data: {
+        videoId,
+        channelId: xmlText(entry, 'yt:channelId'),
+        title: xmlText(entry, 'title'),
+        published: xmlText(entry, 'published'),
+        updated
+      }
+    };
+  }
+};
+
+/**
+ * TikTok: `TikTok-Signature: t=<unix seconds>,s=<hex>`, an HMAC-SHA256 of
+ * `<t>.<raw body>` under the client secret. The timestamp is signed, so it
+ * is what replay protection checks.
+ */
+const tiktokVerifier: PlatformWebhookVerifier = {
+  async verify(headers, rawBody) {
+    const secret = config.get('VITE_TIKTOK_CLIENT_SECRET');
+    const parts = Object.fromEntries(
+      (headers.get('tiktok-signature') ?? '').split(',').map(part => part.trim().split('=') as [string, string])
+    );
+    if (!secret || !parts.t || !parts.s) return null;
+
+    const expected = await hmacHex('SHA-256', secret, `${parts.t}.${rawBody}`);
+    if (!digestsMatch(parts.s, expected)) return null;
+
+    const data = parseJson(rawBody);
+    if (!data) return null;
+
+    return {
+      platform: 'tiktok',
+      eventId: await sha256Hex(rawBody),
+      eventType: typeof data.event === 'string' ? data.event : 'unknown',
+      timestamp: epochToMs(parts.t),
+      data
+    };
+  }
+};
+
+export const WEBHOOK_VERIFIERS: Record<string, PlatformWebhookVerifier> = {
+  instagram: metaVerifier,
+  youtube: youtubeVerifier,
+  tiktok: tiktokVerifier
+};
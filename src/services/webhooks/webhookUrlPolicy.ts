@@ -0,0 +1,125 @@
+import { ValidationError } from '../../utils/errors';
+
+/** Resolves a hostname to every address it points at. */
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+let hostResolver: HostResolver | null = null;
+
+/**
+ * Sets how webhook hosts are resolved. This module is reachable from the
+ * browser bundle, so it cannot import node:dns itself; the worker passes
+ * `resolveHostWithDns` (see dnsHostResolver). Without a resolver, URLs
+ * naming a host rather than an address cannot be checked and are refused.
+ */
+export function setWebhookHostResolver(resolver: HostResolver): void {
+  hostResolver = resolver;
+}
+
+/** 4 or 6 for an IP literal, 0 for anything else (URL has already normalized it). */
+function ipVersion(address: string): 0 | 4 | 6 {
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(address)) {
+    return address.split('.').every(octet => Number(octet) <= 255) ? 4 : 0;
+  }
+  return address.includes(':') && /^[0-9a-f:.]+(%.+)?$/i.test(address) ? 6 : 0;
+}
+
+/** 0.0.0.0/8, 10/8, 100.64/10, 127/8, 169.254/16, 172.16/12, 192.0.0/24, 192.168/16, 198.18/15 and 224/3. */
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    a === 127 ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && address.split('.')[2] === '0') ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+/** Expands an IPv6 address, including one with an embedded IPv4 tail, into eight hextets. */
+function ipv6Hextets(address: string): number[] {
+  let ip = address.toLowerCase().split('%')[0];
+  const v4 = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(ip);
+  if (v4) {
+    const [a, b, c, d] = v4.slice(1).map(Number);
+    ip = `${ip.slice(0, v4.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = ip.split('::');
+  const parse = (part: string | undefined) => (part ? part.split(':').map(hextet => parseInt(hextet, 16)) : []);
+  const start = parse(head);
+  const end = parse(tail);
+  return tail === undefined ? start : [...start, ...new Array(8 - start.length - end.length).fill(0), ...end];
+}
+
+/** Unspecified, loopback, unique-local (fc00::/7), link-local (fe80::/10), multicast, or a mapped private IPv4. */
+function isPrivateIPv6(address: string): boolean {
+  const hextets = ipv6Hextets(address);
+  const upperZero = hextets.slice(0, 5).every(hextet => hextet === 0);
+
+  if (upperZero && hextets[5] === 0xffff) {
+    return isPrivateIPv4([hextets[6] >> 8, hextets[6] & 0xff, hextets[7] >> 8, hextets[7] & 0xff].join('.'));
+  }
+  if (upperZero && hextets[5] === 0 && hextets[6] === 0 && hextets[7] <= 1) {
+    return true;
+  }
+  return (hextets[0] & 0xfe00) === 0xfc00 || (hextets[0] & 0xffc0) === 0xfe80 || (hextets[0] & 0xff00) === 0xff00;
+}
+
+export function isPrivateAddress(address: string): boolean {
+  return ipVersion(address) === 6 ? isPrivateIPv6(address) : isPrivateIPv4(address);
+}
+
+/** Set WEBHOOK_ALLOW_LOCAL_HTTP=true to deliver to a receiver on this machine during development. */
+function allowsLocalReceivers(): boolean {
+  return globalThis.process?.env?.WEBHOOK_ALLOW_LOCAL_HTTP === 'true';
+}
+
+/**
+ * Checks that a webhook URL is https and that every address its host
+ * resolves to is public, so deliveries (whose responses workspace admins can
+ * read) cannot reach loopback, private or link-local services. Run at
+ * registration and again before each send, since DNS can change in between.
+ * Returns the normalized URL. Names are resolved with the resolver set
+ * through `setWebhookHostResolver`.
+ */
+export async function assertDeliverableWebhookUrl(value: string): Promise<string> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new ValidationError('Webhook URL is not a valid URL', { url: value });
+  }
+
+  if (url.username || url.password) {
+    throw new ValidationError('Webhook URL must not contain credentials', { url: value });
+  }
+
+  if (allowsLocalReceivers() && LOCAL_HOSTNAMES.has(url.hostname)) {
+    return url.toString();
+  }
+
+  if (url.protocol !== 'https:') {
+    throw new ValidationError('Webhook URL must use https', { url: value });
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses = [hostname];
+  if (!ipVersion(hostname)) {
+    if (!hostResolver) {
+      throw new Error('No webhook host resolver configured; see setWebhookHostResolver');
+    }
+    addresses = await hostResolver(hostname);
+  }
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new ValidationError('Webhook URL must resolve to a public address', { url: value });
+  }
+  return url.toString();
+}
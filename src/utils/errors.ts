@@ -81,7 +81,7 @@ export class AppError extends Error {
     this.context = context;
 
     Error.captureStackTrace(this, this.constructor);
-    Object.setPrototypeOf(this, AppError.prototype);
+    Object.setPrototypeOf(this, new.target.prototype);
   }
 }
 
@@ -238,6 +238,28 @@ export class ConnectorError extends AppError {
   }
 }
 
+/**
+ * Token refresh error - thrown when a connector cannot refresh its OAuth token.
+ * `revoked` is set when the platform rejected the grant itself (e.g.
+ * `invalid_grant`), meaning the user has to reconnect the account.
+ * HTTP Status: 500 Internal Server Error
+ * 
+ * @example
+ * ```typescript
+ * if (body.error === 'invalid_grant') {
+ *   throw new TokenRefreshError('YouTube refresh token was revoked', 'youtube', true);
+ * }
+ * ```
+ * 
+ * @class
+ * @extends ConnectorError
+ */
+export class TokenRefreshError extends ConnectorError {
+  constructor(message: string, connectorId?: string, public readonly revoked: boolean = false) {
+    super(message, connectorId, { revoked });
+  }
+}
+
 /**
  * External API error - thrown when calls to external services fail.
  * HTTP Status: 502 Bad Gateway
@@ -1,3 +1,4 @@
 export * from './errors';
 export * from './logger';
 export * from './pwa';
+export * from './hash';
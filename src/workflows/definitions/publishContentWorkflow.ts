@@ -0,0 +1,119 @@
+import { JobPriority, JobType, WorkflowDefinition, WorkflowStepDefinition } from '../types';
+import { PostData } from '../../connectors/base/SocialConnector';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Metrics are fetched 1h, 24h and 7d after the post goes live. */
+export const PUBLISH_METRICS_DELAYS: Record<string, number> = {
+  metrics_1h: HOUR_MS,
+  metrics_24h: 24 * HOUR_MS,
+  metrics_7d: 7 * 24 * HOUR_MS
+};
+
+/**
+ * Platforms whose posts reference media uploaded beforehand by id. The
+ * others fetch the media from its URL while posting, so they skip the
+ * upload step.
+ */
+const PLATFORMS_WITH_MEDIA_UPLOAD = new Set(['twitter']);
+
+const VIDEO_EXTENSIONS = /\.(mp4|mov|m4v|webm|avi)(\?|$)/i;
+
+/**
+ * Only video is processed before posting: the worker transcodes it with
+ * ffmpeg, but has no canvas to re-encode images, so images go out as they
+ * were uploaded (the editor already processed them in the browser).
+ */
+function needsProcessing(postData: PostData, mediaUrl: string): boolean {
+  const mediaType = postData.metadata?.mediaType;
+  return mediaType === 'VIDEO' || mediaType === 'REELS' || VIDEO_EXTENSIONS.test(mediaUrl);
+}
+
+export interface PublishWorkflowOptions {
+  platform: string;
+  workspaceId: string;
+  accountId?: string;
+  postData: PostData;
+  scheduledFor?: Date;
+  /** Limit for the post step, e.g. for multi-GB YouTube uploads. */
+  postTimeoutMs?: number;
+  /** Metadata for the post job only, e.g. its quota cost. */
+  postMetadata?: Record<string, unknown>;
+  /** Set on the first step's job; see `JobStore.insert`. */
+  idempotencyKey?: string;
+}
+
+/**
+ * Publishes one post to one platform: process media → upload media → post →
+ * fetch metrics. Processing only runs for a single video (see
+ * `needsProcessing`), and the upload only for a single media file on
+ * platforms in PLATFORMS_WITH_MEDIA_UPLOAD. A failed metrics fetch does not
+ * fail the run.
+ */
+export function buildPublishWorkflow(options: PublishWorkflowOptions): WorkflowDefinition {
+  const { platform, workspaceId, accountId, postData } = options;
+  const connector = { connectorId: platform, workspaceId, accountId };
+  const priority = options.scheduledFor ? JobPriority.NORMAL : JobPriority.HIGH;
+  const notBefore = options.scheduledFor?.toISOString();
+  const mediaUrls = postData.mediaUrls ?? [];
+
+  const steps: WorkflowStepDefinition[] = [];
+  const postInputs: Record<string, string> = {};
+
+  if (mediaUrls.length === 1) {
+    const processed = needsProcessing(postData, mediaUrls[0]);
+    if (processed) {
+      steps.push({
+        id: 'process',
+        type: JobType.PROCESS_MEDIA,
+        data: { mediaUrl: mediaUrls[0], platform },
+        priority
+      });
+      postInputs.mediaUrl = 'process.url';
+    }
+
+    if (PLATFORMS_WITH_MEDIA_UPLOAD.has(platform)) {
+      steps.push({
+        id: 'upload',
+        type: JobType.UPLOAD_MEDIA,
+        dependsOn: processed ? ['process'] : [],
+        data: { ...connector, mediaUrl: mediaUrls[0] },
+        inputs: processed ? { mediaUrl: 'process.url' } : {},
+        connectorId: platform,
+        priority
+      });
+      postInputs.platformMediaId = 'upload.platformMediaId';
+    }
+  }
+
+  const postDependsOn = steps.map(step => step.id);
+  steps.push({
+    id: 'post',
+    type: JobType.POST_CONTENT,
+    dependsOn: postDependsOn,
+    data: { ...connector, postData },
+    inputs: postInputs,
+    connectorId: platform,
+    priority,
+    notBefore,
+    timeoutMs: options.postTimeoutMs,
+    metadata: options.postMetadata
+  });
+
+  for (const [id, delayMs] of Object.entries(PUBLISH_METRICS_DELAYS)) {
+    steps.push({
+      id,
+      type: JobType.FETCH_METRICS,
+      dependsOn: ['post'],
+      data: connector,
+      inputs: { postId: 'post.postId' },
+      connectorId: platform,
+      delayMs,
+      onFailure: 'continue'
+    });
+  }
+
+  steps[0].idempotencyKey = options.idempotencyKey;
+
+  return { name: `publish-${platform}`, steps };
+}
@@ -0,0 +1,50 @@
+import { WorkflowRun, WorkflowStatus, WorkflowStepState, WorkflowStepStatus, WorkflowStore } from '../types';
+
+/**
+ * Process-local WorkflowStore for tests and browser sessions.
+ */
+export class InMemoryWorkflowStore implements WorkflowStore {
+  private runs: Map<string, WorkflowRun> = new Map();
+
+  async insertRun(run: WorkflowRun): Promise<void> {
+    if (this.runs.has(run.id)) {
+      throw new Error(`Workflow run ${run.id} already exists`);
+    }
+    this.runs.set(run.id, this.clone(run));
+  }
+
+  async getRun(runId: string): Promise<WorkflowRun | undefined> {
+    const run = this.runs.get(runId);
+    return run ? this.clone(run) : undefined;
+  }
+
+  async updateRun(
+    runId: string,
+    changes: Partial<Pick<WorkflowRun, 'status' | 'error' | 'completedAt'>>,
+    expected?: WorkflowStatus
+  ): Promise<boolean> {
+    const run = this.runs.get(runId);
+    if (!run || (expected && run.status !== expected)) return false;
+
+    Object.assign(run, changes, { updatedAt: new Date() });
+    return true;
+  }
+
+  async updateStep(runId: string, state: WorkflowStepState, expected?: WorkflowStepStatus): Promise<boolean> {
+    const run = this.runs.get(runId);
+    const current = run?.steps[state.stepId];
+    if (!run || !current || (expected && current.status !== expected)) return false;
+
+    run.steps[state.stepId] = { ...state };
+    run.updatedAt = new Date();
+    return true;
+  }
+
+  private clone(run: WorkflowRun): WorkflowRun {
+    const steps: Record<string, WorkflowStepState> = {};
+    for (const [stepId, state] of Object.entries(run.steps)) {
+      steps[stepId] = { ...state };
+    }
+    return { ...run, steps };
+  }
+}
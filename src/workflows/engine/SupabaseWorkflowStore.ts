@@ -0,0 +1,163 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  WorkflowDefinition,
+  WorkflowRun,
+  WorkflowStatus,
+  WorkflowStepState,
+  WorkflowStepStatus,
+  WorkflowStore
+} from '../types';
+
+interface WorkflowRunRow {
+  id: string;
+  name: string;
+  status: string;
+  user_id: string;
+  definition: WorkflowDefinition;
+  input: Record<string, unknown> | null;
+  metadata: Record<string, unknown> | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+interface WorkflowStepRow {
+  run_id: string;
+  step_id: string;
+  status: string;
+  job_id: string | null;
+  output: unknown;
+  error: string | null;
+  updated_at: string;
+}
+
+function toStepState(row: WorkflowStepRow): WorkflowStepState {
+  return {
+    stepId: row.step_id,
+    status: row.status as WorkflowStepStatus,
+    jobId: row.job_id ?? undefined,
+    output: row.output ?? undefined,
+    error: row.error ?? undefined,
+    updatedAt: new Date(row.updated_at)
+  };
+}
+
+function toStepRow(runId: string, state: WorkflowStepState): WorkflowStepRow {
+  return {
+    run_id: runId,
+    step_id: state.stepId,
+    status: state.status,
+    job_id: state.jobId ?? null,
+    output: state.output ?? null,
+    error: state.error ?? null,
+    updated_at: state.updatedAt.toISOString()
+  };
+}
+
+/**
+ * WorkflowStore backed by the `workflow_runs` and `workflow_steps` tables.
+ * Step rows are updated individually so that concurrent workers finishing
+ * sibling steps never overwrite each other's state.
+ */
+export class SupabaseWorkflowStore implements WorkflowStore {
+  constructor(private client: SupabaseClient) {}
+
+  async insertRun(run: WorkflowRun): Promise<void> {
+    const { error } = await this.client.from('workflow_runs').insert({
+      id: run.id,
+      name: run.name,
+      status: run.status,
+      user_id: run.userId,
+      definition: run.definition,
+      input: run.input,
+      metadata: run.metadata ?? {},
+      error: run.error ?? null,
+      created_at: run.createdAt.toISOString(),
+      updated_at: run.updatedAt.toISOString(),
+      completed_at: run.completedAt?.toISOString() ?? null
+    });
+    if (error) {
+      throw new Error(`Failed to insert workflow run ${run.id}: ${error.message}`);
+    }
+
+    const { error: stepsError } = await this.client
+      .from('workflow_steps')
+      .insert(Object.values(run.steps).map(state => toStepRow(run.id, state)));
+    if (stepsError) {
+      throw new Error(`Failed to insert workflow steps for ${run.id}: ${stepsError.message}`);
+    }
+  }
+
+  async getRun(runId: string): Promise<WorkflowRun | undefined> {
+    const { data, error } = await this.client
+      .from('workflow_runs')
+      .select('*, workflow_steps(*)')
+      .eq('id', runId)
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to fetch workflow run ${runId}: ${error.message}`);
+    }
+    if (!data) return undefined;
+
+    const row = data as WorkflowRunRow & { workflow_steps: WorkflowStepRow[] };
+    const steps: Record<string, WorkflowStepState> = {};
+    for (const stepRow of row.workflow_steps ?? []) {
+      steps[stepRow.step_id] = toStepState(stepRow);
+    }
+
+    return {
+      id: row.id,
+      name: row.name,
+      status: row.status as WorkflowStatus,
+      userId: row.user_id,
+      definition: row.definition,
+      input: row.input ?? {},
+      steps,
+      metadata: row.metadata ?? undefined,
+      error: row.error ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined
+    };
+  }
+
+  async updateRun(
+    runId: string,
+    changes: Partial<Pick<WorkflowRun, 'status' | 'error' | 'completedAt'>>,
+    expected?: WorkflowStatus
+  ): Promise<boolean> {
+    const update: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (changes.status !== undefined) update.status = changes.status;
+    if (changes.error !== undefined) update.error = changes.error;
+    if (changes.completedAt !== undefined) update.completed_at = changes.completedAt.toISOString();
+
+    let query = this.client.from('workflow_runs').update(update).eq('id', runId);
+    if (expected) {
+      query = query.eq('status', expected);
+    }
+
+    const { data, error } = await query.select('id');
+    if (error) {
+      throw new Error(`Failed to update workflow run ${runId}: ${error.message}`);
+    }
+    return (data?.length ?? 0) > 0;
+  }
+
+  async updateStep(runId: string, state: WorkflowStepState, expected?: WorkflowStepStatus): Promise<boolean> {
+    let query = this.client
+      .from('workflow_steps')
+      .update(toStepRow(runId, state))
+      .eq('run_id', runId)
+      .eq('step_id', state.stepId);
+    if (expected) {
+      query = query.eq('status', expected);
+    }
+
+    const { data, error } = await query.select('step_id');
+    if (error) {
+      throw new Error(`Failed to update workflow step ${runId}/${state.stepId}: ${error.message}`);
+    }
+    return (data?.length ?? 0) > 0;
+  }
+}
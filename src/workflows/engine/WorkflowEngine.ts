@@ -0,0 +1,360 @@
+import {
+  Job,
+  JobStatus,
+  WorkflowDefinition,
+  WorkflowInputMap,
+  WorkflowRun,
+  WorkflowStatus,
+  WorkflowStepDefinition,
+  WorkflowStepState,
+  WorkflowStepStatus,
+  WorkflowStore
+} from '../types';
+import { jobQueue } from '../queue/JobQueue';
+import { InMemoryWorkflowStore } from './InMemoryWorkflowStore';
+import { logger } from '../../utils/logger';
+
+const TERMINAL_STEP_STATUSES = [
+  WorkflowStepStatus.COMPLETED,
+  WorkflowStepStatus.FAILED,
+  WorkflowStepStatus.SKIPPED,
+  WorkflowStepStatus.CANCELLED
+];
+
+/**
+ * Validates step ids, dependencies and input references and returns the
+ * steps in dependency order. Throws on cycles or dangling references.
+ */
+export function validateWorkflowDefinition(definition: WorkflowDefinition): WorkflowStepDefinition[] {
+  const steps = new Map<string, WorkflowStepDefinition>();
+  for (const step of definition.steps) {
+    if (step.id === 'input') {
+      throw new Error(`Workflow ${definition.name}: 'input' is reserved and cannot be used as a step id`);
+    }
+    if (steps.has(step.id)) {
+      throw new Error(`Workflow ${definition.name}: duplicate step id '${step.id}'`);
+    }
+    steps.set(step.id, step);
+  }
+
+  for (const step of definition.steps) {
+    for (const dependency of step.dependsOn ?? []) {
+      if (!steps.has(dependency)) {
+        throw new Error(`Workflow ${definition.name}: step '${step.id}' depends on unknown step '${dependency}'`);
+      }
+    }
+    const references = [...Object.values(step.inputs ?? {}), ...Object.values(step.compensation?.inputs ?? {})];
+    for (const path of references) {
+      const source = path.split('.')[0];
+      if (source !== 'input' && !(step.dependsOn ?? []).includes(source) && source !== step.id) {
+        throw new Error(`Workflow ${definition.name}: step '${step.id}' reads '${path}' without depending on '${source}'`);
+      }
+    }
+  }
+
+  const ordered: WorkflowStepDefinition[] = [];
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const visit = (step: WorkflowStepDefinition) => {
+    if (visited.has(step.id)) return;
+    if (visiting.has(step.id)) {
+      throw new Error(`Workflow ${definition.name}: dependency cycle through step '${step.id}'`);
+    }
+    visiting.add(step.id);
+    for (const dependency of step.dependsOn ?? []) {
+      visit(steps.get(dependency)!);
+    }
+    visiting.delete(step.id);
+    visited.add(step.id);
+    ordered.push(step);
+  };
+  definition.steps.forEach(visit);
+
+  return ordered;
+}
+
+function resolvePath(source: unknown, path: string[]): unknown {
+  return path.reduce<unknown>((value, key) => {
+    if (value === null || value === undefined) return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, source);
+}
+
+function resolveInputs(run: WorkflowRun, inputs: WorkflowInputMap | undefined): Record<string, unknown> {
+  const resolved: Record<string, unknown> = {};
+  for (const [field, path] of Object.entries(inputs ?? {})) {
+    const [source, ...rest] = path.split('.');
+    const root = source === 'input' ? run.input : run.steps[source]?.output;
+    resolved[field] = resolvePath(root, rest);
+  }
+  return resolved;
+}
+
+/** The later of the step's delay and its `notBefore`, or undefined to run now. */
+function stepStartTime(step: WorkflowStepDefinition): Date | undefined {
+  const times = [
+    step.delayMs ? Date.now() + step.delayMs : 0,
+    step.notBefore ? new Date(step.notBefore).getTime() : 0
+  ];
+  const latest = Math.max(...times);
+  return latest > Date.now() ? new Date(latest) : undefined;
+}
+
+/**
+ * Runs multi-step workflows on top of JobQueue. Each step becomes an ordinary
+ * job tagged with `metadata.workflowId` / `metadata.workflowStepId`; when the
+ * queue settles one of those jobs the engine records the outcome and enqueues
+ * whichever steps became ready.
+ *
+ * @example
+ * ```typescript
+ * const run = await workflowEngine.start({
+ *   name: 'publish-video',
+ *   steps: [
+ *     { id: 'process', type: JobType.PROCESS_MEDIA, inputs: { mediaId: 'input.mediaId' } },
+ *     { id: 'post', type: JobType.POST_CONTENT, dependsOn: ['process'], inputs: { mediaUrl: 'process.url' } },
+ *     { id: 'metrics_24h', type: JobType.FETCH_METRICS, dependsOn: ['post'], delayMs: 24 * 60 * 60 * 1000,
+ *       inputs: { postId: 'post.postId' }, onFailure: 'continue' }
+ *   ]
+ * }, { userId, input: { mediaId } });
+ * ```
+ */
+export class WorkflowEngine {
+  private static instance: WorkflowEngine;
+  private store: WorkflowStore = new InMemoryWorkflowStore();
+
+  private constructor() {
+    jobQueue.onJobSettled(job => this.handleJobSettled(job));
+  }
+
+  static getInstance(): WorkflowEngine {
+    if (!WorkflowEngine.instance) {
+      WorkflowEngine.instance = new WorkflowEngine();
+    }
+    return WorkflowEngine.instance;
+  }
+
+  useStore(store: WorkflowStore): void {
+    this.store = store;
+  }
+
+  async start(
+    definition: WorkflowDefinition,
+    options: {
+      userId: string;
+      input?: Record<string, unknown>;
+      metadata?: Record<string, unknown>;
+    }
+  ): Promise<WorkflowRun> {
+    validateWorkflowDefinition(definition);
+
+    const now = new Date();
+    const steps: Record<string, WorkflowStepState> = {};
+    for (const step of definition.steps) {
+      steps[step.id] = { stepId: step.id, status: WorkflowStepStatus.WAITING, updatedAt: now };
+    }
+
+    const run: WorkflowRun = {
+      id: `wf_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: definition.name,
+      status: WorkflowStatus.RUNNING,
+      userId: options.userId,
+      definition,
+      input: options.input ?? {},
+      steps,
+      metadata: options.metadata,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.store.insertRun(run);
+    logger.info('Workflow started', { workflowId: run.id, name: run.name, steps: definition.steps.length });
+
+    await this.advance(run.id);
+    return (await this.store.getRun(run.id)) ?? run;
+  }
+
+  async getRun(runId: string): Promise<WorkflowRun | undefined> {
+    return this.store.getRun(runId);
+  }
+
+  /**
+   * Cancels a running workflow: queued step jobs are cancelled and waiting
+   * steps never start. Completed steps are left as they are.
+   */
+  async cancel(runId: string): Promise<boolean> {
+    const cancelled = await this.store.updateRun(
+      runId,
+      { status: WorkflowStatus.CANCELLED, completedAt: new Date() },
+      WorkflowStatus.RUNNING
+    );
+    if (!cancelled) return false;
+
+    await this.stopOutstandingSteps(runId);
+    logger.info('Workflow cancelled', { workflowId: runId });
+    return true;
+  }
+
+  private async handleJobSettled(job: Job): Promise<void> {
+    const workflowId = job.metadata?.workflowId as string | undefined;
+    const stepId = job.metadata?.workflowStepId as string | undefined;
+    if (!workflowId || !stepId) return;
+
+    const status =
+      job.status === JobStatus.COMPLETED ? WorkflowStepStatus.COMPLETED
+        : job.status === JobStatus.CANCELLED ? WorkflowStepStatus.CANCELLED
+          : WorkflowStepStatus.FAILED;
+
+    const recorded = await this.store.updateStep(
+      workflowId,
+      {
+        stepId,
+        status,
+        jobId: job.id,
+        output: job.result,
+        error: job.error,
+        updatedAt: new Date()
+      },
+      WorkflowStepStatus.QUEUED
+    );
+    if (!recorded) return;
+
+    if (status !== WorkflowStepStatus.COMPLETED) {
+      const run = await this.store.getRun(workflowId);
+      const step = run?.definition.steps.find(s => s.id === stepId);
+      if (run && step && (step.onFailure ?? 'fail') === 'fail') {
+        await this.failRun(run, `Step '${stepId}' ${status}: ${job.error ?? 'no error reported'}`);
+        return;
+      }
+    }
+
+    await this.advance(workflowId);
+  }
+
+  /**
+   * Walks the steps in dependency order, enqueuing every waiting step whose
+   * dependencies have completed and skipping those downstream of a failure,
+   * then closes the run once nothing is left.
+   */
+  private async advance(runId: string): Promise<void> {
+    const run = await this.store.getRun(runId);
+    if (!run || run.status !== WorkflowStatus.RUNNING) return;
+
+    for (const step of validateWorkflowDefinition(run.definition)) {
+      const state = run.steps[step.id];
+      if (state.status !== WorkflowStepStatus.WAITING) continue;
+
+      const dependencies = (step.dependsOn ?? []).map(id => run.steps[id]);
+      if (dependencies.some(dep => dep.status !== WorkflowStepStatus.COMPLETED && TERMINAL_STEP_STATUSES.includes(dep.status))) {
+        const skipped = { ...state, status: WorkflowStepStatus.SKIPPED, updatedAt: new Date() };
+        if (await this.store.updateStep(run.id, skipped, WorkflowStepStatus.WAITING)) {
+          run.steps[step.id] = skipped;
+        }
+        continue;
+      }
+      if (!dependencies.every(dep => dep.status === WorkflowStepStatus.COMPLETED)) continue;
+
+      const queued = { ...state, status: WorkflowStepStatus.QUEUED, updatedAt: new Date() };
+      if (!(await this.store.updateStep(run.id, queued, WorkflowStepStatus.WAITING))) continue;
+      run.steps[step.id] = queued;
+
+      try {
+        const job = await jobQueue.addJob(
+          step.type,
+          { ...step.data, ...resolveInputs(run, step.inputs) },
+          {
+            userId: run.userId,
+            connectorId: step.connectorId,
+            priority: step.priority,
+            maxAttempts: step.maxAttempts,
+            timeoutMs: step.timeoutMs,
+            scheduledFor: stepStartTime(step),
+            idempotencyKey: step.idempotencyKey,
+            metadata: { ...run.metadata, ...step.metadata, workflowId: run.id, workflowStepId: step.id }
+          }
+        );
+        run.steps[step.id] = { ...queued, jobId: job.id };
+        await this.store.updateStep(run.id, run.steps[step.id], WorkflowStepStatus.QUEUED);
+      } catch (error) {
+        await this.store.updateStep(run.id, {
+          ...queued,
+          status: WorkflowStepStatus.FAILED,
+          error: (error as Error).message,
+          updatedAt: new Date()
+        });
+        await this.failRun(run, `Step '${step.id}' could not be enqueued: ${(error as Error).message}`);
+        return;
+      }
+    }
+
+    if (Object.values(run.steps).every(state => TERMINAL_STEP_STATUSES.includes(state.status))) {
+      const completed = await this.store.updateRun(
+        run.id,
+        { status: WorkflowStatus.COMPLETED, completedAt: new Date() },
+        WorkflowStatus.RUNNING
+      );
+      if (completed) {
+        logger.info('Workflow completed', { workflowId: run.id, name: run.name });
+      }
+    }
+  }
+
+  private async failRun(run: WorkflowRun, reason: string): Promise<void> {
+    const failed = await this.store.updateRun(
+      run.id,
+      { status: WorkflowStatus.FAILED, error: reason, completedAt: new Date() },
+      WorkflowStatus.RUNNING
+    );
+    if (!failed) return;
+
+    logger.error('Workflow failed', undefined, { workflowId: run.id, name: run.name, reason });
+
+    await this.stopOutstandingSteps(run.id);
+    await this.compensate(run.id);
+  }
+
+  private async stopOutstandingSteps(runId: string): Promise<void> {
+    const run = await this.store.getRun(runId);
+    if (!run) return;
+
+    for (const state of Object.values(run.steps)) {
+      if (state.status !== WorkflowStepStatus.WAITING && state.status !== WorkflowStepStatus.QUEUED) continue;
+
+      await this.store.updateStep(
+        run.id,
+        { ...state, status: WorkflowStepStatus.CANCELLED, updatedAt: new Date() },
+        state.status
+      );
+      if (state.jobId) {
+        await jobQueue.cancelJob(state.jobId);
+      }
+    }
+  }
+
+  /**
+   * Enqueues compensation jobs for completed steps, latest first. They run
+   * outside the workflow, so their own failures do not re-trigger this.
+   */
+  private async compensate(runId: string): Promise<void> {
+    const run = await this.store.getRun(runId);
+    if (!run) return;
+
+    const ordered = validateWorkflowDefinition(run.definition).reverse();
+    for (const step of ordered) {
+      if (!step.compensation || run.steps[step.id].status !== WorkflowStepStatus.COMPLETED) continue;
+
+      const job = await jobQueue.addJob(
+        step.compensation.type,
+        { ...step.compensation.data, ...resolveInputs(run, step.compensation.inputs) },
+        {
+          userId: run.userId,
+          connectorId: step.connectorId,
+          metadata: { ...run.metadata, compensatesWorkflowId: run.id, compensatesStepId: step.id }
+        }
+      );
+      logger.info('Workflow compensation queued', { workflowId: run.id, stepId: step.id, jobId: job.id });
+    }
+  }
+}
+
+export const workflowEngine = WorkflowEngine.getInstance();
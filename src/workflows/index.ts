@@ -1,4 +1,18 @@
 export * from './types';
 export * from './queue/JobQueue';
+export * from './queue/InMemoryJobStore';
+export * from './queue/SupabaseJobStore';
+export * from './queue/retryPolicies';
+export * from './queue/jobTimeouts';
+export * from './engine/WorkflowEngine';
+export * from './engine/InMemoryWorkflowStore';
+export * from './engine/SupabaseWorkflowStore';
+export * from './definitions/publishContentWorkflow';
 export * from './jobs/PostContentJob';
 export * from './jobs/FetchMetricsJob';
+export * from './jobs/UploadMediaJob';
+export * from './jobs/ProcessMediaJob';
+export * from './jobs/SyncPlatformJob';
+export * from './jobs/DeleteContentJob';
+export * from './jobs/DeliverWebhookJob';
+export * from './jobs/registerJobHandlers';
@@ -0,0 +1,141 @@
+import { Job, JobHandler, JobResult } from '../types';
+import { connectorRegistry } from '../../connectors/base';
+import { SocialConnector } from '../../connectors/base/SocialConnector';
+import { supabase } from '../../lib/supabase';
+import { connectorService } from '../../services/ConnectorService';
+import { logger } from '../../utils/logger';
+
+interface DeleteContentJobData {
+  contentId: string;
+  /** Restricts deletion to these platforms; defaults to every platform. */
+  platforms?: string[];
+  /** Restricts deletion to these `published_posts` rows. */
+  publishedPostIds?: string[];
+}
+
+export class DeleteContentJobHandler implements JobHandler<DeleteContentJobData> {
+  async handle(job: Job<DeleteContentJobData>, signal: AbortSignal): Promise<JobResult> {
+    const { contentId, platforms, publishedPostIds } = job.data;
+
+    if (!supabase) {
+      return {
+        success: false,
+        error: 'Supabase not configured',
+        shouldRetry: false
+      };
+    }
+
+    try {
+      let query = supabase
+        .from('published_posts')
+        .select('id, platform, platform_post_id, connector:connector_id(workspace_id, platform_user_id)')
+        .eq('content_id', contentId)
+        .neq('status', 'deleted')
+        .not('platform_post_id', 'is', null);
+
+      if (platforms && platforms.length > 0) {
+        query = query.in('platform', platforms);
+      }
+      if (publishedPostIds && publishedPostIds.length > 0) {
+        query = query.in('id', publishedPostIds);
+      }
+
+      const { data: posts, error } = await query;
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to load published posts: ${error.message}`,
+          shouldRetry: true
+        };
+      }
+
+      const deleted: string[] = [];
+      const failed: Array<{ platform: string; error: string }> = [];
+      let rateLimitedUntil: Date | null = null;
+
+      // Posts are marked deleted one by one, so a retry only revisits the
+      // platforms that failed.
+      for (const post of posts || []) {
+        signal.throwIfAborted();
+
+        // Each post is deleted through the account that published it.
+        const account = post.connector as unknown as { workspace_id: string; platform_user_id: string | null } | null;
+        const { connector } = account
+          ? await connectorService.acquireConnector(
+              {
+                workspaceId: account.workspace_id,
+                platform: post.platform,
+                accountId: account.platform_user_id ?? undefined
+              },
+              { job }
+            )
+          : { connector: null };
+
+        try {
+          const limitedUntil = connector?.getRateLimitedUntil() ?? null;
+          if (limitedUntil) {
+            failed.push({ platform: post.platform, error: `Connector ${post.platform} is rate limited` });
+            if (!rateLimitedUntil || limitedUntil.getTime() > rateLimitedUntil.getTime()) {
+              rateLimitedUntil = limitedUntil;
+            }
+            continue;
+          }
+
+          if (!connector || !(connector instanceof SocialConnector) || !connector.isConnected()) {
+            failed.push({ platform: post.platform, error: `Connector ${post.platform} is not connected` });
+            continue;
+          }
+
+          if (!await connector.deletePost(post.platform_post_id)) {
+            failed.push({ platform: post.platform, error: `${post.platform} refused to delete the post` });
+            continue;
+          }
+        } catch (deleteError) {
+          failed.push({ platform: post.platform, error: (deleteError as Error).message });
+          continue;
+        } finally {
+          if (connector) connectorRegistry.release(connector);
+        }
+
+        await supabase
+          .from('published_posts')
+          .update({ status: 'deleted' })
+          .eq('id', post.id);
+
+        deleted.push(post.platform);
+      }
+
+      if (failed.length > 0) {
+        return {
+          success: false,
+          error: failed.map(f => `${f.platform}: ${f.error}`).join('; '),
+          shouldRetry: true,
+          // Wait out the longest rate limit instead of spending an attempt on it.
+          rateLimited: rateLimitedUntil !== null,
+          retryAfterMs: rateLimitedUntil ? rateLimitedUntil.getTime() - Date.now() : undefined,
+          data: { contentId, deleted, failed }
+        };
+      }
+
+      return {
+        success: true,
+        data: { contentId, deleted }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+        shouldRetry: true
+      };
+    }
+  }
+
+  async onSuccess(job: Job<DeleteContentJobData>, result: JobResult): Promise<void> {
+    logger.info('Delete content job completed', { jobId: job.id, data: result.data });
+  }
+
+  async onFailure(job: Job<DeleteContentJobData>, error: Error): Promise<void> {
+    logger.error('Delete content job failed', error, { jobId: job.id, attempts: job.attempts });
+  }
+}
@@ -0,0 +1,174 @@
+import { Job, JobHandler, JobResult } from '../types';
+import { supabase } from '../../lib/supabase';
+import { logger } from '../../utils/logger';
+import { APP_CONFIG, OUTBOUND_WEBHOOK_CONFIG } from '../../config/constants';
+import { ValidationError } from '../../utils/errors';
+import { credentialVault } from '../../services/security/CredentialVault';
+import { outboundWebhookService } from '../../services/webhooks/OutboundWebhookService';
+import { assertDeliverableWebhookUrl } from '../../services/webhooks/webhookUrlPolicy';
+
+interface DeliverWebhookJobData {
+  deliveryId: string;
+}
+
+interface DeliveryRow {
+  id: string;
+  workspace_id: string;
+  event_id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  occurred_at: string;
+  status: string;
+  attempts: number;
+  endpoint: { id: string; url: string; secret: string; is_active: boolean } | null;
+}
+
+/** Receiver errors worth retrying; other 4xx responses will not change on a retry. */
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Sends one webhook delivery. Every attempt is written to
+ * `webhook_delivery_attempts`; 5xx, 408, 429 and network errors are retried
+ * with the DELIVER_WEBHOOK backoff, other non-2xx responses fail the
+ * delivery at once, as does a URL that no longer resolves to a public
+ * address.
+ */
+export class DeliverWebhookJobHandler implements JobHandler<DeliverWebhookJobData> {
+  async handle(job: Job<DeliverWebhookJobData>, signal: AbortSignal): Promise<JobResult> {
+    const { deliveryId } = job.data;
+
+    if (!supabase) {
+      return {
+        success: false,
+        error: 'Supabase not configured',
+        shouldRetry: false
+      };
+    }
+
+    // Claim the delivery for this job, so a delivery queued twice is sent once.
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .update({ job_id: job.id })
+      .eq('id', deliveryId)
+      .or(`job_id.is.null,job_id.eq.${job.id}`)
+      .select('id, workspace_id, event_id, event, payload, occurred_at, status, attempts, endpoint:endpoint_id(id, url, secret, is_active)')
+      .maybeSingle();
+
+    if (error) {
+      return {
+        success: false,
+        error: `Failed to load webhook delivery: ${error.message}`,
+        shouldRetry: true
+      };
+    }
+
+    const delivery = data as unknown as DeliveryRow | null;
+    if (!delivery || delivery.status === 'succeeded' || delivery.status === 'cancelled') {
+      return { success: true, data: { deliveryId, skipped: true } };
+    }
+
+    if (!delivery.endpoint?.is_active) {
+      await supabase
+        .from('webhook_deliveries')
+        .update({ status: 'cancelled', last_error: 'Endpoint disabled' })
+        .eq('id', deliveryId);
+      return { success: true, data: { deliveryId, skipped: true } };
+    }
+
+    const body = JSON.stringify({
+      id: delivery.event_id,
+      type: delivery.event,
+      timestamp: delivery.occurred_at,
+      data: delivery.payload,
+      metadata: { workspace_id: delivery.workspace_id }
+    });
+
+    const attempt = delivery.attempts + 1;
+    const startedAt = Date.now();
+    let statusCode: number | null = null;
+    let responseBody: string | null = null;
+    let failure: string | null = null;
+    let retryable = true;
+
+    try {
+      // Checked again on every send: the host may resolve elsewhere since it was registered.
+      await assertDeliverableWebhookUrl(delivery.endpoint.url);
+
+      const secret = await credentialVault.decrypt(delivery.endpoint.secret);
+      const response = await fetch(delivery.endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': `${APP_CONFIG.NAME}-Webhooks/${APP_CONFIG.VERSION}`,
+          'X-Webhook-Id': delivery.event_id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Signature': await outboundWebhookService.sign(secret, Math.floor(Date.now() / 1000), body)
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.any([signal, AbortSignal.timeout(OUTBOUND_WEBHOOK_CONFIG.REQUEST_TIMEOUT_MS)])
+      });
+
+      statusCode = response.status;
+      responseBody = (await response.text().catch(() => '')).slice(0, OUTBOUND_WEBHOOK_CONFIG.MAX_LOGGED_RESPONSE_LENGTH);
+      if (!response.ok) {
+        failure = `Endpoint responded with ${response.status}`;
+      }
+    } catch (requestError) {
+      failure = (requestError as Error).message;
+      retryable = !(requestError instanceof ValidationError);
+    }
+
+    const now = new Date().toISOString();
+    await supabase.from('webhook_delivery_attempts').insert({
+      delivery_id: delivery.id,
+      attempt,
+      status_code: statusCode,
+      response_body: responseBody,
+      error: failure,
+      duration_ms: Date.now() - startedAt
+    });
+
+    const shouldRetry = failure !== null && retryable && (statusCode === null || isRetryableStatus(statusCode));
+    await supabase
+      .from('webhook_deliveries')
+      .update({
+        status: failure === null ? 'succeeded' : shouldRetry ? 'retrying' : 'failed',
+        attempts: attempt,
+        last_status_code: statusCode,
+        last_error: failure,
+        last_attempt_at: now,
+        delivered_at: failure === null ? now : null
+      })
+      .eq('id', delivery.id);
+
+    if (failure !== null) {
+      return {
+        success: false,
+        error: failure,
+        shouldRetry,
+        data: { deliveryId, statusCode }
+      };
+    }
+
+    return {
+      success: true,
+      data: { deliveryId, statusCode }
+    };
+  }
+
+  async onFailure(job: Job<DeliverWebhookJobData>, error: Error): Promise<void> {
+    logger.warn('Webhook delivery gave up', { deliveryId: job.data.deliveryId, attempts: job.attempts, error: error.message });
+
+    if (!supabase) return;
+    await supabase
+      .from('webhook_deliveries')
+      .update({ status: 'failed' })
+      .eq('id', job.data.deliveryId)
+      .eq('job_id', job.id)
+      .in('status', ['pending', 'retrying']);
+  }
+}
@@ -1,18 +1,36 @@
 import { Job, JobHandler, JobResult } from '../types';
-import { connectorRegistry } from '../../connectors/base';
+import { BaseConnector, connectorRegistry } from '../../connectors/base';
 import { SocialConnector } from '../../connectors/base/SocialConnector';
+import { connectorService } from '../../services/ConnectorService';
+import { logger } from '../../utils/logger';
 
 interface FetchMetricsJobData {
   connectorId: string;
+  workspaceId: string;
+  /** Platform account to use; required when the workspace has several. */
+  accountId?: string;
   postId?: string;
 }
 
 export class FetchMetricsJobHandler implements JobHandler<FetchMetricsJobData> {
   async handle(job: Job<FetchMetricsJobData>): Promise<JobResult> {
-    const { connectorId, postId } = job.data;
+    const { connectorId, workspaceId, accountId, postId } = job.data;
+    let connector: BaseConnector | null = null;
 
     try {
-      const connector = connectorRegistry.getActiveConnector(connectorId);
+      const acquired = await connectorService.acquireConnector(
+        { workspaceId, platform: connectorId, accountId },
+        { job }
+      );
+      connector = acquired.connector;
+
+      if (acquired.error) {
+        return {
+          success: false,
+          error: acquired.error.message,
+          shouldRetry: true
+        };
+      }
 
       if (!connector) {
         return {
@@ -30,6 +48,17 @@ export class FetchMetricsJobHandler implements JobHandler<FetchMetricsJobData> {
         };
       }
 
+      const rateLimitedUntil = connector.getRateLimitedUntil();
+      if (rateLimitedUntil) {
+        return {
+          success: false,
+          error: `Connector ${connectorId} is rate limited`,
+          shouldRetry: true,
+          rateLimited: true,
+          retryAfterMs: rateLimitedUntil.getTime() - Date.now()
+        };
+      }
+
       if (!connector.isConnected()) {
         return {
           success: false,
@@ -60,14 +89,16 @@ export class FetchMetricsJobHandler implements JobHandler<FetchMetricsJobData> {
         error: (error as Error).message,
         shouldRetry: true
       };
+    } finally {
+      if (connector) connectorRegistry.release(connector);
     }
   }
 
   async onSuccess(job: Job<FetchMetricsJobData>, result: JobResult): Promise<void> {
-    console.log(`Metrics fetch job ${job.id} completed:`, result.data);
+    logger.info('Metrics fetch job completed', { jobId: job.id, data: result.data });
   }
 
   async onFailure(job: Job<FetchMetricsJobData>, error: Error): Promise<void> {
-    console.error(`Metrics fetch job ${job.id} failed:`, error);
+    logger.error('Metrics fetch job failed', error, { jobId: job.id });
   }
 }
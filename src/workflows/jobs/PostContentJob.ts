@@ -1,18 +1,49 @@
 import { Job, JobHandler, JobResult } from '../types';
-import { connectorRegistry } from '../../connectors/base';
+import { BaseConnector, connectorRegistry } from '../../connectors/base';
 import { SocialConnector, PostData } from '../../connectors/base/SocialConnector';
+import { connectorService } from '../../services/ConnectorService';
+import { publicationStatusService } from '../../services/publishing/PublicationStatusService';
+import { logger } from '../../utils/logger';
 
 interface PostContentJobData {
   connectorId: string;
+  workspaceId: string;
+  /** Platform account to post as; required when the workspace has several. */
+  accountId?: string;
   postData: PostData;
+  /** Processed media from the publish workflow; replaces `postData.mediaUrls`. */
+  mediaUrl?: string;
+  /** Media the workflow already uploaded to the platform; posted without uploading it again. */
+  platformMediaId?: string;
 }
 
 export class PostContentJobHandler implements JobHandler<PostContentJobData> {
-  async handle(job: Job<PostContentJobData>): Promise<JobResult> {
-    const { connectorId, postData } = job.data;
+  /** A post that timed out may already be live; retrying it could publish it twice. */
+  readonly retryOnTimeout = false;
+
+  async handle(job: Job<PostContentJobData>, signal: AbortSignal): Promise<JobResult> {
+    const { connectorId, workspaceId, accountId, mediaUrl, platformMediaId } = job.data;
+    const postData: PostData = {
+      ...job.data.postData,
+      ...(mediaUrl ? { mediaUrls: [mediaUrl] } : {}),
+      ...(platformMediaId ? { metadata: { ...job.data.postData.metadata, mediaIds: [platformMediaId] } } : {})
+    };
+    let connector: BaseConnector | null = null;
 
     try {
-      const connector = connectorRegistry.getActiveConnector(connectorId);
+      const acquired = await connectorService.acquireConnector(
+        { workspaceId, platform: connectorId, accountId },
+        { job }
+      );
+      connector = acquired.connector;
+
+      if (acquired.error) {
+        return {
+          success: false,
+          error: acquired.error.message,
+          shouldRetry: true
+        };
+      }
 
       if (!connector) {
         return {
@@ -30,6 +61,17 @@ export class PostContentJobHandler implements JobHandler<PostContentJobData> {
         };
       }
 
+      const rateLimitedUntil = connector.getRateLimitedUntil();
+      if (rateLimitedUntil) {
+        return {
+          success: false,
+          error: `Connector ${connectorId} is rate limited`,
+          shouldRetry: true,
+          rateLimited: true,
+          retryAfterMs: rateLimitedUntil.getTime() - Date.now()
+        };
+      }
+
       if (!connector.isConnected()) {
         return {
           success: false,
@@ -38,13 +80,29 @@ export class PostContentJobHandler implements JobHandler<PostContentJobData> {
         };
       }
 
-      const result = await connector.post(postData);
+      // Nothing has reached the platform yet, so a job aborted meanwhile stops here.
+      if (signal.aborted) {
+        return {
+          success: false,
+          error: 'Job aborted before posting',
+          shouldRetry: false
+        };
+      }
+
+      const publishedPostId = job.metadata?.publishedPostId as string | undefined;
+      if (publishedPostId) {
+        await publicationStatusService.transition(publishedPostId, 'uploading');
+      }
+
+      const result = await connector.post({ ...postData, signal });
 
       if (!result.success) {
         return {
           success: false,
           error: result.error || 'Post failed',
-          shouldRetry: true
+          shouldRetry: true,
+          rateLimited: result.rateLimited,
+          retryAfterMs: result.retryAfterMs
         };
       }
 
@@ -52,6 +110,7 @@ export class PostContentJobHandler implements JobHandler<PostContentJobData> {
         success: true,
         data: {
           postId: result.postId,
+          provisionalPostId: result.provisionalPostId,
           url: result.url,
           platformResponse: result.platformResponse
         }
@@ -62,14 +121,31 @@ export class PostContentJobHandler implements JobHandler<PostContentJobData> {
         error: (error as Error).message,
         shouldRetry: true
       };
+    } finally {
+      if (connector) connectorRegistry.release(connector);
     }
   }
 
   async onSuccess(job: Job<PostContentJobData>, result: JobResult): Promise<void> {
-    console.log(`Post job ${job.id} completed successfully:`, result.data);
+    logger.info('Post job completed', { jobId: job.id, data: result.data });
+
+    const publishedPostId = job.metadata?.publishedPostId as string | undefined;
+    if (publishedPostId) {
+      const data = result.data as { postId?: string; provisionalPostId?: string; url?: string } | undefined;
+      await publicationStatusService.transition(publishedPostId, 'published', {
+        platformPostId: data?.postId,
+        provisionalPostId: data?.provisionalPostId,
+        url: data?.url
+      });
+    }
   }
 
   async onFailure(job: Job<PostContentJobData>, error: Error): Promise<void> {
-    console.error(`Post job ${job.id} failed after ${job.attempts} attempts:`, error);
+    logger.error('Post job failed', error, { jobId: job.id, attempts: job.attempts });
+
+    const publishedPostId = job.metadata?.publishedPostId as string | undefined;
+    if (publishedPostId) {
+      await publicationStatusService.transition(publishedPostId, 'failed', { error: error.message });
+    }
   }
 }
@@ -0,0 +1,150 @@
+import { Job, JobHandler, JobResult } from '../types';
+import { mediaProcessingService } from '../../services/media/MediaProcessingService';
+import { storageService } from '../../services/media/StorageService';
+import { publicationStatusService } from '../../services/publishing/PublicationStatusService';
+import { PLATFORM_LIMITS } from '../../config/constants';
+import { logger } from '../../utils/logger';
+
+interface ProcessMediaJobData {
+  mediaUrl: string;
+  platform: string;
+  mediaId?: string;
+  fileName?: string;
+  dimensions?: { width: number; height: number };
+  duration?: number;
+}
+
+export class ProcessMediaJobHandler implements JobHandler<ProcessMediaJobData> {
+  async handle(job: Job<ProcessMediaJobData>, signal: AbortSignal): Promise<JobResult> {
+    const { mediaUrl, platform, mediaId, fileName, dimensions, duration } = job.data;
+
+    if (!(platform in PLATFORM_LIMITS)) {
+      return {
+        success: false,
+        error: `Unknown platform: ${platform}`,
+        shouldRetry: false
+      };
+    }
+
+    try {
+      const response = await fetch(mediaUrl, { signal });
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: `Failed to download media from ${mediaUrl}: ${response.status}`,
+          shouldRetry: response.status >= 500
+        };
+      }
+
+      const blob = await response.blob();
+      const file = new File([blob], fileName || mediaId || 'media', { type: blob.type });
+      const validation = mediaProcessingService.validateMedia(file);
+
+      if (!validation.valid || !validation.type || validation.type === 'audio') {
+        return {
+          success: false,
+          error: validation.error || `Unsupported media type: ${file.type}`,
+          shouldRetry: false
+        };
+      }
+
+      const processed = await mediaProcessingService.processMediaForPlatform(
+        {
+          file,
+          type: validation.type,
+          url: mediaUrl,
+          dimensions,
+          duration,
+          size: file.size
+        },
+        platform,
+        { signal }
+      );
+
+      const { blob: processedBlob, poster, ...output } = processed.processed;
+      let posterUrl: string | undefined;
+
+      // Re-encoded media only exists in this process; store it so the url
+      // handed to later steps is reachable by the platform.
+      if (processedBlob) {
+        URL.revokeObjectURL(output.url);
+
+        const workspaceId = job.metadata?.workspaceId as string | undefined;
+        if (!workspaceId) {
+          return {
+            success: false,
+            error: 'Job metadata must include workspaceId to store processed media',
+            shouldRetry: false
+          };
+        }
+
+        const uploadOptions = {
+          workspaceId,
+          userId: job.userId,
+          folder: `processed/${platform}`,
+          sourceMediaId: mediaId
+        };
+
+        const upload = await storageService.uploadFile(
+          this.toFile(processedBlob, `${mediaId || 'media'}_${platform}`),
+          { ...uploadOptions, rendition: platform, dimensions: output.dimensions, duration: output.duration }
+        );
+
+        if (!upload.success || !upload.url) {
+          return {
+            success: false,
+            error: upload.error || 'Failed to store processed media',
+            shouldRetry: true
+          };
+        }
+
+        output.url = upload.url;
+
+        if (poster) {
+          const posterUpload = await storageService.uploadFile(
+            this.toFile(poster, `${mediaId || 'media'}_${platform}_poster`),
+            { ...uploadOptions, rendition: `${platform}_poster`, dimensions: output.dimensions }
+          );
+          posterUrl = posterUpload.url;
+        }
+      }
+
+      return {
+        success: true,
+        data: {
+          mediaId,
+          platform,
+          ...output,
+          posterUrl,
+          optimizations: processed.optimizations
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+        shouldRetry: true
+      };
+    }
+  }
+
+  private toFile(blob: Blob, baseName: string): File {
+    const extension = blob.type.split('/')[1]?.replace('jpeg', 'jpg') || 'bin';
+    return new File([blob], `${baseName}.${extension}`, { type: blob.type });
+  }
+
+  async onSuccess(job: Job<ProcessMediaJobData>, result: JobResult): Promise<void> {
+    logger.info('Media processing job completed', { jobId: job.id, data: result.data });
+  }
+
+  async onFailure(job: Job<ProcessMediaJobData>, error: Error): Promise<void> {
+    logger.error('Media processing job failed', error, { jobId: job.id });
+
+    // In a publish workflow the post never runs, so the publication fails here.
+    const publishedPostId = job.metadata?.publishedPostId as string | undefined;
+    if (publishedPostId) {
+      await publicationStatusService.transition(publishedPostId, 'failed', { error: error.message });
+    }
+  }
+}
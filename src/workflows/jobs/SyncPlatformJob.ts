@@ -0,0 +1,184 @@
+import { Job, JobHandler, JobResult } from '../types';
+import { BaseConnector, connectorRegistry } from '../../connectors/base';
+import { SocialConnector } from '../../connectors/base/SocialConnector';
+import { connectorService } from '../../services/ConnectorService';
+import { supabase } from '../../lib/supabase';
+import { logger } from '../../utils/logger';
+
+interface SyncPlatformJobData {
+  connectorId: string;
+  workspaceId: string;
+  /** Platform account to use; required when the workspace has several. */
+  accountId?: string;
+  /** Id of the `connectors` row the synced posts belong to. */
+  connectorRecordId: string;
+  limit?: number;
+}
+
+export class SyncPlatformJobHandler implements JobHandler<SyncPlatformJobData> {
+  async handle(job: Job<SyncPlatformJobData>, signal: AbortSignal): Promise<JobResult> {
+    const { connectorId, workspaceId, accountId, connectorRecordId, limit = 25 } = job.data;
+    let connector: BaseConnector | null = null;
+
+    if (!supabase) {
+      return {
+        success: false,
+        error: 'Supabase not configured',
+        shouldRetry: false
+      };
+    }
+
+    try {
+      const acquired = await connectorService.acquireConnector(
+        { workspaceId, platform: connectorId, accountId },
+        { job }
+      );
+      connector = acquired.connector;
+
+      if (acquired.error) {
+        return {
+          success: false,
+          error: acquired.error.message,
+          shouldRetry: true
+        };
+      }
+
+      if (!connector) {
+        return {
+          success: false,
+          error: `Connector ${connectorId} not found`,
+          shouldRetry: false
+        };
+      }
+
+      if (!(connector instanceof SocialConnector)) {
+        return {
+          success: false,
+          error: `Connector ${connectorId} is not a social connector`,
+          shouldRetry: false
+        };
+      }
+
+      const rateLimitedUntil = connector.getRateLimitedUntil();
+      if (rateLimitedUntil) {
+        return {
+          success: false,
+          error: `Connector ${connectorId} is rate limited`,
+          shouldRetry: true,
+          rateLimited: true,
+          retryAfterMs: rateLimitedUntil.getTime() - Date.now()
+        };
+      }
+
+      if (!connector.isConnected()) {
+        return {
+          success: false,
+          error: `Connector ${connectorId} is not connected`,
+          shouldRetry: true
+        };
+      }
+
+      const posts = await connector.getRecentPosts(limit);
+      signal.throwIfAborted();
+
+      const syncedAt = new Date().toISOString();
+
+      const { data: known, error: knownError } = await supabase
+        .from('published_posts')
+        .select('id, platform_post_id, platform_data')
+        .eq('connector_id', connectorRecordId)
+        .in('platform_post_id', posts.map(post => post.postId));
+
+      if (knownError) {
+        return {
+          success: false,
+          error: `Failed to load synced posts: ${knownError.message}`,
+          shouldRetry: true
+        };
+      }
+
+      const knownByPostId = new Map((known ?? []).map(row => [row.platform_post_id as string, row]));
+
+      // Posts we have not seen are inserted; a concurrent insert of the same
+      // post wins and this one is dropped.
+      const { error: insertError } = await supabase
+        .from('published_posts')
+        .upsert(
+          posts
+            .filter(post => !knownByPostId.has(post.postId))
+            .map(post => ({
+              connector_id: connectorRecordId,
+              platform: connectorId,
+              platform_post_id: post.postId,
+              url: post.url ?? null,
+              status: 'published',
+              platform_data: {
+                content: post.content,
+                mediaType: post.mediaType,
+                metrics: post.metrics
+              },
+              published_at: post.publishedAt?.toISOString() ?? syncedAt,
+              synced_at: syncedAt
+            })),
+          { onConflict: 'connector_id,platform_post_id', ignoreDuplicates: true }
+        );
+
+      if (insertError) {
+        return {
+          success: false,
+          error: `Failed to store synced posts: ${insertError.message}`,
+          shouldRetry: true
+        };
+      }
+
+      // Known rows may be tracking a publish from here, so only their
+      // metrics are refreshed; status, content_id and the rest of
+      // platform_data (e.g. provisional_post_id) stay as they were.
+      for (const post of posts) {
+        const row = knownByPostId.get(post.postId);
+        if (!row) continue;
+
+        const { error: updateError } = await supabase
+          .from('published_posts')
+          .update({
+            platform_data: { ...(row.platform_data as Record<string, unknown> | null), metrics: post.metrics },
+            synced_at: syncedAt
+          })
+          .eq('id', row.id);
+
+        if (updateError) {
+          return {
+            success: false,
+            error: `Failed to update synced post ${post.postId}: ${updateError.message}`,
+            shouldRetry: true
+          };
+        }
+      }
+
+      return {
+        success: true,
+        data: {
+          connectorId,
+          synced: posts.length,
+          syncedAt
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+        shouldRetry: true
+      };
+    } finally {
+      if (connector) connectorRegistry.release(connector);
+    }
+  }
+
+  async onSuccess(job: Job<SyncPlatformJobData>, result: JobResult): Promise<void> {
+    logger.info('Platform sync job completed', { jobId: job.id, data: result.data });
+  }
+
+  async onFailure(job: Job<SyncPlatformJobData>, error: Error): Promise<void> {
+    logger.error('Platform sync job failed', error, { jobId: job.id });
+  }
+}
@@ -0,0 +1,133 @@
+import { Job, JobHandler, JobResult } from '../types';
+import { BaseConnector, connectorRegistry } from '../../connectors/base';
+import { SocialConnector } from '../../connectors/base/SocialConnector';
+import { connectorService } from '../../services/ConnectorService';
+import { publicationStatusService } from '../../services/publishing/PublicationStatusService';
+import { logger } from '../../utils/logger';
+
+interface UploadMediaJobData {
+  connectorId: string;
+  workspaceId: string;
+  /** Platform account to use; required when the workspace has several. */
+  accountId?: string;
+  mediaUrl: string;
+  /** Taken from the downloaded file's MIME type when omitted. */
+  mediaType?: 'image' | 'video';
+  mediaId?: string;
+}
+
+export class UploadMediaJobHandler implements JobHandler<UploadMediaJobData> {
+  async handle(job: Job<UploadMediaJobData>, signal: AbortSignal): Promise<JobResult> {
+    const { connectorId, workspaceId, accountId, mediaUrl, mediaType, mediaId } = job.data;
+    let connector: BaseConnector | null = null;
+
+    try {
+      const acquired = await connectorService.acquireConnector(
+        { workspaceId, platform: connectorId, accountId },
+        { job }
+      );
+      connector = acquired.connector;
+
+      if (acquired.error) {
+        return {
+          success: false,
+          error: acquired.error.message,
+          shouldRetry: true
+        };
+      }
+
+      if (!connector) {
+        return {
+          success: false,
+          error: `Connector ${connectorId} not found or not connected`,
+          shouldRetry: false
+        };
+      }
+
+      if (!(connector instanceof SocialConnector)) {
+        return {
+          success: false,
+          error: `Connector ${connectorId} is not a social connector`,
+          shouldRetry: false
+        };
+      }
+
+      const rateLimitedUntil = connector.getRateLimitedUntil();
+      if (rateLimitedUntil) {
+        return {
+          success: false,
+          error: `Connector ${connectorId} is rate limited`,
+          shouldRetry: true,
+          rateLimited: true,
+          retryAfterMs: rateLimitedUntil.getTime() - Date.now()
+        };
+      }
+
+      if (!connector.isConnected()) {
+        return {
+          success: false,
+          error: `Connector ${connectorId} is not connected`,
+          shouldRetry: true
+        };
+      }
+
+      const response = await fetch(mediaUrl, { signal });
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: `Failed to download media from ${mediaUrl}: ${response.status}`,
+          shouldRetry: response.status >= 500
+        };
+      }
+
+      const file = await response.blob();
+      const result = await connector.uploadMedia(
+        file,
+        mediaType ?? (file.type.startsWith('video/') ? 'video' : 'image'),
+        signal
+      );
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error || 'Media upload failed',
+          shouldRetry: true,
+          rateLimited: result.rateLimited,
+          retryAfterMs: result.retryAfterMs
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          mediaId,
+          platformMediaId: result.mediaId,
+          url: result.url
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+        shouldRetry: true
+      };
+    } finally {
+      if (connector) connectorRegistry.release(connector);
+    }
+  }
+
+  async onSuccess(job: Job<UploadMediaJobData>, result: JobResult): Promise<void> {
+    logger.info('Media upload job completed', { jobId: job.id, data: result.data });
+  }
+
+  async onFailure(job: Job<UploadMediaJobData>, error: Error): Promise<void> {
+    logger.error('Media upload job failed', error, { jobId: job.id, attempts: job.attempts });
+
+    // In a publish workflow the post never runs, so the publication fails here.
+    const publishedPostId = job.metadata?.publishedPostId as string | undefined;
+    if (publishedPostId) {
+      await publicationStatusService.transition(publishedPostId, 'failed', { error: error.message });
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { JobHandler, JobType } from '../types';
+import { JobQueue, jobQueue } from '../queue/JobQueue';
+import { PostContentJobHandler } from './PostContentJob';
+import { FetchMetricsJobHandler } from './FetchMetricsJob';
+import { UploadMediaJobHandler } from './UploadMediaJob';
+import { ProcessMediaJobHandler } from './ProcessMediaJob';
+import { SyncPlatformJobHandler } from './SyncPlatformJob';
+import { DeleteContentJobHandler } from './DeleteContentJob';
+import { DeliverWebhookJobHandler } from './DeliverWebhookJob';
+
+/**
+ * Registers the built-in handler for every job type that has one. Call once
+ * at startup in each process that runs jobs.
+ */
+export function registerDefaultJobHandlers(queue: JobQueue = jobQueue): void {
+  const handlers: Array<[JobType, JobHandler<unknown>]> = [
+    [JobType.POST_CONTENT, new PostContentJobHandler()],
+    [JobType.FETCH_METRICS, new FetchMetricsJobHandler()],
+    [JobType.UPLOAD_MEDIA, new UploadMediaJobHandler()],
+    [JobType.PROCESS_MEDIA, new ProcessMediaJobHandler()],
+    [JobType.SYNC_PLATFORM, new SyncPlatformJobHandler()],
+    [JobType.DELETE_CONTENT, new DeleteContentJobHandler()],
+    [JobType.DELIVER_WEBHOOK, new DeliverWebhookJobHandler()]
+  ];
+
+  for (const [type, handler] of handlers) {
+    queue.registerHandler(type, handler);
+  }
+}
@@ -0,0 +1,143 @@
+import { Job, JobFilter, JobStatus, JobStatusCounts, JobStore } from '../types';
+
+const FINISHED_STATUSES = [JobStatus.COMPLETED, JobStatus.CANCELLED];
+const CLAIMABLE_STATUSES = [JobStatus.PENDING, JobStatus.RETRYING];
+
+/**
+ * Process-local JobStore. Jobs are lost when the process exits, so this is
+ * meant for tests and for the browser where no durable backend is configured.
+ */
+export class InMemoryJobStore implements JobStore {
+  private jobs: Map<string, Job> = new Map();
+
+  async insert(job: Job): Promise<Job> {
+    if (this.jobs.has(job.id)) {
+      throw new Error(`Job ${job.id} already exists`);
+    }
+    if (job.idempotencyKey) {
+      const existing = [...this.jobs.values()].find(candidate => candidate.idempotencyKey === job.idempotencyKey);
+      if (existing) return { ...existing };
+    }
+    this.jobs.set(job.id, { ...job });
+    return { ...job };
+  }
+
+  async update(job: Job): Promise<void> {
+    if (!this.jobs.has(job.id)) {
+      throw new Error(`Job ${job.id} not found`);
+    }
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async updateOwned(job: Job, workerId: string): Promise<boolean> {
+    const current = this.jobs.get(job.id);
+    if (!current || current.status !== JobStatus.PROCESSING || current.workerId !== workerId) {
+      return false;
+    }
+    this.jobs.set(job.id, { ...job });
+    return true;
+  }
+
+  async get(jobId: string): Promise<Job | undefined> {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : undefined;
+  }
+
+  async find(filter: JobFilter): Promise<Job[]> {
+    const statuses = filter.status === undefined
+      ? undefined
+      : Array.isArray(filter.status) ? filter.status : [filter.status];
+
+    const matches = this.sorted().filter(job =>
+      (!filter.ids || filter.ids.includes(job.id)) &&
+      (!filter.userId || job.userId === filter.userId) &&
+      (!statuses || statuses.includes(job.status)) &&
+      (!filter.type || job.type === filter.type) &&
+      (!filter.workerId || job.workerId === filter.workerId) &&
+      (!filter.idempotencyKey || job.idempotencyKey === filter.idempotencyKey)
+    );
+
+    return (filter.limit ? matches.slice(0, filter.limit) : matches).map(job => ({ ...job }));
+  }
+
+  async claimNext(workerId: string, now: Date): Promise<Job | undefined> {
+    const job = this.sorted().find(
+      candidate =>
+        CLAIMABLE_STATUSES.includes(candidate.status) &&
+        (!candidate.scheduledFor || candidate.scheduledFor <= now)
+    );
+    if (!job) return undefined;
+
+    job.status = JobStatus.PROCESSING;
+    job.workerId = workerId;
+    job.startedAt = now;
+    job.heartbeatAt = now;
+    job.updatedAt = now;
+    return { ...job };
+  }
+
+  async heartbeat(jobId: string, workerId: string, now: Date): Promise<boolean> {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== JobStatus.PROCESSING || job.workerId !== workerId) {
+      return false;
+    }
+    job.heartbeatAt = now;
+    return true;
+  }
+
+  async reclaimStalled(staleBefore: Date, now: Date): Promise<Job[]> {
+    const reclaimed: Job[] = [];
+    for (const job of this.jobs.values()) {
+      const lastSeen = job.heartbeatAt ?? job.startedAt ?? job.updatedAt;
+      if (job.status !== JobStatus.PROCESSING || lastSeen >= staleBefore) continue;
+
+      job.error = `Job stalled: worker ${job.workerId} stopped heartbeating`;
+      job.workerId = undefined;
+      job.updatedAt = now;
+      if (job.attempts >= job.maxAttempts) {
+        job.status = JobStatus.FAILED;
+        job.completedAt = now;
+      } else {
+        job.status = JobStatus.RETRYING;
+        job.scheduledFor = now;
+      }
+      reclaimed.push({ ...job });
+    }
+    return reclaimed;
+  }
+
+  async countByStatus(): Promise<JobStatusCounts> {
+    const counts = Object.values(JobStatus).reduce(
+      (acc, status) => ({ ...acc, [status]: 0 }),
+      {} as JobStatusCounts
+    );
+    for (const job of this.jobs.values()) {
+      counts[job.status]++;
+    }
+    return counts;
+  }
+
+  async deleteFinished(before: Date): Promise<number> {
+    let deleted = 0;
+    for (const job of this.jobs.values()) {
+      if (FINISHED_STATUSES.includes(job.status) && job.updatedAt < before) {
+        this.jobs.delete(job.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async delete(jobIds: string[]): Promise<number> {
+    return jobIds.filter(jobId => this.jobs.delete(jobId)).length;
+  }
+
+  private sorted(): Job[] {
+    return Array.from(this.jobs.values()).sort((a, b) => {
+      if (a.priority !== b.priority) {
+        return b.priority - a.priority;
+      }
+      return a.createdAt.getTime() - b.createdAt.getTime();
+    });
+  }
+}
@@ -1,12 +1,61 @@
-import { Job, JobStatus, JobPriority, JobHandler, JobType } from '../types';
+import { Job, JobStatus, JobPriority, JobHandler, JobType, JobStore, RetryPolicy } from '../types';
+import { InMemoryJobStore } from './InMemoryJobStore';
+import { DEFAULT_RETRY_POLICY, RETRY_POLICIES, computeRetryDelay } from './retryPolicies';
+import { getDefaultJobTimeout } from './jobTimeouts';
+import { connectorRateLimiter } from '../../connectors/base/RateLimiter';
+import { CONNECTOR_CONFIG, JOB_CONFIG } from '../../config/constants';
+import { logger } from '../../utils/logger';
+
+type AbortReason = 'timeout' | 'cancelled' | 'reclaimed';
+
+export type JobSettledListener = (job: Job) => Promise<void> | void;
+
+interface RunningJob {
+  controller: AbortController;
+  abortReason?: AbortReason;
+  promise?: Promise<void>;
+}
+
+/**
+ * Settles with the handler's outcome, or rejects as soon as `signal` aborts so
+ * that a handler which ignores the signal still releases its concurrency slot.
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
 
 export class JobQueue {
   private static instance: JobQueue;
-  private queue: Job[] = [];
+  private store: JobStore = new InMemoryJobStore();
+  private workerId: string = `worker_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   private handlers: Map<JobType, JobHandler> = new Map();
-  private processing: Map<string, Promise<void>> = new Map();
-  private maxConcurrent: number = 5;
+  private retryPolicies: Map<JobType, RetryPolicy> = new Map(
+    Object.entries(RETRY_POLICIES) as Array<[JobType, RetryPolicy]>
+  );
+  private timeouts: Map<JobType, number> = new Map();
+  private running: Map<string, RunningJob> = new Map();
+  private settledListeners: Set<JobSettledListener> = new Set();
+  private maxConcurrent: number = JOB_CONFIG.MAX_CONCURRENT_JOBS;
   private activeJobs: number = 0;
+  private polling: boolean = false;
+  private lastCleanup: number = Date.now();
 
   private constructor() {
     this.startProcessing();
@@ -23,6 +72,64 @@ export class JobQueue {
     this.handlers.set(type, handler);
   }
 
+  /**
+   * Subscribes to jobs reaching a terminal state (completed, dead-lettered or
+   * cancelled). Returns an unsubscribe function.
+   */
+  onJobSettled(listener: JobSettledListener): () => void {
+    this.settledListeners.add(listener);
+    return () => {
+      this.settledListeners.delete(listener);
+    };
+  }
+
+  private async notifySettled(job: Job): Promise<void> {
+    for (const listener of this.settledListeners) {
+      try {
+        await listener(job);
+      } catch (error) {
+        logger.error('Job settled listener failed', error as Error, { jobId: job.id });
+      }
+    }
+  }
+
+  setRetryPolicy(type: JobType, policy: Partial<RetryPolicy>): void {
+    this.retryPolicies.set(type, { ...this.getRetryPolicy(type), ...policy });
+  }
+
+  getRetryPolicy(type: JobType): RetryPolicy {
+    return this.retryPolicies.get(type) ?? DEFAULT_RETRY_POLICY;
+  }
+
+  setJobTimeout(type: JobType, timeoutMs: number): void {
+    this.timeouts.set(type, timeoutMs);
+  }
+
+  getJobTimeout(type: JobType): number {
+    return this.timeouts.get(type) ?? getDefaultJobTimeout(type);
+  }
+
+  /**
+   * Swaps the persistence backend and resumes any jobs this worker had in
+   * flight when it last stopped. Pass a stable `workerId` (e.g. the host
+   * name) so a restarted worker recognises its own interrupted jobs.
+   */
+  async useStore(store: JobStore, options: { workerId?: string } = {}): Promise<number> {
+    this.store = store;
+    if (options.workerId) {
+      this.workerId = options.workerId;
+    }
+    return this.resumeInterruptedJobs();
+  }
+
+  getWorkerId(): string {
+    return this.workerId;
+  }
+
+  /**
+   * Queues a job. With an `idempotencyKey`, a job already queued under the
+   * same key is returned instead of adding another.
+   */
   async addJob<T>(
     type: JobType,
     data: T,
@@ -32,7 +139,9 @@ export class JobQueue {
       priority?: JobPriority;
       scheduledFor?: Date;
       maxAttempts?: number;
+      timeoutMs?: number;
       metadata?: Record<string, unknown>;
+      idempotencyKey?: string;
     }
   ): Promise<Job<T>> {
     const job: Job<T> = {
@@ -44,76 +153,205 @@ export class JobQueue {
       userId: options.userId,
       connectorId: options.connectorId,
       attempts: 0,
-      maxAttempts: options.maxAttempts || 3,
+      maxAttempts: options.maxAttempts || this.getRetryPolicy(type).maxAttempts,
       createdAt: new Date(),
       updatedAt: new Date(),
       scheduledFor: options.scheduledFor,
-      metadata: options.metadata
+      timeoutMs: options.timeoutMs,
+      metadata: options.metadata,
+      idempotencyKey: options.idempotencyKey
     };
 
-    this.queue.push(job);
-    this.sortQueue();
+    return (await this.store.insert(job)) as Job<T>;
+  }
+
+  /** The job queued under `idempotencyKey`, if any. */
+  async findJobByIdempotencyKey(idempotencyKey: string): Promise<Job | undefined> {
+    const [job] = await this.store.find({ idempotencyKey, limit: 1 });
     return job;
   }
 
   async getJob(jobId: string): Promise<Job | undefined> {
-    return this.queue.find(job => job.id === jobId);
+    return this.store.get(jobId);
   }
 
+  /**
+   * Cancels a queued job outright. A job that is already processing is marked
+   * cancelled and its handler's AbortSignal fires — immediately when it runs
+   * on this worker, or on the owning worker's next heartbeat otherwise.
+   */
   async cancelJob(jobId: string): Promise<boolean> {
-    const job = this.queue.find(job => job.id === jobId);
+    const job = await this.store.get(jobId);
     if (!job) return false;
 
-    if (job.status === JobStatus.PROCESSING) {
+    if (
+      job.status === JobStatus.COMPLETED ||
+      job.status === JobStatus.FAILED ||
+      job.status === JobStatus.CANCELLED
+    ) {
       return false;
     }
 
+    const wasProcessing = job.status === JobStatus.PROCESSING;
     job.status = JobStatus.CANCELLED;
+    job.completedAt = new Date();
     job.updatedAt = new Date();
-    this.removeFromQueue(jobId);
+    await this.store.update(job);
+
+    if (wasProcessing) {
+      this.abortJob(jobId, 'cancelled');
+    }
+    await this.notifySettled(job);
     return true;
   }
 
   async getJobsByUser(userId: string): Promise<Job[]> {
-    return this.queue.filter(job => job.userId === userId);
+    return this.store.find({ userId });
   }
 
   async getJobsByStatus(status: JobStatus): Promise<Job[]> {
-    return this.queue.filter(job => job.status === status);
+    return this.store.find({ status });
   }
 
-  private sortQueue(): void {
-    this.queue.sort((a, b) => {
-      if (a.priority !== b.priority) {
-        return b.priority - a.priority;
-      }
-      return a.createdAt.getTime() - b.createdAt.getTime();
+  /**
+   * Jobs that failed permanently, either because the handler reported a
+   * non-retryable error or because they ran out of attempts. They are kept
+   * until requeued or purged so that nothing disappears silently.
+   */
+  async getDeadLetterJobs(filter: { type?: JobType; userId?: string; limit?: number } = {}): Promise<Job[]> {
+    return this.store.find({ ...filter, status: JobStatus.FAILED });
+  }
+
+  async requeueDeadLetterJob(
+    jobId: string,
+    options: { resetAttempts?: boolean; scheduledFor?: Date } = {}
+  ): Promise<boolean> {
+    const job = await this.store.get(jobId);
+    if (!job || job.status !== JobStatus.FAILED) return false;
+
+    job.status = JobStatus.PENDING;
+    job.scheduledFor = options.scheduledFor;
+    job.completedAt = undefined;
+    job.workerId = undefined;
+    job.updatedAt = new Date();
+    if (options.resetAttempts ?? true) {
+      job.attempts = 0;
+    } else {
+      job.maxAttempts = Math.max(job.maxAttempts, job.attempts + 1);
+    }
+
+    await this.store.update(job);
+    logger.info('Dead-letter job requeued', { jobId, type: job.type });
+    return true;
+  }
+
+  /**
+   * Deletes dead-letter jobs. With no ids every dead-letter job is removed.
+   */
+  async purgeDeadLetterJobs(jobIds?: string[]): Promise<number> {
+    const dead = await this.store.find({ status: JobStatus.FAILED, ids: jobIds });
+    return this.store.delete(dead.map(job => job.id));
+  }
+
+  private async resumeInterruptedJobs(): Promise<number> {
+    const interrupted = await this.store.find({
+      status: JobStatus.PROCESSING,
+      workerId: this.workerId
     });
+
+    for (const job of interrupted) {
+      if (this.running.has(job.id)) continue;
+
+      job.status = JobStatus.PENDING;
+      job.workerId = undefined;
+      job.updatedAt = new Date();
+      await this.store.update(job);
+    }
+
+    if (interrupted.length > 0) {
+      logger.info('Resumed interrupted jobs', { workerId: this.workerId, count: interrupted.length });
+    }
+    return interrupted.length;
   }
 
   private async startProcessing(): Promise<void> {
     setInterval(() => {
       this.processNextJobs();
     }, 1000);
+
+    setInterval(() => {
+      this.heartbeat();
+    }, JOB_CONFIG.HEARTBEAT_INTERVAL_MS);
   }
 
-  private async processNextJobs(): Promise<void> {
-    while (this.activeJobs < this.maxConcurrent) {
-      const job = this.getNextJob();
-      if (!job) break;
+  private abortJob(jobId: string, reason: AbortReason): void {
+    const running = this.running.get(jobId);
+    if (!running || running.controller.signal.aborted) return;
 
-      this.processJob(job);
-    }
+    running.abortReason = reason;
+    running.controller.abort(new Error(`Job ${jobId} aborted: ${reason}`));
   }
 
-  private getNextJob(): Job | undefined {
+  /**
+   * Refreshes the heartbeat of every job running here, aborts the ones that
+   * were cancelled or taken over elsewhere, and reclaims jobs whose worker
+   * has gone quiet for longer than STALLED_JOB_THRESHOLD_MS.
+   */
+  private async heartbeat(): Promise<void> {
     const now = new Date();
-    return this.queue.find(
-      job =>
-        job.status === JobStatus.PENDING &&
-        (!job.scheduledFor || job.scheduledFor <= now) &&
-        !this.processing.has(job.id)
-    );
+
+    try {
+      for (const jobId of Array.from(this.running.keys())) {
+        const alive = await this.store.heartbeat(jobId, this.workerId, now);
+        if (alive) continue;
+
+        const job = await this.store.get(jobId);
+        this.abortJob(jobId, job?.status === JobStatus.CANCELLED ? 'cancelled' : 'reclaimed');
+      }
+
+      const stalled = await this.store.reclaimStalled(
+        new Date(now.getTime() - JOB_CONFIG.STALLED_JOB_THRESHOLD_MS),
+        now
+      );
+
+      for (const job of stalled) {
+        logger.warn('Reclaimed stalled job', { jobId: job.id, type: job.type, status: job.status });
+
+        const handler = this.handlers.get(job.type);
+        if (job.status === JobStatus.FAILED) {
+          if (handler?.onFailure) {
+            await handler.onFailure(job, new Error(job.error || 'Job stalled'));
+          }
+          await this.notifySettled(job);
+        }
+      }
+    } catch (error) {
+      logger.error('Job heartbeat failed', error as Error, { workerId: this.workerId });
+    }
+  }
+
+  private async processNextJobs(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      while (this.activeJobs < this.maxConcurrent) {
+        const job = await this.store.claimNext(this.workerId, new Date());
+        if (!job) break;
+
+        if (await this.deferIfRateLimited(job)) continue;
+        await this.processJob(job);
+      }
+
+      if (Date.now() - this.lastCleanup >= JOB_CONFIG.JOB_CLEANUP_AFTER_MS) {
+        this.lastCleanup = Date.now();
+        await this.store.deleteFinished(new Date(Date.now() - JOB_CONFIG.JOB_CLEANUP_AFTER_MS));
+      }
+    } catch (error) {
+      logger.error('Job queue polling failed', error as Error, { workerId: this.workerId });
+    } finally {
+      this.polling = false;
+    }
   }
 
   private async processJob(job: Job): Promise<void> {
@@ -122,84 +360,233 @@ export class JobQueue {
       console.error(`No handler registered for job type: ${job.type}`);
       job.status = JobStatus.FAILED;
       job.error = `No handler registered for job type: ${job.type}`;
+      job.workerId = undefined;
+      job.completedAt = new Date();
+      job.updatedAt = new Date();
+      if (await this.store.updateOwned(job, this.workerId)) {
+        await this.notifySettled(job);
+      }
       return;
     }
 
     job.status = JobStatus.PROCESSING;
+    job.workerId = this.workerId;
     job.startedAt = new Date();
+    job.heartbeatAt = new Date();
     job.updatedAt = new Date();
     job.attempts++;
     this.activeJobs++;
 
-    const processingPromise = (async () => {
+    const running: RunningJob = { controller: new AbortController() };
+    this.running.set(job.id, running);
+
+    const timeoutMs = job.timeoutMs ?? this.getJobTimeout(job.type);
+    const timer = setTimeout(() => this.abortJob(job.id, 'timeout'), timeoutMs);
+
+    running.promise = (async () => {
       try {
-        const result = await handler.handle(job);
+        if (!(await this.store.updateOwned(job, this.workerId))) {
+          logger.warn('Claimed job is no longer owned by this worker', { jobId: job.id, type: job.type });
+          return;
+        }
+        const signal = running.controller.signal;
+        const result = await raceAbort(handler.handle(job, signal), signal);
 
         if (result.success) {
           job.status = JobStatus.COMPLETED;
           job.completedAt = new Date();
+          job.updatedAt = new Date();
           job.result = result.data;
+          job.error = undefined;
+          if (!(await this.store.updateOwned(job, this.workerId))) {
+            this.logLostOwnership(job);
+            return;
+          }
 
           if (handler.onSuccess) {
             await handler.onSuccess(job, result);
           }
-
-          this.removeFromQueue(job.id);
+          await this.notifySettled(job);
+        } else if (result.rateLimited) {
+          job.attempts--;
+          await this.deferRateLimitedJob(job, result.retryAfterMs, result.error);
         } else {
           await this.handleJobFailure(job, new Error(result.error || 'Job failed'), result.shouldRetry);
         }
       } catch (error) {
-        await this.handleJobFailure(job, error as Error, true);
+        switch (running.abortReason) {
+          case 'cancelled':
+            logger.info('Running job cancelled', { jobId: job.id, type: job.type });
+            break;
+          case 'reclaimed':
+            logger.warn('Job was reclaimed by another worker', { jobId: job.id, type: job.type });
+            break;
+          case 'timeout':
+            await this.handleJobFailure(
+              job,
+              new Error(
+                handler.retryOnTimeout === false
+                  ? `Job timed out after ${timeoutMs}ms; it may have partly completed, so it was not retried`
+                  : `Job timed out after ${timeoutMs}ms`
+              ),
+              handler.retryOnTimeout !== false
+            );
+            break;
+          default:
+            await this.handleJobFailure(job, error as Error, true);
+        }
       } finally {
+        clearTimeout(timer);
         this.activeJobs--;
-        this.processing.delete(job.id);
+        this.running.delete(job.id);
       }
     })();
+  }
 
-    this.processing.set(job.id, processingPromise);
+  private getRateLimitScope(job: Job): { connectorId: string; workspaceId: string } | undefined {
+    const workspaceId = job.metadata?.workspaceId as string | undefined;
+    if (!job.connectorId || !workspaceId || !connectorRateLimiter.hasRules(job.connectorId)) {
+      return undefined;
+    }
+    return { connectorId: job.connectorId, workspaceId };
+  }
+
+  /**
+   * Reserves connector quota for a freshly claimed job. When the bucket for
+   * its connector and workspace is empty the job goes back to the queue,
+   * scheduled for the earliest slot, without using up an attempt.
+   */
+  private async deferIfRateLimited(job: Job): Promise<boolean> {
+    const scope = this.getRateLimitScope(job);
+    if (!scope) return false;
+
+    const cost = (job.metadata?.rateLimitCost as number | undefined) ?? 1;
+    const reservation = connectorRateLimiter.reserve(scope.connectorId, scope.workspaceId, cost);
+    if (reservation.allowed) return false;
+
+    if (!reservation.retryAt) {
+      job.attempts++;
+      await this.handleJobFailure(
+        job,
+        new Error(`Job needs ${cost} quota units, more than ${scope.connectorId} allows per period`),
+        false
+      );
+      return true;
+    }
+
+    if (!(await this.requeue(job, reservation.retryAt))) {
+      this.logLostOwnership(job);
+      return true;
+    }
+    logger.info('Job deferred by rate limit', {
+      jobId: job.id,
+      connectorId: scope.connectorId,
+      workspaceId: scope.workspaceId,
+      retryAt: reservation.retryAt.toISOString()
+    });
+    return true;
+  }
+
+  private async deferRateLimitedJob(job: Job, retryAfterMs: number | undefined, reason?: string): Promise<void> {
+    const retryAt = new Date(Date.now() + (retryAfterMs ?? CONNECTOR_CONFIG.RETRY_BACKOFF_MS * 60));
+    const scope = this.getRateLimitScope(job);
+    if (scope) {
+      connectorRateLimiter.block(scope.connectorId, scope.workspaceId, retryAt);
+    }
+
+    job.error = reason;
+    if (!(await this.requeue(job, retryAt))) {
+      this.logLostOwnership(job);
+      return;
+    }
+    logger.warn('Job rate limited by platform, deferred', {
+      jobId: job.id,
+      connectorId: job.connectorId,
+      retryAt: retryAt.toISOString()
+    });
+  }
+
+  /** Puts a job this worker claimed back in the queue; false if it lost the job meanwhile. */
+  private async requeue(job: Job, scheduledFor: Date): Promise<boolean> {
+    job.status = job.attempts > 0 ? JobStatus.RETRYING : JobStatus.PENDING;
+    job.scheduledFor = scheduledFor;
+    job.workerId = undefined;
+    job.updatedAt = new Date();
+    return this.store.updateOwned(job, this.workerId);
+  }
+
+  /**
+   * The job was cancelled or reclaimed while this worker ran it, so its
+   * outcome is dropped rather than written over the new state.
+   */
+  private logLostOwnership(job: Job): void {
+    logger.warn('Discarded outcome of a job this worker no longer owns', { jobId: job.id, type: job.type });
   }
 
   private async handleJobFailure(job: Job, error: Error, shouldRetry: boolean = true): Promise<void> {
     job.error = error.message;
     job.updatedAt = new Date();
+    job.workerId = undefined;
 
-    if (shouldRetry && job.attempts < job.maxAttempts) {
-      job.status = JobStatus.RETRYING;
-      job.scheduledFor = new Date(Date.now() + Math.pow(2, job.attempts) * 1000);
-    } else {
-      job.status = JobStatus.FAILED;
-      job.completedAt = new Date();
+    try {
+      if (shouldRetry && job.attempts < job.maxAttempts) {
+        const delay = computeRetryDelay(this.getRetryPolicy(job.type), job.attempts);
+        job.status = JobStatus.RETRYING;
+        job.scheduledFor = new Date(Date.now() + delay);
+        if (!(await this.store.updateOwned(job, this.workerId))) {
+          this.logLostOwnership(job);
+          return;
+        }
 
-      const handler = this.handlers.get(job.type);
-      if (handler?.onFailure) {
-        await handler.onFailure(job, error);
-      }
+        logger.warn('Job failed, retry scheduled', {
+          jobId: job.id,
+          type: job.type,
+          attempt: job.attempts,
+          retryAt: job.scheduledFor.toISOString()
+        });
+      } else {
+        job.status = JobStatus.FAILED;
+        job.completedAt = new Date();
+        if (!(await this.store.updateOwned(job, this.workerId))) {
+          this.logLostOwnership(job);
+          return;
+        }
 
-      this.removeFromQueue(job.id);
-    }
-  }
+        logger.error('Job moved to dead-letter queue', error, {
+          jobId: job.id,
+          type: job.type,
+          attempts: job.attempts,
+          retryable: shouldRetry
+        });
 
-  private removeFromQueue(jobId: string): void {
-    const index = this.queue.findIndex(job => job.id === jobId);
-    if (index !== -1) {
-      this.queue.splice(index, 1);
+        const handler = this.handlers.get(job.type);
+        if (handler?.onFailure) {
+          await handler.onFailure(job, error);
+        }
+        await this.notifySettled(job);
+      }
+    } catch (storeError) {
+      logger.error('Failed to record job failure', storeError as Error, { jobId: job.id });
     }
   }
 
-  getQueueStats(): {
+  async getQueueStats(): Promise<{
     total: number;
     pending: number;
     processing: number;
+    retrying: number;
     completed: number;
     failed: number;
     active: number;
-  } {
+  }> {
+    const counts = await this.store.countByStatus();
     return {
-      total: this.queue.length,
-      pending: this.queue.filter(j => j.status === JobStatus.PENDING).length,
-      processing: this.queue.filter(j => j.status === JobStatus.PROCESSING).length,
-      completed: this.queue.filter(j => j.status === JobStatus.COMPLETED).length,
-      failed: this.queue.filter(j => j.status === JobStatus.FAILED).length,
+      total: Object.values(counts).reduce((sum, count) => sum + count, 0),
+      pending: counts[JobStatus.PENDING],
+      processing: counts[JobStatus.PROCESSING],
+      retrying: counts[JobStatus.RETRYING],
+      completed: counts[JobStatus.COMPLETED],
+      failed: counts[JobStatus.FAILED],
       active: this.activeJobs
     };
   }
@@ -0,0 +1,259 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Job, JobFilter, JobPriority, JobStatus, JobStatusCounts, JobStore, JobType } from '../types';
+
+interface JobRow {
+  id: string;
+  type: string;
+  status: string;
+  priority: number;
+  data: unknown;
+  user_id: string;
+  connector_id: string | null;
+  attempts: number;
+  max_attempts: number;
+  scheduled_for: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  error: string | null;
+  result: unknown;
+  metadata: Record<string, unknown> | null;
+  worker_id: string | null;
+  heartbeat_at: string | null;
+  timeout_ms: number | null;
+  idempotency_key: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const toDate = (value: string | null): Date | undefined => (value ? new Date(value) : undefined);
+
+function toJob(row: JobRow): Job {
+  return {
+    id: row.id,
+    type: row.type as JobType,
+    status: row.status as JobStatus,
+    priority: row.priority as JobPriority,
+    data: row.data,
+    userId: row.user_id,
+    connectorId: row.connector_id ?? undefined,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    scheduledFor: toDate(row.scheduled_for),
+    startedAt: toDate(row.started_at),
+    completedAt: toDate(row.completed_at),
+    error: row.error ?? undefined,
+    result: row.result ?? undefined,
+    metadata: row.metadata ?? undefined,
+    workerId: row.worker_id ?? undefined,
+    heartbeatAt: toDate(row.heartbeat_at),
+    timeoutMs: row.timeout_ms ?? undefined,
+    idempotencyKey: row.idempotency_key ?? undefined
+  };
+}
+
+function toRow(job: Job): JobRow {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    priority: job.priority,
+    data: job.data,
+    user_id: job.userId,
+    connector_id: job.connectorId ?? null,
+    attempts: job.attempts,
+    max_attempts: job.maxAttempts,
+    scheduled_for: job.scheduledFor?.toISOString() ?? null,
+    started_at: job.startedAt?.toISOString() ?? null,
+    completed_at: job.completedAt?.toISOString() ?? null,
+    error: job.error ?? null,
+    result: job.result ?? null,
+    metadata: job.metadata ?? null,
+    worker_id: job.workerId ?? null,
+    heartbeat_at: job.heartbeatAt?.toISOString() ?? null,
+    timeout_ms: job.timeoutMs ?? null,
+    idempotency_key: job.idempotencyKey ?? null,
+    created_at: job.createdAt.toISOString(),
+    updated_at: job.updatedAt.toISOString()
+  };
+}
+
+/**
+ * JobStore backed by the `jobs` table. Claiming goes through the
+ * `claim_next_job` function, which uses `FOR UPDATE SKIP LOCKED` so that
+ * concurrent workers never pick up the same row.
+ *
+ * Workers should pass a service-role client; the table's RLS policies only
+ * expose a user's own jobs to browser sessions.
+ */
+export class SupabaseJobStore implements JobStore {
+  constructor(private client: SupabaseClient, private table: string = 'jobs') {}
+
+  async insert(job: Job): Promise<Job> {
+    const { error } = await this.client.from(this.table).insert(toRow(job));
+    if (!error) return job;
+
+    // Unique violation on idempotency_key: the job was already queued.
+    if (error.code === '23505' && job.idempotencyKey) {
+      const [existing] = await this.find({ idempotencyKey: job.idempotencyKey, limit: 1 });
+      if (existing) return existing;
+    }
+    throw new Error(`Failed to insert job ${job.id}: ${error.message}`);
+  }
+
+  async update(job: Job): Promise<void> {
+    const { error } = await this.client
+      .from(this.table)
+      .update(toRow(job))
+      .eq('id', job.id);
+    if (error) {
+      throw new Error(`Failed to update job ${job.id}: ${error.message}`);
+    }
+  }
+
+  async updateOwned(job: Job, workerId: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .update(toRow(job))
+      .eq('id', job.id)
+      .eq('worker_id', workerId)
+      .eq('status', JobStatus.PROCESSING)
+      .select('id');
+    if (error) {
+      throw new Error(`Failed to update job ${job.id}: ${error.message}`);
+    }
+    return (data?.length ?? 0) > 0;
+  }
+
+  async get(jobId: string): Promise<Job | undefined> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to fetch job ${jobId}: ${error.message}`);
+    }
+    return data ? toJob(data as JobRow) : undefined;
+  }
+
+  async find(filter: JobFilter): Promise<Job[]> {
+    let query = this.client
+      .from(this.table)
+      .select('*')
+      .order('priority', { ascending: false })
+      .order('created_at', { ascending: true });
+
+    if (filter.ids) {
+      query = query.in('id', filter.ids);
+    }
+    if (filter.userId) {
+      query = query.eq('user_id', filter.userId);
+    }
+    if (filter.status !== undefined) {
+      query = Array.isArray(filter.status)
+        ? query.in('status', filter.status)
+        : query.eq('status', filter.status);
+    }
+    if (filter.type) {
+      query = query.eq('type', filter.type);
+    }
+    if (filter.workerId) {
+      query = query.eq('worker_id', filter.workerId);
+    }
+    if (filter.idempotencyKey) {
+      query = query.eq('idempotency_key', filter.idempotencyKey);
+    }
+    if (filter.limit) {
+      query = query.limit(filter.limit);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to query jobs: ${error.message}`);
+    }
+    return (data as JobRow[]).map(toJob);
+  }
+
+  async claimNext(workerId: string, now: Date): Promise<Job | undefined> {
+    const { data, error } = await this.client.rpc('claim_next_job', {
+      p_worker_id: workerId,
+      p_now: now.toISOString()
+    });
+    if (error) {
+      throw new Error(`Failed to claim job: ${error.message}`);
+    }
+    const rows = (data ?? []) as JobRow[];
+    return rows.length > 0 ? toJob(rows[0]) : undefined;
+  }
+
+  async heartbeat(jobId: string, workerId: string, now: Date): Promise<boolean> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .update({ heartbeat_at: now.toISOString() })
+      .eq('id', jobId)
+      .eq('worker_id', workerId)
+      .eq('status', JobStatus.PROCESSING)
+      .select('id');
+    if (error) {
+      throw new Error(`Failed to heartbeat job ${jobId}: ${error.message}`);
+    }
+    return (data?.length ?? 0) > 0;
+  }
+
+  async reclaimStalled(staleBefore: Date, now: Date): Promise<Job[]> {
+    const { data, error } = await this.client.rpc('reclaim_stalled_jobs', {
+      p_stale_before: staleBefore.toISOString(),
+      p_now: now.toISOString()
+    });
+    if (error) {
+      throw new Error(`Failed to reclaim stalled jobs: ${error.message}`);
+    }
+    return ((data ?? []) as JobRow[]).map(toJob);
+  }
+
+  async countByStatus(): Promise<JobStatusCounts> {
+    const counts = {} as JobStatusCounts;
+    await Promise.all(
+      Object.values(JobStatus).map(async status => {
+        const { count, error } = await this.client
+          .from(this.table)
+          .select('id', { count: 'exact', head: true })
+          .eq('status', status);
+        if (error) {
+          throw new Error(`Failed to count ${status} jobs: ${error.message}`);
+        }
+        counts[status] = count ?? 0;
+      })
+    );
+    return counts;
+  }
+
+  async deleteFinished(before: Date): Promise<number> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .delete()
+      .in('status', [JobStatus.COMPLETED, JobStatus.CANCELLED])
+      .lt('updated_at', before.toISOString())
+      .select('id');
+    if (error) {
+      throw new Error(`Failed to purge finished jobs: ${error.message}`);
+    }
+    return data?.length ?? 0;
+  }
+
+  async delete(jobIds: string[]): Promise<number> {
+    if (jobIds.length === 0) return 0;
+
+    const { data, error } = await this.client
+      .from(this.table)
+      .delete()
+      .in('id', jobIds)
+      .select('id');
+    if (error) {
+      throw new Error(`Failed to delete jobs: ${error.message}`);
+    }
+    return data?.length ?? 0;
+  }
+}
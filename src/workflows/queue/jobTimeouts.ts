@@ -0,0 +1,17 @@
+import { JobType } from '../types';
+import { JOB_CONFIG } from '../../config/constants';
+
+/**
+ * Per-type execution limits. Anything that moves media bytes gets far more
+ * than the default, which is sized for a single API call.
+ */
+export const JOB_TIMEOUTS: Partial<Record<JobType, number>> = {
+  [JobType.UPLOAD_MEDIA]: 30 * 60 * 1000,
+  [JobType.PROCESS_MEDIA]: 30 * 60 * 1000,
+  [JobType.POST_CONTENT]: 10 * 60 * 1000,
+  [JobType.SYNC_PLATFORM]: 5 * 60 * 1000
+};
+
+export function getDefaultJobTimeout(type: JobType): number {
+  return JOB_TIMEOUTS[type] ?? JOB_CONFIG.DEFAULT_JOB_TIMEOUT_MS;
+}
@@ -0,0 +1,53 @@
+import { JobType, RetryPolicy } from '../types';
+import { CONNECTOR_CONFIG, JOB_CONFIG } from '../../config/constants';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: JOB_CONFIG.MAX_JOB_ATTEMPTS,
+  baseDelayMs: CONNECTOR_CONFIG.RETRY_BACKOFF_MS,
+  maxDelayMs: 5 * 60 * 1000,
+  jitterRatio: 0.5
+};
+
+/**
+ * Per-type overrides. Publishing and uploads talk to flaky third-party APIs
+ * and are worth more attempts with longer gaps; metric fetches are cheap to
+ * skip and will be re-scheduled anyway. Webhook receivers get about a day
+ * to recover before a delivery is given up.
+ */
+export const RETRY_POLICIES: Partial<Record<JobType, RetryPolicy>> = {
+  [JobType.POST_CONTENT]: {
+    maxAttempts: 5,
+    baseDelayMs: 30 * 1000,
+    maxDelayMs: 15 * 60 * 1000,
+    jitterRatio: 0.5
+  },
+  [JobType.UPLOAD_MEDIA]: {
+    maxAttempts: 5,
+    baseDelayMs: 10 * 1000,
+    maxDelayMs: 10 * 60 * 1000,
+    jitterRatio: 0.5
+  },
+  [JobType.FETCH_METRICS]: {
+    maxAttempts: 3,
+    baseDelayMs: 60 * 1000,
+    maxDelayMs: 30 * 60 * 1000,
+    jitterRatio: 0.5
+  },
+  [JobType.DELIVER_WEBHOOK]: {
+    maxAttempts: 10,
+    baseDelayMs: 60 * 1000,
+    maxDelayMs: 6 * 60 * 60 * 1000,
+    jitterRatio: 0.2
+  }
+};
+
+/**
+ * Exponential backoff for the given (1-based) attempt number, capped at
+ * `maxDelayMs` and reduced by a random fraction of up to `jitterRatio` so
+ * that jobs failing together don't retry in lockstep.
+ */
+export function computeRetryDelay(policy: RetryPolicy, attempt: number): number {
+  const exponential = policy.baseDelayMs * Math.pow(2, Math.max(0, attempt - 1));
+  const capped = Math.min(exponential, policy.maxDelayMs);
+  return Math.round(capped * (1 - policy.jitterRatio * Math.random()));
+}
@@ -5,7 +5,8 @@ export enum JobType {
   FETCH_METRICS = 'fetch_metrics',
   SYNC_PLATFORM = 'sync_platform',
   PROCESS_MEDIA = 'process_media',
-  DELETE_CONTENT = 'delete_content'
+  DELETE_CONTENT = 'delete_content',
+  DELIVER_WEBHOOK = 'deliver_webhook'
 }
 
 export enum JobStatus {
@@ -42,6 +43,11 @@ export interface Job<T = unknown> {
   error?: string;
   result?: unknown;
   metadata?: Record<string, unknown>;
+  workerId?: string;
+  heartbeatAt?: Date;
+  timeoutMs?: number;
+  /** At most one job exists per key; see `JobStore.insert`. */
+  idempotencyKey?: string;
 }
 
 export interface JobResult<T = unknown> {
@@ -49,10 +55,179 @@ export interface JobResult<T = unknown> {
   data?: T;
   error?: string;
   shouldRetry?: boolean;
+  /**
+   * The platform rejected the call for rate limiting. The job is deferred
+   * (by `retryAfterMs` if given) without counting the attempt.
+   */
+  rateLimited?: boolean;
+  retryAfterMs?: number;
 }
 
 export interface JobHandler<T = unknown, R = unknown> {
-  handle(job: Job<T>): Promise<JobResult<R>>;
+  /**
+   * `signal` is aborted when the job times out, is cancelled, or is reclaimed
+   * by another worker. Long-running handlers should pass it to `fetch` and
+   * stop work promptly once it fires.
+   */
+  handle(job: Job<T>, signal: AbortSignal): Promise<JobResult<R>>;
+  /**
+   * Whether a run aborted by its timeout is retried. Handlers whose work may
+   * already have taken effect on a third party by then set this to false,
+   * and the job goes to the dead-letter queue instead. Defaults to true.
+   */
+  readonly retryOnTimeout?: boolean;
   onSuccess?(job: Job<T>, result: JobResult<R>): Promise<void>;
   onFailure?(job: Job<T>, error: Error): Promise<void>;
 }
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitterRatio: number;
+}
+
+export interface JobFilter {
+  ids?: string[];
+  userId?: string;
+  status?: JobStatus | JobStatus[];
+  type?: JobType;
+  workerId?: string;
+  idempotencyKey?: string;
+  limit?: number;
+}
+
+export type JobStatusCounts = Record<JobStatus, number>;
+
+/**
+ * Persistence backend for JobQueue. Implementations must make `claimNext`
+ * atomic so that several workers can share one store without running the
+ * same job twice.
+ */
+export interface JobStore {
+  /**
+   * Stores a new job and returns it. When a job with the same
+   * `idempotencyKey` already exists, nothing is inserted and that job is
+   * returned instead.
+   */
+  insert(job: Job): Promise<Job>;
+  update(job: Job): Promise<void>;
+  /**
+   * Writes the outcome of a run only while the job is still processing under
+   * `workerId`. Returns false, writing nothing, once it was cancelled or
+   * reclaimed by another worker.
+   */
+  updateOwned(job: Job, workerId: string): Promise<boolean>;
+  get(jobId: string): Promise<Job | undefined>;
+  find(filter: JobFilter): Promise<Job[]>;
+  claimNext(workerId: string, now: Date): Promise<Job | undefined>;
+  /** Returns false when the job is no longer processing under this worker. */
+  heartbeat(jobId: string, workerId: string, now: Date): Promise<boolean>;
+  /**
+   * Releases processing jobs whose last heartbeat is older than `staleBefore`,
+   * moving them to RETRYING or, with no attempts left, FAILED.
+   */
+  reclaimStalled(staleBefore: Date, now: Date): Promise<Job[]>;
+  countByStatus(): Promise<JobStatusCounts>;
+  /** Removes completed and cancelled jobs; failed jobs stay in the dead-letter queue. */
+  deleteFinished(before: Date): Promise<number>;
+  delete(jobIds: string[]): Promise<number>;
+}
+
+export enum WorkflowStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+export enum WorkflowStepStatus {
+  WAITING = 'waiting',
+  QUEUED = 'queued',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  SKIPPED = 'skipped',
+  CANCELLED = 'cancelled'
+}
+
+/**
+ * Maps a field of a step's job data to a value produced earlier in the run.
+ * Paths start with `input.` for the workflow input or `<stepId>.` for the
+ * result of a completed dependency, e.g. `{ mediaUrl: 'process.url' }`.
+ */
+export type WorkflowInputMap = Record<string, string>;
+
+export interface WorkflowStepDefinition {
+  id: string;
+  type: JobType;
+  data?: Record<string, unknown>;
+  inputs?: WorkflowInputMap;
+  dependsOn?: string[];
+  /** Delay after the last dependency completes, e.g. metrics 24h after posting. */
+  delayMs?: number;
+  /** ISO timestamp before which the step's job does not run, e.g. a scheduled post. */
+  notBefore?: string;
+  priority?: JobPriority;
+  connectorId?: string;
+  maxAttempts?: number;
+  timeoutMs?: number;
+  /** Passed to the step's job; see `JobStore.insert`. */
+  idempotencyKey?: string;
+  /** Merged over the run's metadata for this step's job only. */
+  metadata?: Record<string, unknown>;
+  /**
+   * `fail` (default) fails the run, cancels pending steps and compensates
+   * completed ones. `continue` only skips this step's dependents.
+   */
+  onFailure?: 'fail' | 'continue';
+  /** Job enqueued to undo this step if the run fails after it completed. */
+  compensation?: {
+    type: JobType;
+    data?: Record<string, unknown>;
+    inputs?: WorkflowInputMap;
+  };
+}
+
+export interface WorkflowDefinition {
+  name: string;
+  steps: WorkflowStepDefinition[];
+}
+
+export interface WorkflowStepState {
+  stepId: string;
+  status: WorkflowStepStatus;
+  jobId?: string;
+  output?: unknown;
+  error?: string;
+  updatedAt: Date;
+}
+
+export interface WorkflowRun {
+  id: string;
+  name: string;
+  status: WorkflowStatus;
+  userId: string;
+  definition: WorkflowDefinition;
+  input: Record<string, unknown>;
+  steps: Record<string, WorkflowStepState>;
+  metadata?: Record<string, unknown>;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Persistence backend for WorkflowEngine. Conditional updates (`expected`)
+ * let several workers advance the same run without double-enqueuing a step.
+ */
+export interface WorkflowStore {
+  insertRun(run: WorkflowRun): Promise<void>;
+  getRun(runId: string): Promise<WorkflowRun | undefined>;
+  updateRun(
+    runId: string,
+    changes: Partial<Pick<WorkflowRun, 'status' | 'error' | 'completedAt'>>,
+    expected?: WorkflowStatus
+  ): Promise<boolean>;
+  updateStep(runId: string, state: WorkflowStepState, expected?: WorkflowStepStatus): Promise<boolean>;
+}
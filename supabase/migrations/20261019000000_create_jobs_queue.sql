@@ -0,0 +1,86 @@
+/*
+  # Durable Job Queue
+
+  1. New Tables
+    - `jobs`
+      - `id` (text, primary key) - generated by JobQueue
+      - `type` (text) - JobType, e.g. 'post_content', 'fetch_metrics'
+      - `status` (text) - 'pending', 'processing', 'completed', 'failed', 'retrying', 'cancelled'
+      - `priority` (integer) - JobPriority, higher runs first
+      - `data` (jsonb) - handler input
+      - `user_id` (uuid, references user_profiles)
+      - `connector_id` (text)
+      - `attempts` (integer)
+      - `max_attempts` (integer)
+      - `scheduled_for` (timestamptz) - not eligible before this time
+      - `started_at` (timestamptz)
+      - `completed_at` (timestamptz)
+      - `error` (text)
+      - `result` (jsonb)
+      - `metadata` (jsonb)
+      - `worker_id` (text) - worker currently holding the job
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Functions
+    - `claim_next_job(p_worker_id, p_now)` atomically moves the highest
+      priority due job to 'processing' using FOR UPDATE SKIP LOCKED, so any
+      number of workers can poll the same table.
+
+  3. Security
+    - Enable RLS; users can read their own jobs. Workers use the service role.
+*/
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id text PRIMARY KEY,
+  type text NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  priority integer NOT NULL DEFAULT 1,
+  data jsonb DEFAULT '{}'::jsonb,
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  connector_id text,
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 3,
+  scheduled_for timestamptz,
+  started_at timestamptz,
+  completed_at timestamptz,
+  error text,
+  result jsonb,
+  metadata jsonb DEFAULT '{}'::jsonb,
+  worker_id text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_claimable ON jobs(status, priority DESC, created_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_jobs_user ON jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_jobs_worker ON jobs(worker_id) WHERE status = 'processing';
+
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own jobs"
+  ON jobs FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION claim_next_job(p_worker_id text, p_now timestamptz)
+RETURNS SETOF jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE jobs
+  SET status = 'processing',
+      worker_id = p_worker_id,
+      started_at = p_now,
+      updated_at = p_now
+  WHERE id = (
+    SELECT id FROM jobs
+    WHERE status = 'pending'
+      AND (scheduled_for IS NULL OR scheduled_for <= p_now)
+    ORDER BY priority DESC, created_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,37 @@
+/*
+  # Job Retries and Dead-Letter Queue
+
+  1. Changes
+    - `claim_next_job` now also claims 'retrying' jobs once their backoff
+      (`scheduled_for`) has elapsed. Previously only 'pending' jobs were
+      picked up, so retries never ran.
+    - Jobs with status 'failed' form the dead-letter queue. They are no
+      longer purged automatically and are indexed for inspection.
+*/
+
+DROP INDEX IF EXISTS idx_jobs_claimable;
+CREATE INDEX IF NOT EXISTS idx_jobs_claimable ON jobs(priority DESC, created_at)
+  WHERE status IN ('pending', 'retrying');
+CREATE INDEX IF NOT EXISTS idx_jobs_dead_letter ON jobs(type, completed_at DESC)
+  WHERE status = 'failed';
+
+CREATE OR REPLACE FUNCTION claim_next_job(p_worker_id text, p_now timestamptz)
+RETURNS SETOF jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE jobs
+  SET status = 'processing',
+      worker_id = p_worker_id,
+      started_at = p_now,
+      updated_at = p_now
+  WHERE id = (
+    SELECT id FROM jobs
+    WHERE status IN ('pending', 'retrying')
+      AND (scheduled_for IS NULL OR scheduled_for <= p_now)
+    ORDER BY priority DESC, created_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,63 @@
+/*
+  # Job Heartbeats and Timeouts
+
+  1. Changes to `jobs`
+    - `heartbeat_at` (timestamptz) - refreshed by the owning worker while the job runs
+    - `timeout_ms` (integer) - per-job execution limit, NULL uses the type default
+
+  2. Functions
+    - `claim_next_job` stamps `heartbeat_at` when claiming.
+    - `reclaim_stalled_jobs(p_stale_before, p_now)` releases processing jobs
+      whose worker stopped heartbeating: back to 'retrying' while attempts
+      remain, otherwise 'failed' (dead-letter).
+*/
+
+ALTER TABLE jobs
+  ADD COLUMN IF NOT EXISTS heartbeat_at timestamptz,
+  ADD COLUMN IF NOT EXISTS timeout_ms integer;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_heartbeat ON jobs(heartbeat_at)
+  WHERE status = 'processing';
+
+CREATE OR REPLACE FUNCTION claim_next_job(p_worker_id text, p_now timestamptz)
+RETURNS SETOF jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE jobs
+  SET status = 'processing',
+      worker_id = p_worker_id,
+      started_at = p_now,
+      heartbeat_at = p_now,
+      updated_at = p_now
+  WHERE id = (
+    SELECT id FROM jobs
+    WHERE status IN ('pending', 'retrying')
+      AND (scheduled_for IS NULL OR scheduled_for <= p_now)
+    ORDER BY priority DESC, created_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION reclaim_stalled_jobs(p_stale_before timestamptz, p_now timestamptz)
+RETURNS SETOF jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE jobs
+  SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'retrying' END,
+      error = 'Job stalled: worker ' || coalesce(worker_id, 'unknown') || ' stopped heartbeating',
+      worker_id = NULL,
+      scheduled_for = CASE WHEN attempts >= max_attempts THEN scheduled_for ELSE p_now END,
+      completed_at = CASE WHEN attempts >= max_attempts THEN p_now ELSE NULL END,
+      updated_at = p_now
+  WHERE id IN (
+    SELECT id FROM jobs
+    WHERE status = 'processing'
+      AND coalesce(heartbeat_at, started_at, updated_at) < p_stale_before
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
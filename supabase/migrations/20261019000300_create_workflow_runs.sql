@@ -0,0 +1,76 @@
+/*
+  # Workflow Runs
+
+  1. New Tables
+    - `workflow_runs`
+      - `id` (text, primary key) - workflow id shared by every job in the run
+      - `name` (text)
+      - `status` (text) - 'running', 'completed', 'failed', 'cancelled'
+      - `user_id` (uuid, references user_profiles)
+      - `definition` (jsonb) - steps, dependencies and input mappings
+      - `input` (jsonb)
+      - `metadata` (jsonb)
+      - `error` (text)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+      - `completed_at` (timestamptz)
+
+    - `workflow_steps`
+      - `run_id` (text, references workflow_runs)
+      - `step_id` (text)
+      - `status` (text) - 'waiting', 'queued', 'completed', 'failed', 'skipped', 'cancelled'
+      - `job_id` (text) - job currently or last executing the step
+      - `output` (jsonb) - job result, available to dependent steps
+      - `error` (text)
+      - `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS; users can read their own runs. Workers use the service role.
+*/
+
+CREATE TABLE IF NOT EXISTS workflow_runs (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  status text NOT NULL DEFAULT 'running',
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  definition jsonb NOT NULL,
+  input jsonb DEFAULT '{}'::jsonb,
+  metadata jsonb DEFAULT '{}'::jsonb,
+  error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS workflow_steps (
+  run_id text NOT NULL REFERENCES workflow_runs(id) ON DELETE CASCADE,
+  step_id text NOT NULL,
+  status text NOT NULL DEFAULT 'waiting',
+  job_id text,
+  output jsonb,
+  error text,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (run_id, step_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_user ON workflow_runs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_status ON workflow_runs(status);
+
+ALTER TABLE workflow_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workflow_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own workflow runs"
+  ON workflow_runs FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can read steps of own workflow runs"
+  ON workflow_steps FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM workflow_runs
+      WHERE workflow_runs.id = workflow_steps.run_id
+      AND workflow_runs.user_id = auth.uid()
+    )
+  );
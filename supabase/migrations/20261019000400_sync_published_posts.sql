@@ -0,0 +1,39 @@
+/*
+  # Platform Sync for Published Posts
+
+  1. Modified Tables
+    - `published_posts`
+      - `content_id` is now nullable: posts created directly on a platform
+        are synced without a matching content row
+      - `platform_data` (jsonb) - caption, media type and metrics as last
+        reported by the platform
+      - `synced_at` (timestamptz) - last time the post was seen by a sync
+      - unique (connector_id, platform_post_id) so syncs can upsert
+
+  2. Security
+    - Workspace members can read synced posts of their workspace's
+      connectors that have no content row
+*/
+
+ALTER TABLE published_posts ALTER COLUMN content_id DROP NOT NULL;
+
+ALTER TABLE published_posts ADD COLUMN IF NOT EXISTS platform_data jsonb DEFAULT '{}'::jsonb;
+ALTER TABLE published_posts ADD COLUMN IF NOT EXISTS synced_at timestamptz;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_published_posts_connector_platform_post
+  ON published_posts(connector_id, platform_post_id);
+
+CREATE INDEX IF NOT EXISTS idx_published_posts_content ON published_posts(content_id);
+
+CREATE POLICY "Workspace members can read synced posts"
+  ON published_posts FOR SELECT
+  TO authenticated
+  USING (
+    content_id IS NULL
+    AND EXISTS (
+      SELECT 1 FROM connectors c
+      JOIN workspace_members wm ON wm.workspace_id = c.workspace_id
+      WHERE c.id = published_posts.connector_id
+      AND wm.user_id = auth.uid()
+    )
+  );
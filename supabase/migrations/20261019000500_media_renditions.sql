@@ -0,0 +1,18 @@
+/*
+  # Media Renditions
+
+  1. Modified Tables
+    - `media`
+      - `source_media_id` (uuid, references media) - original file a
+        processed rendition or poster frame was derived from
+      - `rendition` (text) - kind of derived file, e.g. 'instagram' or
+        'instagram_poster'; null for originals
+
+  2. Notes
+    - Renditions are removed together with their original.
+*/
+
+ALTER TABLE media ADD COLUMN IF NOT EXISTS source_media_id uuid REFERENCES media(id) ON DELETE CASCADE;
+ALTER TABLE media ADD COLUMN IF NOT EXISTS rendition text;
+
+CREATE INDEX IF NOT EXISTS idx_media_source ON media(source_media_id);
@@ -0,0 +1,24 @@
+/*
+  # Content-Addressed Media Deduplication
+
+  1. Modified Tables
+    - `media`
+      - `content_hash` (text) - hex SHA-256 of the stored bytes; identical
+        uploads within a workspace share one row and one storage object
+      - `deleted_at` (timestamptz) - set when a file is deleted from the
+        library while content still references it; the object is removed
+        once the last `content_media` reference is released
+
+  2. Indexes
+    - unique (workspace_id, content_hash)
+    - content_media(media_id) for reference counting
+*/
+
+ALTER TABLE media ADD COLUMN IF NOT EXISTS content_hash text;
+ALTER TABLE media ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_media_workspace_content_hash
+  ON media(workspace_id, content_hash)
+  WHERE content_hash IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_content_media_media ON content_media(media_id);
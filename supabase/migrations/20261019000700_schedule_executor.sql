@@ -0,0 +1,116 @@
+/*
+  # Server-side Schedule Executor
+
+  1. Changes to `schedules`
+    - `claimed_by` (text) - executor currently queuing the schedule's jobs;
+      cleared once every platform has a job
+    - `claimed_at` (timestamptz)
+    - `attempts` (integer) - number of times the schedule was claimed
+    - `outcomes` (jsonb) - per platform: `{ status, jobId, postId, url, error }`
+      where status is 'queued', 'published' or 'failed'
+    - `completed_at` (timestamptz)
+    - status gains 'partially_published'
+
+  2. Functions
+    - `claim_due_schedules(p_worker_id, p_now, p_stale_before, p_limit)`
+      moves due pending schedules to 'publishing' using FOR UPDATE SKIP
+      LOCKED, so several executors can poll at once. Schedules whose claim
+      is older than `p_stale_before` (the executor died while queuing) are
+      claimed again.
+    - `record_schedule_outcome(p_schedule_id, p_platform, p_outcome, p_now)`
+      stores one platform's outcome under a row lock and, once every
+      platform has a final outcome, moves the schedule to 'published',
+      'partially_published' or 'failed'.
+*/
+
+ALTER TABLE schedules
+  ADD COLUMN IF NOT EXISTS claimed_by text,
+  ADD COLUMN IF NOT EXISTS claimed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS outcomes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS completed_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_schedules_due ON schedules(scheduled_for)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_schedules_claimed ON schedules(claimed_at)
+  WHERE status = 'publishing' AND claimed_by IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION claim_due_schedules(
+  p_worker_id text,
+  p_now timestamptz,
+  p_stale_before timestamptz,
+  p_limit integer
+)
+RETURNS SETOF schedules AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE schedules
+  SET status = 'publishing',
+      claimed_by = p_worker_id,
+      claimed_at = p_now,
+      attempts = attempts + 1,
+      updated_at = p_now
+  WHERE id IN (
+    SELECT id FROM schedules
+    WHERE (status = 'pending' AND scheduled_for <= p_now)
+       OR (status = 'publishing' AND claimed_by IS NOT NULL AND claimed_at < p_stale_before)
+    ORDER BY scheduled_for ASC
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_schedule_outcome(
+  p_schedule_id uuid,
+  p_platform text,
+  p_outcome jsonb,
+  p_now timestamptz
+)
+RETURNS SETOF schedules AS $$
+DECLARE
+  v_schedule schedules;
+  v_published integer;
+  v_failed integer;
+BEGIN
+  SELECT * INTO v_schedule FROM schedules WHERE id = p_schedule_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- A late 'queued' must not overwrite an outcome the job already reported.
+  IF p_outcome->>'status' = 'queued'
+     AND v_schedule.outcomes->p_platform->>'status' IN ('published', 'failed') THEN
+    RETURN NEXT v_schedule;
+    RETURN;
+  END IF;
+
+  v_schedule.outcomes := v_schedule.outcomes || jsonb_build_object(p_platform, p_outcome);
+
+  SELECT
+    count(*) FILTER (WHERE v_schedule.outcomes->p->>'status' = 'published'),
+    count(*) FILTER (WHERE v_schedule.outcomes->p->>'status' = 'failed')
+  INTO v_published, v_failed
+  FROM unnest(v_schedule.platforms) AS p;
+
+  IF v_schedule.status = 'publishing'
+     AND v_published + v_failed = coalesce(array_length(v_schedule.platforms, 1), 0) THEN
+    v_schedule.status := CASE
+      WHEN v_failed = 0 THEN 'published'
+      WHEN v_published = 0 THEN 'failed'
+      ELSE 'partially_published'
+    END;
+    v_schedule.completed_at := p_now;
+  END IF;
+
+  RETURN QUERY
+  UPDATE schedules
+  SET outcomes = v_schedule.outcomes,
+      status = v_schedule.status,
+      completed_at = v_schedule.completed_at,
+      updated_at = p_now
+  WHERE id = p_schedule_id
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,85 @@
+/*
+  # Per-platform Publication Status
+
+  1. Changes to `published_posts`
+    - `status` follows queued -> uploading -> published | failed; failed
+      posts go back to queued when retried. Default is now 'queued' and
+      legacy 'pending' / 'retrying' rows are migrated to it.
+    - `published_at` no longer defaults to now(); it is set when the
+      platform confirms the post
+    - `error` (text) - last failure reported by the connector
+    - `updated_at` (timestamptz)
+
+  2. Triggers
+    - `refresh_content_publication_status` derives `content.status` from all
+      non-deleted platform rows whenever one changes status:
+      'published' (all published), 'failed' (all failed),
+      'partially_published' (all settled, some failed) or 'publishing'.
+      Content that is still 'scheduled' stays so until a job starts.
+*/
+
+ALTER TABLE published_posts ALTER COLUMN status SET DEFAULT 'queued';
+ALTER TABLE published_posts ALTER COLUMN published_at DROP DEFAULT;
+ALTER TABLE published_posts ADD COLUMN IF NOT EXISTS error text;
+ALTER TABLE published_posts ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+UPDATE published_posts SET status = 'queued' WHERE status IN ('pending', 'retrying');
+
+CREATE OR REPLACE FUNCTION refresh_content_publication_status()
+RETURNS trigger AS $$
+DECLARE
+  v_current text;
+  v_total integer;
+  v_queued integer;
+  v_published integer;
+  v_failed integer;
+  v_status text;
+BEGIN
+  IF NEW.content_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Locking the content row serialises outcomes reported at the same time
+  -- by different workers.
+  SELECT status INTO v_current FROM content WHERE id = NEW.content_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE status = 'queued'),
+    count(*) FILTER (WHERE status = 'published'),
+    count(*) FILTER (WHERE status = 'failed')
+  INTO v_total, v_queued, v_published, v_failed
+  FROM published_posts
+  WHERE content_id = NEW.content_id AND status <> 'deleted';
+
+  IF v_total = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  v_status := CASE
+    WHEN v_published = v_total THEN 'published'
+    WHEN v_failed = v_total THEN 'failed'
+    WHEN v_published + v_failed = v_total THEN 'partially_published'
+    WHEN v_current = 'scheduled' AND v_queued = v_total THEN 'scheduled'
+    ELSE 'publishing'
+  END;
+
+  UPDATE content
+  SET status = v_status,
+      published_at = CASE WHEN v_published > 0 THEN coalesce(published_at, now()) ELSE published_at END,
+      updated_at = now()
+  WHERE id = NEW.content_id
+    AND (status IS DISTINCT FROM v_status OR (v_published > 0 AND published_at IS NULL));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS published_posts_refresh_content_status ON published_posts;
+CREATE TRIGGER published_posts_refresh_content_status
+  AFTER INSERT OR UPDATE OF status ON published_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_content_publication_status();
@@ -0,0 +1,33 @@
+/*
+  # Envelope Encryption for Connector Credentials
+
+  1. New Tables
+    - `workspace_data_keys`
+      - `id` (uuid, primary key) - referenced from each ciphertext
+      - `workspace_id` (uuid, unique, references workspaces)
+      - `wrapped_key` (text) - AES-256-GCM data key encrypted with a master key
+      - `master_key_id` (text) - fingerprint of the wrapping master key
+      - `created_at`, `rotated_at` (timestamptz)
+
+  2. Changes to `connectors`
+    - `access_token` and `refresh_token` now hold
+      `enc:v1:<data key id>:<iv>:<ciphertext>`; existing plaintext values are
+      encrypted by `npm run rotate-credential-keys`
+
+  3. Security
+    - RLS enabled with no policies: data keys are only readable with the
+      service role, which workers and server functions use
+*/
+
+CREATE TABLE IF NOT EXISTS workspace_data_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid NOT NULL UNIQUE REFERENCES workspaces(id) ON DELETE CASCADE,
+  wrapped_key text NOT NULL,
+  master_key_id text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  rotated_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_data_keys_master_key ON workspace_data_keys(master_key_id);
+
+ALTER TABLE workspace_data_keys ENABLE ROW LEVEL SECURITY;
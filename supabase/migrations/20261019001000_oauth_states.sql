@@ -0,0 +1,39 @@
+/*
+  # OAuth Authorization State
+
+  1. New Tables
+    - `oauth_states`
+      - `nonce` (text, primary key) - the nonce carried in the signed `state`
+      - `user_id` (uuid, references user_profiles) - user who started the flow
+      - `workspace_id` (uuid, references workspaces) - workspace being connected
+      - `platform` (text)
+      - `redirect_url` (text) - where the user returns once connected
+      - `callback_url` (text) - the `redirect_uri` sent to the provider, which
+        the token exchange has to repeat
+      - `code_verifier` (text) - PKCE verifier; never leaves the server
+      - `expires_at` (timestamptz)
+      - `consumed_at` (timestamptz) - set by the callback; a consumed nonce
+        is never accepted again
+      - `created_at` (timestamptz)
+
+  2. Security
+    - RLS enabled with no policies: only server functions (service role)
+      issue and consume states
+*/
+
+CREATE TABLE IF NOT EXISTS oauth_states (
+  nonce text PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  platform text NOT NULL,
+  redirect_url text NOT NULL,
+  callback_url text NOT NULL,
+  code_verifier text,
+  expires_at timestamptz NOT NULL,
+  consumed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_oauth_states_expires_at ON oauth_states(expires_at);
+
+ALTER TABLE oauth_states ENABLE ROW LEVEL SECURITY;
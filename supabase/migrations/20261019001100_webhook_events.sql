@@ -0,0 +1,37 @@
+/*
+  # Inbound Webhook Events
+
+  1. New Tables
+    - `webhook_events`
+      - `platform` (text)
+      - `event_id` (text) - the provider's event id, or a digest of the
+        delivery when the provider has none
+      - `event_type` (text)
+      - `status` (text) - `processing` while a handler holds the claim,
+        `processed` once it succeeded
+      - `claimed_at` (timestamptz) - a `processing` claim older than the lease
+        may be taken over by a redelivery
+      - `processed_at` (timestamptz)
+      - `received_at` (timestamptz)
+      - Primary key (`platform`, `event_id`): redeliveries collide on insert,
+        so each event is processed once
+
+  2. Security
+    - RLS enabled with no policies: only the webhook functions (service
+      role) read and write events
+*/
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+  platform text NOT NULL,
+  event_id text NOT NULL,
+  event_type text NOT NULL,
+  status text NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed')),
+  claimed_at timestamptz NOT NULL DEFAULT now(),
+  processed_at timestamptz,
+  received_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (platform, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_received_at ON webhook_events(received_at);
+
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
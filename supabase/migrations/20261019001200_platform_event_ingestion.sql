@@ -0,0 +1,49 @@
+/*
+  # Webhook-driven Post Metrics
+
+  1. Functions
+    - `apply_post_metrics(p_post_id, p_metrics, p_increments)` merges counters
+      reported by platform webhooks into `published_posts.platform_data.metrics`
+      under a row lock: `p_metrics` overwrites absolute values (e.g. story
+      impressions) and `p_increments` adds deltas (e.g. one new comment), so
+      concurrent deliveries do not lose updates. Returns the merged metrics,
+      or null if the post does not exist.
+*/
+
+CREATE OR REPLACE FUNCTION apply_post_metrics(
+  p_post_id uuid,
+  p_metrics jsonb DEFAULT '{}'::jsonb,
+  p_increments jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_metrics jsonb;
+  v_key text;
+  v_delta jsonb;
+BEGIN
+  SELECT coalesce(platform_data->'metrics', '{}'::jsonb) || coalesce(p_metrics, '{}'::jsonb)
+  INTO v_metrics
+  FROM published_posts
+  WHERE id = p_post_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_key, v_delta IN SELECT * FROM jsonb_each(coalesce(p_increments, '{}'::jsonb)) LOOP
+    v_metrics := jsonb_set(
+      v_metrics,
+      ARRAY[v_key],
+      to_jsonb(coalesce((v_metrics->>v_key)::numeric, 0) + (v_delta #>> '{}')::numeric)
+    );
+  END LOOP;
+
+  UPDATE published_posts
+  SET platform_data = jsonb_set(coalesce(platform_data, '{}'::jsonb), '{metrics}', v_metrics),
+      updated_at = now()
+  WHERE id = p_post_id;
+
+  RETURN v_metrics;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,348 @@
+/*
+  # Outbound Webhooks
+
+  1. New Tables
+    - `webhook_endpoints` - URLs a workspace subscribed to events
+      - `workspace_id` (uuid, references workspaces)
+      - `url` (text)
+      - `description` (text)
+      - `events` (text[]) - event types to deliver; empty means all
+      - `secret` (text) - signing secret, encrypted by the credential vault
+      - `is_active` (boolean)
+      - `created_by` (uuid, references user_profiles) - deliveries run as
+        this user's jobs
+    - `webhook_outbox` - events waiting to be fanned out to endpoints
+      - `event` (text), `payload` (jsonb), `occurred_at` (timestamptz)
+      - `dispatched_at` (timestamptz) - set once deliveries were created
+    - `webhook_deliveries` - one event sent to one endpoint
+      - `event_id` (uuid) - the outbox event; identical for redeliveries, so
+        receivers can deduplicate on it
+      - `status` (text) - pending, retrying, succeeded, failed or cancelled
+      - `job_id` (text) - the DELIVER_WEBHOOK job sending it
+      - `attempts`, `last_status_code`, `last_error`, `last_attempt_at`,
+        `delivered_at`
+      - `redelivery_of` (uuid) - the delivery this one was created to repeat
+    - `webhook_delivery_attempts` - every HTTP attempt with its response
+      code, a truncated response body and the duration
+
+  2. Functions
+    - `enqueue_webhook_event(p_workspace_id, p_event, p_payload)` adds an
+      event to the outbox if an active endpoint of the workspace wants it.
+      Only triggers and the service role may call it.
+    - `dispatch_webhook_events(p_limit)` claims undispatched outbox events
+      with FOR UPDATE SKIP LOCKED and creates their deliveries in the same
+      statement; returns the number of deliveries created
+
+  3. Triggers (event sources)
+    - `published_posts` status -> published / failed: content.published,
+      content.failed
+    - `schedules` insert: content.scheduled
+    - `connectors` status -> connected / disconnected / expired / error,
+      or delete: connector.connected, connector.disconnected, connector.error
+    - `workspace_members` insert / delete: member.invited, member.removed
+    - analytics.updated is emitted by the application. workspace.created
+      has no trigger: endpoints belong to a workspace, so none can exist
+      when it is created.
+
+  4. Security
+    - Workspace owners and admins can read their endpoints, deliveries and
+      attempts; all writes go through server functions (service role)
+*/
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  url text NOT NULL,
+  description text,
+  events text[] NOT NULL DEFAULT ARRAY[]::text[],
+  secret text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid NOT NULL REFERENCES user_profiles(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- No foreign key on workspace_id: members and connectors removed while their
+-- workspace is deleted still fire the triggers below.
+CREATE TABLE IF NOT EXISTS webhook_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid NOT NULL,
+  event text NOT NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  dispatched_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id uuid NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  event_id uuid NOT NULL,
+  event text NOT NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  occurred_at timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'retrying', 'succeeded', 'failed', 'cancelled')),
+  job_id text,
+  attempts integer NOT NULL DEFAULT 0,
+  last_status_code integer,
+  last_error text,
+  last_attempt_at timestamptz,
+  delivered_at timestamptz,
+  redelivery_of uuid REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS webhook_delivery_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id uuid NOT NULL REFERENCES webhook_deliveries(id) ON DELETE CASCADE,
+  attempt integer NOT NULL,
+  status_code integer,
+  response_body text,
+  error text,
+  duration_ms integer,
+  attempted_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_workspace ON webhook_endpoints(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_outbox_pending ON webhook_outbox(occurred_at)
+  WHERE dispatched_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_unqueued ON webhook_deliveries(created_at)
+  WHERE job_id IS NULL AND status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_delivery_attempts_delivery ON webhook_delivery_attempts(delivery_id);
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_outbox ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_delivery_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Workspace admins can read webhook endpoints"
+  ON webhook_endpoints FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM workspace_members wm
+      WHERE wm.workspace_id = webhook_endpoints.workspace_id
+      AND wm.user_id = auth.uid()
+      AND wm.role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Workspace admins can read webhook deliveries"
+  ON webhook_deliveries FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM workspace_members wm
+      WHERE wm.workspace_id = webhook_deliveries.workspace_id
+      AND wm.user_id = auth.uid()
+      AND wm.role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Workspace admins can read webhook delivery attempts"
+  ON webhook_delivery_attempts FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM webhook_deliveries d
+      JOIN workspace_members wm ON wm.workspace_id = d.workspace_id
+      WHERE d.id = webhook_delivery_attempts.delivery_id
+      AND wm.user_id = auth.uid()
+      AND wm.role IN ('owner', 'admin')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(
+  p_workspace_id uuid,
+  p_event text,
+  p_payload jsonb
+)
+RETURNS void AS $$
+BEGIN
+  IF p_workspace_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM webhook_endpoints
+    WHERE workspace_id = p_workspace_id
+      AND is_active
+      AND (cardinality(events) = 0 OR p_event = ANY(events))
+  ) THEN
+    INSERT INTO webhook_outbox (workspace_id, event, payload)
+    VALUES (p_workspace_id, p_event, coalesce(p_payload, '{}'::jsonb));
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION enqueue_webhook_event(uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION dispatch_webhook_events(p_limit integer)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  WITH claimed AS (
+    UPDATE webhook_outbox
+    SET dispatched_at = now()
+    WHERE id IN (
+      SELECT id FROM webhook_outbox
+      WHERE dispatched_at IS NULL
+      ORDER BY occurred_at ASC
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  ),
+  created AS (
+    INSERT INTO webhook_deliveries (endpoint_id, workspace_id, event_id, event, payload, occurred_at)
+    SELECT e.id, c.workspace_id, c.id, c.event, c.payload, c.occurred_at
+    FROM claimed c
+    JOIN webhook_endpoints e
+      ON e.workspace_id = c.workspace_id
+      AND e.is_active
+      AND (cardinality(e.events) = 0 OR c.event = ANY(e.events))
+    RETURNING id
+  )
+  SELECT count(*) INTO v_count FROM created;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION dispatch_webhook_events(integer) FROM PUBLIC, anon, authenticated;
+
+-- Event sources
+
+CREATE OR REPLACE FUNCTION webhook_published_post_status()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.content_id IS NULL
+    OR NEW.status NOT IN ('published', 'failed')
+    OR NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM enqueue_webhook_event(
+    (SELECT workspace_id FROM connectors WHERE id = NEW.connector_id),
+    CASE NEW.status WHEN 'published' THEN 'content.published' ELSE 'content.failed' END,
+    jsonb_build_object(
+      'content_id', NEW.content_id,
+      'published_post_id', NEW.id,
+      'platform', NEW.platform,
+      'platform_post_id', NEW.platform_post_id,
+      'url', NEW.url,
+      'error', NEW.error
+    )
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS published_posts_webhook_events ON published_posts;
+CREATE TRIGGER published_posts_webhook_events
+  AFTER UPDATE OF status ON published_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION webhook_published_post_status();
+
+CREATE OR REPLACE FUNCTION webhook_schedule_created()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM enqueue_webhook_event(
+    NEW.workspace_id,
+    'content.scheduled',
+    jsonb_build_object(
+      'schedule_id', NEW.id,
+      'content_id', NEW.content_id,
+      'scheduled_for', NEW.scheduled_for,
+      'timezone', NEW.timezone,
+      'platforms', to_jsonb(NEW.platforms),
+      'created_by', NEW.created_by
+    )
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS schedules_webhook_events ON schedules;
+CREATE TRIGGER schedules_webhook_events
+  AFTER INSERT ON schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION webhook_schedule_created();
+
+CREATE OR REPLACE FUNCTION webhook_connector_status()
+RETURNS trigger AS $$
+DECLARE
+  v_row connectors%ROWTYPE;
+  v_event text;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := OLD;
+    v_event := CASE WHEN OLD.status = 'connected' THEN 'connector.disconnected' END;
+  ELSE
+    v_row := NEW;
+    IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+      RETURN NEW;
+    END IF;
+    v_event := CASE NEW.status
+      WHEN 'connected' THEN 'connector.connected'
+      WHEN 'disconnected' THEN 'connector.disconnected'
+      WHEN 'expired' THEN 'connector.error'
+      WHEN 'error' THEN 'connector.error'
+    END;
+  END IF;
+
+  IF v_event IS NOT NULL THEN
+    PERFORM enqueue_webhook_event(
+      v_row.workspace_id,
+      v_event,
+      jsonb_build_object(
+        'connector_id', v_row.id,
+        'platform', v_row.platform,
+        'platform_user_id', v_row.platform_user_id,
+        'status', CASE WHEN TG_OP = 'DELETE' THEN 'disconnected' ELSE v_row.status END
+      )
+    );
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS connectors_webhook_events ON connectors;
+CREATE TRIGGER connectors_webhook_events
+  AFTER INSERT OR UPDATE OF status OR DELETE ON connectors
+  FOR EACH ROW
+  EXECUTE FUNCTION webhook_connector_status();
+
+CREATE OR REPLACE FUNCTION webhook_member_change()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM enqueue_webhook_event(
+      NEW.workspace_id,
+      'member.invited',
+      jsonb_build_object('user_id', NEW.user_id, 'role', NEW.role, 'invited_by', NEW.invited_by)
+    );
+    RETURN NEW;
+  END IF;
+
+  PERFORM enqueue_webhook_event(
+    OLD.workspace_id,
+    'member.removed',
+    jsonb_build_object('user_id', OLD.user_id, 'role', OLD.role)
+  );
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS workspace_members_webhook_events ON workspace_members;
+CREATE TRIGGER workspace_members_webhook_events
+  AFTER INSERT OR DELETE ON workspace_members
+  FOR EACH ROW
+  EXECUTE FUNCTION webhook_member_change();
@@ -0,0 +1,18 @@
+/*
+  # Job Idempotency Keys
+
+  1. Changes to `jobs`
+    - `idempotency_key` (text) - optional caller-chosen key; at most one job
+      exists per key, so a producer that retries after a crash (e.g. the
+      schedule executor, keyed by schedule and platform) cannot queue the
+      same work twice
+
+  2. Indexes
+    - unique (idempotency_key) where set
+*/
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS idempotency_key text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_idempotency_key
+  ON jobs(idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
@@ -2,7 +2,7 @@ import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
 // https://vitejs.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
   optimizeDeps: {
     exclude: ['lucide-react'],
@@ -16,8 +16,11 @@ export default defineConfig({
         drop_debugger: true,
       },
     },
-    // Chunk splitting for better caching
-    rollupOptions: {
+    // The worker bundle (npm run worker:build) needs no static assets
+    copyPublicDir: !isSsrBuild,
+    // Chunk splitting for better caching; the worker bundle keeps
+    // dependencies external, so there is nothing to split
+    rollupOptions: isSsrBuild ? {} : {
       output: {
         manualChunks: {
           'react-vendor': ['react', 'react-dom'],
@@ -44,4 +47,4 @@ export default defineConfig({
     strictPort: false,
     host: true,
   },
-});
+}));